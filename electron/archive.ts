@@ -0,0 +1,337 @@
+import { app, ipcMain } from 'electron';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import type { ArchiveRecord, ArchiveQuery, ArchiveHit, ArchivedSession } from './archiveTypes';
+
+// ═══════════════════════════════════════════════════════════
+// Chat Archive — persistent local copy of every finalized message
+//
+// One JSONL file per session under userData/chat-archive/<profile>/ —
+// the same session key (agent:main:main) exists on every gateway.
+// Writes are append-only (upserts append a newer line; last line wins)
+// and a file is compacted on load once it holds too many stale lines.
+// Everything is loaded into memory on first use — search is a linear
+// scan, which stays fast well past 100k messages.
+// ═══════════════════════════════════════════════════════════
+
+/** A gateway-id record that absorbed a provisional copy keeps its id in `replaces` */
+interface StoredRecord extends ArchiveRecord {
+  replaces?: string;
+}
+
+interface SessionArchive {
+  profileId: string;
+  sessionKey: string;
+  records: Map<string, StoredRecord>;
+  /** role + content hash → ids, to pair the live and history copies of one message */
+  signatures: Map<string, string[]>;
+  /** Provisional id → the gateway id it was folded into */
+  aliases: Map<string, string>;
+  /** Lines in the file (including superseded ones) */
+  lines: number;
+}
+
+const ARCHIVE_DIR = path.join(app.getPath('userData'), 'chat-archive');
+/**
+ * Files written before the archive knew about profiles sit directly in
+ * ARCHIVE_DIR. They came from the single pre-profile gateway, which the
+ * profile migration in main.ts turns into the "default" profile.
+ */
+const LEGACY_PROFILE_ID = 'default';
+// A live copy and its history copy are stamped a little apart — only pair
+// them when they are this close
+const PAIR_WINDOW_MS = 15 * 60 * 1000;
+
+const sessions = new Map<string, SessionArchive>();
+let loaded = false;
+
+const dirFor = (profileId: string) => path.join(ARCHIVE_DIR, encodeURIComponent(profileId));
+const fileFor = (s: { profileId: string; sessionKey: string }) =>
+  path.join(dirFor(s.profileId), `${encodeURIComponent(s.sessionKey)}.jsonl`);
+const archiveKey = (profileId: string, sessionKey: string) => `${profileId}\u0000${sessionKey}`;
+
+function signatureOf(r: ArchiveRecord): string {
+  const body = `${r.content}\u0000${r.toolName || ''}\u0000${r.toolOutput || ''}`;
+  return `${r.role}:${crypto.createHash('sha1').update(body).digest('hex')}`;
+}
+
+function sessionOf(profileId: string, sessionKey: string): SessionArchive {
+  const key = archiveKey(profileId, sessionKey);
+  let s = sessions.get(key);
+  if (!s) {
+    s = { profileId, sessionKey, records: new Map(), signatures: new Map(), aliases: new Map(), lines: 0 };
+    sessions.set(key, s);
+  }
+  return s;
+}
+
+/** Put a record in memory as-is (file replay, or the result of upsert) */
+function restore(s: SessionArchive, r: StoredRecord): void {
+  if (r.replaces) {
+    s.records.delete(r.replaces);
+    s.aliases.set(r.replaces, r.id);
+  }
+  s.records.set(r.id, r);
+  const sig = signatureOf(r);
+  const ids = s.signatures.get(sig) || [];
+  if (!ids.includes(r.id)) s.signatures.set(sig, [...ids, r.id]);
+}
+
+/**
+ * The other copy of this message, if any: same role and content, one side
+ * provisional and the other from the gateway, neither already paired, and
+ * the closest in time within PAIR_WINDOW_MS. Two messages with gateway ids
+ * are never folded — repeated "yes" or "ok" replies all stay in the archive.
+ */
+function pairFor(s: SessionArchive, incoming: ArchiveRecord): StoredRecord | undefined {
+  const at = Date.parse(incoming.timestamp);
+  let best: StoredRecord | undefined;
+  let bestGap = PAIR_WINDOW_MS;
+  for (const id of s.signatures.get(signatureOf(incoming)) || []) {
+    const r = s.records.get(id);
+    if (!r || !!r.provisional === !!incoming.provisional) continue;
+    if (!r.provisional && r.replaces) continue;
+    const gap = Math.abs(Date.parse(r.timestamp) - at);
+    if (gap < bestGap) { best = r; bestGap = gap; }
+  }
+  return best;
+}
+
+/** Insert or merge one record in memory. Returns the stored record, or null when unchanged. */
+function upsert(s: SessionArchive, incoming: ArchiveRecord): StoredRecord | null {
+  const id = s.aliases.get(incoming.id) ?? incoming.id;
+  let existing = s.records.get(id);
+  let merged: StoredRecord;
+
+  if (existing) {
+    merged = { ...existing, ...stripEmpty(incoming), id, timestamp: existing.timestamp };
+    if (existing.provisional) merged.provisional = true;
+    else delete merged.provisional;
+  } else {
+    const pair = pairFor(s, incoming);
+    if (!pair) {
+      merged = { ...incoming };
+    } else if (pair.provisional) {
+      // The gateway's copy arrived — it takes over under its own id and time
+      existing = pair;
+      merged = { ...pair, ...stripEmpty(incoming), id: incoming.id, timestamp: incoming.timestamp, replaces: pair.id };
+      delete merged.provisional;
+    } else {
+      // A late live copy of a message already archived from history
+      existing = pair;
+      merged = { ...pair, ...stripEmpty(incoming), id: pair.id, timestamp: pair.timestamp, replaces: incoming.id };
+      delete merged.provisional;
+    }
+  }
+  if (existing && existing.id === merged.id && JSON.stringify(existing) === JSON.stringify(merged)) return null;
+
+  restore(s, merged);
+  return merged;
+}
+
+/** Drop empty fields so a sparse update doesn't erase archived data */
+function stripEmpty(r: ArchiveRecord): Partial<ArchiveRecord> {
+  const out: Record<string, any> = {};
+  for (const [k, v] of Object.entries(r)) {
+    if (v === undefined || v === null || v === '') continue;
+    if (Array.isArray(v) && v.length === 0) continue;
+    out[k] = v;
+  }
+  return out;
+}
+
+// ── Load / compact ───────────────────────────────────────
+
+/** Move pre-profile files into the legacy profile's directory (appending if both exist) */
+function migrateLegacyFiles(): void {
+  const legacy = fs.readdirSync(ARCHIVE_DIR).filter((f) => f.endsWith('.jsonl'));
+  if (legacy.length === 0) return;
+  const dir = dirFor(LEGACY_PROFILE_ID);
+  fs.mkdirSync(dir, { recursive: true });
+  for (const file of legacy) {
+    const from = path.join(ARCHIVE_DIR, file);
+    const to = path.join(dir, file);
+    if (fs.existsSync(to)) {
+      fs.appendFileSync(to, fs.readFileSync(from, 'utf-8'), 'utf-8');
+      fs.rmSync(from, { force: true });
+    } else {
+      fs.renameSync(from, to);
+    }
+  }
+  console.log(`[Archive] Moved ${legacy.length} pre-profile session(s) to profile "${LEGACY_PROFILE_ID}"`);
+}
+
+function loadSessionFile(profileId: string, file: string): void {
+  const s = sessionOf(profileId, decodeURIComponent(file.slice(0, -'.jsonl'.length)));
+  const raw = fs.readFileSync(path.join(dirFor(profileId), file), 'utf-8');
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      // Pre-profile lines have no profileId — the file's directory says it
+      restore(s, { ...JSON.parse(line), profileId });
+      s.lines++;
+    } catch { /* skip a torn line from a crash mid-write */ }
+  }
+  if (s.lines > s.records.size * 1.5 + 50) compact(s);
+}
+
+function loadAll(): void {
+  if (loaded) return;
+  loaded = true;
+  try {
+    fs.mkdirSync(ARCHIVE_DIR, { recursive: true });
+    migrateLegacyFiles();
+    for (const entry of fs.readdirSync(ARCHIVE_DIR, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const profileId = decodeURIComponent(entry.name);
+      for (const file of fs.readdirSync(dirFor(profileId))) {
+        if (file.endsWith('.jsonl')) loadSessionFile(profileId, file);
+      }
+    }
+    console.log(`[Archive] Loaded ${sessions.size} session(s) from ${ARCHIVE_DIR}`);
+  } catch (err: any) {
+    console.error('[Archive] Load failed:', err.message);
+  }
+}
+
+function compact(s: SessionArchive): void {
+  const file = fileFor(s);
+  const tmp = `${file}.tmp`;
+  const body = [...s.records.values()].map((r) => JSON.stringify(r)).join('\n') + '\n';
+  fs.writeFileSync(tmp, body, 'utf-8');
+  fs.renameSync(tmp, file);
+  s.lines = s.records.size;
+}
+
+// ── Public operations ────────────────────────────────────
+
+export function appendRecords(records: ArchiveRecord[]): number {
+  loadAll();
+  const bySession = new Map<SessionArchive, string[]>();
+  for (const r of records) {
+    if (!r?.profileId || !r.sessionKey || !r.id || !r.role) continue;
+    const s = sessionOf(r.profileId, r.sessionKey);
+    const stored = upsert(s, r);
+    if (!stored) continue;
+    const lines = bySession.get(s) || [];
+    lines.push(JSON.stringify(stored));
+    bySession.set(s, lines);
+  }
+
+  let written = 0;
+  for (const [s, lines] of bySession) {
+    try {
+      fs.mkdirSync(dirFor(s.profileId), { recursive: true });
+      fs.appendFileSync(fileFor(s), lines.join('\n') + '\n', 'utf-8');
+      s.lines += lines.length;
+      written += lines.length;
+    } catch (err: any) {
+      console.error('[Archive] Append failed:', s.profileId, s.sessionKey, err.message);
+    }
+  }
+  return written;
+}
+
+function searchableText(r: ArchiveRecord): string {
+  return [
+    r.content,
+    r.toolName,
+    r.toolInput ? JSON.stringify(r.toolInput) : '',
+    r.toolOutput,
+    r.thinking,
+    r.attachments?.map((a) => a.fileName).join(' '),
+  ].filter(Boolean).join('\n');
+}
+
+const hasAttachment = (r: ArchiveRecord) =>
+  !!(r.attachments?.length || r.mediaUrl || r.content.includes('📎'));
+
+/** Split a query into lowercase terms — "quoted phrases" stay together */
+function parseTerms(text: string): string[] {
+  const terms: string[] = [];
+  const re = /"([^"]+)"|(\S+)/g;
+  let m;
+  while ((m = re.exec(text)) !== null) terms.push((m[1] || m[2]).toLowerCase());
+  return terms;
+}
+
+function snippetFor(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, ' ');
+  const lower = flat.toLowerCase();
+  const at = terms.length ? Math.max(0, lower.indexOf(terms[0])) : 0;
+  const start = Math.max(0, at - 80);
+  const end = Math.min(flat.length, at + 120);
+  return (start > 0 ? '…' : '') + flat.slice(start, end) + (end < flat.length ? '…' : '');
+}
+
+export function searchArchive(q: ArchiveQuery): { hits: ArchiveHit[]; total: number } {
+  loadAll();
+  const terms = parseTerms(q.text || '');
+  const from = q.from ? Date.parse(q.from) : -Infinity;
+  const to = q.to ? Date.parse(q.to) : Infinity;
+  const matches: ArchiveHit[] = [];
+
+  for (const s of sessions.values()) {
+    if (q.profileId && q.profileId !== s.profileId) continue;
+    if (q.sessionKey && q.sessionKey !== s.sessionKey) continue;
+    for (const r of s.records.values()) {
+      if (q.role && r.role !== q.role) continue;
+      if (q.hasAttachment && !hasAttachment(r)) continue;
+      const ts = Date.parse(r.timestamp);
+      if (ts < from || ts > to) continue;
+      const text = searchableText(r);
+      if (terms.length) {
+        const lower = text.toLowerCase();
+        if (!terms.every((t) => lower.includes(t))) continue;
+      }
+      matches.push({ record: r, snippet: snippetFor(text, terms) });
+    }
+  }
+
+  matches.sort((a, b) => b.record.timestamp.localeCompare(a.record.timestamp));
+  const offset = q.offset || 0;
+  const limit = q.limit || 50;
+  return { hits: matches.slice(offset, offset + limit), total: matches.length };
+}
+
+export function getSessionRecords(profileId: string, sessionKey: string): ArchiveRecord[] {
+  loadAll();
+  const s = sessions.get(archiveKey(profileId, sessionKey));
+  if (!s) return [];
+  return [...s.records.values()].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/** Archived sessions — of one profile, or all of them */
+export function listArchivedSessions(profileId?: string): ArchivedSession[] {
+  loadAll();
+  return [...sessions.values()]
+    .filter((s) => s.records.size > 0 && (!profileId || s.profileId === profileId))
+    .map((s) => {
+      let last = '';
+      for (const r of s.records.values()) if (r.timestamp > last) last = r.timestamp;
+      return { profileId: s.profileId, sessionKey: s.sessionKey, count: s.records.size, lastTimestamp: last || undefined };
+    })
+    .sort((a, b) => (b.lastTimestamp || '').localeCompare(a.lastTimestamp || ''));
+}
+
+/** Delete one session's archive, a whole profile's, or everything */
+export function clearArchive(profileId?: string, sessionKey?: string): void {
+  loadAll();
+  for (const [key, s] of sessions) {
+    if (profileId && s.profileId !== profileId) continue;
+    if (sessionKey && s.sessionKey !== sessionKey) continue;
+    sessions.delete(key);
+    try { fs.rmSync(fileFor(s), { force: true }); } catch { /* already gone */ }
+  }
+}
+
+// ── IPC ──────────────────────────────────────────────────
+
+export function registerArchiveIPC(): void {
+  ipcMain.handle('archive:append', (_e, records: ArchiveRecord[]) => appendRecords(records));
+  ipcMain.handle('archive:search', (_e, query: ArchiveQuery) => searchArchive(query || {}));
+  ipcMain.handle('archive:session', (_e, profileId: string, sessionKey: string) => getSessionRecords(profileId, sessionKey));
+  ipcMain.handle('archive:sessions', (_e, profileId?: string) => listArchivedSessions(profileId));
+  ipcMain.handle('archive:clear', (_e, profileId?: string, sessionKey?: string) => clearArchive(profileId, sessionKey));
+}
@@ -0,0 +1,55 @@
+// ═══════════════════════════════════════════════════════════
+// Chat Archive types — shared by the main process (archive.ts)
+// and the renderer (src/services/archive.ts). Types only: the
+// renderer imports this file with `import type`.
+// ═══════════════════════════════════════════════════════════
+
+export interface ArchiveRecord {
+  /** Gateway profile the session belongs to — session keys repeat across gateways */
+  profileId: string;
+  sessionKey: string;
+  id: string;
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  timestamp: string;
+  /**
+   * Id made up by the renderer (a live bubble or stream) rather than the
+   * gateway's — folded into the gateway's copy once chat.history returns it
+   */
+  provisional?: boolean;
+  toolName?: string;
+  toolInput?: Record<string, any>;
+  toolOutput?: string;
+  toolStatus?: string;
+  thinking?: string;
+  /** Attachment metadata only — the bytes are never archived */
+  attachments?: Array<{ fileName: string; mimeType: string }>;
+  mediaUrl?: string;
+}
+
+export interface ArchiveQuery {
+  /** Only this gateway profile's sessions */
+  profileId?: string;
+  text?: string;
+  sessionKey?: string;
+  role?: 'user' | 'assistant' | 'tool';
+  /** ISO date/time bounds (inclusive) */
+  from?: string;
+  to?: string;
+  hasAttachment?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ArchiveHit {
+  record: ArchiveRecord;
+  /** ~200 chars around the first match */
+  snippet: string;
+}
+
+export interface ArchivedSession {
+  profileId: string;
+  sessionKey: string;
+  count: number;
+  lastTimestamp?: string;
+}
@@ -0,0 +1,69 @@
+import { app, ipcMain } from 'electron';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// ═══════════════════════════════════════════════════════════
+// Artifacts — durable copy of the renderer's artifact library
+//
+// The renderer owns the library (artifactStore) and hands over the
+// whole map after changes settle. Full version bodies add up to more
+// than localStorage allows, so it lives in userData as one JSON file,
+// rewritten through a temp file like the outbox. Tombstones of deleted
+// versions sit next to it, so history doesn't re-index them after a restart.
+// ═══════════════════════════════════════════════════════════
+
+const ARTIFACTS_FILE = path.join(app.getPath('userData'), 'artifacts.json');
+const DELETED_FILE = path.join(app.getPath('userData'), 'artifacts-deleted.json');
+
+export interface StoredArtifacts {
+  artifacts: Record<string, unknown>;
+  /** Tombstone keys of deleted versions */
+  deleted: string[];
+}
+
+function readJson(file: string): unknown {
+  try {
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : null;
+  } catch (err: any) {
+    console.error('[Artifacts] Load failed:', path.basename(file), err.message);
+    return null;
+  }
+}
+
+function writeJson(file: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(value), 'utf-8');
+  fs.renameSync(tmp, file);
+}
+
+export function loadArtifacts(): StoredArtifacts {
+  const artifacts = readJson(ARTIFACTS_FILE);
+  const deleted = readJson(DELETED_FILE);
+  return {
+    artifacts: artifacts && typeof artifacts === 'object' && !Array.isArray(artifacts)
+      ? artifacts as Record<string, unknown>
+      : {},
+    deleted: Array.isArray(deleted) ? deleted.filter((d): d is string => typeof d === 'string') : [],
+  };
+}
+
+export function saveArtifacts(artifacts: Record<string, unknown>, deleted: string[]): void {
+  try {
+    writeJson(ARTIFACTS_FILE, artifacts);
+    writeJson(DELETED_FILE, deleted);
+  } catch (err: any) {
+    console.error('[Artifacts] Save failed:', err.message);
+  }
+}
+
+// ── IPC ──────────────────────────────────────────────────
+
+export function registerArtifactsIPC(): void {
+  ipcMain.handle('artifacts:load', () => loadArtifacts());
+  ipcMain.handle('artifacts:save', (_e, artifacts: Record<string, unknown>, deleted: string[]) =>
+    saveArtifacts(
+      artifacts && typeof artifacts === 'object' ? artifacts : {},
+      Array.isArray(deleted) ? deleted : [],
+    ));
+}
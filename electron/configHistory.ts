@@ -0,0 +1,78 @@
+import { app, ipcMain } from 'electron';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// ═══════════════════════════════════════════════════════════
+// Config History — gateway configs applied from this machine
+//
+// The Gateway Config page records the live config before its first
+// save and every config it applies, per gateway profile, so an edit
+// can be rolled back. Configs can hold provider keys, so they stay
+// in userData next to config.json — never in renderer storage.
+// ═══════════════════════════════════════════════════════════
+
+export interface ConfigHistoryEntry {
+  id: string;
+  /** Gateway profile the config belongs to */
+  profileId: string;
+  savedAt: string;
+  /** Gateway hash of this config, when it reported one */
+  hash?: string;
+  /** before = live config replaced by a save, saved = applied edit, rollback = applied history entry */
+  source: 'before' | 'saved' | 'rollback';
+  config: unknown;
+}
+
+const HISTORY_FILE = path.join(app.getPath('userData'), 'config-history.json');
+const MAX_PER_PROFILE = 20;
+
+function readAll(): ConfigHistoryEntry[] {
+  try {
+    if (!fs.existsSync(HISTORY_FILE)) return [];
+    const parsed = JSON.parse(fs.readFileSync(HISTORY_FILE, 'utf-8'));
+    return Array.isArray(parsed) ? parsed.filter((e) => e && e.id && e.profileId && e.config !== undefined) : [];
+  } catch (err: any) {
+    console.error('[ConfigHistory] Load failed:', err.message);
+    return [];
+  }
+}
+
+function writeAll(entries: ConfigHistoryEntry[]): void {
+  try {
+    fs.mkdirSync(path.dirname(HISTORY_FILE), { recursive: true });
+    const tmp = `${HISTORY_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(entries), 'utf-8');
+    fs.renameSync(tmp, HISTORY_FILE);
+  } catch (err: any) {
+    console.error('[ConfigHistory] Save failed:', err.message);
+  }
+}
+
+/** Newest first */
+export function listConfigHistory(profileId: string): ConfigHistoryEntry[] {
+  return readAll()
+    .filter((e) => e.profileId === profileId)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/** Append an entry; the profile keeps its newest MAX_PER_PROFILE */
+export function addConfigHistory(entry: ConfigHistoryEntry): ConfigHistoryEntry[] {
+  const all = readAll();
+  const own = [entry, ...all.filter((e) => e.profileId === entry.profileId)]
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+    .slice(0, MAX_PER_PROFILE);
+  writeAll([...all.filter((e) => e.profileId !== entry.profileId), ...own]);
+  return own;
+}
+
+export function clearConfigHistory(profileId: string): void {
+  writeAll(readAll().filter((e) => e.profileId !== profileId));
+}
+
+// ── IPC ──────────────────────────────────────────────────
+
+export function registerConfigHistoryIPC(): void {
+  ipcMain.handle('configHistory:list', (_e, profileId: string) => listConfigHistory(String(profileId || '')));
+  ipcMain.handle('configHistory:add', (_e, entry: ConfigHistoryEntry) => addConfigHistory(entry));
+  ipcMain.handle('configHistory:clear', (_e, profileId: string) => clearConfigHistory(String(profileId || '')));
+}
@@ -15,7 +15,13 @@ import {
 import { autoUpdater } from 'electron-updater';
 import * as path from 'path';
 import * as fs from 'fs';
-import { createTray } from './tray';
+import { createTray, setTrayMacros, type TrayMacros } from './tray';
+import { registerArchiveIPC } from './archive';
+import { registerOutboxIPC } from './outbox';
+import { registerArtifactsIPC } from './artifacts';
+import { registerMockGatewayIPC, stopMockGateway } from './mockGateway';
+import { registerConfigHistoryIPC } from './configHistory';
+import { setTalkOverlay, destroyTalkOverlay, type TalkOverlayState } from './talkOverlay';
 import * as crypto from 'crypto';
 import { execFileSync } from 'child_process';
 // node-pty: dynamic require — graceful fallback if native module unavailable
@@ -100,9 +106,23 @@ function getDeviceIdentity(): DeviceIdentity {
 const CONFIG_PATH = path.join(app.getPath('userData'), 'aegis-config.json');
 const isDev = !app.isPackaged;
 
+/** A named gateway — dev, staging, home… The active one is mirrored into gatewayUrl/gatewayToken. */
+interface GatewayProfile {
+  id: string;
+  name: string;
+  url: string;
+  /** Shared token entered by the user */
+  token: string;
+  /** Issued by the gateway after pairing — preferred over `token` when present */
+  deviceToken?: string;
+  color: string;
+}
+
 interface AegisConfig {
   gatewayUrl: string;
   gatewayToken: string;
+  profiles: GatewayProfile[];
+  activeProfileId: string;
   sharedFolder: string;
   compressImages: boolean;
   maxImageSize: number;
@@ -115,6 +135,8 @@ interface AegisConfig {
 let config: AegisConfig = {
   gatewayUrl: 'ws://127.0.0.1:18789',
   gatewayToken: '',
+  profiles: [],
+  activeProfileId: '',
   sharedFolder: 'D:\\clawdbot-shared',
   compressImages: true,
   maxImageSize: 1920,
@@ -137,6 +159,7 @@ function loadConfig(): void {
         config.gatewayUrl = data.controlUiUrl.replace('http', 'ws');
       }
     }
+    migrateProfiles();
     console.log('[Config] Loaded:', CONFIG_PATH);
     console.log('[Config] Gateway URL:', config.gatewayUrl);
     console.log('[Config] Token:', config.gatewayToken ? '***set***' : '***empty***');
@@ -154,12 +177,106 @@ function saveConfig(newConfig: Partial<AegisConfig>): void {
   });
 }
 
+// ── Gateway profiles ──
+
+const DEFAULT_PROFILE_COLOR = '#4EC9B0';
+
+/** Pre-profile configs: wrap the single gatewayUrl/gatewayToken in a "Default" profile */
+function migrateProfiles(): void {
+  if (Array.isArray(config.profiles) && config.profiles.length > 0) {
+    if (!config.profiles.some((p) => p.id === config.activeProfileId)) {
+      config.activeProfileId = config.profiles[0].id;
+    }
+    return;
+  }
+  config.profiles = [{
+    id: 'default',
+    name: 'Default',
+    url: config.gatewayUrl,
+    token: config.gatewayToken,
+    color: DEFAULT_PROFILE_COLOR,
+  }];
+  config.activeProfileId = 'default';
+}
+
+const activeProfile = () => config.profiles.find((p) => p.id === config.activeProfileId);
+
+/** Connection fields the renderer reads at startup, taken from a profile */
+const connectionOf = (p: GatewayProfile) => ({
+  gatewayUrl: p.url,
+  gatewayToken: p.deviceToken || p.token,
+});
+
+function saveProfile(input: Partial<GatewayProfile> & { name: string; url: string }): GatewayProfile {
+  const existing = input.id ? config.profiles.find((p) => p.id === input.id) : undefined;
+  const profile: GatewayProfile = {
+    id: existing?.id || crypto.randomUUID(),
+    name: input.name.trim() || 'Gateway',
+    url: input.url.trim(),
+    token: input.token ?? existing?.token ?? '',
+    // A new URL or token invalidates the device token issued by the old gateway
+    deviceToken: existing && existing.url === input.url.trim() && (input.token ?? existing.token) === existing.token
+      ? existing.deviceToken
+      : undefined,
+    color: input.color || existing?.color || DEFAULT_PROFILE_COLOR,
+  };
+  const profiles = existing
+    ? config.profiles.map((p) => (p.id === profile.id ? profile : p))
+    : [...config.profiles, profile];
+  saveConfig({
+    profiles,
+    ...(profile.id === config.activeProfileId ? connectionOf(profile) : {}),
+  });
+  return profile;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Text export — Save dialog + write, shared by artifact & chat export
+// ═══════════════════════════════════════════════════════════
+
+const TEXT_FILTERS: Record<string, { name: string; extensions: string[] }> = {
+  html: { name: 'HTML Document', extensions: ['html', 'htm'] },
+  svg: { name: 'SVG Image', extensions: ['svg'] },
+  mmd: { name: 'Mermaid Diagram', extensions: ['mmd', 'mermaid'] },
+  md: { name: 'Markdown', extensions: ['md'] },
+  json: { name: 'JSON', extensions: ['json'] },
+  txt: { name: 'Text File', extensions: ['txt'] },
+};
+
+async function saveTextWithDialog(title: string, content: string, suggestedName: string) {
+  try {
+    const ext = (suggestedName.match(/\.(\w+)$/) || [, 'txt'])[1].toLowerCase();
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      title,
+      defaultPath: suggestedName,
+      filters: [
+        TEXT_FILTERS[ext] || { name: ext.toUpperCase(), extensions: [ext] },
+        { name: 'All Files', extensions: ['*'] },
+      ],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true };
+    }
+
+    fs.writeFileSync(result.filePath, content, 'utf-8');
+    console.log('[Export] Saved to:', result.filePath);
+    return { success: true, path: result.filePath };
+  } catch (err: any) {
+    console.error('[Export] Save failed:', err.message);
+    return { success: false, error: err.message };
+  }
+}
+
 // ═══════════════════════════════════════════════════════════
 // Window
 // ═══════════════════════════════════════════════════════════
 
 let mainWindow: BrowserWindow | null = null;
-let previewWindow: BrowserWindow | null = null;
+// Artifact previews — one window per artifact title, several can stay open.
+// The last artifact sent is kept so a reload re-renders the current content.
+interface ArtifactPayload { type: string; title: string; content: string }
+const previewWindows = new Map<string, { win: BrowserWindow; artifact: ArtifactPayload }>();
 let splashWindow: BrowserWindow | null = null;
 let tray: Tray | null = null;
 
@@ -441,10 +558,47 @@ function setupIPC(): void {
     return { ...config, configPath: CONFIG_PATH, ...(installerLang ? { installerLanguage: installerLang } : {}) };
   });
   ipcMain.handle('config:save', (_e, newConfig: Partial<AegisConfig>) => {
+    // Direct URL/token writes from legacy callers land on the active profile.
+    // Their token is the user's shared token — deviceToken only comes from
+    // pairing (pairing:save-token), which still wins when present
+    const active = activeProfile();
+    if (active && !newConfig.profiles && (newConfig.gatewayUrl !== undefined || newConfig.gatewayToken !== undefined)) {
+      const updated: GatewayProfile = {
+        ...active,
+        ...(newConfig.gatewayUrl !== undefined ? { url: newConfig.gatewayUrl } : {}),
+        ...(newConfig.gatewayToken !== undefined ? { token: newConfig.gatewayToken } : {}),
+      };
+      newConfig = {
+        ...newConfig,
+        ...connectionOf(updated),
+        profiles: config.profiles.map((p) => (p.id === active.id ? updated : p)),
+      };
+    }
     saveConfig(newConfig);
     return { success: true };
   });
 
+  // ── Gateway Profiles ──
+  ipcMain.handle('profiles:list', () => ({ profiles: config.profiles, activeId: config.activeProfileId }));
+
+  ipcMain.handle('profiles:save', (_e, profile: Partial<GatewayProfile> & { name: string; url: string }) =>
+    saveProfile(profile));
+
+  ipcMain.handle('profiles:delete', (_e, id: string) => {
+    // The active profile can't be removed — switch away first
+    if (id === config.activeProfileId) return { success: false, error: 'Cannot delete the active profile' };
+    saveConfig({ profiles: config.profiles.filter((p) => p.id !== id) });
+    return { success: true };
+  });
+
+  ipcMain.handle('profiles:activate', (_e, id: string) => {
+    const profile = config.profiles.find((p) => p.id === id);
+    if (!profile) throw new Error(`Unknown profile: ${id}`);
+    saveConfig({ activeProfileId: id, ...connectionOf(profile) });
+    console.log('[Config] Active gateway profile:', profile.name, profile.url);
+    return { profile, ...connectionOf(profile) };
+  });
+
   // Gateway is handled by React renderer — these are no-op stubs to prevent IPC errors
   // Gateway IPC removed — all WS communication handled by src/services/gateway.ts (renderer-side)
 
@@ -454,7 +608,11 @@ function setupIPC(): void {
   });
 
   ipcMain.handle('pairing:save-token', (_e, token: string) => {
-    saveConfig({ gatewayToken: token });
+    // Device tokens belong to the gateway that issued them — keep them on the active profile
+    saveConfig({
+      gatewayToken: token,
+      profiles: config.profiles.map((p) => (p.id === config.activeProfileId ? { ...p, deviceToken: token } : p)),
+    });
     console.log('[Pairing] Token saved to config');
     return { success: true };
   });
@@ -502,8 +660,10 @@ function setupIPC(): void {
     }
   })
 
-  // ── Artifacts Preview Window ──
-  ipcMain.handle('artifact:open', async (_e, data: { type: string; title: string; content: string }) => {
+  // ── Artifacts Preview Windows ──
+  // Re-opening an artifact with the same title refreshes its window;
+  // `newWindow` forces a separate one (e.g. two versions side by side).
+  ipcMain.handle('artifact:open', async (_e, data: { type: string; title: string; content: string; newWindow?: boolean }) => {
     try {
       // Always copy latest preview-container.html to dist-electron
       const htmlSrc = path.join(__dirname, '..', 'electron', 'preview-container.html');
@@ -513,13 +673,20 @@ function setupIPC(): void {
       }
 
       const htmlPath = fs.existsSync(htmlDst) ? htmlDst : htmlSrc;
-
-      if (!previewWindow || previewWindow.isDestroyed()) {
-        previewWindow = new BrowserWindow({
+      const artifact: ArtifactPayload = { type: data.type, title: data.title, content: data.content };
+      const key = data.newWindow ? `${data.title}#${Date.now()}` : data.title;
+      const existing = previewWindows.get(key);
+
+      if (!existing || existing.win.isDestroyed()) {
+        // Cascade new windows so they don't stack exactly on top of each other
+        const offset = (previewWindows.size % 8) * 28;
+        const bounds = mainWindow?.getBounds();
+        const win = new BrowserWindow({
           width: 1200,
           height: 800,
           minWidth: 600,
           minHeight: 400,
+          ...(offset && bounds ? { x: bounds.x + offset, y: bounds.y + offset } : {}),
           title: `AEGIS Preview — ${data.title}`,
           backgroundColor: '#0d1117',
           autoHideMenuBar: true,
@@ -531,18 +698,22 @@ function setupIPC(): void {
           },
         });
 
-        previewWindow.loadFile(htmlPath);
-        previewWindow.on('closed', () => { previewWindow = null; });
+        previewWindows.set(key, { win, artifact });
+        win.loadFile(htmlPath);
+        win.on('closed', () => { previewWindows.delete(key); });
 
         // Send content after page loads
-        previewWindow.webContents.on('did-finish-load', () => {
-          previewWindow?.webContents.send('artifact:content', data);
+        win.webContents.on('did-finish-load', () => {
+          const current = previewWindows.get(key);
+          if (current) win.webContents.send('artifact:content', current.artifact);
         });
       } else {
         // Window exists — update content and focus
-        previewWindow.webContents.send('artifact:content', data);
-        previewWindow.setTitle(`AEGIS Preview — ${data.title}`);
-        previewWindow.focus();
+        existing.artifact = artifact;
+        existing.win.webContents.send('artifact:content', artifact);
+        existing.win.setTitle(`AEGIS Preview — ${data.title}`);
+        if (existing.win.isMinimized()) existing.win.restore();
+        existing.win.focus();
       }
 
       return { success: true };
@@ -552,10 +723,35 @@ function setupIPC(): void {
     }
   });
 
+  // ── Artifact Export (standalone file) ──
+  ipcMain.handle('artifact:export', (_e, content: string, suggestedName: string) =>
+    saveTextWithDialog('Export Artifact', content, suggestedName));
+
+  // ── Chat Archive (persistent, searchable — see archive.ts) ──
+  registerArchiveIPC();
+
+  // ── Offline message queue (durable — see outbox.ts) ──
+  registerOutboxIPC();
+
+  // ── Artifact library (durable — see artifacts.ts) ──
+  registerArtifactsIPC();
+
+  // ── Demo mode gateway (loopback mock — see mockGateway.ts) ──
+  registerMockGatewayIPC();
+
+  // ── Gateway config rollback history (see configHistory.ts) ──
+  registerConfigHistoryIPC();
+
   // ── Clipboard (for preview window sandbox fallback) ──
   ipcMain.handle('clipboard:write', (_e, text: string) => {
     clipboard.writeText(text);
   });
+  ipcMain.handle('clipboard:read', () => clipboard.readText());
+
+  // ── Prompt Macros (tray submenu) ──
+  ipcMain.handle('macros:set-tray', (_e, macros: TrayMacros) => {
+    if (tray && mainWindow) setTrayMacros(tray, mainWindow, app, macros);
+  });
 
   // ── Image Save (download to local filesystem) ──
   ipcMain.handle('image:save', async (_e, src: string, suggestedName: string) => {
@@ -924,6 +1120,24 @@ function setupIPC(): void {
     });
   });
 
+  // ── Text files (chat export / transcript import) ──
+  ipcMain.handle('file:saveText', (_e, content: string, suggestedName: string, title?: string) =>
+    saveTextWithDialog(title || 'Save File', content, suggestedName));
+
+  ipcMain.handle('file:openText', async (_e, extensions: string[] = ['json']) => {
+    const result = await dialog.showOpenDialog(mainWindow!, {
+      properties: ['openFile'],
+      filters: [{ name: extensions.join(', ').toUpperCase(), extensions }, { name: 'All Files', extensions: ['*'] }],
+    });
+    if (result.canceled || !result.filePaths[0]) return { canceled: true };
+    const filePath = result.filePaths[0];
+    try {
+      return { canceled: false, name: path.basename(filePath), content: fs.readFileSync(filePath, 'utf-8') };
+    } catch (err: any) {
+      return { canceled: false, error: err.message };
+    }
+  });
+
   ipcMain.handle('file:read', async (_e, filePath: string) => {
     try {
       const data = fs.readFileSync(filePath);
@@ -1107,6 +1321,78 @@ function registerHotkey(): void {
   } catch (e) {
     console.error('[Hotkey] Registration failed:', e);
   }
+  talkHotkeyRegistered = registerTalkHotkey();
+}
+
+// ═══════════════════════════════════════════════════════════
+// Push-to-Talk
+// The renderer owns the conversation (services/talkMode.ts) and
+// picks the shortcut; here we turn key presses into start/stop.
+// globalShortcut has no key-up, so a hold is recognised by the
+// key's auto-repeat: repeats keep it recording and it stops when
+// they do. A tap with no repeat toggles — tap again to send.
+// ═══════════════════════════════════════════════════════════
+
+/** A press this soon after the previous one is the key repeating */
+const TALK_REPEAT_WINDOW_MS = 700;
+/** No repeat for this long while held — the key was released */
+const TALK_RELEASE_GAP_MS = 250;
+
+let talkHotkey = '';
+let talkHotkeyRegistered = false;
+let talkListening = false;
+let talkHeld = false;
+let talkLastPress = 0;
+let talkReleaseTimer: ReturnType<typeof setTimeout> | null = null;
+
+function sendTalkCommand(command: 'start' | 'stop'): void {
+  if (talkReleaseTimer) { clearTimeout(talkReleaseTimer); talkReleaseTimer = null; }
+  talkHeld = false;
+  mainWindow?.webContents.send('talk:command', command);
+}
+
+function onTalkShortcut(): void {
+  const now = Date.now();
+  const sinceLast = now - talkLastPress;
+  talkLastPress = now;
+
+  if (!talkListening) {
+    // Repeats arriving before the renderer reports "listening" are ignored there
+    if (sinceLast >= TALK_REPEAT_WINDOW_MS) sendTalkCommand('start');
+    return;
+  }
+  if (talkHeld || sinceLast < TALK_REPEAT_WINDOW_MS) {
+    talkHeld = true;
+    if (talkReleaseTimer) clearTimeout(talkReleaseTimer);
+    talkReleaseTimer = setTimeout(() => sendTalkCommand('stop'), TALK_RELEASE_GAP_MS);
+    return;
+  }
+  sendTalkCommand('stop');
+}
+
+/** false when the accelerator is invalid or another app holds it */
+function registerTalkHotkey(): boolean {
+  if (!talkHotkey) return true;
+  try {
+    return globalShortcut.register(talkHotkey, onTalkShortcut);
+  } catch (e) {
+    console.error('[Talk] Registration failed:', e);
+    return false;
+  }
+}
+
+function setupTalkIPC(): void {
+  ipcMain.handle('talk:set-hotkey', (_e, accelerator: string) => {
+    talkHotkey = (accelerator || '').trim();
+    registerHotkey();
+    return { success: talkHotkeyRegistered };
+  });
+
+  ipcMain.handle('talk:state', (_e, state: TalkOverlayState) => {
+    talkListening = state.state === 'listening';
+    if (!talkListening && talkReleaseTimer) { clearTimeout(talkReleaseTimer); talkReleaseTimer = null; }
+    setTalkOverlay(state);
+  });
 }
 
 // ═══════════════════════════════════════════════════════════
@@ -1182,6 +1468,7 @@ if (!gotTheLock) {
     createSplashWindow();
     createWindow();
     setupIPC();
+    setupTalkIPC();
     setupAutoUpdater();
     tray = createTray(mainWindow!, app);
     registerHotkey();
@@ -1198,6 +1485,8 @@ app.on('window-all-closed', () => {
 
 app.on('will-quit', () => {
   globalShortcut.unregisterAll();
+  destroyTalkOverlay();
+  stopMockGateway();
 });
 
 app.on('before-quit', () => {
@@ -0,0 +1,766 @@
+import { ipcMain } from 'electron';
+import * as crypto from 'crypto';
+import { WebSocketServer } from 'ws';
+import {
+  MOCK_SERVER_VERSION, MOCK_AGENTS, MOCK_MODELS, MOCK_SKILLS, MOCK_TRANSCRIPT,
+  mockConfig, mockSessions, mockCronJobs, mockCronRuns, mockCostSummary, mockSessionsUsage, mockPresence, pickReply,
+  type MockSession, type MockMessage,
+} from './mockGatewayData';
+
+// ═══════════════════════════════════════════════════════════
+// Mock Gateway — a local stand-in for the OpenClaw Gateway (v3)
+//
+// Demo mode, offline UI work and tests talk to this instead of a
+// real gateway. MockGateway is the protocol engine and knows
+// nothing about sockets: a transport feeds it frames and gets
+// frames back, so it runs in-process just as well as behind the
+// loopback WS server below (what the renderer connects to).
+//
+// It answers the handshake (connect.challenge → connect → hello-ok),
+// streams chat.send replies (thinking, tool and delta events; the
+// exec script waits on an exec approval like a real gateway), and
+// serves sessions / cron / usage / skills from mockGatewayData.
+// With a recording (a Diagnostics export) it answers reads with the
+// recorded results and replays the recorded events at their pace.
+// ═══════════════════════════════════════════════════════════
+
+const PROTOCOL_VERSION = 3;
+const TICK_INTERVAL_MS = 15_000;
+/** Long pauses in a recording are shortened to this */
+const REPLAY_MAX_GAP_MS = 3_000;
+/** How long an exec approval waits before it counts as denied */
+const APPROVAL_TIMEOUT_MS = 120_000;
+/** Events that belong to the recorded connection, not its content */
+const REPLAY_SKIP_EVENTS = new Set(['connect.challenge', 'tick', 'health']);
+
+export interface MockTransport {
+  send(raw: string): void;
+  close(code: number, reason: string): void;
+}
+
+export interface MockConnection {
+  receive(raw: string): void;
+  detach(): void;
+}
+
+export interface MockRecording {
+  name: string;
+  /** Recorded results — keyed "method params-json", plus "method" for the last one seen */
+  results: Map<string, unknown>;
+  /** Incoming events; `at` is ms since the first */
+  events: { at: number; event: string; payload: unknown }[];
+}
+
+export interface MockGatewayOptions {
+  /** connect must carry this token (omit to accept any) */
+  token?: string;
+  recording?: MockRecording;
+  /** Multiplies every streaming delay — 0 makes replies synchronous-ish for tests */
+  delayScale?: number;
+}
+
+class MockRpcError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'MockRpcError';
+    this.code = code;
+  }
+}
+
+interface ActiveRun {
+  runId: string;
+  sessionKey: string;
+  timers: ReturnType<typeof setTimeout>[];
+  /** Assistant text streamed so far — what an abort keeps */
+  streamed: string;
+}
+
+interface PendingMockApproval {
+  run: ActiveRun;
+  resume: (decision: 'allow-once' | 'deny') => void;
+}
+
+type Handler = (params: any) => unknown;
+
+// ── Recordings ───────────────────────────────────────────
+
+const resultKey = (method: string, params: unknown) => `${method} ${JSON.stringify(params ?? {})}`;
+
+/** Read a Diagnostics export (aegis-diagnostics v1) as a recording */
+export function parseRecording(name: string, content: string): MockRecording {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(content);
+  } catch {
+    throw new Error('Recording is not valid JSON');
+  }
+  if (bundle?.format !== 'aegis-diagnostics' || !Array.isArray(bundle.frames)) {
+    throw new Error('Not a diagnostics export (expected format "aegis-diagnostics")');
+  }
+
+  const results = new Map<string, unknown>();
+  const requestParams = new Map<string, unknown>();
+  const events: MockRecording['events'] = [];
+  let firstEventTs = 0;
+
+  for (const frame of bundle.frames) {
+    const msg = frame?.payload;
+    if (!msg || typeof msg !== 'object') continue; // oversized frames only kept a preview
+    if (frame.dir === 'out' && msg.type === 'req' && msg.id) {
+      requestParams.set(msg.id, msg.params);
+    } else if (frame.dir === 'in' && msg.type === 'res' && msg.ok !== false && frame.name && frame.name !== 'connect') {
+      results.set(resultKey(frame.name, requestParams.get(msg.id)), msg.payload);
+      results.set(frame.name, msg.payload);
+    } else if (frame.dir === 'in' && msg.type === 'event' && msg.event && !REPLAY_SKIP_EVENTS.has(msg.event)) {
+      const ts = typeof frame.ts === 'number' ? frame.ts : 0;
+      if (!firstEventTs) firstEventTs = ts;
+      events.push({ at: Math.max(0, ts - firstEventTs), event: msg.event, payload: msg.payload });
+    }
+  }
+
+  if (results.size === 0 && events.length === 0) throw new Error('Recording contains no replayable frames');
+  return { name, results, events };
+}
+
+// ── Engine ───────────────────────────────────────────────
+
+export class MockGateway {
+  private readonly token?: string;
+  private readonly recording?: MockRecording;
+  private readonly delayScale: number;
+
+  private sessions = new Map<string, MockSession>();
+  private cronJobs: any[] = mockCronJobs();
+  private cronRuns = new Map<string, any[]>();
+  private agents = MOCK_AGENTS.map((a) => ({ ...a }));
+  private config = mockConfig();
+  private configHash = crypto.randomBytes(8).toString('hex');
+
+  private clients = new Set<MockTransport>();
+  private runs = new Map<string, ActiveRun>();
+  /** approval id → the paused run waiting on it */
+  private approvals = new Map<string, PendingMockApproval>();
+  /** idempotencyKey → runId — a retried chat.send gets the original run back */
+  private seenSends = new Map<string, string>();
+  private turn = 0;
+  private seq = 0;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  /** Replay and cron-run timers (chat runs keep their own) */
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private replayStarted = false;
+
+  constructor(opts: MockGatewayOptions = {}) {
+    this.token = opts.token;
+    this.recording = opts.recording;
+    this.delayScale = opts.delayScale ?? 1;
+    for (const s of mockSessions()) this.sessions.set(s.key, s);
+  }
+
+  /** A new client — the challenge goes out immediately, like the real gateway */
+  attach(transport: MockTransport): MockConnection {
+    let authed = false;
+    const nonce = crypto.randomBytes(16).toString('base64');
+    this.sendTo(transport, { type: 'event', event: 'connect.challenge', payload: { nonce, ts: Date.now() } });
+
+    return {
+      receive: (raw) => {
+        let msg: any;
+        try {
+          msg = JSON.parse(raw);
+        } catch {
+          return;
+        }
+        if (msg?.type !== 'req' || typeof msg.id !== 'string') return;
+
+        if (msg.method === 'connect') {
+          const error = this.checkConnect(msg.params);
+          if (error) {
+            this.sendTo(transport, { type: 'res', id: msg.id, ok: false, error });
+            transport.close(1008, error.message);
+            return;
+          }
+          authed = true;
+          this.clients.add(transport);
+          this.sendTo(transport, { type: 'res', id: msg.id, ok: true, payload: this.hello() });
+          this.startTicks();
+          this.startReplay();
+          return;
+        }
+        if (!authed) {
+          this.sendTo(transport, { type: 'res', id: msg.id, ok: false, error: { code: 'NOT_CONNECTED', message: 'connect first' } });
+          return;
+        }
+        this.dispatch(transport, msg.id, msg.method, msg.params ?? {});
+      },
+      detach: () => {
+        this.clients.delete(transport);
+      },
+    };
+  }
+
+  /** Stop every timer — runs, ticks and the replay */
+  dispose(): void {
+    for (const run of this.runs.values()) run.timers.forEach(clearTimeout);
+    this.runs.clear();
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+    if (this.tickTimer) clearInterval(this.tickTimer);
+    this.tickTimer = null;
+    this.clients.clear();
+  }
+
+  // ── Handshake ──
+
+  private checkConnect(params: any): { code: string; message: string } | null {
+    const min = params?.minProtocol ?? PROTOCOL_VERSION;
+    const max = params?.maxProtocol ?? PROTOCOL_VERSION;
+    if (PROTOCOL_VERSION < min || PROTOCOL_VERSION > max) {
+      return { code: 'PROTOCOL_MISMATCH', message: `protocol mismatch: server speaks v${PROTOCOL_VERSION}` };
+    }
+    if (this.token && params?.auth?.token !== this.token) {
+      return { code: 'UNAUTHORIZED', message: 'unauthorized: invalid token' };
+    }
+    return null;
+  }
+
+  private hello() {
+    return {
+      type: 'hello-ok',
+      protocol: PROTOCOL_VERSION,
+      server: { version: MOCK_SERVER_VERSION, host: 'aegis-demo', connId: crypto.randomUUID() },
+      features: { methods: Object.keys(this.handlers), events: ['chat', 'agent', 'presence', 'tick', 'cron', 'exec.approval.requested', 'exec.approval.resolved'] },
+      snapshot: { presence: mockPresence(), health: { ok: true } },
+      policy: { tickIntervalMs: TICK_INTERVAL_MS },
+    };
+  }
+
+  // ── Dispatch ──
+
+  private dispatch(transport: MockTransport, id: string, method: string, params: any) {
+    const recorded = this.recordedResult(method, params);
+    const handler = this.handlers[method];
+    if (recorded === undefined && !handler) {
+      this.sendTo(transport, { type: 'res', id, ok: false, error: { code: 'METHOD_NOT_FOUND', message: `unknown method: ${method}` } });
+      return;
+    }
+    try {
+      const payload = recorded !== undefined ? recorded : handler(params);
+      this.sendTo(transport, { type: 'res', id, ok: true, payload });
+    } catch (err: any) {
+      const error = err instanceof MockRpcError
+        ? { code: err.code, message: err.message }
+        : { code: 'INTERNAL', message: err?.message || String(err) };
+      this.sendTo(transport, { type: 'res', id, ok: false, error });
+    }
+  }
+
+  /** Reads come from the recording when it has them — writes always run */
+  private recordedResult(method: string, params: unknown): unknown {
+    if (!this.recording || method === 'chat.send' || method === 'chat.abort') return undefined;
+    const { results } = this.recording;
+    const exact = results.get(resultKey(method, params));
+    return exact !== undefined ? exact : results.get(method);
+  }
+
+  private readonly handlers: Record<string, Handler> = {
+    // ── Chat ──
+    'chat.send': (p) => this.chatSend(p),
+    'chat.abort': (p) => ({ ok: true, aborted: this.abortRuns(p.sessionKey, p.runId) }),
+    'chat.history': (p) => {
+      const session = this.requireSession(p.sessionKey);
+      const limit = typeof p.limit === 'number' && p.limit > 0 ? p.limit : 200;
+      return { sessionKey: session.key, messages: session.messages.slice(-limit) };
+    },
+
+    // ── Approvals ──
+    'exec.approval.resolve': (p) => {
+      if (p.decision !== 'allow-once' && p.decision !== 'deny') {
+        throw new MockRpcError('INVALID_REQUEST', 'decision must be allow-once or deny');
+      }
+      if (!this.resolveApproval(p.id, p.decision)) throw new MockRpcError('NOT_FOUND', `unknown approval: ${String(p.id)}`);
+      return { ok: true, id: p.id, decision: p.decision };
+    },
+
+    // ── Audio ──
+    'audio.transcribe': (p) => {
+      if (typeof p.audio !== 'string' || !p.audio) throw new MockRpcError('INVALID_REQUEST', 'audio is required');
+      return { text: MOCK_TRANSCRIPT, language: p.language || 'en' };
+    },
+
+    // ── Sessions ──
+    'sessions.list': () => ({ sessions: [...this.sessions.values()].map((s) => this.sessionInfo(s)) }),
+    'sessions.patch': (p) => {
+      const session = this.requireSession(p.key);
+      const { key: _key, ...patch } = p;
+      Object.assign(session, patch);
+      this.broadcastEvent('session.patched', { sessionKey: session.key });
+      return { ok: true, key: session.key };
+    },
+    'sessions.reset': (p) => {
+      const session = this.requireSession(p.key);
+      session.messages = [];
+      session.totalTokens = 0;
+      session.contextTokens = 0;
+      return { ok: true, key: session.key };
+    },
+    'sessions.delete': (p) => {
+      this.requireSession(p.key);
+      this.sessions.delete(p.key);
+      this.broadcastEvent('session.deleted', { sessionKey: p.key });
+      return { ok: true, key: p.key };
+    },
+    'sessions.compact': (p) => {
+      const session = this.requireSession(p.key);
+      session.compactions += 1;
+      session.contextTokens = Math.round(session.contextTokens * 0.3);
+      this.broadcastEvent('agent', { stream: 'compaction', sessionKey: session.key, data: { phase: 'end', willRetry: false } });
+      return { ok: true, compacted: true, key: session.key };
+    },
+    'sessions.usage': () => mockSessionsUsage([...this.sessions.values()]),
+    'sessions.usage.timeseries': (p) => {
+      const session = this.requireSession(p.key);
+      const now = Date.now();
+      const points = Array.from({ length: 12 }, (_, i) => ({
+        ts: now - (11 - i) * 300_000,
+        totalTokens: Math.round((session.totalTokens * (i + 1)) / 12),
+      }));
+      return { key: session.key, points };
+    },
+    'sessions.usage.logs': (p) => {
+      const session = this.requireSession(p.key);
+      return { key: session.key, logs: [] };
+    },
+    'usage.cost': (p) => mockCostSummary(typeof p.days === 'number' ? p.days : 30),
+
+    // ── Agents, models, config ──
+    'agents.list': () => ({ defaultId: 'main', agents: this.agents }),
+    'agents.create': (p) => {
+      const id = String(p.id || p.name || `agent-${this.agents.length + 1}`).toLowerCase().replace(/[^a-z0-9-]+/g, '-');
+      if (this.agents.some((a) => a.id === id)) throw new MockRpcError('CONFLICT', `agent already exists: ${id}`);
+      const agent = { id, name: p.name || id, model: p.model || MOCK_AGENTS[0].model, workspace: p.workspace || `~/.openclaw/workspace-${id}` };
+      this.agents.push(agent);
+      this.broadcastEvent('agent.created', { agentId: id });
+      return { ok: true, agent };
+    },
+    'agents.update': (p) => {
+      const agent = this.agents.find((a) => a.id === p.agentId);
+      if (!agent) throw new MockRpcError('NOT_FOUND', `unknown agent: ${p.agentId}`);
+      const { agentId: _id, ...patch } = p;
+      Object.assign(agent, patch);
+      this.broadcastEvent('agent.updated', { agentId: agent.id });
+      return { ok: true, agent };
+    },
+    'agents.delete': (p) => {
+      if (p.agentId === 'main') throw new MockRpcError('FORBIDDEN', 'the default agent cannot be deleted');
+      this.agents = this.agents.filter((a) => a.id !== p.agentId);
+      this.broadcastEvent('agent.deleted', { agentId: p.agentId });
+      return { ok: true };
+    },
+    'models.list': () => ({ models: MOCK_MODELS }),
+    'config.get': () => ({ hash: this.configHash, config: this.config }),
+    'config.set': (p) => this.writeConfig(p),
+    'config.apply': (p) => this.writeConfig(p),
+
+    // ── Cron ──
+    'cron.list': (p) => ({ jobs: p.includeDisabled === false ? this.cronJobs.filter((j) => j.enabled) : this.cronJobs }),
+    'cron.runs': (p) => ({ entries: this.runsFor(p.jobId || p.id) }),
+    'cron.add': (p) => {
+      const job = { ...(p.job || {}), id: `cron-${crypto.randomBytes(4).toString('hex')}`, state: {} };
+      this.cronJobs.push(job);
+      return job;
+    },
+    'cron.update': (p) => {
+      const job = this.requireJob(p.jobId || p.id);
+      Object.assign(job, p.patch || {});
+      return job;
+    },
+    'cron.remove': (p) => {
+      this.requireJob(p.jobId || p.id);
+      this.cronJobs = this.cronJobs.filter((j) => j.id !== (p.jobId || p.id));
+      return { ok: true, removed: true };
+    },
+    'cron.run': (p) => this.cronRun(this.requireJob(p.jobId || p.id)),
+
+    // ── Skills ──
+    'skills.status': () => ({ skills: MOCK_SKILLS }),
+  };
+
+  private requireSession(key: unknown): MockSession {
+    const session = typeof key === 'string' ? this.sessions.get(key) : undefined;
+    if (session) return session;
+    if (typeof key !== 'string' || !key) throw new MockRpcError('INVALID_REQUEST', 'sessionKey is required');
+    // Real gateways create a session on first use
+    const created: MockSession = {
+      key,
+      model: this.agents[0]?.model || MOCK_AGENTS[0].model,
+      totalTokens: 0,
+      contextTokens: 0,
+      maxTokens: 200_000,
+      compactions: 0,
+      lastActive: new Date().toISOString(),
+      kind: 'direct',
+      messages: [],
+    };
+    this.sessions.set(key, created);
+    return created;
+  }
+
+  private sessionInfo({ messages: _messages, ...info }: MockSession) {
+    return { ...info, running: [...this.runs.values()].some((r) => r.sessionKey === info.key) };
+  }
+
+  /** config.set / config.apply — a stale baseHash is rejected like the real gateway does */
+  private writeConfig(p: any) {
+    if (p.baseHash && p.baseHash !== this.configHash) {
+      throw new MockRpcError('CONFLICT', 'config changed since last load (baseHash mismatch)');
+    }
+    let next: unknown;
+    try {
+      next = JSON.parse(String(p.raw ?? ''));
+    } catch (err: any) {
+      throw new MockRpcError('INVALID_REQUEST', `invalid config JSON: ${err.message}`);
+    }
+    if (!next || typeof next !== 'object' || Array.isArray(next)) throw new MockRpcError('INVALID_REQUEST', 'config must be an object');
+    this.config = next as ReturnType<typeof mockConfig>;
+    this.configHash = crypto.randomBytes(8).toString('hex');
+    return { ok: true, hash: this.configHash };
+  }
+
+  private requireJob(id: unknown): any {
+    const job = this.cronJobs.find((j) => j.id === id);
+    if (!job) throw new MockRpcError('NOT_FOUND', `unknown cron job: ${String(id)}`);
+    return job;
+  }
+
+  private runsFor(jobId: string): any[] {
+    if (!this.cronRuns.has(jobId)) this.cronRuns.set(jobId, this.cronJobs.some((j) => j.id === jobId) ? mockCronRuns(jobId) : []);
+    return this.cronRuns.get(jobId)!;
+  }
+
+  private cronRun(job: any) {
+    const startedAt = Date.now();
+    const durationMs = 2_000;
+    this.broadcastEvent('cron', { jobId: job.id, action: 'started' });
+    job.state = { ...job.state, runningAtMs: startedAt };
+    const timer = setTimeout(() => {
+      job.state = {
+        ...job.state,
+        runningAtMs: undefined,
+        lastRunAtMs: startedAt,
+        lastStatus: 'ok',
+        lastRunStatus: 'ok',
+        lastDeliveryStatus: 'delivered',
+        lastDurationMs: durationMs,
+      };
+      this.runsFor(job.id).unshift({ jobId: job.id, ts: startedAt, status: 'ok', durationMs, summary: 'Completed (demo run)' });
+      this.broadcastEvent('cron', { jobId: job.id, action: 'finished', status: 'ok' });
+    }, this.delay(durationMs));
+    this.timers.push(timer);
+    return { ok: true, ran: true, jobId: job.id };
+  }
+
+  // ── Chat runs ──
+
+  private chatSend(p: any) {
+    const session = this.requireSession(p.sessionKey);
+    const message = typeof p.message === 'string' ? p.message : '';
+    if (!message.trim() && !p.attachments?.length) throw new MockRpcError('INVALID_REQUEST', 'message is required');
+
+    const key = typeof p.idempotencyKey === 'string' ? p.idempotencyKey : '';
+    const seen = key ? this.seenSends.get(key) : undefined;
+    if (seen) return { runId: seen, status: 'in_flight' };
+
+    const runId = `run-${crypto.randomUUID()}`;
+    if (key) this.seenSends.set(key, runId);
+    this.pushMessage(session, 'user', [{ type: 'text', text: message }]);
+
+    const run: ActiveRun = { runId, sessionKey: session.key, timers: [], streamed: '' };
+    this.runs.set(runId, run);
+    this.streamReply(run, stripDesktopContext(message));
+    return { runId, status: 'started' };
+  }
+
+  /** thinking → tool start → (approval) → updates / result → text deltas → final */
+  private streamReply(run: ActiveRun, message: string) {
+    const script = pickReply(message, this.turn++);
+    const { sessionKey, runId } = run;
+    const session = this.sessions.get(sessionKey)!;
+    let at = 0;
+    const step = (ms: number, fn: () => void) => {
+      at += ms;
+      run.timers.push(setTimeout(fn, this.delay(at)));
+    };
+
+    step(0, () => this.broadcastEvent('session.started', { sessionKey }));
+
+    const thinkingWords = script.thinking.split(' ');
+    for (let i = 4; i < thinkingWords.length + 4; i += 4) {
+      const textSoFar = thinkingWords.slice(0, i).join(' ');
+      step(120, () => this.broadcastEvent('chat', { runId, sessionKey, stream: 'thinking', data: { text: textSoFar } }));
+    }
+
+    const streamText = (reply: string) => {
+      // Deltas carry the accumulated text, not the new chunk
+      const words = reply.split(/(?<=\s)/);
+      for (let i = 3; i < words.length + 3; i += 3) {
+        const textSoFar = words.slice(0, i).join('');
+        step(70, () => {
+          run.streamed = textSoFar;
+          this.broadcastEvent('chat', { runId, sessionKey, state: 'delta', message: { role: 'assistant', content: [{ type: 'text', text: textSoFar }] } });
+        });
+      }
+
+      step(100, () => {
+        this.pushMessage(session, 'assistant', [{ type: 'text', text: reply }]);
+        session.totalTokens += Math.round((message.length + reply.length) / 4) + 850;
+        session.contextTokens = session.totalTokens;
+        const usage = { input: Math.round(message.length / 4) + 820, output: Math.round(reply.length / 4) + 30 };
+        this.broadcastEvent('chat', {
+          runId, sessionKey, state: 'final',
+          message: { role: 'assistant', content: [{ type: 'text', text: reply }], usage: { ...usage, totalTokens: usage.input + usage.output } },
+        });
+        this.finishRun(run);
+      });
+    };
+
+    if (!script.tool) {
+      streamText(script.reply);
+      return;
+    }
+
+    const tool = script.tool;
+    const toolCallId = `call-${crypto.randomBytes(6).toString('hex')}`;
+    const startedAt = Date.now() + this.delay(at + 300);
+    step(300, () => this.broadcastEvent('chat', {
+      runId, sessionKey, stream: 'tool', ts: startedAt,
+      data: { toolCallId, name: tool.name, phase: 'start', args: tool.args },
+    }));
+
+    const runTool = (denied: boolean) => {
+      if (!denied) {
+        for (const partial of tool.updates) {
+          step(400, () => this.broadcastEvent('chat', {
+            runId, sessionKey, stream: 'tool', ts: startedAt,
+            data: { toolCallId, name: tool.name, phase: 'update', partialResult: partial },
+          }));
+        }
+      }
+      const result = denied ? 'exec denied: the operator did not approve this command' : tool.result;
+      step(400, () => {
+        this.broadcastEvent('chat', {
+          runId, sessionKey, stream: 'tool', ts: startedAt,
+          data: { toolCallId, name: tool.name, phase: 'result', result },
+        });
+        this.pushMessage(session, 'assistant', [{ type: 'toolCall', id: toolCallId, name: tool.name, input: tool.args }]);
+        this.pushMessage(session, 'toolResult', [{ type: 'text', text: result }], { toolName: tool.name, toolCallId });
+        if (tool.name === 'sessions_spawn' && !denied) this.finishSubAgent(result);
+      });
+      streamText(denied && script.deniedReply ? script.deniedReply : script.reply);
+    };
+
+    if (!tool.approval) {
+      runTool(false);
+      return;
+    }
+
+    step(200, () => {
+      const id = `approval-${crypto.randomBytes(6).toString('hex')}`;
+      const createdAtMs = Date.now();
+      this.approvals.set(id, {
+        run,
+        // Everything after the approval is scheduled once it is answered
+        resume: (decision) => {
+          at = 0;
+          runTool(decision === 'deny');
+        },
+      });
+      this.broadcastEvent('exec.approval.requested', {
+        id,
+        request: { command: String(tool.args.command ?? tool.name), cwd: tool.args.cwd, sessionKey, agentId: 'main' },
+        createdAtMs,
+        expiresAtMs: createdAtMs + APPROVAL_TIMEOUT_MS,
+      });
+      run.timers.push(setTimeout(() => this.resolveApproval(id, 'deny'), APPROVAL_TIMEOUT_MS));
+    });
+  }
+
+  /** A spawned sub-agent outlives the turn that started it — its final arrives a little later */
+  private finishSubAgent(spawnResult: string) {
+    let childSessionKey: unknown;
+    try { childSessionKey = JSON.parse(spawnResult).childSessionKey; } catch { return; }
+    if (typeof childSessionKey !== 'string') return;
+    this.timers.push(setTimeout(() => this.broadcastEvent('chat', {
+      runId: `run-${crypto.randomUUID()}`,
+      sessionKey: childSessionKey,
+      state: 'final',
+      message: { role: 'assistant', content: [{ type: 'text', text: 'Done.' }] },
+    }), this.delay(2_500)));
+  }
+
+  /** Answer a paused run — false when the id is unknown or already answered */
+  private resolveApproval(id: unknown, decision: 'allow-once' | 'deny'): boolean {
+    const pending = typeof id === 'string' ? this.approvals.get(id) : undefined;
+    if (!pending) return false;
+    this.approvals.delete(id as string);
+    this.broadcastEvent('exec.approval.resolved', { id, decision, ts: Date.now() });
+    pending.resume(decision);
+    return true;
+  }
+
+  private abortRuns(sessionKey: unknown, runId?: unknown): boolean {
+    let aborted = false;
+    for (const run of [...this.runs.values()]) {
+      if (run.sessionKey !== sessionKey || (runId && run.runId !== runId)) continue;
+      run.timers.forEach(clearTimeout);
+      // An aborted run no longer waits on anyone
+      for (const [id, pending] of this.approvals) {
+        if (pending.run !== run) continue;
+        this.approvals.delete(id);
+        this.broadcastEvent('exec.approval.resolved', { id, decision: 'deny', ts: Date.now() });
+      }
+      const session = this.sessions.get(run.sessionKey);
+      if (session && run.streamed) this.pushMessage(session, 'assistant', [{ type: 'text', text: run.streamed }]);
+      this.broadcastEvent('chat', {
+        runId: run.runId,
+        sessionKey: run.sessionKey,
+        state: 'aborted',
+        ...(run.streamed ? { message: { role: 'assistant', content: [{ type: 'text', text: run.streamed }] } } : {}),
+      });
+      this.finishRun(run);
+      aborted = true;
+    }
+    return aborted;
+  }
+
+  private finishRun(run: ActiveRun) {
+    run.timers.forEach(clearTimeout);
+    this.runs.delete(run.runId);
+    this.broadcastEvent('session.ended', { sessionKey: run.sessionKey });
+  }
+
+  private pushMessage(session: MockSession, role: MockMessage['role'], content: unknown, extra: Partial<MockMessage> = {}) {
+    const now = new Date().toISOString();
+    session.messages.push({ id: `msg-${crypto.randomUUID()}`, role, content, timestamp: now, ...extra });
+    session.lastActive = now;
+  }
+
+  // ── Replay & ticks ──
+
+  /** The recording plays once, from the first client that completes the handshake */
+  private startReplay() {
+    if (!this.recording || this.replayStarted) return;
+    this.replayStarted = true;
+    let at = 0;
+    let prev = 0;
+    for (const entry of this.recording.events) {
+      at += Math.min(entry.at - prev, REPLAY_MAX_GAP_MS);
+      prev = entry.at;
+      this.timers.push(setTimeout(() => this.broadcastEvent(entry.event, entry.payload), this.delay(at)));
+    }
+    console.log(`[MockGateway] Replaying ${this.recording.events.length} events from ${this.recording.name}`);
+  }
+
+  /** Real gateways tick regularly — the client treats 45s of silence as a dead socket */
+  private startTicks() {
+    if (this.tickTimer) return;
+    this.tickTimer = setInterval(() => this.broadcastEvent('tick', { ts: Date.now() }), TICK_INTERVAL_MS);
+  }
+
+  // ── Frames ──
+
+  private delay(ms: number): number {
+    return Math.round(ms * this.delayScale);
+  }
+
+  private broadcastEvent(event: string, payload: unknown) {
+    const frame = { type: 'event', event, payload, seq: ++this.seq };
+    for (const client of this.clients) this.sendTo(client, frame);
+  }
+
+  private sendTo(transport: MockTransport, frame: unknown) {
+    try {
+      transport.send(JSON.stringify(frame));
+    } catch (err: any) {
+      console.warn('[MockGateway] Send failed:', err.message);
+    }
+  }
+}
+
+/** chat.send carries AEGIS's one-time desktop context in front of the first message */
+function stripDesktopContext(message: string): string {
+  return message.replace(/\[AEGIS_DESKTOP_CONTEXT\][\s\S]*?\[\/AEGIS_DESKTOP_CONTEXT\]\s*/, '');
+}
+
+// ── Loopback server ──────────────────────────────────────
+
+export interface MockServer {
+  url: string;
+  token: string;
+  recording?: { name: string; events: number; results: number };
+  stop(): Promise<void>;
+}
+
+/** Serve a MockGateway on 127.0.0.1 (port 0 = any free port) */
+export function startMockServer(opts: Omit<MockGatewayOptions, 'token'> = {}, port = 0): Promise<MockServer> {
+  const token = crypto.randomBytes(24).toString('hex');
+  const gateway = new MockGateway({ ...opts, token });
+  const wss = new WebSocketServer({ host: '127.0.0.1', port });
+
+  wss.on('connection', (ws) => {
+    const connection = gateway.attach({
+      send: (raw) => ws.send(raw),
+      close: (code, reason) => ws.close(code, reason),
+    });
+    ws.on('message', (data) => connection.receive(data.toString()));
+    ws.on('close', () => connection.detach());
+  });
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      const address = wss.address();
+      const actualPort = typeof address === 'object' && address ? address.port : port;
+      const { recording } = opts;
+      resolve({
+        url: `ws://127.0.0.1:${actualPort}`,
+        token,
+        recording: recording ? { name: recording.name, events: recording.events.length, results: recording.results.size } : undefined,
+        stop: () => new Promise<void>((done) => {
+          gateway.dispose();
+          for (const client of wss.clients) client.terminate();
+          wss.close(() => done());
+        }),
+      });
+    });
+  });
+}
+
+// ── IPC ──────────────────────────────────────────────────
+
+let server: MockServer | null = null;
+
+export async function stopMockGateway(): Promise<void> {
+  const running = server;
+  server = null;
+  if (running) await running.stop();
+}
+
+export function registerMockGatewayIPC(): void {
+  ipcMain.handle('mockGateway:start', async (_e, opts: { recording?: { name: string; content: string } } = {}) => {
+    try {
+      const recording = opts.recording ? parseRecording(opts.recording.name, opts.recording.content) : undefined;
+      await stopMockGateway();
+      server = await startMockServer({ recording });
+      console.log('[MockGateway] Listening on', server.url);
+      return { success: true, url: server.url, token: server.token, recording: server.recording };
+    } catch (err: any) {
+      console.error('[MockGateway] Start failed:', err.message);
+      return { success: false, error: err.message };
+    }
+  });
+  ipcMain.handle('mockGateway:stop', () => stopMockGateway());
+  ipcMain.handle('mockGateway:status', () =>
+    server ? { running: true, url: server.url, recording: server.recording } : { running: false });
+}
@@ -0,0 +1,366 @@
+// ═══════════════════════════════════════════════════════════
+// Mock Gateway — canned data for demo mode
+//
+// Everything the mock answers with before the user changes it:
+// agents, sessions with history, cron jobs, skills, config, usage.
+// Values are deterministic (no Math.random) so screenshots and
+// tests see the same numbers on every run.
+// ═══════════════════════════════════════════════════════════
+
+const DAY_MS = 86_400_000;
+const HOUR_MS = 3_600_000;
+
+export const MOCK_SERVER_VERSION = '2026.3.1-mock';
+
+// ── Agents & models ──────────────────────────────────────
+
+export const MOCK_MODELS = [
+  { id: 'anthropic/claude-sonnet-4-5', alias: 'sonnet', provider: 'anthropic', contextWindow: 200_000 },
+  { id: 'anthropic/claude-opus-4-1', alias: 'opus', provider: 'anthropic', contextWindow: 200_000 },
+  { id: 'openai/gpt-5', alias: 'gpt5', provider: 'openai', contextWindow: 400_000 },
+  { id: 'google/gemini-2.5-pro', alias: 'gemini', provider: 'google', contextWindow: 1_000_000 },
+];
+
+export const MOCK_AGENTS = [
+  { id: 'main', name: 'Aegis', model: 'anthropic/claude-sonnet-4-5', workspace: '~/.openclaw/workspace' },
+  { id: 'scout', name: 'Scout', model: 'google/gemini-2.5-pro', workspace: '~/.openclaw/workspace-scout' },
+  { id: 'forge', name: 'Forge', model: 'openai/gpt-5', workspace: '~/.openclaw/workspace-forge' },
+];
+
+export function mockConfig() {
+  return {
+    gateway: { port: 18789, bind: 'loopback', auth: { mode: 'token' } },
+    agents: {
+      defaults: {
+        model: { primary: 'anthropic/claude-sonnet-4-5', fallbacks: ['openai/gpt-5'] },
+        models: Object.fromEntries(MOCK_MODELS.map((m) => [m.id, { alias: m.alias }])),
+      },
+      list: MOCK_AGENTS.map((a) => ({ id: a.id, name: a.name, model: a.model, workspace: a.workspace })),
+    },
+  };
+}
+
+// ── Sessions ─────────────────────────────────────────────
+
+export interface MockMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'toolResult';
+  content: unknown;
+  timestamp: string;
+  toolName?: string;
+  toolCallId?: string;
+}
+
+export interface MockSession {
+  key: string;
+  label?: string;
+  model: string;
+  totalTokens: number;
+  contextTokens: number;
+  maxTokens: number;
+  compactions: number;
+  lastActive: string;
+  kind: string;
+  messages: MockMessage[];
+  [k: string]: unknown;
+}
+
+const text = (t: string) => [{ type: 'text', text: t }];
+
+function history(now: number, turns: [MockMessage['role'], unknown, Partial<MockMessage>?][]): MockMessage[] {
+  return turns.map(([role, content, extra], i) => ({
+    id: `hist-${now}-${i}`,
+    role,
+    content,
+    timestamp: new Date(now - (turns.length - i) * 90_000).toISOString(),
+    ...extra,
+  }));
+}
+
+export function mockSessions(now = Date.now()): MockSession[] {
+  return [
+    {
+      key: 'agent:main:main',
+      label: 'Main',
+      model: 'anthropic/claude-sonnet-4-5',
+      totalTokens: 48_210,
+      contextTokens: 48_210,
+      maxTokens: 200_000,
+      compactions: 1,
+      lastActive: new Date(now - 4 * 60_000).toISOString(),
+      kind: 'direct',
+      messages: history(now - 4 * 60_000, [
+        ['user', text('Good morning! What is on my plate today?')],
+        ['assistant', [{ type: 'toolCall', id: 'call-cal-1', name: 'calendar_list', input: { range: 'today' } }]],
+        ['toolResult', text('09:30 Standup\n13:00 Design review — onboarding flow\n16:00 1:1 with Sara'), { toolName: 'calendar_list', toolCallId: 'call-cal-1' }],
+        ['assistant', text('Good morning! You have three things today:\n\n1. **09:30** — Standup\n2. **13:00** — Design review for the onboarding flow\n3. **16:00** — 1:1 with Sara\n\nThe design review is the big one. Want me to pull the latest onboarding screenshots into a doc before then?')],
+        ['user', text('Yes please, and summarize the open feedback threads.')],
+        ['assistant', text('Done — I collected 14 screenshots into `onboarding-review.md` and grouped the open feedback into three themes:\n\n- **Copy** — the pairing step reads as too technical (5 comments)\n- **Flow** — users want to skip the workspace picker (3 comments)\n- **Visual** — the dark theme contrast on step 2 (2 comments)')],
+      ]),
+    },
+    {
+      key: 'agent:scout:main',
+      label: 'Research',
+      model: 'google/gemini-2.5-pro',
+      totalTokens: 131_904,
+      contextTokens: 131_904,
+      maxTokens: 1_000_000,
+      compactions: 0,
+      lastActive: new Date(now - 2 * HOUR_MS).toISOString(),
+      kind: 'direct',
+      messages: history(now - 2 * HOUR_MS, [
+        ['user', text('Compare the top three vector databases for a small self-hosted setup.')],
+        ['assistant', text('For a small self-hosted setup I would shortlist **pgvector**, **Qdrant** and **Chroma**:\n\n| | pgvector | Qdrant | Chroma |\n|---|---|---|---|\n| Runs as | Postgres extension | Single binary | Python / server |\n| Filtering | SQL | Payload filters | Metadata |\n| Best for | You already run Postgres | Larger collections | Prototyping |\n\nIf you already run Postgres, pgvector is the least moving parts.')],
+      ]),
+    },
+    {
+      key: 'agent:forge:main',
+      label: 'Build',
+      model: 'openai/gpt-5',
+      totalTokens: 12_480,
+      contextTokens: 12_480,
+      maxTokens: 400_000,
+      compactions: 0,
+      lastActive: new Date(now - DAY_MS).toISOString(),
+      kind: 'direct',
+      messages: history(now - DAY_MS, [
+        ['user', text('Why does the release build fail on Windows?')],
+        ['assistant', text('The `postinstall` script calls `cp`, which does not exist in `cmd.exe`. Switching it to `node scripts/copy-assets.js` fixes the Windows build.')],
+      ]),
+    },
+  ];
+}
+
+// ── Cron ─────────────────────────────────────────────────
+
+export function mockCronJobs(now = Date.now()) {
+  return [
+    {
+      id: 'cron-morning-brief',
+      name: 'Morning brief',
+      enabled: true,
+      schedule: { kind: 'cron', expr: '0 8 * * *', tz: 'UTC' },
+      sessionTarget: 'isolated',
+      payload: { kind: 'agentTurn', message: 'Summarize my calendar, inbox and overnight alerts.' },
+      state: {
+        nextRunAtMs: now + 9 * HOUR_MS,
+        lastRunAtMs: now - 15 * HOUR_MS,
+        lastStatus: 'ok',
+        lastRunStatus: 'ok',
+        lastDeliveryStatus: 'delivered',
+        lastDurationMs: 42_000,
+      },
+    },
+    {
+      id: 'cron-backup-check',
+      name: 'Backup check',
+      enabled: true,
+      schedule: { kind: 'every', everyMs: 6 * HOUR_MS },
+      sessionTarget: 'isolated',
+      payload: { kind: 'agentTurn', message: 'Verify last night\'s backups completed and report sizes.' },
+      state: {
+        nextRunAtMs: now + 2 * HOUR_MS,
+        lastRunAtMs: now - 4 * HOUR_MS,
+        lastStatus: 'error',
+        lastRunStatus: 'error',
+        lastDeliveryStatus: 'failed',
+        lastError: 'S3 listing timed out',
+        lastDurationMs: 120_000,
+      },
+    },
+    {
+      id: 'cron-weekly-review',
+      name: 'Weekly review',
+      enabled: false,
+      schedule: { kind: 'cron', expr: '0 17 * * 5', tz: 'UTC' },
+      sessionTarget: 'main',
+      payload: { kind: 'systemEvent', text: 'Time for the weekly review.' },
+      state: { nextRunAtMs: now + 3 * DAY_MS },
+    },
+  ];
+}
+
+export function mockCronRuns(jobId: string, now = Date.now()) {
+  const failing = jobId === 'cron-backup-check';
+  return Array.from({ length: 8 }, (_, i) => ({
+    jobId,
+    ts: now - (i + 1) * 6 * HOUR_MS,
+    status: failing && i % 3 === 0 ? 'error' : 'ok',
+    durationMs: 30_000 + ((i * 7_919) % 60_000),
+    summary: failing && i % 3 === 0 ? 'S3 listing timed out' : 'Completed',
+  }));
+}
+
+// ── Skills ───────────────────────────────────────────────
+
+export const MOCK_SKILLS = [
+  { slug: 'calendar', name: 'calendar', displayName: 'Calendar', emoji: '📅', description: 'Read and create calendar events', enabled: true, source: 'bundled', version: '1.4.0' },
+  { slug: 'web-search', name: 'web-search', displayName: 'Web Search', emoji: '🔎', description: 'Search the web and fetch pages', enabled: true, source: 'bundled', version: '2.1.0' },
+  { slug: 'github', name: 'github', displayName: 'GitHub', emoji: '🐙', description: 'Issues, PRs and CI status', enabled: true, source: 'clawhub', version: '0.9.2' },
+  { slug: 'home-assistant', name: 'home-assistant', displayName: 'Home Assistant', emoji: '🏠', description: 'Control lights, climate and scenes', enabled: false, source: 'local', version: '0.3.0' },
+];
+
+// ── Usage ────────────────────────────────────────────────
+
+function costTotals(input: number, output: number, cacheRead: number) {
+  const inputCost = input * 3e-6;
+  const outputCost = output * 15e-6;
+  const cacheReadCost = cacheRead * 0.3e-6;
+  return {
+    input,
+    output,
+    cacheRead,
+    cacheWrite: 0,
+    totalTokens: input + output + cacheRead,
+    totalCost: inputCost + outputCost + cacheReadCost,
+    inputCost,
+    outputCost,
+    cacheReadCost,
+    cacheWriteCost: 0,
+    missingCostEntries: 0,
+  };
+}
+
+function sumTotals(list: ReturnType<typeof costTotals>[]) {
+  return costTotals(
+    list.reduce((s, t) => s + t.input, 0),
+    list.reduce((s, t) => s + t.output, 0),
+    list.reduce((s, t) => s + t.cacheRead, 0),
+  );
+}
+
+/** Weekday-shaped usage curve — busier mid-week, quiet weekends */
+export function mockCostSummary(days = 30, now = Date.now()) {
+  const daily = Array.from({ length: days }, (_, i) => {
+    const date = new Date(now - (days - 1 - i) * DAY_MS);
+    const weekday = date.getUTCDay();
+    const load = weekday === 0 || weekday === 6 ? 0.3 : 0.8 + ((i * 37) % 10) / 20;
+    const totals = costTotals(Math.round(180_000 * load), Math.round(24_000 * load), Math.round(900_000 * load));
+    return { date: date.toISOString().slice(0, 10), ...totals, requests: Math.round(60 * load) };
+  });
+  return { updatedAt: now, days, daily, totals: { ...sumTotals(daily), requests: daily.reduce((s, d) => s + d.requests, 0) } };
+}
+
+export function mockSessionsUsage(sessions: MockSession[], now = Date.now()) {
+  const perSession = sessions.map((s, i) => ({
+    key: s.key,
+    label: s.label,
+    agentId: s.key.split(':')[1] || 'main',
+    model: s.model,
+    updatedAt: now - i * HOUR_MS,
+    totals: costTotals(Math.round(s.totalTokens * 0.7), Math.round(s.totalTokens * 0.1), Math.round(s.totalTokens * 2)),
+  }));
+  const byModel = MOCK_MODELS.map((m) => {
+    const own = perSession.filter((s) => s.model === m.id);
+    return { provider: m.provider, model: m.id.split('/')[1], count: own.length, totals: sumTotals(own.map((s) => s.totals)) };
+  }).filter((m) => m.count > 0);
+  const byAgent = MOCK_AGENTS.map((a) => ({
+    agentId: a.id,
+    totals: sumTotals(perSession.filter((s) => s.agentId === a.id).map((s) => s.totals)),
+  }));
+  return {
+    updatedAt: now,
+    startDate: new Date(now - 29 * DAY_MS).toISOString().slice(0, 10),
+    endDate: new Date(now).toISOString().slice(0, 10),
+    sessions: perSession,
+    totals: sumTotals(perSession.map((s) => s.totals)),
+    aggregates: {
+      messages: { total: 184, user: 61, assistant: 88, toolCalls: 35, toolResults: 35, errors: 2 },
+      tools: {
+        totalCalls: 35,
+        uniqueTools: 4,
+        tools: [{ name: 'web_search', count: 14 }, { name: 'read', count: 11 }, { name: 'exec', count: 7 }, { name: 'calendar_list', count: 3 }],
+      },
+      byModel,
+      byProvider: byModel,
+      byAgent,
+    },
+  };
+}
+
+// ── Presence ─────────────────────────────────────────────
+
+export function mockPresence(now = Date.now()) {
+  return [
+    { host: 'aegis-demo', instanceId: 'gateway-demo', mode: 'gateway', platform: process.platform, version: MOCK_SERVER_VERSION, ts: now },
+    { host: 'studio-mac', instanceId: 'node-studio', mode: 'node', platform: 'darwin', lastInputSeconds: 42, ts: now - 60_000 },
+  ];
+}
+
+// ── Scripted replies ─────────────────────────────────────
+
+/** What audio.transcribe "hears" — any recording becomes this request */
+export const MOCK_TRANSCRIPT = 'Run the tests and tell me if anything fails.';
+
+export interface MockReplyScript {
+  /** Chosen when the user's message matches; the first script is the fallback */
+  match?: RegExp;
+  thinking: string;
+  /** approval: the run pauses on an exec approval before the tool runs */
+  tool?: { name: string; args: Record<string, unknown>; updates: string[]; result: string; approval?: boolean };
+  reply: string;
+  /** Sent instead of reply when the approval is denied */
+  deniedReply?: string;
+}
+
+export const MOCK_REPLIES: MockReplyScript[] = [
+  {
+    thinking: 'The user is trying out the demo. I should explain what this session is and show a short tool call so the tool cards render.',
+    tool: {
+      name: 'read',
+      args: { path: 'README.md', limit: 20 },
+      updates: ['# AEGIS Desktop\n'],
+      result: '# AEGIS Desktop\n\nA desktop client for the OpenClaw Gateway — chat, agents, cron, usage and more.',
+    },
+    reply: 'This is **demo mode** — you are talking to a mock gateway running inside AEGIS, so nothing leaves your machine.\n\nEverything here behaves like a real gateway: replies stream in, tool calls show up as cards, and the Dashboard, Cron and Analytics pages are filled with sample data. Try asking me to *search* for something or to *run* a command.',
+  },
+  {
+    match: /search|find|look up|research|ابحث/i,
+    thinking: 'A search request. Run web_search, then summarize the top results in a short list.',
+    tool: {
+      name: 'web_search',
+      args: { query: 'OpenClaw gateway protocol v3', count: 3 },
+      updates: ['1 result…', '2 results…'],
+      result: JSON.stringify([
+        { title: 'Gateway protocol v3', url: 'https://docs.openclaw.ai/gateway/protocol' },
+        { title: 'Device pairing', url: 'https://docs.openclaw.ai/gateway/pairing' },
+        { title: 'Cron jobs', url: 'https://docs.openclaw.ai/automation/cron' },
+      ], null, 2),
+    },
+    reply: 'I found three relevant pages:\n\n1. **Gateway protocol v3** — the WebSocket frames, `connect.challenge` and the hello handshake\n2. **Device pairing** — how a new client gets approved\n3. **Cron jobs** — scheduling agent turns\n\n_(Demo mode — these results are canned.)_',
+  },
+  {
+    match: /run|exec|command|build|test|شغل/i,
+    thinking: 'The user wants a command run. Use exec and report the outcome.',
+    tool: {
+      name: 'exec',
+      args: { command: 'npm test', cwd: '~/projects/aegis' },
+      approval: true,
+      updates: ['> aegis@1.0.0 test\n', '> aegis@1.0.0 test\n\n ✓ gateway (12)\n', '> aegis@1.0.0 test\n\n ✓ gateway (12)\n ✓ stores (31)\n'],
+      result: '> aegis@1.0.0 test\n\n ✓ gateway (12)\n ✓ stores (31)\n ✓ utils (18)\n\nTest Files  3 passed (3)\n     Tests  61 passed (61)',
+    },
+    reply: 'All green — **61 tests** passed across 3 files in about 4 seconds.',
+    deniedReply: 'Understood — I did not run `npm test`. Let me know if you want me to try something else.',
+  },
+  {
+    match: /spawn|delegate|sub-?agent|وكيل/i,
+    thinking: 'This can run in the background. Spawn a sub-agent for it and tell the user where to follow along.',
+    tool: {
+      name: 'sessions_spawn',
+      args: { task: 'Triage the open onboarding issues and draft a summary', label: 'issue-triage', agentId: 'main' },
+      updates: [],
+      result: JSON.stringify({ status: 'accepted', childSessionKey: 'agent:main:subagent:demo-issue-triage', runId: 'run-demo-issue-triage' }),
+    },
+    reply: 'I started a sub-agent (**issue-triage**) for that. It works in its own session and reports back when it is done — open the run timeline on this reply to see it next to this turn.',
+  },
+  {
+    match: /hello|hi\b|hey|مرحبا|السلام/i,
+    thinking: 'A greeting. Keep it short and friendly.',
+    reply: 'Hi! 👋 I\'m the demo agent. Ask me to search, run something, or just chat — the replies are scripted, but the UI is the real thing.',
+  },
+];
+
+export function pickReply(message: string, turn: number): MockReplyScript {
+  const matched = MOCK_REPLIES.find((r) => r.match?.test(message));
+  return matched ?? MOCK_REPLIES[turn % MOCK_REPLIES.length];
+}
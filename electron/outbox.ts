@@ -0,0 +1,57 @@
+import { app, ipcMain } from 'electron';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// ═══════════════════════════════════════════════════════════
+// Outbox — durable copy of the renderer's offline message queue
+//
+// The renderer owns the queue (outboxStore) and hands over the whole
+// list after every change; it is small, so one JSON file rewritten
+// through a temp file is enough and never leaves a torn write behind.
+// ═══════════════════════════════════════════════════════════
+
+export interface OutboxItem {
+  id: string;
+  /** Sent as chat.send's idempotencyKey — stable across retries and restarts */
+  idempotencyKey: string;
+  /** Gateway profile the message was written for */
+  profileId: string;
+  sessionKey: string;
+  message: string;
+  attachments?: any[];
+  createdAt: string;
+  status: 'queued' | 'sending' | 'failed';
+  attempts: number;
+  error?: string;
+}
+
+const OUTBOX_FILE = path.join(app.getPath('userData'), 'outbox.json');
+
+export function loadOutbox(): OutboxItem[] {
+  try {
+    if (!fs.existsSync(OUTBOX_FILE)) return [];
+    const parsed = JSON.parse(fs.readFileSync(OUTBOX_FILE, 'utf-8'));
+    return Array.isArray(parsed) ? parsed.filter((i) => i && i.id && i.idempotencyKey && i.sessionKey) : [];
+  } catch (err: any) {
+    console.error('[Outbox] Load failed:', err.message);
+    return [];
+  }
+}
+
+export function saveOutbox(items: OutboxItem[]): void {
+  try {
+    fs.mkdirSync(path.dirname(OUTBOX_FILE), { recursive: true });
+    const tmp = `${OUTBOX_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(items), 'utf-8');
+    fs.renameSync(tmp, OUTBOX_FILE);
+  } catch (err: any) {
+    console.error('[Outbox] Save failed:', err.message);
+  }
+}
+
+// ── IPC ──────────────────────────────────────────────────
+
+export function registerOutboxIPC(): void {
+  ipcMain.handle('outbox:load', () => loadOutbox());
+  ipcMain.handle('outbox:save', (_e, items: OutboxItem[]) => saveOutbox(Array.isArray(items) ? items : []));
+}
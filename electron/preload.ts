@@ -27,6 +27,14 @@ const api = {
     save: (config: any) => ipcRenderer.invoke('config:save', config),
   },
 
+  // ── Gateway Profiles ──
+  profiles: {
+    list: () => ipcRenderer.invoke('profiles:list'),
+    save: (profile: any) => ipcRenderer.invoke('profiles:save', profile),
+    delete: (id: string) => ipcRenderer.invoke('profiles:delete', id),
+    activate: (id: string) => ipcRenderer.invoke('profiles:activate', id),
+  },
+
   // Gateway IPC removed — all WS communication handled by src/services/gateway.ts (renderer-side)
 
   // ── Screenshot ──
@@ -81,6 +89,9 @@ const api = {
     openDialog: () => ipcRenderer.invoke('file:openDialog'),
     read: (path: string) => ipcRenderer.invoke('file:read', path),
     openSharedFolder: () => ipcRenderer.invoke('file:openSharedFolder'),
+    saveText: (content: string, suggestedName: string, title?: string) =>
+      ipcRenderer.invoke('file:saveText', content, suggestedName, title),
+    openText: (extensions?: string[]) => ipcRenderer.invoke('file:openText', extensions),
   },
 
   // ── Voice ──
@@ -101,8 +112,74 @@ const api = {
 
   // ── Artifacts Preview ──
   artifact: {
-    open: (data: { type: string; title: string; content: string }) =>
+    open: (data: { type: string; title: string; content: string; newWindow?: boolean }) =>
       ipcRenderer.invoke('artifact:open', data),
+    export: (content: string, suggestedName: string) =>
+      ipcRenderer.invoke('artifact:export', content, suggestedName),
+  },
+
+  // ── Chat Archive ──
+  archive: {
+    append: (records: any[]) => ipcRenderer.invoke('archive:append', records),
+    search: (query: any) => ipcRenderer.invoke('archive:search', query),
+    session: (profileId: string, sessionKey: string) => ipcRenderer.invoke('archive:session', profileId, sessionKey),
+    sessions: (profileId?: string) => ipcRenderer.invoke('archive:sessions', profileId),
+    clear: (profileId?: string, sessionKey?: string) => ipcRenderer.invoke('archive:clear', profileId, sessionKey),
+  },
+
+  // ── Offline Message Queue ──
+  outbox: {
+    load: () => ipcRenderer.invoke('outbox:load'),
+    save: (items: any[]) => ipcRenderer.invoke('outbox:save', items),
+  },
+
+  // ── Artifact Library ──
+  artifacts: {
+    load: () => ipcRenderer.invoke('artifacts:load'),
+    save: (artifacts: Record<string, any>, deleted: string[]) => ipcRenderer.invoke('artifacts:save', artifacts, deleted),
+  },
+
+  // ── Demo mode (mock gateway) ──
+  mockGateway: {
+    start: (opts?: { recording?: { name: string; content: string } }) => ipcRenderer.invoke('mockGateway:start', opts),
+    stop: () => ipcRenderer.invoke('mockGateway:stop'),
+    status: () => ipcRenderer.invoke('mockGateway:status'),
+  },
+
+  // ── Gateway config history (rollback) ──
+  configHistory: {
+    list: (profileId: string) => ipcRenderer.invoke('configHistory:list', profileId),
+    add: (entry: any) => ipcRenderer.invoke('configHistory:add', entry),
+    clear: (profileId: string) => ipcRenderer.invoke('configHistory:clear', profileId),
+  },
+
+  // ── Clipboard ──
+  clipboard: {
+    read: () => ipcRenderer.invoke('clipboard:read'),
+    write: (text: string) => ipcRenderer.invoke('clipboard:write', text),
+  },
+
+  // ── Prompt Macros (tray menu) ──
+  macros: {
+    setTray: (macros: { label: string; items: { id: string; label: string }[] }) =>
+      ipcRenderer.invoke('macros:set-tray', macros),
+    onRun: (callback: (id: string) => void) => {
+      const handler = (_e: any, id: string) => callback(id);
+      ipcRenderer.on('macro:run', handler);
+      return () => { ipcRenderer.removeListener('macro:run', handler); };
+    },
+  },
+
+  // ── Push-to-talk (global shortcut + overlay) ──
+  talk: {
+    setHotkey: (accelerator: string) => ipcRenderer.invoke('talk:set-hotkey', accelerator),
+    setState: (state: { state: string; label: string; text?: string; rtl?: boolean }) =>
+      ipcRenderer.invoke('talk:state', state),
+    onCommand: (callback: (command: 'start' | 'stop') => void) => {
+      const handler = (_e: any, command: 'start' | 'stop') => callback(command);
+      ipcRenderer.on('talk:command', handler);
+      return () => { ipcRenderer.removeListener('talk:command', handler); };
+    },
   },
 
   // ── Image Save ──
@@ -0,0 +1,138 @@
+import { BrowserWindow, screen } from 'electron';
+
+// ═══════════════════════════════════════════════════════════
+// Talk Overlay — push-to-talk status pill
+// A small always-on-top window at the bottom of the screen the
+// cursor is on: listening / thinking / speaking, with the
+// transcript or reply underneath. It never takes focus or mouse
+// input, so the app you are working in stays in front.
+// ═══════════════════════════════════════════════════════════
+
+/** What the renderer reports (services/talkMode.ts) — label and text already localized */
+export interface TalkOverlayState {
+  state: 'idle' | 'listening' | 'thinking' | 'speaking' | 'reply' | 'error';
+  label: string;
+  text?: string;
+  rtl?: boolean;
+}
+
+const WIDTH = 340;
+const HEIGHT = 76;
+const BOTTOM_MARGIN = 48;
+
+let overlay: BrowserWindow | null = null;
+let loaded = false;
+let latest: TalkOverlayState | null = null;
+
+const OVERLAY_HTML = `
+  <!DOCTYPE html>
+  <html>
+  <head><meta charset="utf-8">
+  <style>
+    * { margin:0; padding:0; box-sizing:border-box; }
+    html, body { background: transparent; overflow: hidden; height: 100vh; }
+    body { display: flex; align-items: center; justify-content: center; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; }
+    .pill {
+      display: flex; align-items: center; gap: 12px;
+      width: calc(100% - 12px); padding: 12px 16px;
+      background: rgba(10,10,20,0.92); border: 1px solid rgba(255,255,255,0.08);
+      border-radius: 18px; box-shadow: 0 8px 24px rgba(0,0,0,0.35);
+    }
+    .dot { width: 14px; height: 14px; border-radius: 50%; flex-shrink: 0; background: #5a6370; }
+    .body { min-width: 0; flex: 1; }
+    .label { color: #e0e0e0; font-size: 13px; font-weight: 600; }
+    .text { color: #8b949e; font-size: 11px; margin-top: 2px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+    .text:empty { display: none; }
+    [data-state="listening"] .dot { background: #F47067; animation: pulse 1s ease-in-out infinite; }
+    [data-state="thinking"] .dot { background: transparent; border: 2px solid rgba(108,159,255,0.2); border-top-color: #6C9FFF; animation: spin 0.8s linear infinite; }
+    [data-state="speaking"] .dot { background: #4EC9B0; animation: pulse 0.6s ease-in-out infinite; }
+    [data-state="reply"] .dot { background: #4EC9B0; }
+    [data-state="error"] .dot { background: #E3B341; }
+    @keyframes pulse { 0%,100% { transform: scale(1); opacity: 1; } 50% { transform: scale(0.7); opacity: 0.6; } }
+    @keyframes spin { to { transform: rotate(360deg); } }
+  </style>
+  </head>
+  <body>
+    <div class="pill" id="pill" data-state="idle">
+      <div class="dot"></div>
+      <div class="body">
+        <div class="label" id="label"></div>
+        <div class="text" id="text"></div>
+      </div>
+    </div>
+  </body>
+  </html>
+`;
+
+function render(win: BrowserWindow, s: TalkOverlayState): void {
+  // The page has no script of its own — state is applied from here
+  const payload = JSON.stringify({ state: s.state, label: s.label, text: s.text ?? '', dir: s.rtl ? 'rtl' : 'ltr' });
+  win.webContents.executeJavaScript(`(() => {
+    const s = ${payload};
+    const pill = document.getElementById('pill');
+    pill.dataset.state = s.state;
+    pill.dir = s.dir;
+    document.getElementById('label').textContent = s.label;
+    document.getElementById('text').textContent = s.text;
+  })()`).catch(() => { /* window closed meanwhile */ });
+}
+
+function position(win: BrowserWindow): void {
+  const { workArea } = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+  win.setBounds({
+    x: Math.round(workArea.x + (workArea.width - WIDTH) / 2),
+    y: Math.round(workArea.y + workArea.height - HEIGHT - BOTTOM_MARGIN),
+    width: WIDTH,
+    height: HEIGHT,
+  });
+}
+
+function createOverlay(): BrowserWindow {
+  const win = new BrowserWindow({
+    width: WIDTH,
+    height: HEIGHT,
+    show: false,
+    frame: false,
+    transparent: true,
+    resizable: false,
+    movable: false,
+    focusable: false,
+    skipTaskbar: true,
+    hasShadow: false,
+    alwaysOnTop: true,
+    webPreferences: { nodeIntegration: false, contextIsolation: true, sandbox: true },
+  });
+  // Above full-screen apps too
+  win.setAlwaysOnTop(true, 'screen-saver');
+  win.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
+  win.setIgnoreMouseEvents(true);
+
+  loaded = false;
+  win.webContents.on('did-finish-load', () => {
+    loaded = true;
+    if (latest) render(win, latest);
+  });
+  win.on('closed', () => { overlay = null; });
+  win.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(OVERLAY_HTML)}`);
+  return win;
+}
+
+/** Show the overlay in this state — idle hides it */
+export function setTalkOverlay(s: TalkOverlayState): void {
+  latest = s;
+  if (s.state === 'idle') {
+    overlay?.hide();
+    return;
+  }
+  if (!overlay || overlay.isDestroyed()) overlay = createOverlay();
+  if (loaded) render(overlay, s);
+  if (!overlay.isVisible()) {
+    position(overlay);
+    overlay.showInactive();
+  }
+}
+
+export function destroyTalkOverlay(): void {
+  if (overlay && !overlay.isDestroyed()) overlay.destroy();
+  overlay = null;
+}
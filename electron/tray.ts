@@ -2,27 +2,43 @@ import { Tray, Menu, nativeImage, BrowserWindow, App, shell } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
 
-export function createTray(mainWindow: BrowserWindow, app: App): Tray {
-  const iconPath = path.join(__dirname, '..', 'assets', 'icon.ico');
-  let trayIcon: Electron.NativeImage;
+/** Prompt macros mirrored from the renderer (services/macros.ts) */
+export interface TrayMacros {
+  label: string;
+  items: { id: string; label: string }[];
+}
 
-  if (fs.existsSync(iconPath)) {
-    trayIcon = nativeImage.createFromPath(iconPath).resize({ width: 16, height: 16 });
-  } else {
-    trayIcon = nativeImage.createEmpty();
-  }
+let trayMacros: TrayMacros = { label: '', items: [] };
 
-  const tray = new Tray(trayIcon);
+function buildMenu(mainWindow: BrowserWindow, app: App): Menu {
+  const showWindow = () => {
+    mainWindow.show();
+    mainWindow.focus();
+  };
 
-  const contextMenu = Menu.buildFromTemplate([
+  const macroItems: Electron.MenuItemConstructorOptions[] = trayMacros.items.length > 0
+    ? [
+        {
+          label: trayMacros.label,
+          submenu: trayMacros.items.map((m) => ({
+            label: m.label,
+            click: () => {
+              showWindow();
+              mainWindow.webContents.send('macro:run', m.id);
+            },
+          })),
+        },
+        { type: 'separator' },
+      ]
+    : [];
+
+  return Menu.buildFromTemplate([
     {
       label: '🛡️ فتح AEGIS',
-      click: () => {
-        mainWindow.show();
-        mainWindow.focus();
-      },
+      click: showWindow,
     },
     { type: 'separator' },
+    ...macroItems,
     {
       label: '❌ إغلاق',
       click: () => {
@@ -31,9 +47,22 @@ export function createTray(mainWindow: BrowserWindow, app: App): Tray {
       },
     },
   ]);
+}
+
+export function createTray(mainWindow: BrowserWindow, app: App): Tray {
+  const iconPath = path.join(__dirname, '..', 'assets', 'icon.ico');
+  let trayIcon: Electron.NativeImage;
+
+  if (fs.existsSync(iconPath)) {
+    trayIcon = nativeImage.createFromPath(iconPath).resize({ width: 16, height: 16 });
+  } else {
+    trayIcon = nativeImage.createEmpty();
+  }
+
+  const tray = new Tray(trayIcon);
 
   tray.setToolTip('AEGIS Desktop');
-  tray.setContextMenu(contextMenu);
+  tray.setContextMenu(buildMenu(mainWindow, app));
   tray.on('double-click', () => {
     mainWindow.show();
     mainWindow.focus();
@@ -41,3 +70,9 @@ export function createTray(mainWindow: BrowserWindow, app: App): Tray {
 
   return tray;
 }
+
+/** Replace the macros submenu and rebuild the context menu */
+export function setTrayMacros(tray: Tray, mainWindow: BrowserWindow, app: App, macros: TrayMacros): void {
+  trayMacros = macros;
+  tray.setContextMenu(buildMenu(mainWindow, app));
+}
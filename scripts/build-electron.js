@@ -23,6 +23,29 @@ try {
     console.log(`📄 Copied ${htmlFiles.length} HTML file(s) to dist-electron/`);
   }
 
+  // Bundle artifact preview runtimes (React, ReactDOM, Babel, Mermaid) so
+  // preview-container.html works offline — it falls back to the CDN only
+  // when a file below is missing.
+  const PREVIEW_RUNTIMES = [
+    'react/umd/react.development.js',
+    'react-dom/umd/react-dom.development.js',
+    '@babel/standalone/babel.min.js',
+    'mermaid/dist/mermaid.min.js',
+  ];
+  const runtimesDir = path.join(distDir, 'preview-runtimes');
+  fs.mkdirSync(runtimesDir, { recursive: true });
+  let copiedRuntimes = 0;
+  for (const rel of PREVIEW_RUNTIMES) {
+    const src = path.join(root, 'node_modules', rel);
+    if (fs.existsSync(src)) {
+      fs.copyFileSync(src, path.join(runtimesDir, path.basename(rel)));
+      copiedRuntimes++;
+    } else {
+      console.warn(`⚠️  Preview runtime not found: ${rel} (preview will use CDN)`);
+    }
+  }
+  console.log(`📦 Copied ${copiedRuntimes}/${PREVIEW_RUNTIMES.length} preview runtime(s) to dist-electron/preview-runtimes/`);
+
   console.log('✅ Electron build complete → dist-electron/');
 } catch (e) {
   console.error('❌ Electron build failed');
@@ -7,17 +7,36 @@ import { ChatPage } from '@/pages/ChatPage';
 import { WorkshopPage } from '@/pages/Workshop';
 import { FullAnalyticsPage } from '@/pages/FullAnalytics';
 import { CronMonitorPage } from '@/pages/CronMonitor';
+import { ArtifactsPage } from '@/pages/Artifacts';
+import { ArchiveSearchPage } from '@/pages/ArchiveSearch';
 import { AgentHubPage } from '@/pages/AgentHub';
 import { MemoryExplorerPage } from '@/pages/MemoryExplorer';
 import { SkillsPage as SkillsPageFull } from '@/pages/SkillsPage';
 import { TerminalPage } from '@/pages/TerminalPage';
 import { SettingsPageFull } from '@/pages/SettingsPage';
+import { DiagnosticsPage } from '@/pages/Diagnostics';
+import { GatewayConfigPage } from '@/pages/GatewayConfig';
+import { ApprovalsPage } from '@/pages/Approvals';
 import { PairingScreen } from '@/components/PairingScreen';
 import { ToastContainer } from '@/components/Toast/ToastContainer';
+import { BudgetHoldDialog } from '@/components/BudgetHoldDialog';
+import { MacroPromptDialog } from '@/components/MacroPromptDialog';
 import { useChatStore } from '@/stores/chatStore';
 import { useSettingsStore } from '@/stores/settingsStore';
+import { useProfileStore } from '@/stores/profileStore';
+import { useOutboxStore } from '@/stores/outboxStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { startArtifactIndexing } from '@/stores/artifactStore';
 import { gateway } from '@/services/gateway';
+import { modelRefId } from '@/services/protocol';
 import { notifications } from '@/services/notifications';
+import { startArchiveRecording } from '@/services/archive';
+import { startFleet } from '@/services/fleet';
+import { startMacros } from '@/services/macros';
+import { startApprovals } from '@/services/approvals';
+import { startTalkMode, handleTalkReply } from '@/services/talkMode';
+import { PROFILE_SWITCHED_EVENT } from '@/services/profiles';
+import { startDemoMode } from '@/services/demoMode';
 import { changeLanguage } from '@/i18n';
 
 // ═══════════════════════════════════════════════════════════
@@ -49,14 +68,13 @@ export default function App() {
   // ── Load Sessions from Gateway ──
   const loadSessions = useCallback(async () => {
     try {
-      const result = await gateway.getSessions();
-      const rawSessions = Array.isArray(result?.sessions) ? result.sessions : [];
+      const { sessions: rawSessions } = await gateway.getSessions();
       if (rawSessions.length > 0) {
-        const sessions = rawSessions.map((s: any) => {
+        const sessions = rawSessions.map((s) => {
           const key = s.key || s.sessionKey || 'unknown';
           let label = s.label || s.name || key;
           if (key === 'agent:main:main') label = t('dashboard.mainSession');
-          else if (key.startsWith('agent:main:')) label = key.split(':').pop() || key;
+          else if (!s.label && key.startsWith('agent:main:')) label = key.split(':').pop() || key;
           return {
             key, label,
             lastMessage: s.lastMessage?.content?.substring?.(0, 60),
@@ -72,9 +90,8 @@ export default function App() {
   // ── Token Usage ──
   const loadTokenUsage = useCallback(async () => {
     try {
-      const result = await gateway.getSessions();
-      const sessions = Array.isArray(result?.sessions) ? result.sessions : [];
-      const main = sessions.find((s: any) => (s.key || '') === 'agent:main:main');
+      const { sessions } = await gateway.getSessions();
+      const main = sessions.find((s) => s.key === 'agent:main:main');
       if (main) {
         const used = main.totalTokens ?? 0;
         const max = main.contextTokens ?? 200000;
@@ -96,13 +113,11 @@ export default function App() {
   const loadAvailableModels = useCallback(async () => {
     // ── Strategy 1: config.get → agents.defaults.models (most reliable) ──
     try {
-      const raw = await gateway.call('config.get', {});
-      // Response may be config directly OR wrapped: { config: {...} }
-      const config = raw?.agents?.defaults?.models ? raw : raw?.config;
-      const modelsSection: Record<string, any> = config?.agents?.defaults?.models ?? {};
+      const { config } = await gateway.call('config.get', {});
+      const modelsSection = config.agents?.defaults?.models ?? {};
       const fromConfig = Object.entries(modelsSection)
-        .filter(([, cfg]: [string, any]) => cfg?.alias)
-        .map(([id, cfg]: [string, any]) => ({
+        .filter(([, cfg]) => cfg.alias)
+        .map(([id, cfg]) => ({
           id,
           label: id,           // Raw — formatted in TitleBar
           alias: cfg.alias as string,
@@ -121,16 +136,14 @@ export default function App() {
       const modelMap = new Map<string, { id: string; label: string; alias?: string }>();
 
       // Main session model
-      const sessionsResult = await gateway.getSessions();
-      const sessions = Array.isArray(sessionsResult?.sessions) ? sessionsResult.sessions : [];
-      const main = sessions.find((s: any) => (s.key || '') === 'agent:main:main');
+      const { sessions } = await gateway.getSessions();
+      const main = sessions.find((s) => s.key === 'agent:main:main');
       if (main?.model) modelMap.set(main.model, { id: main.model, label: main.model });
 
       // Agent models
-      const agentsResult = await gateway.getAgents();
-      const agents = Array.isArray(agentsResult?.agents) ? agentsResult.agents : [];
+      const { agents } = await gateway.getAgents();
       for (const agent of agents) {
-        const modelId = agent?.model?.primary;
+        const modelId = modelRefId(agent.model);
         if (modelId && !modelMap.has(modelId)) {
           modelMap.set(modelId, { id: modelId, label: modelId });
         }
@@ -169,15 +182,19 @@ export default function App() {
           });
         }
       },
-      onStreamChunk: (messageId, content, media) => {
-        updateStreamingMessage(messageId, content, media ? { mediaUrl: media.mediaUrl, mediaType: media.mediaType } : undefined);
+      onStreamChunk: (sessionKey, messageId, content, media) => {
+        updateStreamingMessage(sessionKey, messageId, content, media ? { mediaUrl: media.mediaUrl, mediaType: media.mediaType } : undefined);
       },
-      onStreamEnd: (messageId, content, media) => {
-        finalizeStreamingMessage(messageId, content, media ? { mediaUrl: media.mediaUrl, mediaType: media.mediaType } : undefined);
+      onStreamEnd: (sessionKey, messageId, content, media) => {
+        finalizeStreamingMessage(sessionKey, messageId, content, media ? { mediaUrl: media.mediaUrl, mediaType: media.mediaType } : undefined);
         loadTokenUsage();
-        // Notify (sound + toast) when app is minimized/background OR user is on a different page
+        // Push-to-talk — speak the answer to what was just asked
+        handleTalkReply(sessionKey, content, media);
+        // Notify (sound + toast) when app is minimized/background, user is on a different page,
+        // or the reply finished in a background tab
         const isOnChat = window.location.hash === '#/chat' || window.location.hash.startsWith('#/chat?');
-        if (!document.hasFocus() || !isOnChat) {
+        const isActiveTab = sessionKey === useChatStore.getState().activeSessionKey;
+        if (!document.hasFocus() || !isOnChat || !isActiveTab) {
           notifications.notify({
             type: 'task_complete',
             title: t('notifications.replyComplete'),
@@ -223,9 +240,37 @@ export default function App() {
     const handleModelChanged = () => loadTokenUsage();
     window.addEventListener('aegis:model-changed', handleModelChanged);
 
+    // Gateway profile switched — pairing now targets the new gateway
+    const handleProfileSwitched = (e: Event) => {
+      setGatewayHttpUrl((e as CustomEvent).detail.httpUrl);
+      setNeedsPairing(false);
+      pairingTriggeredRef.current = false;
+    };
+    window.addEventListener(PROFILE_SWITCHED_EVENT, handleProfileSwitched);
+
+    // Collect <aegis_artifact> blocks from every session into the library
+    const stopArtifactIndexing = startArtifactIndexing();
+    // Persist every finalized message to the local archive (main process)
+    const stopArchiveRecording = startArchiveRecording();
+    // Observe the other gateway profiles while the Dashboard's "All gateways" mode is on
+    const stopFleet = startFleet();
+    // Prompt macros — selection tracking for {{selection}} and the tray submenu
+    const stopMacros = startMacros();
+    // Tool approval requests — session rules, notifications, expiry
+    const stopApprovals = startApprovals();
+    // Push-to-talk — global shortcut, overlay and spoken replies
+    const stopTalkMode = startTalkMode();
+
     // Cleanup — prevent orphan WebSocket connections on remount
     return () => {
       window.removeEventListener('aegis:model-changed', handleModelChanged);
+      window.removeEventListener(PROFILE_SWITCHED_EVENT, handleProfileSwitched);
+      stopArtifactIndexing();
+      stopArchiveRecording();
+      stopFleet();
+      stopMacros();
+      stopApprovals();
+      stopTalkMode();
       gateway.disconnect();
     };
   }, []);
@@ -233,6 +278,13 @@ export default function App() {
   const initConnection = async () => {
     const DEFAULT_URL = 'ws://127.0.0.1:18789';
 
+    // Gateway profiles — also folds a legacy Settings URL/token override into the active profile
+    await useProfileStore.getState().load();
+    // Edit branches saved for this gateway in an earlier run
+    useChatStore.getState().loadBranches(useProfileStore.getState().activeId);
+    // Messages queued offline in an earlier run — flushed once the gateway connects
+    await useOutboxStore.getState().load();
+
     // Priority: Settings Store (user override) → Electron config → fallback
     // Settings fields are empty by default — only override when user explicitly fills them
     const settings = useSettingsStore.getState();
@@ -292,6 +344,28 @@ export default function App() {
     gateway.stopPairingRetry();
   }, []);
 
+  const handleDemoMode = useCallback(async (replay: boolean) => {
+    try {
+      let recording: { name: string; content: string } | undefined;
+      if (replay) {
+        const file = await window.aegis.file.openText(['json']);
+        if (file.canceled) return;
+        if (file.error || file.content === undefined) throw new Error(file.error || 'Empty file');
+        recording = { name: file.name || 'recording.json', content: file.content };
+      }
+      gateway.stopPairingRetry();
+      const replaying = await startDemoMode(recording);
+      setNeedsPairing(false);
+      pairingTriggeredRef.current = false;
+      useNotificationStore.getState().addToast('info', t('demo.started'), replaying
+        ? t('demo.replaying', { name: replaying.name, count: replaying.events })
+        : t('demo.startedBody'));
+    } catch (err: any) {
+      console.error('[App] Demo mode failed:', err);
+      useNotificationStore.getState().addToast('info', t('demo.failed'), err?.message || String(err));
+    }
+  }, [t]);
+
   return (
     <>
       {/* Pairing overlay — shown when Gateway rejects due to missing scopes */}
@@ -300,6 +374,7 @@ export default function App() {
           gatewayHttpUrl={gatewayHttpUrl}
           onPaired={handlePairingComplete}
           onCancel={handlePairingCancel}
+          onDemo={handleDemoMode}
           errorMessage={scopeError}
         />
       )}
@@ -307,6 +382,10 @@ export default function App() {
       <HashRouter>
         {/* In-app toast notifications — always visible, above all routes */}
         <ToastContainer />
+        {/* Budget hard stop — confirm held chat.send calls */}
+        <BudgetHoldDialog />
+        {/* Prompt macros — fill {{ask:…}} fields before running */}
+        <MacroPromptDialog />
         <Routes>
           <Route element={<AppLayout />}>
             <Route path="/" element={<DashboardPage />} />
@@ -315,10 +394,15 @@ export default function App() {
             <Route path="/costs" element={<FullAnalyticsPage />} />
             <Route path="/analytics" element={<FullAnalyticsPage />} />
             <Route path="/cron" element={<CronMonitorPage />} />
+            <Route path="/artifacts" element={<ArtifactsPage />} />
+            <Route path="/search" element={<ArchiveSearchPage />} />
             <Route path="/agents" element={<AgentHubPage />} />
             <Route path="/skills" element={<SkillsPageFull />} />
             <Route path="/terminal" element={<TerminalPage />} />
             <Route path="/memory" element={<MemoryExplorerPage />} />
+            <Route path="/config" element={<GatewayConfigPage />} />
+            <Route path="/approvals" element={<ApprovalsPage />} />
+            <Route path="/diagnostics" element={<DiagnosticsPage />} />
             <Route path="/settings" element={<SettingsPageFull />} />
           </Route>
         </Routes>
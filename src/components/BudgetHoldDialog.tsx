@@ -0,0 +1,85 @@
+// ═══════════════════════════════════════════════════════════
+// BudgetHoldDialog — Confirm messages held by the budget hard stop
+// Shown app-wide whenever budgetStore.held is non-empty.
+// ═══════════════════════════════════════════════════════════
+
+import { useTranslation } from 'react-i18next';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Wallet } from 'lucide-react';
+import { useBudgetStore } from '@/stores/budgetStore';
+import { useChatStore } from '@/stores/chatStore';
+import { describeMeter } from '@/services/budget';
+import { gateway } from '@/services/gateway';
+
+export function BudgetHoldDialog() {
+  const { t } = useTranslation();
+  const held = useBudgetStore((s) => s.held);
+  const takeHeld = useBudgetStore((s) => s.takeHeld);
+
+  const current = held[0];
+
+  // The bubble was added optimistically when the message was held
+  const discard = (id: string) => {
+    const item = takeHeld(id);
+    if (!item?.bubbleId) return;
+    const chat = useChatStore.getState();
+    chat.setSessionMessages(item.sessionKey,
+      chat.getSessionMessages(item.sessionKey).filter((m) => m.id !== item.bubbleId));
+  };
+
+  const sendAnyway = async (id: string) => {
+    const item = takeHeld(id);
+    if (!item) return;
+    useChatStore.getState().setIsTyping(true, item.sessionKey);
+    try {
+      await gateway.sendMessage(item.message, item.attachments, item.sessionKey, { skipBudgetCheck: true });
+    } catch (err) {
+      console.error('[Budget] Send after confirmation failed:', err);
+      useChatStore.getState().setIsTyping(false, item.sessionKey);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {current && (
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[80] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <motion.div initial={{ scale: 0.95, opacity: 0 }} animate={{ scale: 1, opacity: 1 }} exit={{ scale: 0.95, opacity: 0 }}
+            className="w-[440px] p-6 rounded-2xl bg-aegis-bg border border-aegis-border/30 shadow-2xl">
+            <div className="flex items-center gap-3 mb-3">
+              <div className="w-9 h-9 rounded-lg flex items-center justify-center bg-aegis-danger/10 border border-aegis-danger/25">
+                <Wallet size={18} className="text-aegis-danger" />
+              </div>
+              <div>
+                <h3 className="text-[15px] font-bold text-aegis-text">{t('budget.holdTitle')}</h3>
+                <p className="text-[11px] text-aegis-text-muted">{describeMeter(current.meter)}</p>
+              </div>
+            </div>
+
+            <p className="text-[12px] text-aegis-text-secondary mb-3">{t('budget.holdDesc')}</p>
+            <div className="max-h-[140px] overflow-y-auto px-3 py-2 rounded-xl text-[12px] text-aegis-text whitespace-pre-wrap
+              bg-[rgb(var(--aegis-overlay)/0.04)] border border-[rgb(var(--aegis-overlay)/0.08)]" dir="auto">
+              {current.message}
+            </div>
+            {held.length > 1 && (
+              <div className="mt-2 text-[10px] text-aegis-text-dim">
+                {t('budget.holdMore', { count: held.length - 1 })}
+              </div>
+            )}
+
+            <div className="flex items-center justify-end gap-2 mt-5">
+              <button onClick={() => discard(current.id)}
+                className="px-4 py-2 rounded-xl text-[13px] text-aegis-text-muted hover:text-aegis-text-secondary">
+                {t('budget.discard')}
+              </button>
+              <button onClick={() => sendAnyway(current.id)}
+                className="px-4 py-2 rounded-xl text-[13px] font-semibold bg-aegis-danger/15 border border-aegis-danger/30 text-aegis-danger hover:bg-aegis-danger/25 transition-colors">
+                {t('budget.sendAnyway')}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,112 @@
+// ═══════════════════════════════════════════════════════════
+// ApprovalCard — a tool call waiting for the operator
+// Shows the command (or tool + args) with approve / deny /
+// "always allow for this session". ApprovalPrompts stacks every
+// pending request above the chat input — other sessions' requests
+// too, labelled with their session, so none waits unseen.
+// ═══════════════════════════════════════════════════════════
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ShieldAlert, Check, X, ShieldCheck, Loader2 } from 'lucide-react';
+import { useApprovalStore, ruleScopeOf, type PendingApproval, type ApprovalDecision } from '@/stores/approvalStore';
+import { useChatStore } from '@/stores/chatStore';
+import { decideApproval, dismissApproval } from '@/services/approvals';
+import clsx from 'clsx';
+
+function useSecondsLeft(expiresAt?: number): number | null {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!expiresAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+  return expiresAt ? Math.max(0, Math.ceil((expiresAt - now) / 1000)) : null;
+}
+
+const mmss = (s: number) => `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+
+export function ApprovalCard({ req, showSession }: { req: PendingApproval; showSession?: boolean }) {
+  const { t } = useTranslation();
+  const sessionLabel = useChatStore((s) => s.sessions.find((x) => x.key === req.sessionKey)?.label);
+  const secondsLeft = useSecondsLeft(req.expiresAt);
+  const scope = ruleScopeOf(req);
+
+  const button = (decision: ApprovalDecision, icon: JSX.Element, label: string, cls: string) => (
+    <button
+      onClick={() => decideApproval(req.id, decision)}
+      disabled={!!req.deciding}
+      className={clsx('flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[11px] font-semibold border transition-colors disabled:opacity-50', cls)}
+    >
+      {req.deciding === decision ? <Loader2 size={12} className="animate-spin" /> : icon}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="rounded-xl border border-aegis-warning/25 bg-aegis-warning/[0.06] px-3.5 py-3">
+      <div className="flex items-center gap-2 text-[12px]">
+        <ShieldAlert size={14} className="text-aegis-warning shrink-0" />
+        <span className="font-bold text-aegis-text">{t('approvals.title', { kind: req.kind })}</span>
+        {req.agentId && <span className="text-[10px] font-mono text-aegis-text-dim">{req.agentId}</span>}
+        {showSession && req.sessionKey && (
+          <span className="text-[10px] px-1.5 py-0.5 rounded bg-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text-muted truncate max-w-[200px]">
+            {sessionLabel || req.sessionKey}
+          </span>
+        )}
+        <div className="flex-1" />
+        {secondsLeft !== null && (
+          <span className={clsx('text-[10px] font-mono', secondsLeft < 30 ? 'text-aegis-danger' : 'text-aegis-text-dim')}>
+            {t('approvals.expiresIn', { time: mmss(secondsLeft) })}
+          </span>
+        )}
+      </div>
+
+      <pre className="mt-2 text-[11px] font-mono text-aegis-text whitespace-pre-wrap break-all bg-[rgb(var(--aegis-overlay)/0.05)] rounded-lg px-2.5 py-2" dir="ltr">
+        {req.kind === 'exec' ? `$ ${req.command}` : req.command}
+        {req.args && `\n${JSON.stringify(req.args, null, 2)}`}
+      </pre>
+      {(req.cwd || req.host) && (
+        <div className="mt-1 text-[10px] font-mono text-aegis-text-dim truncate" dir="ltr">
+          {[req.host, req.cwd].filter(Boolean).join(' · ')}
+        </div>
+      )}
+
+      {req.error && (
+        <div className="mt-2 flex items-center gap-2 text-[11px] text-aegis-danger">
+          <span className="flex-1">{t('approvals.failed', { error: req.error })}</span>
+          <button onClick={() => dismissApproval(req.id)} className="underline hover:no-underline">{t('approvals.dismiss')}</button>
+        </div>
+      )}
+
+      <div className="mt-2.5 flex items-center gap-2 flex-wrap">
+        {button('allow-once', <Check size={12} />, t('approvals.approve'),
+          'bg-aegis-success/15 border-aegis-success/30 text-aegis-success hover:bg-aegis-success/25')}
+        {scope !== null && button('allow-session', <ShieldCheck size={12} />,
+          req.kind === 'exec' ? t('approvals.allowSessionExact') : t('approvals.allowSession', { scope }),
+          'border-[rgb(var(--aegis-overlay)/0.1)] text-aegis-text-muted hover:text-aegis-text hover:bg-[rgb(var(--aegis-overlay)/0.05)]')}
+        <div className="flex-1" />
+        {button('deny', <X size={12} />, t('approvals.deny'),
+          'bg-aegis-danger/10 border-aegis-danger/25 text-aegis-danger hover:bg-aegis-danger/20')}
+      </div>
+    </div>
+  );
+}
+
+export function ApprovalPrompts() {
+  const pending = useApprovalStore((s) => s.pending);
+  const activeSessionKey = useChatStore((s) => s.activeSessionKey);
+  if (pending.length === 0) return null;
+
+  // The active session's requests first
+  const sorted = [...pending].sort((a, b) =>
+    Number(b.sessionKey === activeSessionKey) - Number(a.sessionKey === activeSessionKey) || a.requestedAt - b.requestedAt);
+
+  return (
+    <div className="shrink-0 px-4 pt-2 space-y-2 max-h-[45vh] overflow-y-auto">
+      {sorted.map((req) => (
+        <ApprovalCard key={req.id} req={req} showSession={!!req.sessionKey && req.sessionKey !== activeSessionKey} />
+      ))}
+    </div>
+  );
+}
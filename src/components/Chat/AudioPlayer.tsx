@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Play, Pause, Volume2, VolumeX, RotateCcw } from 'lucide-react';
+import { resolveAudioSrc } from '@/utils/media';
 import clsx from 'clsx';
 
 // ═══════════════════════════════════════════════════════════
@@ -11,9 +12,11 @@ import clsx from 'clsx';
 interface AudioPlayerProps {
   src: string;
   className?: string;
+  /** Start playing once the audio is ready ("read aloud") */
+  autoPlay?: boolean;
 }
 
-export function AudioPlayer({ src, className }: AudioPlayerProps) {
+export function AudioPlayer({ src, className, autoPlay }: AudioPlayerProps) {
   const { t } = useTranslation();
   const audioRef = useRef<HTMLAudioElement>(null);
   const progressRef = useRef<HTMLDivElement>(null);
@@ -25,82 +28,29 @@ export function AudioPlayer({ src, className }: AudioPlayerProps) {
   const [error, setError] = useState(false);
   const [loading, setLoading] = useState(true);
   const [playbackRate, setPlaybackRate] = useState(1);
+  const autoPlayedRef = useRef(false);
   const [resolvedSrc, setResolvedSrc] = useState<string>(
     src.startsWith('aegis-media:') ? '' : src
   );
 
   // ── Resolve media sources ──
   useEffect(() => {
-    if (src.startsWith('aegis-media:')) {
-      let filePath = src.replace('aegis-media:', '');
-      setLoading(true);
-
-      // Sandbox /tmp/ paths → serve via TTS HTTP server (port configurable via IPC)
-      if (filePath.startsWith('/tmp/tts-') || filePath.startsWith('/tmp/')) {
-        const fileName = filePath.split('/').pop();
-        const ttsPort = localStorage.getItem('aegis-tts-port') || '5050';
-        const httpUrl = `http://localhost:${ttsPort}/audio/${fileName}`;
-        console.log('[AudioPlayer] 🔊 Resolving sandbox path via HTTP:', httpUrl);
-
-        // Try HTTP fetch from Edge TTS server
-        fetch(httpUrl, { method: 'HEAD' })
-          .then(r => {
-            if (r.ok) {
-              console.log('[AudioPlayer] ✅ HTTP audio available:', httpUrl);
-              setResolvedSrc(httpUrl);
-            } else {
-              console.warn('[AudioPlayer] ⚠️ HTTP 404 — file not yet copied to shared folder');
-              setError(true);
-              setLoading(false);
-            }
-          })
-          .catch(() => {
-            console.warn('[AudioPlayer] ⚠️ Edge TTS server unreachable');
-            setError(true);
-            setLoading(false);
-          });
-        return;
-      }
-
-      // Convert Docker/Linux mount paths to native paths via IPC (platform-agnostic)
-      // These paths come from Docker container mounts and need native resolution
-      if (filePath.startsWith('/host-')) {
-        // Extract drive letter from mount prefix: /host-d/ → D:\, /host-c/ → C:\
-        const match = filePath.match(/^\/host-([a-z])\/(.*)/i);
-        if (match) {
-          const driveLetter = match[1].toUpperCase();
-          filePath = `${driveLetter}:\\${match[2].replace(/\//g, '\\')}`;
-        }
-      }
-
-      console.log('[AudioPlayer] Loading media via IPC:', filePath);
-
-      if (window.aegis?.voice?.read) {
-        window.aegis.voice.read(filePath).then((base64: string | null) => {
-          if (base64) {
-            const ext = filePath.split('.').pop()?.toLowerCase() || 'mp3';
-            const mime = ext === 'mp3' ? 'audio/mpeg' : ext === 'ogg' ? 'audio/ogg' : ext === 'wav' ? 'audio/wav' : 'audio/webm';
-            console.log('[AudioPlayer] ✅ Loaded via IPC, size:', Math.round(base64.length / 1024), 'KB');
-            setResolvedSrc(`data:${mime};base64,${base64}`);
-          } else {
-            console.error('[AudioPlayer] ❌ No data returned for:', filePath);
-            setError(true);
-            setLoading(false);
-          }
-        }).catch((err: any) => {
-          console.error('[AudioPlayer] ❌ Read failed:', err);
-          setError(true);
-          setLoading(false);
-        });
+    if (!src.startsWith('aegis-media:')) {
+      if (src.startsWith('data:') || src.startsWith('http') || src.startsWith('blob:')) setResolvedSrc(src);
+      return;
+    }
+    setLoading(true);
+    let cancelled = false;
+    resolveAudioSrc(src).then((resolved) => {
+      if (cancelled) return;
+      if (resolved) {
+        setResolvedSrc(resolved);
       } else {
-        console.error('[AudioPlayer] No voice.read IPC available');
         setError(true);
         setLoading(false);
       }
-
-    } else if (src.startsWith('data:') || src.startsWith('http') || src.startsWith('blob:')) {
-      setResolvedSrc(src);
-    }
+    });
+    return () => { cancelled = true; };
   }, [src]);
 
   // ── Time format ──
@@ -138,6 +88,10 @@ export function AudioPlayer({ src, className }: AudioPlayerProps) {
 
     const onCanPlay = () => {
       setLoading(false);
+      if (autoPlay && !autoPlayedRef.current) {
+        autoPlayedRef.current = true;
+        audio.play().then(() => setPlaying(true)).catch((e) => console.warn('[AudioPlayer] Autoplay failed:', e));
+      }
     };
 
     audio.addEventListener('loadedmetadata', onLoadedMetadata);
@@ -153,7 +107,7 @@ export function AudioPlayer({ src, className }: AudioPlayerProps) {
       audio.removeEventListener('error', onError);
       audio.removeEventListener('canplay', onCanPlay);
     };
-  }, [resolvedSrc]);
+  }, [resolvedSrc, autoPlay]);
 
   // ── Play / Pause ──
   const togglePlay = useCallback(() => {
@@ -232,7 +186,7 @@ export function AudioPlayer({ src, className }: AudioPlayerProps) {
       className
     )}>
       {/* Hidden audio element — only render when src is resolved */}
-      {resolvedSrc && <audio ref={audioRef} src={resolvedSrc} preload="metadata" />}
+      {resolvedSrc && <audio ref={audioRef} src={resolvedSrc} preload={autoPlay ? 'auto' : 'metadata'} />}
 
       {/* Play/Pause button */}
       <button
@@ -1,10 +1,14 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Plus, Shield, MessageSquare, ChevronDown, Zap, RotateCcw } from 'lucide-react';
+import { Plus, Shield, MessageSquare, ChevronDown, Zap, RotateCcw, Download, FileText, FileCode, FileJson, FolderOpen, ScrollText, Pencil, Eraser, Trash2, Check, X } from 'lucide-react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { useTranslation } from 'react-i18next';
-import { useChatStore, Session } from '@/stores/chatStore';
+import { useChatStore, Session, isTranscriptKey } from '@/stores/chatStore';
 import { useGatewayDataStore } from '@/stores/gatewayDataStore';
+import { useNotificationStore } from '@/stores/notificationStore';
 import { gateway } from '@/services/gateway';
+import { describeGatewayError } from '@/services/gatewayErrors';
+import { runConversationExport, runTranscriptImport, type ExportFormat } from '@/services/conversationExport';
+import { createSession, renameSession, resetSession, deleteSession, isManageableSession } from '@/services/sessions';
 import { themeHex, themeAlpha, dataColor } from '@/utils/theme-colors';
 import clsx from 'clsx';
 
@@ -167,6 +171,150 @@ function AgentStatusTooltip({ visible, tokenUsage, connected }: {
   );
 }
 
+// ═══════════════════════════════════════════════════════════
+// Session Actions — rename / reset / delete (gateway sessions only)
+// Rename confirms with Enter or ✓; reset and delete need a second click.
+// ═══════════════════════════════════════════════════════════
+
+const notifyError = (title: string, err: any) =>
+  useNotificationStore.getState().addToast('info', title, describeGatewayError(err));
+
+function SessionActions({ sessionKey, label, onRename }: {
+  sessionKey: string;
+  label: string;
+  onRename: () => void;
+}) {
+  const { t } = useTranslation();
+  const [confirm, setConfirm] = useState<'reset' | 'delete' | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: 'reset' | 'delete') => {
+    if (confirm !== action) { setConfirm(action); return; }
+    setConfirm(null);
+    setBusy(true);
+    try {
+      if (action === 'reset') await resetSession(sessionKey);
+      else await deleteSession(sessionKey);
+    } catch (err) {
+      notifyError(t(action === 'reset' ? 'sessions.resetFailed' : 'sessions.deleteFailed', { label }), err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const btn = 'p-1 rounded-md transition-colors disabled:opacity-40';
+  return (
+    <div className="flex items-center gap-0.5 shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity"
+      onMouseLeave={() => setConfirm(null)}>
+      <button onClick={onRename} disabled={busy} title={t('sessions.rename')}
+        className={clsx(btn, 'text-aegis-text-dim hover:text-aegis-text-muted hover:bg-[rgb(var(--aegis-overlay)/0.06)]')}>
+        <Pencil size={11} />
+      </button>
+      <button onClick={() => run('reset')} disabled={busy}
+        title={confirm === 'reset' ? t('sessions.confirmReset') : t('sessions.reset')}
+        className={clsx(btn, confirm === 'reset'
+          ? 'text-aegis-warning bg-aegis-warning/10'
+          : 'text-aegis-text-dim hover:text-aegis-warning hover:bg-aegis-warning/10')}>
+        <Eraser size={11} />
+      </button>
+      <button onClick={() => run('delete')} disabled={busy}
+        title={confirm === 'delete' ? t('sessions.confirmDelete') : t('sessions.delete')}
+        className={clsx(btn, confirm === 'delete'
+          ? 'text-aegis-danger bg-aegis-danger/10'
+          : 'text-aegis-text-dim hover:text-aegis-danger hover:bg-aegis-danger/10')}>
+        <Trash2 size={11} />
+      </button>
+    </div>
+  );
+}
+
+function RenameInput({ sessionKey, initial, onDone }: {
+  sessionKey: string;
+  initial: string;
+  onDone: () => void;
+}) {
+  const { t } = useTranslation();
+  const [value, setValue] = useState(initial);
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    const label = value.trim();
+    if (!label || label === initial) { onDone(); return; }
+    setSaving(true);
+    try {
+      await renameSession(sessionKey, label);
+      onDone();
+    } catch (err) {
+      notifyError(t('sessions.renameFailed'), err);
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1.5 px-2 py-1.5">
+      <input value={value} onChange={(e) => setValue(e.target.value)} autoFocus disabled={saving} dir="auto"
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') save();
+          if (e.key === 'Escape') { e.stopPropagation(); onDone(); }
+        }}
+        className="flex-1 min-w-0 px-2 py-1 rounded-lg text-[12px] bg-[rgb(var(--aegis-overlay)/0.04)] border border-aegis-primary/30 text-aegis-text outline-none" />
+      <button onClick={save} disabled={saving} title={t('common.save')}
+        className="p-1 rounded-md text-aegis-primary hover:bg-aegis-primary/10 disabled:opacity-40">
+        <Check size={12} />
+      </button>
+      <button onClick={onDone} disabled={saving} title={t('common.cancel')}
+        className="p-1 rounded-md text-aegis-text-dim hover:bg-[rgb(var(--aegis-overlay)/0.06)]">
+        <X size={12} />
+      </button>
+    </div>
+  );
+}
+
+/** "+" picker — create a labelled session for any agent */
+function NewSessionForm({ onCreated }: { onCreated: () => void }) {
+  const { t } = useTranslation();
+  const agents = useGatewayDataStore((s) => s.agents);
+  const [agentId, setAgentId] = useState('main');
+  const [label, setLabel] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const create = async () => {
+    const name = label.trim();
+    if (!name || creating) return;
+    setCreating(true);
+    try {
+      await createSession(agentId, name);
+      onCreated();
+    } catch (err) {
+      notifyError(t('sessions.createFailed'), err);
+      setCreating(false);
+    }
+  };
+
+  const inputCls = 'w-full px-2 py-1.5 rounded-lg text-[12px] bg-[rgb(var(--aegis-overlay)/0.04)] border border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text outline-none focus:border-aegis-primary/30';
+  return (
+    <div className="p-2 space-y-1.5">
+      <div className="text-[9px] text-aegis-text-dim uppercase tracking-wider px-2 py-1">
+        {t('sessions.newSession')}
+      </div>
+      <select value={agentId} onChange={(e) => setAgentId(e.target.value)} className={inputCls}>
+        {(agents.length > 0 ? agents : [{ id: 'main' }]).map((a: any) => (
+          <option key={a.id} value={a.id}>{a.name ? `${a.name} (${a.id})` : a.id}</option>
+        ))}
+      </select>
+      <div className="flex items-center gap-1.5">
+        <input value={label} onChange={(e) => setLabel(e.target.value)} dir="auto"
+          onKeyDown={(e) => { if (e.key === 'Enter') create(); }}
+          placeholder={t('sessions.labelPlaceholder')} className={inputCls} />
+        <button onClick={create} disabled={!label.trim() || creating}
+          className="shrink-0 px-2.5 py-1.5 rounded-lg text-[11px] font-semibold bg-aegis-primary/15 text-aegis-primary border border-aegis-primary/25 hover:bg-aegis-primary/25 disabled:opacity-40">
+          {t('sessions.create')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 // ═══════════════════════════════════════════════════════════
 // Session Switcher Dropdown
 // ═══════════════════════════════════════════════════════════
@@ -182,6 +330,7 @@ function SessionDropdown({ open, onClose, onSelect, openTabs, sessions, activeKe
   const { t } = useTranslation();
   const [availableSessions, setAvailableSessions] = useState<Session[]>([]);
   const [loading, setLoading] = useState(false);
+  const [renaming, setRenaming] = useState<string | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Close on outside click
@@ -201,8 +350,8 @@ function SessionDropdown({ open, onClose, onSelect, openTabs, sessions, activeKe
     if (!open) return;
     setLoading(true);
     gateway.getSessions()
-      .then((result: any) => {
-        const list: Session[] = (result?.sessions || []).map((s: any) => ({
+      .then(({ sessions }) => {
+        const list: Session[] = sessions.map((s: any) => ({
           key: s.key || s.sessionKey,
           label: s.label || s.key || '',
           kind: s.kind,
@@ -214,9 +363,11 @@ function SessionDropdown({ open, onClose, onSelect, openTabs, sessions, activeKe
       })
       .catch(() => {})
       .finally(() => setLoading(false));
-  }, [open, openTabs]);
+  }, [open, openTabs, sessions]);
 
-  const getSession = (key: string) => sessions.find((s) => s.key === key);
+  const transcripts = useChatStore((s) => s.transcripts);
+  const getSession = (key: string): Session | undefined =>
+    sessions.find((s) => s.key === key) ?? (transcripts[key] && { key, label: transcripts[key].label });
 
   return (
     <AnimatePresence>
@@ -240,19 +391,24 @@ function SessionDropdown({ open, onClose, onSelect, openTabs, sessions, activeKe
                 const session = getSession(key);
                 const isActive = key === activeKey;
                 const isMain = key === MAIN_SESSION;
+                if (renaming === key) {
+                  return <RenameInput key={key} sessionKey={key} initial={session?.label || sessionLabel(session, key)} onDone={() => setRenaming(null)} />;
+                }
                 return (
+                  <div key={key} className={clsx(
+                    'group flex items-center rounded-xl transition-colors pe-2',
+                    isActive
+                      ? 'bg-aegis-primary/10 border border-aegis-primary/15'
+                      : 'hover:bg-[rgb(var(--aegis-overlay)/0.05)] border border-transparent',
+                  )}>
                   <button
-                    key={key}
                     onClick={() => { onSelect(key); onClose(); }}
-                    className={clsx(
-                      'w-full flex items-center gap-2.5 px-3 py-2 rounded-xl text-start transition-colors',
-                      isActive
-                        ? 'bg-aegis-primary/10 border border-aegis-primary/15'
-                        : 'hover:bg-[rgb(var(--aegis-overlay)/0.05)] border border-transparent',
-                    )}
+                    className="flex-1 min-w-0 flex items-center gap-2.5 px-3 py-2 text-start"
                   >
                     {isMain ? (
                       <Shield size={14} className="text-aegis-primary shrink-0" />
+                    ) : isTranscriptKey(key) ? (
+                      <ScrollText size={14} className="text-aegis-text-muted shrink-0" />
                     ) : (
                       <MessageSquare size={14} className="text-aegis-text-muted shrink-0" />
                     )}
@@ -271,6 +427,10 @@ function SessionDropdown({ open, onClose, onSelect, openTabs, sessions, activeKe
                       <div className="w-1.5 h-1.5 rounded-full bg-aegis-primary shrink-0" />
                     )}
                   </button>
+                  {isManageableSession(key) && (
+                    <SessionActions sessionKey={key} label={sessionLabel(session, key)} onRename={() => setRenaming(key)} />
+                  )}
+                  </div>
                 );
               })}
             </div>
@@ -284,11 +444,13 @@ function SessionDropdown({ open, onClose, onSelect, openTabs, sessions, activeKe
                 <div className="text-[9px] text-aegis-text-dim uppercase tracking-wider px-2 py-1 mb-0.5">
                   {t('chat.otherSessions', 'Other Sessions')}
                 </div>
-                {availableSessions.map((session) => (
+                {availableSessions.map((session) => renaming === session.key ? (
+                  <RenameInput key={session.key} sessionKey={session.key} initial={session.label || session.key} onDone={() => setRenaming(null)} />
+                ) : (
+                  <div key={session.key} className="group flex items-center rounded-xl hover:bg-[rgb(var(--aegis-overlay)/0.05)] transition-colors border border-transparent pe-2">
                   <button
-                    key={session.key}
                     onClick={() => { onSelect(session.key); onClose(); }}
-                    className="w-full flex items-center gap-2.5 px-3 py-2 rounded-xl text-start hover:bg-[rgb(var(--aegis-overlay)/0.05)] transition-colors border border-transparent"
+                    className="flex-1 min-w-0 flex items-center gap-2.5 px-3 py-2 text-start"
                   >
                     <MessageSquare size={14} className="text-aegis-text-dim shrink-0" />
                     <div className="flex-1 min-w-0">
@@ -300,6 +462,10 @@ function SessionDropdown({ open, onClose, onSelect, openTabs, sessions, activeKe
                       )}
                     </div>
                   </button>
+                  {isManageableSession(session.key) && (
+                    <SessionActions sessionKey={session.key} label={session.label || session.key} onRename={() => setRenaming(session.key)} />
+                  )}
+                  </div>
                 ))}
               </div>
             </>
@@ -324,6 +490,85 @@ function SessionDropdown({ open, onClose, onSelect, openTabs, sessions, activeKe
   );
 }
 
+// ═══════════════════════════════════════════════════════════
+// Export Menu — save the active conversation / import a transcript
+// ═══════════════════════════════════════════════════════════
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; icon: typeof FileText; labelKey: string }> = [
+  { format: 'markdown', icon: FileText, labelKey: 'export.markdown' },
+  { format: 'html', icon: FileCode, labelKey: 'export.html' },
+  { format: 'json', icon: FileJson, labelKey: 'export.json' },
+];
+
+function ExportMenu({ hasMessages }: { hasMessages: boolean }) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const itemCls = 'w-full flex items-center gap-2.5 px-3 py-2 rounded-lg text-start text-[12px] transition-colors';
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={clsx(
+          'p-1.5 rounded-lg transition-colors',
+          'text-aegis-text-dim hover:text-aegis-text-muted hover:bg-[rgb(var(--aegis-overlay)/0.05)]',
+          open && 'bg-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text-muted',
+        )}
+        title={t('export.title')}
+      >
+        <Download size={13} />
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.12 }}
+            className="absolute top-full end-0 mt-1.5 w-56 rounded-xl border border-[rgb(var(--aegis-overlay)/0.1)] z-[100] p-2"
+            style={{ background: 'var(--aegis-bg-frosted)', backdropFilter: 'blur(40px)', boxShadow: '0 16px 48px rgb(var(--aegis-overlay) / 0.25)' }}
+          >
+            <div className="text-[9px] text-aegis-text-dim uppercase tracking-wider px-2 py-1 mb-0.5">
+              {t('export.title')}
+            </div>
+            {EXPORT_OPTIONS.map(({ format, icon: Icon, labelKey }) => (
+              <button
+                key={format}
+                disabled={!hasMessages}
+                onClick={() => { setOpen(false); runConversationExport(format); }}
+                className={clsx(itemCls, 'text-aegis-text hover:bg-[rgb(var(--aegis-overlay)/0.05)] disabled:opacity-40 disabled:pointer-events-none')}
+              >
+                <Icon size={13} className="text-aegis-text-muted shrink-0" />
+                {t(labelKey)}
+              </button>
+            ))}
+            <div className="mx-1 my-1.5 border-t border-[rgb(var(--aegis-overlay)/0.06)]" />
+            <button
+              onClick={() => { setOpen(false); runTranscriptImport(); }}
+              className={clsx(itemCls, 'text-aegis-text hover:bg-[rgb(var(--aegis-overlay)/0.05)]')}
+            >
+              <FolderOpen size={13} className="text-aegis-text-muted shrink-0" />
+              {t('export.import')}
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
 // ═══════════════════════════════════════════════════════════
 // ChatTabs (ChatHeader) — Main export
 // ═══════════════════════════════════════════════════════════
@@ -339,6 +584,8 @@ export function ChatTabs() {
     connected,
     connecting,
     tokenUsage,
+    transcripts,
+    messages,
   } = useChatStore();
 
   const [showSessions, setShowSessions] = useState(false);
@@ -377,8 +624,8 @@ export function ChatTabs() {
     if (!showNewPicker) {
       setLoadingNew(true);
       gateway.getSessions()
-        .then((result: any) => {
-          const list: Session[] = (result?.sessions || []).map((s: any) => ({
+        .then(({ sessions }) => {
+          const list: Session[] = sessions.map((s: any) => ({
             key: s.key || s.sessionKey,
             label: s.label || s.key || '',
             kind: s.kind,
@@ -410,7 +657,8 @@ export function ChatTabs() {
   }, [openTabs, setActiveSession, openTab]);
 
   // ── Active session info ──
-  const activeSession = sessions.find((s) => s.key === activeSessionKey);
+  const activeSession = sessions.find((s) => s.key === activeSessionKey)
+    ?? (transcripts[activeSessionKey] && { key: activeSessionKey, label: transcripts[activeSessionKey].label });
   const activeLabel = sessionLabel(activeSession, activeSessionKey);
   const isMain = activeSessionKey === MAIN_SESSION;
 
@@ -491,8 +739,10 @@ export function ChatTabs() {
       {/* ── Spacer ── */}
       <div className="flex-1" />
 
-      {/* ── Right: Refresh + New session ── */}
+      {/* ── Right: Export + Refresh + New session ── */}
       <div className="flex items-center gap-0.5 shrink-0">
+        <ExportMenu hasMessages={messages.length > 0} />
+
         {/* Refresh button */}
         <button
           onClick={handleRefresh}
@@ -528,9 +778,11 @@ export function ChatTabs() {
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -4 }}
                 transition={{ duration: 0.12 }}
-                className="absolute top-full end-0 mt-1.5 w-64 max-h-64 overflow-y-auto rounded-xl border border-[rgb(var(--aegis-overlay)/0.1)] z-[100]"
+                className="absolute top-full end-0 mt-1.5 w-72 max-h-96 overflow-y-auto rounded-xl border border-[rgb(var(--aegis-overlay)/0.1)] z-[100]"
                 style={{ background: 'var(--aegis-bg-frosted)', backdropFilter: 'blur(40px)', boxShadow: '0 16px 48px rgb(var(--aegis-overlay) / 0.25)' }}
               >
+                <NewSessionForm onCreated={() => setShowNewPicker(false)} />
+                <div className="mx-3 border-t border-[rgb(var(--aegis-overlay)/0.06)]" />
                 <div className="p-2">
                   <div className="text-[9px] text-aegis-text-dim uppercase tracking-wider px-2 py-1 mb-1">
                     {t('chat.availableSessions', 'Available Sessions')}
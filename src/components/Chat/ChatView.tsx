@@ -1,10 +1,17 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
-import { ArrowDown, Loader2, Zap } from 'lucide-react';
+import { ArrowDown, Loader2, Zap, ScrollText } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useChatStore, type ChatMessage } from '@/stores/chatStore';
+import { useChatStore, isTranscriptKey, markBranchPoints, type ChatMessage } from '@/stores/chatStore';
 import { useSettingsStore } from '@/stores/settingsStore';
+import { useRunTimelineStore } from '@/stores/runTimelineStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { useProfileStore } from '@/stores/profileStore';
 import { gateway } from '@/services/gateway';
+import { isGatewayError, describeGatewayError } from '@/services/gatewayErrors';
+import { rewindSession } from '@/services/sessions';
+import { findArchivedMessage, mergeArchivedMessages } from '@/services/archive';
+import { PROFILE_SWITCHED_EVENT } from '@/services/profiles';
 import { MessageBubble } from './MessageBubble';
 import { ToolCallBubble } from './ToolCallBubble';
 import { ThinkingBubble } from './ThinkingBubble';
@@ -12,6 +19,9 @@ import { MessageInput } from './MessageInput';
 import { TypingIndicator } from './TypingIndicator';
 import { InlineButtonBar, extractInlineButtons } from './InlineButtonBar';
 import { QuickReplyBar } from './QuickReplyBar';
+import { ForkSessionDialog } from './ForkSessionDialog';
+import { OutboxPanel } from './OutboxPanel';
+import { ApprovalPrompts } from './ApprovalCard';
 import clsx from 'clsx';
 
 // ═══════════════════════════════════════════════════════════
@@ -62,7 +72,11 @@ function CompactDivider({ timestamp }: { timestamp?: string }) {
 
 export function ChatView() {
   const { t } = useTranslation();
-  const { messages, isTyping, connected, connecting, connectionError, isLoadingHistory, setMessages, setIsLoadingHistory, activeSessionKey, cacheMessagesForSession, getCachedMessages, addMessage, setHistoryLoader, quickReplies, setQuickReplies, thinkingText, thinkingRunId } = useChatStore();
+  const { messages, isTyping, connected, connecting, connectionError, isLoadingHistory, setMessages, setIsLoadingHistory, activeSessionKey, cacheMessagesForSession, getCachedMessages, addMessage, setHistoryLoader, quickReplies, setQuickReplies, thinkingPerSession } = useChatStore();
+  const liveThinking = thinkingPerSession[activeSessionKey];
+  // Imported transcripts are read-only snapshots — no history, no input
+  const readOnly = isTranscriptKey(activeSessionKey);
+  const transcript = useChatStore((s) => s.transcripts[activeSessionKey]);
   const toolIntentEnabled = useSettingsStore((s) => s.toolIntentEnabled);
   const scrollRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
@@ -134,6 +148,8 @@ export function ChatView() {
     let clean = text;
     // Remove [AEGIS_DESKTOP_CONTEXT]...[/AEGIS_DESKTOP_CONTEXT] block
     clean = clean.replace(/\[AEGIS_DESKTOP_CONTEXT\][\s\S]*?\[\/AEGIS_DESKTOP_CONTEXT\]\s*/i, '');
+    // Remove [AEGIS_PRIOR_CONTEXT] block (conversation carried into a rewound or forked session)
+    clean = clean.replace(/\[AEGIS_PRIOR_CONTEXT\][\s\S]*?\[\/AEGIS_PRIOR_CONTEXT\]\s*/i, '');
     // Remove Conversation info JSON block
     clean = clean.replace(/Conversation info \(untrusted metadata\):\s*```json\s*\{[\s\S]*?\}\s*```\s*/i, '');
     // Remove System notification blocks (exec completed, compaction audit, etc.)
@@ -144,18 +160,24 @@ export function ChatView() {
     return clean.trim();
   };
 
+  // In-flight chat.history — aborted when the tab changes so a slow response can't land in the wrong session
+  const historyAbortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => historyAbortRef.current?.abort(), [activeSessionKey]);
+
   const loadHistory = useCallback(async () => {
     // Check cache first
     const cached = getCachedMessages(activeSessionKey);
-    if (cached && cached.length > 0) {
-      setMessages(cached);
+    if ((cached && cached.length > 0) || isTranscriptKey(activeSessionKey)) {
+      setMessages(cached || []);
       return;
     }
 
+    historyAbortRef.current?.abort();
+    const controller = new AbortController();
+    historyAbortRef.current = controller;
     setIsLoadingHistory(true);
     try {
-      const result = await gateway.getHistory(activeSessionKey, 200);
-      const rawMessages = Array.isArray(result?.messages) ? result.messages : [];
+      const { messages: rawMessages } = await gateway.getHistory(activeSessionKey, 200, { signal: controller.signal });
       const filtered = rawMessages
         .map((msg: any) => {
           const role = typeof msg.role === 'string' ? msg.role : 'unknown';
@@ -185,9 +207,11 @@ export function ChatView() {
                 const toolInput = block.input ?? block.params ?? {};
                 return {
                   id: `${msg.id || 'tool'}-call-${idx}`,
+                  fromHistory: !!msg.id,
                   role: 'tool' as const,
                   content: '',
                   toolName,
+                  toolCallId: typeof block.id === 'string' ? block.id : undefined,
                   toolInput,
                   toolStatus: 'done' as const,
                   timestamp: msg.timestamp || msg.createdAt || new Date().toISOString(),
@@ -204,10 +228,12 @@ export function ChatView() {
               : extractText(msg.content);
             return {
               id: msg.id || `tool-result-${Math.random().toString(36).slice(2)}`,
+              fromHistory: !!msg.id,
               role: 'tool' as const,
               content: '',
               toolName,
-              toolOutput: output?.slice(0, 2000) || '',
+              toolCallId: msg.toolCallId || msg.tool_call_id || undefined,
+              toolOutput: output || '',
               toolStatus: 'done' as const,
               timestamp: msg.timestamp || msg.createdAt || new Date().toISOString(),
             };
@@ -229,6 +255,7 @@ export function ChatView() {
 
           return {
             id: msg.id || msg.messageId || `hist-${Math.random().toString(36).slice(2)}`,
+            fromHistory: !!(msg.id || msg.messageId),
             role: role as 'user' | 'assistant',
             content: displayContent,
             timestamp: msg.timestamp || msg.createdAt || new Date().toISOString(),
@@ -237,12 +264,21 @@ export function ChatView() {
         })
         .flat()
         .filter(Boolean) as any[];
-      setMessages(filtered);
-      cacheMessagesForSession(activeSessionKey, filtered);
+      // Turns from before the last rewind or fork are no longer in chat.history
+      const { historyPrefixes, branchesPerSession } = useChatStore.getState();
+      const full = [...(historyPrefixes[activeSessionKey] || []), ...filtered];
+      const marked = markBranchPoints(full, branchesPerSession[activeSessionKey]);
+      setMessages(marked);
+      cacheMessagesForSession(activeSessionKey, marked);
     } catch (err) {
+      if (isGatewayError(err) && err.code === 'aborted') return;
       console.error('[ChatView] History load failed:', err);
     } finally {
-      setIsLoadingHistory(false);
+      // A newer load owns the spinner now
+      if (historyAbortRef.current === controller) {
+        historyAbortRef.current = null;
+        setIsLoadingHistory(false);
+      }
     }
   }, [setMessages, setIsLoadingHistory, activeSessionKey, getCachedMessages, cacheMessagesForSession]);
 
@@ -263,6 +299,13 @@ export function ChatView() {
     }
   }, [connected, messages.length, loadHistory]);
 
+  // A gateway profile switch empties the store — load again once the new gateway connects
+  useEffect(() => {
+    const rearm = () => { hasLoadedRef.current = false; };
+    window.addEventListener(PROFILE_SWITCHED_EVENT, rearm);
+    return () => window.removeEventListener(PROFILE_SWITCHED_EVENT, rearm);
+  }, []);
+
   // Register loadHistory in store so MessageInput can trigger it before first send
   useEffect(() => {
     setHistoryLoader(loadHistory);
@@ -275,12 +318,183 @@ export function ChatView() {
     return () => window.removeEventListener('aegis:refresh', handler);
   }, [handleRefresh]);
 
+  // ── Jump to message (from archive search) ──
+  // Load the session if needed; when the message is older than chat.history
+  // reaches, pull the archived messages before it into the view.
+  const jumpTarget = useChatStore((s) => s.jumpTarget);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!jumpTarget || jumpTarget.sessionKey !== activeSessionKey || isLoadingHistory) return;
+    const target = jumpTarget;
+    useChatStore.getState().setJumpTarget(null);
+    // A hit from another gateway's archive names a different session with the same key
+    if (target.profileId !== useProfileStore.getState().activeId) return;
+    setAutoScroll(false);
+
+    (async () => {
+      if (useChatStore.getState().messages.length === 0 && connected) await loadHistory();
+      const ref = { id: target.messageId, role: target.role, content: target.content, toolName: target.toolName };
+      let found = findArchivedMessage(useChatStore.getState().messages, ref);
+      if (!found) {
+        const merged = await mergeArchivedMessages(target.sessionKey, useChatStore.getState().messages);
+        if (useChatStore.getState().activeSessionKey !== target.sessionKey) return;
+        setMessages(merged);
+        found = findArchivedMessage(merged, ref);
+      }
+      if (!found) return;
+      const id = found.id;
+      setHighlightId(id);
+      requestAnimationFrame(() => {
+        scrollRef.current
+          ?.querySelector(`[data-msg-id="${CSS.escape(id)}"]`)
+          ?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      });
+      setTimeout(() => setHighlightId((h) => (h === id ? null : h)), 2500);
+    })();
+  }, [jumpTarget, activeSessionKey, isLoadingHistory]); // eslint-disable-line
+
   const handleResend = useCallback((content: string) => { gateway.sendMessage(content, undefined, activeSessionKey); }, [activeSessionKey]);
 
+  // ── Edit & regenerate ──
+  // The old tail stays in branchesPerSession; the gateway session is rewound to the
+  // conversation before the edited message when the edit is sent, so the edit
+  // replaces the old turn there too. Switching branches only changes the view —
+  // the rewind waits for the next message.
+  const branches = useChatStore((s) => s.branchesPerSession[activeSessionKey]);
+  const handleEdit = useCallback((messageId: string, content: string) => {
+    const chat = useChatStore.getState();
+    const msgs = chat.getSessionMessages(activeSessionKey);
+    const idx = msgs.findIndex((m) => m.id === messageId);
+    if (idx < 0) return;
+    const original = msgs[idx];
+    const edited: ChatMessage = {
+      id: `user-${Date.now()}`,
+      role: 'user',
+      content,
+      timestamp: new Date().toISOString(),
+      ...(original.attachments ? { attachments: original.attachments } : {}),
+    };
+    if (!chat.branchFromMessage(activeSessionKey, messageId, edited)) return;
+    rewindSession(activeSessionKey, msgs.slice(0, idx));
+    setAutoScroll(true);
+    chat.setIsTyping(true, activeSessionKey);
+    gateway.sendMessage(content, original.attachments, activeSessionKey)
+      .catch((err) => {
+        console.error('[ChatView] Regenerate failed:', err);
+        useChatStore.getState().setIsTyping(false, activeSessionKey);
+        if (isGatewayError(err) && err.method === 'sessions.reset') {
+          useNotificationStore.getState().addToast('info', t('chat.rewindFailed'), describeGatewayError(err));
+        }
+      });
+  }, [activeSessionKey, t]);
+  const handleSwitchBranch = useCallback((branchId: string, index: number) => {
+    const before = useChatStore.getState().getSessionMessages(activeSessionKey);
+    useChatStore.getState().switchBranch(activeSessionKey, branchId, index);
+    const shown = useChatStore.getState().getSessionMessages(activeSessionKey);
+    if (shown === before) return;
+    // The next message continues the branch now on screen
+    rewindSession(activeSessionKey, shown);
+  }, [activeSessionKey]);
+
+  // ── Fork from a message ──
+  const [forkFrom, setForkFrom] = useState<string | null>(null);
+  const canFork = !readOnly && activeSessionKey.startsWith('agent:');
+
+  // ── Side panels — the run timeline and the tool inspector share one slot ──
+  const timelineRuns = useRunTimelineStore((s) => s.runs);
+  const openTimeline = useCallback((messageId: string) => {
+    useChatStore.getState().setInspectedTool(null);
+    useRunTimelineStore.getState().setOpenRun(messageId);
+  }, []);
+
+  // ── Message rendering ──
+  const renderMessage = (msg: ChatMessage) => {
+    if (msg.role === 'compaction') {
+      return <CompactDivider key={msg.id} timestamp={msg.timestamp} />;
+    }
+    // Tool messages — check for inline buttons first, then normal tool display
+    if ((msg.role as string) === 'tool') {
+      // Always show inline buttons from `message` tool, regardless of toolIntentEnabled
+      const inlineButtons = !readOnly && extractInlineButtons(msg.toolName || '', msg.toolInput);
+      if (inlineButtons) {
+        return (
+          <InlineButtonBar
+            key={msg.id}
+            buttons={inlineButtons}
+            onCallback={async (callbackData) => {
+              const text = callbackData;
+              const userMsg: ChatMessage = {
+                id: `user-${Date.now()}`,
+                role: 'user',
+                content: text,
+                timestamp: new Date().toISOString(),
+              };
+              addMessage(userMsg);
+              const { setIsTyping } = useChatStore.getState();
+              setIsTyping(true);
+              try {
+                await gateway.sendMessage(text, undefined, activeSessionKey, { bubbleId: userMsg.id });
+              } catch (err) {
+                console.error('[InlineButtons] Send error:', err);
+              }
+            }}
+          />
+        );
+      }
+
+      // Normal tool calls — only show when Tool Intent View is enabled
+      if (!toolIntentEnabled) return null;
+      return (
+        <ToolCallBubble
+          key={msg.id}
+          onInspect={() => {
+            useRunTimelineStore.getState().setOpenRun(null);
+            useChatStore.getState().setInspectedTool({ sessionKey: activeSessionKey, messageId: msg.id });
+          }}
+          tool={{
+            toolName: msg.toolName || 'unknown',
+            input: msg.toolInput,
+            output: msg.toolOutput,
+            status: msg.toolStatus || 'done',
+            durationMs: msg.toolDurationMs,
+          }}
+        />
+      );
+    }
+    const branchPoint = msg.branchId ? branches?.[msg.branchId] : undefined;
+    return (
+      <div key={msg.id}>
+        {/* Finalized thinking — show collapsed bubble above the assistant message */}
+        {msg.role === 'assistant' && msg.thinkingContent && (
+          <ThinkingBubble content={msg.thinkingContent} />
+        )}
+        <MessageBubble message={msg} onResend={msg.role === 'user' && !readOnly ? handleResend : undefined}
+          onFork={canFork ? setForkFrom : undefined}
+          // Streamed replies keep their runId as message id
+          onTimeline={msg.role === 'assistant' && timelineRuns[msg.id] ? openTimeline : undefined}
+          // Editing or switching mid-reply would let the stream land in the wrong branch
+          onEdit={msg.role === 'user' && !readOnly && !isTyping ? handleEdit : undefined}
+          branchIndex={branchPoint?.active} branchCount={branchPoint?.branches.length}
+          onSwitchBranch={isTyping ? undefined : handleSwitchBranch} />
+      </div>
+    );
+  };
+
   return (
-    <div className="flex flex-col flex-1 min-h-0 bg-aegis-bg">
+    <div className="flex flex-col flex-1 min-w-0 min-h-0 bg-aegis-bg">
+      {/* Read-only transcript banner */}
+      {readOnly && (
+        <div className="shrink-0 flex items-center justify-center gap-2 px-4 py-2 text-[12px] border-b bg-aegis-primary/[0.06] text-aegis-text-muted border-aegis-primary/10">
+          <ScrollText size={13} className="text-aegis-primary" />
+          {t('export.readOnlyBanner', {
+            file: transcript?.fileName || transcript?.label || '',
+            date: transcript?.exportedAt ? new Date(transcript.exportedAt).toLocaleString() : '—',
+          })}
+        </div>
+      )}
+
       {/* Connection Banner */}
-      {!connected && (
+      {!connected && !readOnly && (
         <div className={clsx(
           'shrink-0 px-4 py-2 text-center text-[12px] border-b',
           connecting ? 'bg-aegis-warning-surface text-aegis-warning border-aegis-warning/10' : 'bg-aegis-danger-surface text-aegis-danger border-aegis-danger/10'
@@ -318,69 +532,21 @@ export function ChatView() {
         ) : (
           <div className="space-y-0.5">
             {messages.map((msg) => {
-              if (msg.role === 'compaction') {
-                return <CompactDivider key={msg.id} timestamp={msg.timestamp} />;
-              }
-              // Tool messages — check for inline buttons first, then normal tool display
-              if ((msg.role as string) === 'tool') {
-                // Always show inline buttons from `message` tool, regardless of toolIntentEnabled
-                const inlineButtons = extractInlineButtons(msg.toolName || '', msg.toolInput);
-                if (inlineButtons) {
-                  return (
-                    <InlineButtonBar
-                      key={msg.id}
-                      buttons={inlineButtons}
-                      onCallback={async (callbackData) => {
-                        const text = callbackData;
-                        const userMsg: ChatMessage = {
-                          id: `user-${Date.now()}`,
-                          role: 'user',
-                          content: text,
-                          timestamp: new Date().toISOString(),
-                        };
-                        addMessage(userMsg);
-                        const { setIsTyping } = useChatStore.getState();
-                        setIsTyping(true);
-                        try {
-                          await gateway.sendMessage(text, undefined, activeSessionKey);
-                        } catch (err) {
-                          console.error('[InlineButtons] Send error:', err);
-                        }
-                      }}
-                    />
-                  );
-                }
-
-                // Normal tool calls — only show when Tool Intent View is enabled
-                if (!toolIntentEnabled) return null;
-                return (
-                  <ToolCallBubble
-                    key={msg.id}
-                    tool={{
-                      toolName: msg.toolName || 'unknown',
-                      input: msg.toolInput,
-                      output: msg.toolOutput,
-                      status: msg.toolStatus || 'done',
-                      durationMs: msg.toolDurationMs,
-                    }}
-                  />
-                );
-              }
+              const node = renderMessage(msg);
+              if (!node) return null;
+              // data-msg-id — scroll anchor for jump-to-message
               return (
-                <div key={msg.id}>
-                  {/* Finalized thinking — show collapsed bubble above the assistant message */}
-                  {msg.role === 'assistant' && msg.thinkingContent && (
-                    <ThinkingBubble content={msg.thinkingContent} />
-                  )}
-                  <MessageBubble message={msg} onResend={msg.role === 'user' ? handleResend : undefined} />
+                <div key={msg.id} data-msg-id={msg.id}
+                  className={clsx('transition-colors duration-700', highlightId === msg.id && 'bg-aegis-primary/[0.08]')}>
+                  {node}
                 </div>
               );
             })}
           </div>
         )}
         {/* Live thinking stream — show above typing indicator when reasoning is active */}
-        {thinkingText && thinkingRunId && (
-          <ThinkingBubble content={thinkingText} isStreaming />
+        {liveThinking?.text && (
+          <ThinkingBubble content={liveThinking.text} isStreaming />
         )}
         {isTyping && <TypingIndicator />}
         <div ref={bottomRef} className="h-1" />
@@ -398,7 +564,7 @@ export function ChatView() {
       )}
 
       {/* Quick Reply buttons — from [[button:...]] markers in AI response */}
-      {quickReplies.length > 0 && !isTyping && (
+      {quickReplies.length > 0 && !isTyping && !readOnly && (
         <QuickReplyBar
           buttons={quickReplies}
           onSend={async (text) => {
@@ -418,7 +584,7 @@ export function ChatView() {
             const { setIsTyping } = useChatStore.getState();
             setIsTyping(true);
             try {
-              await gateway.sendMessage(text, undefined, activeSessionKey);
+              await gateway.sendMessage(text, undefined, activeSessionKey, { bubbleId: userMsg.id });
             } catch (err) {
               console.error('[QuickReplyBar] Send error:', err);
             }
@@ -427,7 +593,13 @@ export function ChatView() {
         />
       )}
 
-      <MessageInput />
+      {!readOnly && <ApprovalPrompts />}
+      {!readOnly && <OutboxPanel />}
+      {!readOnly && <MessageInput />}
+
+      {forkFrom && (
+        <ForkSessionDialog sessionKey={activeSessionKey} messageId={forkFrom} onClose={() => setForkFrom(null)} />
+      )}
     </div>
   );
 }
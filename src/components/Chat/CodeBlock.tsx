@@ -15,7 +15,7 @@ interface CodeBlockProps {
 }
 
 /** Build syntax theme from base (oneDark/oneLight) with AEGIS overrides */
-function buildTheme(base: Record<string, any>) {
+export function buildTheme(base: Record<string, any>) {
   return {
     ...base,
     'pre[class*="language-"]': {
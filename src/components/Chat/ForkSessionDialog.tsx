@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { GitBranch, Loader2 } from 'lucide-react';
+import { useChatStore } from '@/stores/chatStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { forkSession } from '@/services/sessions';
+import { describeGatewayError } from '@/services/gatewayErrors';
+
+// ═══════════════════════════════════════════════════════════
+// Fork Session Dialog — branch a conversation into a new session
+// The new session gets the history up to the chosen message as
+// context; the source session is left untouched.
+// ═══════════════════════════════════════════════════════════
+
+interface ForkSessionDialogProps {
+  sessionKey: string;
+  messageId: string;
+  onClose: () => void;
+}
+
+export function ForkSessionDialog({ sessionKey, messageId, onClose }: ForkSessionDialogProps) {
+  const { t } = useTranslation();
+  const availableModels = useChatStore((s) => s.availableModels);
+  const sourceLabel = useChatStore((s) => s.sessions.find((x) => x.key === sessionKey)?.label) || sessionKey.split(':').pop() || sessionKey;
+  const messageCount = useChatStore((s) => {
+    const msgs = s.getSessionMessages(sessionKey);
+    const idx = msgs.findIndex((m) => m.id === messageId);
+    return idx >= 0 ? idx + 1 : msgs.length;
+  });
+  const [label, setLabel] = useState(t('sessions.forkLabel', { label: sourceLabel }));
+  const [model, setModel] = useState('');
+  const [forking, setForking] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim() || forking) return;
+    setForking(true);
+    try {
+      await forkSession(sessionKey, messageId, { label: label.trim(), model: model || undefined });
+      onClose();
+    } catch (err: any) {
+      useNotificationStore.getState().addToast('info', t('sessions.forkFailed'), describeGatewayError(err));
+      setForking(false);
+    }
+  };
+
+  const inputCls = 'w-full px-3 py-2 rounded-xl text-[13px] text-aegis-text outline-none bg-[rgb(var(--aegis-overlay)/0.04)] border border-[rgb(var(--aegis-overlay)/0.08)] focus:border-aegis-primary/40';
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}
+      className="fixed inset-0 z-[80] flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={() => !forking && onClose()}>
+      <motion.form initial={{ scale: 0.95, opacity: 0 }} animate={{ scale: 1, opacity: 1 }}
+        onSubmit={submit} onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => { if (e.key === 'Escape' && !forking) onClose(); }}
+        className="w-[440px] p-6 rounded-2xl bg-aegis-bg border border-aegis-border/30 shadow-2xl">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-9 h-9 rounded-lg flex items-center justify-center bg-aegis-primary/10 border border-aegis-primary/25">
+            <GitBranch size={18} className="text-aegis-primary" />
+          </div>
+          <div>
+            <h3 className="text-[15px] font-bold text-aegis-text">{t('sessions.forkTitle')}</h3>
+            <p className="text-[11px] text-aegis-text-muted">{t('sessions.forkDesc', { count: messageCount, label: sourceLabel })}</p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <label className="block">
+            <span className="block text-[11px] text-aegis-text-muted mb-1">{t('sessions.label')}</span>
+            <input value={label} onChange={(e) => setLabel(e.target.value)} autoFocus dir="auto" className={inputCls} />
+          </label>
+          <label className="block">
+            <span className="block text-[11px] text-aegis-text-muted mb-1">{t('sessions.model')}</span>
+            <select value={model} onChange={(e) => setModel(e.target.value)} className={inputCls}>
+              <option value="">{t('sessions.modelDefault')}</option>
+              {availableModels.map((m) => <option key={m.id} value={m.id}>{m.label || m.id}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 mt-5">
+          <button type="button" onClick={onClose} disabled={forking}
+            className="px-4 py-2 rounded-xl text-[13px] text-aegis-text-muted hover:text-aegis-text-secondary">
+            {t('common.cancel')}
+          </button>
+          <button type="submit" disabled={!label.trim() || forking}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-xl text-[13px] font-semibold bg-aegis-primary/15 border border-aegis-primary/30 text-aegis-primary hover:bg-aegis-primary/25 transition-colors disabled:opacity-40">
+            {forking && <Loader2 size={13} className="animate-spin" />}
+            {t('sessions.fork')}
+          </button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+}
@@ -0,0 +1,32 @@
+// ═══════════════════════════════════════════════════════════
+// HighlightText — marks case-insensitive search hits in text
+// Each hit carries data-hit so a container can count and step
+// through them (Tool Inspector search).
+// ═══════════════════════════════════════════════════════════
+
+import type { CSSProperties } from 'react';
+
+export const HIT_CLS = 'bg-aegis-warning/30 text-inherit rounded-[2px]';
+
+export function HighlightText({ text, query, style, className }: {
+  text: string;
+  query: string;
+  style?: CSSProperties;
+  className?: string;
+}) {
+  if (!query) return <span style={style} className={className}>{text}</span>;
+
+  const lower = text.toLowerCase();
+  const needle = query.toLowerCase();
+  const parts: JSX.Element[] = [];
+  let from = 0;
+  let at = lower.indexOf(needle);
+  while (at >= 0) {
+    if (at > from) parts.push(<span key={parts.length}>{text.slice(from, at)}</span>);
+    parts.push(<mark key={parts.length} data-hit className={HIT_CLS}>{text.slice(at, at + needle.length)}</mark>);
+    from = at + needle.length;
+    at = lower.indexOf(needle, from);
+  }
+  if (from < text.length) parts.push(<span key={parts.length}>{text.slice(from)}</span>);
+  return <span style={style} className={className}>{parts}</span>;
+}
@@ -0,0 +1,97 @@
+// ═══════════════════════════════════════════════════════════
+// JsonTreeView — read-only, foldable JSON tree (Tool Inspector)
+// The first two levels start open. While searching, branches with
+// a matching key or value open by themselves.
+// ═══════════════════════════════════════════════════════════
+
+import { useState, useMemo } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { HighlightText } from './HighlightText';
+import clsx from 'clsx';
+
+type Json = unknown;
+
+const OPEN_DEPTH = 2;
+
+const isContainer = (v: Json): v is Record<string, Json> | Json[] => v !== null && typeof v === 'object';
+
+function matches(key: string, value: Json, needle: string): boolean {
+  if (key.toLowerCase().includes(needle)) return true;
+  if (isContainer(value)) {
+    return Object.entries(value).some(([k, v]) => matches(k, v, needle));
+  }
+  return String(value).toLowerCase().includes(needle);
+}
+
+function leafCls(value: Json): string {
+  if (typeof value === 'string') return 'text-aegis-success';
+  if (typeof value === 'number') return 'text-aegis-accent';
+  if (typeof value === 'boolean') return 'text-aegis-warning';
+  return 'text-aegis-text-dim';
+}
+
+function Node({ name, value, depth, query }: { name: string | null; value: Json; depth: number; query: string }) {
+  const [open, setOpen] = useState(depth < OPEN_DEPTH);
+  const needle = query.toLowerCase();
+  const forced = useMemo(() => !!needle && isContainer(value) && Object.entries(value).some(([k, v]) => matches(k, v, needle)), [needle, value]);
+
+  const label = name !== null && (
+    <>
+      <HighlightText text={name} query={query} className="text-aegis-primary" />
+      <span className="text-aegis-text-dim">: </span>
+    </>
+  );
+
+  if (!isContainer(value)) {
+    const text = typeof value === 'string' ? JSON.stringify(value) : String(value);
+    return (
+      <div className="flex items-start py-px" style={{ paddingInlineStart: depth * 14 + 14 }}>
+        <span className="whitespace-pre-wrap break-all">
+          {label}
+          <HighlightText text={text} query={query} className={leafCls(value)} />
+        </span>
+      </div>
+    );
+  }
+
+  const entries = Object.entries(value);
+  const isArray = Array.isArray(value);
+  const expanded = open || forced;
+  const brackets = isArray ? ['[', ']'] : ['{', '}'];
+
+  return (
+    <div>
+      <div
+        className="flex items-center py-px cursor-pointer hover:bg-[rgb(var(--aegis-overlay)/0.03)] rounded"
+        style={{ paddingInlineStart: depth * 14 }}
+        onClick={() => setOpen(!expanded)}
+      >
+        <ChevronRight size={11} className={clsx('shrink-0 text-aegis-text-dim transition-transform me-[3px]', expanded && 'rotate-90')} />
+        <span>
+          {label}
+          <span className="text-aegis-text-dim">
+            {brackets[0]}
+            {!expanded && (entries.length > 0 ? ` ${entries.length} ${isArray ? 'items' : 'keys'} ` : '')}
+            {!expanded && brackets[1]}
+          </span>
+        </span>
+      </div>
+      {expanded && (
+        <>
+          {entries.map(([k, v]) => (
+            <Node key={k} name={isArray ? null : k} value={v} depth={depth + 1} query={query} />
+          ))}
+          <div className="text-aegis-text-dim py-px" style={{ paddingInlineStart: depth * 14 + 14 }}>{brackets[1]}</div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function JsonTreeView({ value, query }: { value: Json; query: string }) {
+  return (
+    <div className="px-3 py-2 font-mono text-[11px] leading-[18px]" dir="ltr">
+      <Node name={null} value={value} depth={0} query={query} />
+    </div>
+  );
+}
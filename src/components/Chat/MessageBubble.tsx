@@ -1,7 +1,7 @@
-import { memo, useState } from 'react';
+import { memo, useState, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Copy, Check, User, RotateCcw, Eye, Code2 } from 'lucide-react';
+import { Copy, Check, User, RotateCcw, Eye, Code2, GitBranch, Pencil, ChevronLeft, ChevronRight, Timer, Volume2, Loader2 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { getDirection } from '@/i18n';
 import { CodeBlock } from './CodeBlock';
@@ -9,62 +9,17 @@ import { ChatImage } from './ChatImage';
 import { ChatVideo } from './ChatVideo';
 import { AudioPlayer } from './AudioPlayer';
 import type { ChatMessage } from '@/stores/chatStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { synthesize } from '@/services/speech';
 import { autoDetectCode } from '@/utils/autoDetectCode';
+import { parseArtifacts, ARTIFACT_ICONS, type ParsedArtifact } from '@/utils/artifacts';
 import clsx from 'clsx';
 
-// ── Artifact Parser ──
-interface ParsedArtifact {
-  type: string;
-  title: string;
-  content: string;
-}
-
-function parseArtifacts(text: string): { parts: Array<{ kind: 'text' | 'artifact'; text?: string; artifact?: ParsedArtifact }>} {
-  const regex = /<aegis_artifact\s+type="([^"]+)"\s+title="([^"]*)">([\s\S]*?)<\/aegis_artifact>/g;
-  const parts: Array<{ kind: 'text' | 'artifact'; text?: string; artifact?: ParsedArtifact }> = [];
-  let lastIndex = 0;
-  let match;
-
-  while ((match = regex.exec(text)) !== null) {
-    // Text before artifact
-    if (match.index > lastIndex) {
-      const before = text.slice(lastIndex, match.index).trim();
-      if (before) parts.push({ kind: 'text', text: before });
-    }
-    // Artifact
-    parts.push({
-      kind: 'artifact',
-      artifact: {
-        type: match[1],
-        title: match[2],
-        content: match[3].trim(),
-      },
-    });
-    lastIndex = match.index + match[0].length;
-  }
-
-  // Remaining text after last artifact
-  if (lastIndex < text.length) {
-    const remaining = text.slice(lastIndex).trim();
-    if (remaining) parts.push({ kind: 'text', text: remaining });
-  }
-
-  // No artifacts found — return full text
-  if (parts.length === 0) {
-    parts.push({ kind: 'text', text });
-  }
-
-  return { parts };
-}
-
 // ── Artifact Card Component ──
 function ArtifactCard({ artifact }: { artifact: ParsedArtifact }) {
   const [opening, setOpening] = useState(false);
 
-  const typeIcons: Record<string, string> = {
-    html: '🌐', react: '⚛️', svg: '🎨', mermaid: '📊', code: '📝',
-  };
-
   const handleOpen = async () => {
     setOpening(true);
     try {
@@ -81,7 +36,7 @@ function ArtifactCard({ artifact }: { artifact: ParsedArtifact }) {
       {/* Header */}
       <div className="flex items-center justify-between px-4 py-2.5 border-b border-aegis-primary/10">
         <div className="flex items-center gap-2.5">
-          <span className="text-lg">{typeIcons[artifact.type] || '📄'}</span>
+          <span className="text-lg">{ARTIFACT_ICONS[artifact.type] || '📄'}</span>
           <div>
             <div className="text-[13px] font-medium text-aegis-text">{artifact.title}</div>
             <div className="text-[10px] text-aegis-text-dim uppercase tracking-wider">{artifact.type}</div>
@@ -124,6 +79,73 @@ function ArtifactCard({ artifact }: { artifact: ParsedArtifact }) {
 interface MessageBubbleProps {
   message: ChatMessage;
   onResend?: (content: string) => void;
+  /** Branch a new session from this message (ForkSessionDialog) */
+  onFork?: (messageId: string) => void;
+  /** Edit a user message — the edited text is sent and the old replies kept as a branch */
+  onEdit?: (messageId: string, content: string) => void;
+  /** Open the run timeline of this reply — only set when its run was recorded */
+  onTimeline?: (messageId: string) => void;
+  /** Position among the edit branches of this message (1-based count shown as "2/3") */
+  branchIndex?: number;
+  branchCount?: number;
+  onSwitchBranch?: (branchId: string, index: number) => void;
+}
+
+// ── Inline editor for user messages ──
+function EditMessageForm({ initial, onSave, onCancel }: {
+  initial: string;
+  onSave: (content: string) => void;
+  onCancel: () => void;
+}) {
+  const { t } = useTranslation();
+  const [text, setText] = useState(initial);
+  const changed = text.trim() && text.trim() !== initial.trim();
+
+  return (
+    <div className="w-[min(560px,100%)]">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onCancel();
+          if (e.key === 'Enter' && !e.shiftKey && text.trim()) { e.preventDefault(); onSave(text.trim()); }
+        }}
+        autoFocus
+        dir="auto"
+        rows={Math.min(10, Math.max(2, text.split('\n').length))}
+        className="w-full resize-none rounded-xl px-3 py-2 text-[14px] leading-relaxed text-aegis-text outline-none bg-aegis-primary/[0.08] border border-aegis-primary/30 focus:border-aegis-primary/50"
+      />
+      <div className="flex items-center justify-end gap-1.5 mt-1.5">
+        <button onClick={onCancel}
+          className="px-3 py-1 rounded-lg text-[11px] text-aegis-text-muted hover:text-aegis-text-secondary hover:bg-[rgb(var(--aegis-overlay)/0.06)] transition-colors">
+          {t('common.cancel')}
+        </button>
+        <button onClick={() => onSave(text.trim())} disabled={!text.trim()}
+          title={changed ? undefined : t('chat.regenerateHint')}
+          className="px-3 py-1 rounded-lg text-[11px] font-semibold bg-aegis-primary/15 border border-aegis-primary/30 text-aegis-primary hover:bg-aegis-primary/25 transition-colors disabled:opacity-40">
+          {changed ? t('chat.saveAndRegenerate') : t('chat.regenerate')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ── "< 2/3 >" between edit branches ──
+function BranchSwitcher({ index, count, onSwitch }: { index: number; count: number; onSwitch: (index: number) => void }) {
+  const { t } = useTranslation();
+  return (
+    <div className="flex items-center text-[10px] font-mono text-aegis-text-muted" dir="ltr">
+      <button onClick={() => onSwitch(index - 1)} disabled={index === 0} title={t('chat.prevBranch')}
+        className="p-0.5 rounded hover:bg-[rgb(var(--aegis-overlay)/0.06)] disabled:opacity-30 transition-colors">
+        <ChevronLeft size={11} />
+      </button>
+      <span>{index + 1}/{count}</span>
+      <button onClick={() => onSwitch(index + 1)} disabled={index >= count - 1} title={t('chat.nextBranch')}
+        className="p-0.5 rounded hover:bg-[rgb(var(--aegis-overlay)/0.06)] disabled:opacity-30 transition-colors">
+        <ChevronRight size={11} />
+      </button>
+    </div>
+  );
 }
 
 // ── Shared Markdown Components ──
@@ -178,10 +200,16 @@ const markdownComponents = {
   },
 };
 
-export const MessageBubble = memo(function MessageBubble({ message, onResend }: MessageBubbleProps) {
+export const MessageBubble = memo(function MessageBubble({ message, onResend, onFork, onEdit, onTimeline, branchIndex, branchCount, onSwitchBranch }: MessageBubbleProps) {
   const { t, i18n } = useTranslation();
   const [copied, setCopied] = useState(false);
   const [showActions, setShowActions] = useState(false);
+  const [editing, setEditing] = useState(false);
+  // "Read aloud" — synthesized on demand, kept only while the bubble is mounted
+  const canReadAloud = useSettingsStore((s) => !!s.voice.ttsUrl.trim());
+  const [spokenUrl, setSpokenUrl] = useState<string | null>(null);
+  const [synthesizing, setSynthesizing] = useState(false);
+  useEffect(() => () => { if (spokenUrl) URL.revokeObjectURL(spokenUrl); }, [spokenUrl]);
   const isUser = message.role === 'user';
   const isStreaming = message.isStreaming;
   const dir = getDirection(i18n.language);
@@ -192,6 +220,18 @@ export const MessageBubble = memo(function MessageBubble({ message, onResend }:
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleReadAloud = async () => {
+    setSynthesizing(true);
+    try {
+      setSpokenUrl(await synthesize(rawContent));
+    } catch (err: any) {
+      console.error('[ReadAloud] Failed:', err);
+      useNotificationStore.getState().addToast('info', t('speech.readAloudFailed'), err?.message || String(err));
+    } finally {
+      setSynthesizing(false);
+    }
+  };
+
   const extractText = (val: any): string => {
     if (typeof val === 'string') return val;
     if (val == null) return '';
@@ -253,7 +293,14 @@ export const MessageBubble = memo(function MessageBubble({ message, onResend }:
 
       {/* Message Content */}
       <div className={clsx('flex flex-col max-w-[80%] min-w-0', isUser && 'items-end')}>
-        {/* Bubble */}
+        {/* Bubble — or the inline editor while editing a user message */}
+        {editing && onEdit ? (
+          <EditMessageForm
+            initial={cleanContent}
+            onSave={(content) => { setEditing(false); onEdit(message.id, content); }}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
         <div
           className={clsx(
             'rounded-2xl px-4 py-2.5 relative',
@@ -276,6 +323,11 @@ export const MessageBubble = memo(function MessageBubble({ message, onResend }:
               <AudioPlayer src={message.mediaUrl} />
             </div>
           )}
+          {spokenUrl && (
+            <div className="mb-2">
+              <AudioPlayer src={spokenUrl} autoPlay />
+            </div>
+          )}
 
           {/* Attached images */}
           {message.attachments && message.attachments.length > 0 && (
@@ -334,12 +386,18 @@ export const MessageBubble = memo(function MessageBubble({ message, onResend }:
             </div>
           )}
         </div>
+        )}
 
         {/* Footer — Time + Actions (more visible) */}
         <div className="flex items-center gap-2 mt-1 px-1 h-5">
           <span className="text-[10px] text-aegis-text-muted font-mono">{timeStr}</span>
 
-          {showActions && !isStreaming && (
+          {message.branchId && onSwitchBranch && branchCount !== undefined && branchCount > 1 && (
+            <BranchSwitcher index={branchIndex ?? 0} count={branchCount}
+              onSwitch={(index) => onSwitchBranch(message.branchId!, index)} />
+          )}
+
+          {showActions && !isStreaming && !editing && (
             <div className="flex items-center gap-0.5 animate-fade-in">
               <button
                 onClick={handleCopy}
@@ -361,6 +419,45 @@ export const MessageBubble = memo(function MessageBubble({ message, onResend }:
                   <RotateCcw size={11} className="text-aegis-text-muted hover:text-aegis-text-secondary" />
                 </button>
               )}
+              {isUser && onEdit && (
+                <button
+                  onClick={() => setEditing(true)}
+                  className="p-1 rounded-md hover:bg-[rgb(var(--aegis-overlay)/0.06)] transition-colors"
+                  title={t('chat.editMessage')}
+                >
+                  <Pencil size={11} className="text-aegis-text-muted hover:text-aegis-text-secondary" />
+                </button>
+              )}
+              {onFork && (
+                <button
+                  onClick={() => onFork(message.id)}
+                  className="p-1 rounded-md hover:bg-[rgb(var(--aegis-overlay)/0.06)] transition-colors"
+                  title={t('sessions.forkHere')}
+                >
+                  <GitBranch size={11} className="text-aegis-text-muted hover:text-aegis-text-secondary" />
+                </button>
+              )}
+              {!isUser && canReadAloud && !spokenUrl && (
+                <button
+                  onClick={handleReadAloud}
+                  disabled={synthesizing}
+                  className="p-1 rounded-md hover:bg-[rgb(var(--aegis-overlay)/0.06)] transition-colors"
+                  title={t('speech.readAloud')}
+                >
+                  {synthesizing
+                    ? <Loader2 size={11} className="animate-spin text-aegis-text-muted" />
+                    : <Volume2 size={11} className="text-aegis-text-muted hover:text-aegis-text-secondary" />}
+                </button>
+              )}
+              {onTimeline && (
+                <button
+                  onClick={() => onTimeline(message.id)}
+                  className="p-1 rounded-md hover:bg-[rgb(var(--aegis-overlay)/0.06)] transition-colors"
+                  title={t('runTimeline.open')}
+                >
+                  <Timer size={11} className="text-aegis-text-muted hover:text-aegis-text-secondary" />
+                </button>
+              )}
             </div>
           )}
         </div>
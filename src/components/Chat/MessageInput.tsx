@@ -1,12 +1,17 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
-import { Send, Paperclip, Camera, Mic, X, Loader2, Square } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Send, Paperclip, Camera, Mic, X, Loader2, Square, AlertTriangle } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useChatStore } from '@/stores/chatStore';
 import { useSettingsStore } from '@/stores/settingsStore';
+import { useNotificationStore } from '@/stores/notificationStore';
 import { gateway } from '@/services/gateway';
+import { QUICK_ACTION_EVENT } from '@/services/macros';
+import { slashSuggestions, executeSlashCommand, slashNeedsGateway, type SlashSuggestion } from '@/services/slashCommands';
+import { transcribe, isTranscriptionEnabled, sendRecording } from '@/services/speech';
 import { ScreenshotPicker } from './ScreenshotPicker';
 import { VoiceRecorder } from './VoiceRecorder';
 import { EmojiPicker } from './EmojiPicker';
+import { SlashCommandMenu } from './SlashCommandMenu';
 import { getDirection } from '@/i18n';
 import clsx from 'clsx';
 
@@ -14,6 +19,13 @@ import clsx from 'clsx';
 // Message Input — premium input with attachments
 // ═══════════════════════════════════════════════════════════
 
+interface VoiceRecording {
+  base64: string;
+  mimeType: string;
+  durationSec: number;
+  localUrl: string;
+}
+
 interface PendingFile {
   name: string;
   base64: string;
@@ -33,8 +45,20 @@ export function MessageInput() {
   const [files, setFiles] = useState<PendingFile[]>([]);
   const [screenshotOpen, setScreenshotOpen] = useState(false);
   const [voiceMode, setVoiceMode] = useState(false);
+  const [transcribing, setTranscribing] = useState(false);
+  /** Transcription failed — the recording can still go out as a file */
+  const [voiceError, setVoiceError] = useState<{ message: string; recording: VoiceRecording } | null>(null);
+  const sttEnabled = useSettingsStore((s) => s.voice.sttProvider !== 'off');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // ── Slash command autocomplete ──
+  const [slashIdx, setSlashIdx] = useState(0);
+  // Input text at which Escape closed the menu — reopens once the text changes
+  const [slashDismissed, setSlashDismissed] = useState<string | null>(null);
+  const suggestions = useMemo(() => slashSuggestions(text), [text]);
+  const slashOpen = suggestions.length > 0 && slashDismissed !== text;
+  useEffect(() => { setSlashIdx(0); }, [text]);
+
   // Sync draft when switching sessions
   useEffect(() => {
     setText(drafts[activeSessionKey] || '');
@@ -55,12 +79,41 @@ export function MessageInput() {
 
   useEffect(() => { textareaRef.current?.focus(); }, []);
 
+  // Prompt macros without auto-send hand their text over for review
+  useEffect(() => {
+    const handleQuickAction = (e: Event) => {
+      const { message } = (e as CustomEvent).detail || {};
+      if (typeof message !== 'string') return;
+      setText(message);
+      textareaRef.current?.focus();
+    };
+    window.addEventListener(QUICK_ACTION_EVENT, handleQuickAction);
+    return () => window.removeEventListener(QUICK_ACTION_EVENT, handleQuickAction);
+  }, []);
+
+  // Gateway commands don't go to the outbox — while offline they stay in the input
+  const slashBlocked = (command: string) => {
+    if (connected || !slashNeedsGateway(command)) return false;
+    useNotificationStore.getState().addToast('info', command.trim().split(/\s/)[0], t('slash.notConnected'));
+    return true;
+  };
+
   const handleSend = useCallback(async () => {
     const trimmed = text.trim();
-    if ((!trimmed && files.length === 0) || isSending || !connected) return;
+    // Offline is fine — gateway.sendMessage puts the message in the outbox
+    if ((!trimmed && files.length === 0) || isSending) return;
+
+    // "/command" — handled locally when registered, otherwise sent as text
+    if (files.length === 0 && trimmed.startsWith('/')) {
+      if (slashBlocked(trimmed)) return;
+      if (await executeSlashCommand(trimmed, { sessionKey: activeSessionKey })) {
+        setText('');
+        return;
+      }
+    }
 
     // On first interaction — load history before sending so context is visible
-    if (messages.length === 0 && historyLoader) {
+    if (messages.length === 0 && historyLoader && connected) {
       await historyLoader();
     }
 
@@ -108,15 +161,44 @@ export function MessageInput() {
     useChatStore.getState().setQuickReplies([]);
 
     try {
-      await gateway.sendMessage(fullMessage || '', attachments.length > 0 ? attachments : undefined, activeSessionKey);
+      const result = await gateway.sendMessage(fullMessage || '', attachments.length > 0 ? attachments : undefined, activeSessionKey, { bubbleId: userMsg.id });
+      // Queued in the outbox — the typing indicator comes back when it is flushed
+      if (result?.queued) setIsTyping(false);
     } catch (err) {
       console.error('[Send] Error:', err);
     } finally {
       setIsSending(false);
     }
-  }, [text, files, isSending, connected, addMessage, setIsSending, setIsTyping, messages, historyLoader]);
+  }, [text, files, isSending, connected, addMessage, setIsSending, setIsTyping, messages, historyLoader, activeSessionKey]);
+
+  const acceptSuggestion = (s: SlashSuggestion, run: boolean) => {
+    if (run && s.runnable && !slashBlocked(s.insert)) {
+      setText('');
+      executeSlashCommand(s.insert, { sessionKey: activeSessionKey });
+    } else {
+      setText(s.insert);
+    }
+    textareaRef.current?.focus();
+  };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (slashOpen) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSlashIdx((prev) => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+        e.preventDefault();
+        acceptSuggestion(suggestions[slashIdx], e.key === 'Enter');
+        return;
+      }
+      if (e.key === 'Escape') {
+        setSlashDismissed(text);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); }
   };
 
@@ -162,8 +244,8 @@ export function MessageInput() {
     textareaRef.current?.focus();
   };
 
-  const handleVoiceSend = useCallback(async (base64: string, mimeType: string, durationSec: number, localUrl: string) => {
-    setVoiceMode(false);
+  // Without transcription the agent gets the recording's path in the shared folder
+  const sendVoiceFile = useCallback(async ({ base64, mimeType, durationSec, localUrl }: VoiceRecording) => {
     addMessage({
       id: `user-${Date.now()}`, role: 'user',
       content: t('voice.voiceMessage', { seconds: durationSec }),
@@ -173,21 +255,35 @@ export function MessageInput() {
     setIsTyping(true);
     setIsSending(true);
     try {
-      const ext = mimeType.includes('ogg') ? 'ogg' : 'webm';
-      const filename = `voice-${Date.now()}.${ext}`;
-      let savedPath = '';
-      if (window.aegis?.voice?.save) {
-        savedPath = await window.aegis.voice.save(filename, base64) || '';
-      }
-      if (savedPath) {
-        await gateway.sendMessage(`🎤 [voice] ${savedPath} (${durationSec}s)`);
-      } else {
-        await gateway.sendMessage(`🎤 [voice:${mimeType}:base64] ${base64.substring(0, 50)}... (${durationSec}s)`);
-      }
+      await sendRecording(base64, mimeType, durationSec);
     } catch (err) { console.error('[Voice] Send error:', err); }
     finally { setIsSending(false); }
   }, [addMessage, setIsTyping, setIsSending, t]);
 
+  // With transcription the text lands in the input, to be reviewed and sent like typed text
+  const handleVoiceSend = useCallback(async (base64: string, mimeType: string, durationSec: number, localUrl: string) => {
+    setVoiceMode(false);
+    const recording: VoiceRecording = { base64, mimeType, durationSec, localUrl };
+    if (!isTranscriptionEnabled()) {
+      await sendVoiceFile(recording);
+      return;
+    }
+    setVoiceError(null);
+    setTranscribing(true);
+    try {
+      const transcript = await transcribe(base64, mimeType);
+      if (!transcript) throw new Error(t('speech.emptyTranscript'));
+      setText((prev) => (prev.trim() ? `${prev.trimEnd()} ${transcript}` : transcript));
+      URL.revokeObjectURL(localUrl);
+      requestAnimationFrame(() => textareaRef.current?.focus());
+    } catch (err: any) {
+      console.error('[Voice] Transcription failed:', err);
+      setVoiceError({ message: err?.message || String(err), recording });
+    } finally {
+      setTranscribing(false);
+    }
+  }, [sendVoiceFile, t]);
+
   const handlePaste = (e: React.ClipboardEvent) => {
     const items = e.clipboardData?.items;
     if (!items) return;
@@ -275,29 +371,54 @@ export function MessageInput() {
         </div>
       )}
 
+      {/* Transcription status */}
+      {(transcribing || voiceError) && (
+        <div className="flex items-center gap-2 px-4 pt-2 text-[11px]" dir={dir}>
+          {transcribing ? (
+            <span className="flex items-center gap-1.5 text-aegis-text-muted">
+              <Loader2 size={12} className="animate-spin" /> {t('speech.transcribing')}
+            </span>
+          ) : voiceError && (
+            <>
+              <AlertTriangle size={12} className="text-aegis-danger shrink-0" />
+              <span className="text-aegis-danger truncate">{t('speech.transcribeFailed', { error: voiceError.message })}</span>
+              <div className="flex-1" />
+              <button onClick={() => { const { recording } = voiceError; setVoiceError(null); sendVoiceFile(recording); }}
+                className="shrink-0 text-aegis-primary hover:underline">{t('speech.sendRecording')}</button>
+              <button onClick={() => { URL.revokeObjectURL(voiceError.recording.localUrl); setVoiceError(null); }}
+                className="shrink-0 text-aegis-text-dim hover:text-aegis-text-muted">{t('speech.discard')}</button>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Input Area */}
       {voiceMode ? (
-        <VoiceRecorder onSendVoice={handleVoiceSend} onCancel={() => setVoiceMode(false)} disabled={!connected} />
+        <VoiceRecorder onSendVoice={handleVoiceSend} onCancel={() => setVoiceMode(false)} disabled={!connected}
+          sendTitle={sttEnabled ? t('speech.transcribe') : undefined} />
       ) : (
         <div className="flex items-end gap-2 p-3" dir={dir}>
           {/* Input Wrapper (matches mockup) */}
           <div className={clsx(
-            'flex items-center gap-2 px-3 py-2 rounded-2xl flex-1',
+            'relative flex items-center gap-2 px-3 py-2 rounded-2xl flex-1',
             'bg-aegis-surface border border-[rgb(var(--aegis-overlay)/0.06)]',
             'transition-all duration-200',
             'focus-within:border-aegis-primary/30',
             'focus-within:shadow-[0_0_0_3px_rgb(var(--aegis-primary)/0.06),0_0_16px_rgb(var(--aegis-primary)/0.08)]',
-            !connected && 'opacity-40'
+            !connected && 'border-dashed'
           )} onDrop={handleDrop} onDragOver={(e) => e.preventDefault()}>
+            {slashOpen && (
+              <SlashCommandMenu suggestions={suggestions} selectedIdx={slashIdx}
+                onHover={setSlashIdx} onSelect={(s) => acceptSuggestion(s, true)} />
+            )}
             {/* Action Buttons */}
             <EmojiPicker
               onSelect={(emoji) => { setText((prev) => prev + emoji); textareaRef.current?.focus(); }}
-              disabled={!connected}
             />
             {[
               { icon: Paperclip, action: handleFileSelect, title: t('input.attachFile') },
               { icon: Camera, action: () => setScreenshotOpen(true), title: t('input.screenshot') },
-              { icon: Mic, action: () => setVoiceMode(true), title: t('input.voiceRecord'), disabled: !connected },
+              { icon: Mic, action: () => setVoiceMode(true), title: t('input.voiceRecord'), disabled: !connected || transcribing },
             ].map(({ icon: Icon, action, title, disabled }) => (
               <button key={title} onClick={action} disabled={disabled}
                 className={clsx(
@@ -314,8 +435,7 @@ export function MessageInput() {
             {/* Text Input */}
             <textarea ref={textareaRef} data-input="message" value={text} onChange={(e) => setText(e.target.value)}
               onKeyDown={handleKeyDown} onPaste={handlePaste}
-              placeholder={connected ? t('input.placeholder') : t('input.placeholderDisconnected')}
-              disabled={!connected}
+              placeholder={connected ? t('input.placeholder') : t('input.placeholderOffline')}
               className={clsx(
                 'flex-1 resize-none bg-transparent border-none text-[14px]',
                 'text-aegis-text placeholder:text-aegis-text-muted',
@@ -327,7 +447,7 @@ export function MessageInput() {
             {/* Send / Stop Button */}
             {isTyping || isSending ? (
               <button onClick={async () => {
-                try { await gateway.abortChat(); setIsTyping(false); setIsSending(false); }
+                try { await gateway.abortChat(activeSessionKey); setIsTyping(false); setIsSending(false); }
                 catch (err) { console.error('[Abort] Error:', err); }
               }}
                 className="w-[34px] h-[34px] rounded-lg flex items-center justify-center flex-shrink-0 bg-aegis-danger/80 hover:bg-aegis-danger text-white transition-all"
@@ -336,7 +456,7 @@ export function MessageInput() {
               </button>
             ) : (
               <button onClick={handleSend}
-                disabled={(!text.trim() && files.length === 0) || !connected}
+                disabled={!text.trim() && files.length === 0}
                 className={clsx(
                   'w-[34px] h-[34px] rounded-lg flex items-center justify-center flex-shrink-0 transition-all',
                   text.trim() || files.length > 0
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Inbox, ChevronDown, ChevronUp, ArrowUp, ArrowDown, Pencil, RotateCcw, X, Check, Loader2, AlertTriangle, Clock } from 'lucide-react';
+import { gateway } from '@/services/gateway';
+import { useChatStore } from '@/stores/chatStore';
+import { useOutboxStore, type OutboxItem } from '@/stores/outboxStore';
+import { useProfileStore } from '@/stores/profileStore';
+import clsx from 'clsx';
+
+// ═══════════════════════════════════════════════════════════
+// Outbox Panel — messages waiting for the gateway, above MessageInput
+// Only the active profile's items are listed (they are the only ones
+// that can flush). Hidden while the queue is empty.
+// ═══════════════════════════════════════════════════════════
+
+const iconBtn = 'p-1 rounded-md hover:bg-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text-muted hover:text-aegis-text-secondary transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+function StatusBadge({ item }: { item: OutboxItem }) {
+  const { t } = useTranslation();
+  const styles = {
+    queued: { icon: Clock, cls: 'text-aegis-text-muted bg-[rgb(var(--aegis-overlay)/0.05)]' },
+    sending: { icon: Loader2, cls: 'text-aegis-primary bg-aegis-primary/10' },
+    failed: { icon: AlertTriangle, cls: 'text-aegis-danger bg-aegis-danger/10' },
+  }[item.status];
+  const Icon = styles.icon;
+  return (
+    <span className={clsx('flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[10px] font-semibold shrink-0', styles.cls)}
+      title={item.error || undefined}>
+      <Icon size={10} className={item.status === 'sending' ? 'animate-spin' : undefined} />
+      {t(`outbox.status.${item.status}`)}
+      {item.attempts > 1 && <span className="opacity-60">×{item.attempts}</span>}
+    </span>
+  );
+}
+
+/** prev/next — the visible neighbours this row swaps with */
+function OutboxRow({ item, prev, next }: { item: OutboxItem; prev?: OutboxItem; next?: OutboxItem }) {
+  const { t } = useTranslation();
+  const connected = useChatStore((s) => s.connected);
+  const sessionLabel = useChatStore((s) => s.sessions.find((x) => x.key === item.sessionKey)?.label) || item.sessionKey.split(':').pop();
+  const { update, remove, swap } = useOutboxStore.getState();
+  const [editing, setEditing] = useState(false);
+  const [text, setText] = useState(item.message);
+  const [confirmCancel, setConfirmCancel] = useState(false);
+  const busy = item.status === 'sending';
+
+  const save = () => {
+    if (!text.trim()) return;
+    update(item.id, { message: text.trim() });
+    setEditing(false);
+  };
+
+  return (
+    <div className="group flex items-start gap-2 px-3 py-2 border-t border-aegis-border/10 first:border-t-0">
+      <div className="flex flex-col shrink-0 -my-0.5">
+        <button onClick={() => prev && swap(item.id, prev.id)} disabled={!prev || busy} className={iconBtn} title={t('outbox.moveUp')}>
+          <ArrowUp size={11} />
+        </button>
+        <button onClick={() => next && swap(item.id, next.id)} disabled={!next || busy} className={iconBtn} title={t('outbox.moveDown')}>
+          <ArrowDown size={11} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 mb-0.5">
+          <StatusBadge item={item} />
+          <span className="text-[10px] text-aegis-text-dim truncate">{sessionLabel}</span>
+          {item.attachments?.length ? (
+            <span className="text-[10px] text-aegis-text-dim">📎 {item.attachments.length}</span>
+          ) : null}
+        </div>
+        {editing ? (
+          <div className="flex items-start gap-1">
+            <textarea value={text} onChange={(e) => setText(e.target.value)} autoFocus dir="auto" rows={2}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') { setText(item.message); setEditing(false); }
+                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); save(); }
+              }}
+              className="flex-1 resize-none rounded-lg px-2 py-1 text-[12px] text-aegis-text outline-none bg-[rgb(var(--aegis-overlay)/0.04)] border border-aegis-primary/30" />
+            <button onClick={save} disabled={!text.trim()} className={iconBtn} title={t('common.save')}>
+              <Check size={12} />
+            </button>
+          </div>
+        ) : (
+          <p className="text-[12px] text-aegis-text-secondary line-clamp-2 break-words" dir="auto">{item.message}</p>
+        )}
+        {item.status === 'failed' && item.error && (
+          <p className="text-[10px] text-aegis-danger/80 mt-0.5 truncate" title={item.error}>{item.error}</p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-0.5 shrink-0">
+        {!editing && (
+          <button onClick={() => { setText(item.message); setEditing(true); }} disabled={busy} className={iconBtn} title={t('outbox.edit')}>
+            <Pencil size={11} />
+          </button>
+        )}
+        <button onClick={() => gateway.retryQueued(item.id)} disabled={busy || !connected}
+          className={iconBtn} title={item.status === 'failed' ? t('outbox.retry') : t('outbox.sendNow')}>
+          <RotateCcw size={11} />
+        </button>
+        <button
+          onClick={() => (confirmCancel ? remove(item.id) : setConfirmCancel(true))}
+          onMouseLeave={() => setConfirmCancel(false)}
+          disabled={busy}
+          className={clsx(iconBtn, confirmCancel && 'text-aegis-danger bg-aegis-danger/10')}
+          title={confirmCancel ? t('outbox.confirmCancel') : t('outbox.cancel')}>
+          <X size={11} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function OutboxPanel() {
+  const { t } = useTranslation();
+  const activeProfileId = useProfileStore((s) => s.activeId);
+  const allItems = useOutboxStore((s) => s.items);
+  const connected = useChatStore((s) => s.connected);
+  const [open, setOpen] = useState(false);
+
+  const items = allItems.filter((i) => !i.profileId || i.profileId === activeProfileId);
+  if (items.length === 0) return null;
+  const failed = items.filter((i) => i.status === 'failed');
+
+  return (
+    <div className="mx-3 mb-1 rounded-xl border border-aegis-border/20 bg-aegis-surface/60 overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-1.5">
+        <button onClick={() => setOpen((o) => !o)} className="flex-1 flex items-center gap-2 min-w-0 text-start">
+          <Inbox size={13} className="text-aegis-primary shrink-0" />
+          <span className="text-[12px] font-semibold text-aegis-text">{t('outbox.title', { count: items.length })}</span>
+          <span className="text-[11px] text-aegis-text-dim truncate">
+            {failed.length > 0
+              ? t('outbox.failedCount', { count: failed.length })
+              : connected ? t('outbox.sending') : t('outbox.waiting')}
+          </span>
+          {open ? <ChevronDown size={13} className="text-aegis-text-dim" /> : <ChevronUp size={13} className="text-aegis-text-dim" />}
+        </button>
+        {failed.length > 0 && connected && (
+          <button onClick={() => failed.forEach((i) => gateway.retryQueued(i.id))}
+            className="px-2 py-0.5 rounded-md text-[11px] font-semibold text-aegis-primary hover:bg-aegis-primary/10 transition-colors">
+            {t('outbox.retryAll')}
+          </button>
+        )}
+      </div>
+      {open && (
+        <div className="max-h-[240px] overflow-y-auto border-t border-aegis-border/15">
+          {items.map((item, i) => <OutboxRow key={item.id} item={item} prev={items[i - 1]} next={items[i + 1]} />)}
+        </div>
+      )}
+    </div>
+  );
+}
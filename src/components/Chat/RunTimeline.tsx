@@ -0,0 +1,286 @@
+// ═══════════════════════════════════════════════════════════
+// RunTimeline — Gantt view of one assistant run
+// Thinking, every tool call, sub-agents started by sessions_spawn
+// and the streamed answer on one time axis, with compactions marked
+// and the run's token usage below. Opened from an assistant
+// message; ‹ › steps through the session's other recorded runs.
+// ═══════════════════════════════════════════════════════════
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X, ChevronLeft, ChevronRight, Timer } from 'lucide-react';
+import { useRunTimelineStore, type RunTimeline, type TimelineSpan } from '@/stores/runTimelineStore';
+import { useChatStore } from '@/stores/chatStore';
+import { useGatewayDataStore } from '@/stores/gatewayDataStore';
+import { getToolMeta, formatToolDuration, summarizeInput } from './ToolCallBubble';
+import clsx from 'clsx';
+
+const TICK_STEPS_MS = [100, 250, 500, 1_000, 2_000, 5_000, 10_000, 15_000, 30_000, 60_000, 120_000, 300_000, 600_000];
+const MAX_TICKS = 6;
+
+interface Row {
+  key: string;
+  icon: string;
+  label: string;
+  detail?: string;
+  span: TimelineSpan;
+  color: string;
+  /** Still running — the bar ends at "now" */
+  open?: boolean;
+  slowest?: boolean;
+  onClick?: () => void;
+}
+
+/** Re-render every second while something is still running */
+function useNow(live: boolean): number {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!live) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [live]);
+  return live ? now : Date.now();
+}
+
+const fmtTokens = (n: number) => (n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n));
+
+function tickStep(totalMs: number): number {
+  return TICK_STEPS_MS.find((step) => totalMs / step <= MAX_TICKS) ?? TICK_STEPS_MS[TICK_STEPS_MS.length - 1];
+}
+
+function RunTimelineView({ run, index, count, onStep, onClose }: {
+  run: RunTimeline;
+  index: number;
+  count: number;
+  onStep: (delta: number) => void;
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const messages = useChatStore((s) => s.messages);
+  const session = useGatewayDataStore((s) => s.sessions.find((x) => x.key === run.sessionKey));
+  const sessionsFetchedAt = useGatewayDataStore((s) => s.lastFetch.sessions);
+  const running = run.phase === 'running';
+  const liveSubAgent = run.subAgents.some((s) => s.end === undefined);
+  const now = useNow(running || liveSubAgent);
+
+  const runEnd = run.endedAt ?? now;
+  // Sub-agents can outlive the run that spawned them
+  const end = Math.max(runEnd, ...run.subAgents.map((s) => s.end ?? (running ? now : runEnd)));
+  const total = Math.max(end - run.startedAt, 1);
+  const pct = (at: number) => `${((at - run.startedAt) / total) * 100}%`;
+  const widthPct = (span: TimelineSpan, fallbackEnd: number) =>
+    `max(${(((span.end ?? fallbackEnd) - span.start) / total) * 100}%, 3px)`;
+
+  const inspectTool = (toolCallId: string) => {
+    const id = `tool-live-${toolCallId}`;
+    if (!messages.some((m) => m.id === id)) return undefined;
+    return () => {
+      useRunTimelineStore.getState().setOpenRun(null);
+      useChatStore.getState().setInspectedTool({ sessionKey: run.sessionKey, messageId: id });
+    };
+  };
+
+  const toolDurations = run.tools.map((tool) => (tool.end ?? now) - tool.start);
+  const slowestIdx = run.tools.length > 1 ? toolDurations.indexOf(Math.max(...toolDurations)) : -1;
+
+  const rows: Row[] = [];
+  if (run.thinking) {
+    rows.push({ key: 'thinking', icon: '🧠', label: t('runTimeline.thinking'), span: run.thinking, color: 'var(--aegis-accent)' });
+  }
+  run.tools.forEach((tool, i) => {
+    const meta = getToolMeta(tool.name);
+    rows.push({
+      key: tool.toolCallId,
+      icon: meta.icon,
+      label: meta.label,
+      detail: tool.args ? summarizeInput(tool.name, tool.args) : undefined,
+      span: tool,
+      color: meta.color,
+      open: tool.end === undefined,
+      slowest: i === slowestIdx,
+      onClick: inspectTool(tool.toolCallId),
+    });
+  });
+  for (const sub of run.subAgents) {
+    rows.push({
+      key: `sub-${sub.toolCallId}`,
+      icon: '🤖',
+      label: sub.label || t('runTimeline.subAgent'),
+      detail: sub.sessionKey,
+      span: sub,
+      color: 'var(--aegis-danger)',
+      open: sub.end === undefined,
+    });
+  }
+  if (run.firstTextAt) {
+    rows.push({
+      key: 'answer',
+      icon: '💬',
+      label: t('runTimeline.answer'),
+      span: { start: run.firstTextAt, end: run.endedAt },
+      color: 'var(--aegis-primary)',
+      open: running,
+    });
+  }
+
+  const step = tickStep(total);
+  const ticks = Array.from({ length: Math.floor(total / step) + 1 }, (_, i) => i * step);
+
+  // Usage: the final event's, else the session's token growth once sessions.list caught up
+  const usage = run.usage;
+  const approxTokens = !usage && run.endedAt && run.tokensBefore !== undefined && session?.totalTokens !== undefined
+    && sessionsFetchedAt > run.endedAt
+    ? Math.max(0, session.totalTokens - run.tokensBefore)
+    : undefined;
+
+  const phaseCls = {
+    running: 'text-aegis-warning',
+    done: 'text-aegis-success/80',
+    error: 'text-aegis-danger',
+    aborted: 'text-aegis-text-dim',
+  }[run.phase];
+  const iconBtn = 'p-1.5 rounded-lg text-aegis-text-dim hover:text-aegis-text hover:bg-[rgb(var(--aegis-overlay)/0.05)] transition-colors disabled:opacity-40';
+
+  return (
+    <div className="w-[480px] max-w-[50%] shrink-0 flex flex-col min-h-0 border-s border-[rgb(var(--aegis-overlay)/0.06)] bg-aegis-bg">
+      {/* ── Header ── */}
+      <div className="shrink-0 flex items-center gap-2 px-3 py-2.5 border-b border-[rgb(var(--aegis-overlay)/0.06)]">
+        <Timer size={14} className="text-aegis-primary" />
+        <span className="text-[12px] font-semibold text-aegis-text">{t('runTimeline.title')}</span>
+        <span className={clsx('text-[9px] font-mono', phaseCls)}>{t(`runTimeline.phase.${run.phase}`)}</span>
+        <div className="flex-1" />
+        <button onClick={() => onStep(-1)} disabled={index === 0} className={iconBtn} title={t('runTimeline.previous')}>
+          <ChevronLeft size={13} className="rtl:rotate-180" />
+        </button>
+        <span className="text-[10px] font-mono text-aegis-text-dim">{index + 1}/{count}</span>
+        <button onClick={() => onStep(1)} disabled={index === count - 1} className={iconBtn} title={t('runTimeline.next')}>
+          <ChevronRight size={13} className="rtl:rotate-180" />
+        </button>
+        <button onClick={onClose} className={iconBtn} title={t('common.close')}>
+          <X size={13} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto px-3 py-3 space-y-4">
+        {/* ── Summary ── */}
+        <div className="grid grid-cols-3 gap-2">
+          {[
+            { label: t('runTimeline.duration'), value: formatToolDuration(runEnd - run.startedAt) },
+            { label: t('runTimeline.firstText'), value: run.firstTextAt ? formatToolDuration(run.firstTextAt - run.startedAt) : '—' },
+            { label: t('runTimeline.tools'), value: String(run.tools.length) },
+          ].map((item) => (
+            <div key={item.label} className="rounded-lg px-2.5 py-2 bg-[rgb(var(--aegis-overlay)/0.03)] border border-[rgb(var(--aegis-overlay)/0.05)]">
+              <div className="text-[9px] uppercase tracking-wider text-aegis-text-dim">{item.label}</div>
+              <div className="text-[13px] font-mono font-semibold text-aegis-text">{item.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* ── Gantt ── */}
+        <div dir="ltr">
+          <div className="relative h-4 ms-[132px] text-[9px] font-mono text-aegis-text-dim">
+            {ticks.map((tick) => (
+              <span key={tick} className="absolute -translate-x-1/2" style={{ left: pct(run.startedAt + tick) }}>
+                {formatToolDuration(tick)}
+              </span>
+            ))}
+          </div>
+          <div className="relative">
+            {/* Grid lines and compaction markers span every row */}
+            <div className="absolute inset-y-0 left-[132px] right-0 pointer-events-none">
+              {ticks.map((tick) => (
+                <div key={tick} className="absolute inset-y-0 w-px bg-[rgb(var(--aegis-overlay)/0.05)]" style={{ left: pct(run.startedAt + tick) }} />
+              ))}
+              {run.compactions.map((at) => (
+                <div key={at} className="absolute inset-y-0 w-px bg-aegis-warning/60" style={{ left: pct(at) }} title={t('runTimeline.compaction')} />
+              ))}
+            </div>
+
+            {rows.length === 0 && (
+              <p className="py-6 text-center text-[11px] text-aegis-text-dim">{t('runTimeline.noSteps')}</p>
+            )}
+            {rows.map((row) => (
+              <div
+                key={row.key}
+                onClick={row.onClick}
+                className={clsx('flex items-center h-7 rounded', row.onClick && 'cursor-pointer hover:bg-[rgb(var(--aegis-overlay)/0.03)]')}
+                title={`${row.label}${row.detail ? ` ${row.detail}` : ''} — +${formatToolDuration(row.span.start - run.startedAt)}, ${formatToolDuration((row.span.end ?? now) - row.span.start)}`}
+              >
+                <div className="w-[132px] shrink-0 flex items-center gap-1.5 pe-2 min-w-0">
+                  <span className="text-[11px]">{row.icon}</span>
+                  <span className="text-[10px] font-mono truncate" style={{ color: `rgb(${row.color})` }}>{row.label}</span>
+                  {row.slowest && <span className="text-[8px] px-1 rounded bg-aegis-warning/15 text-aegis-warning shrink-0">{t('runTimeline.slowest')}</span>}
+                </div>
+                <div className="relative flex-1 h-full">
+                  <div
+                    className={clsx('absolute top-1.5 bottom-1.5 rounded-sm', row.open && 'animate-pulse-soft')}
+                    style={{
+                      left: pct(row.span.start),
+                      width: widthPct(row.span, row.open ? (running ? now : runEnd) : runEnd),
+                      background: `rgb(${row.color} / 0.55)`,
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          {rows.some((r) => r.detail) && (
+            <div className="mt-3 space-y-0.5">
+              {rows.filter((r) => r.detail).map((row) => (
+                <div key={row.key} className="flex items-center gap-2 text-[10px] font-mono text-aegis-text-dim">
+                  <span className="shrink-0">{row.icon}</span>
+                  <span className="truncate">{row.detail}</span>
+                  <div className="flex-1" />
+                  <span className="shrink-0">{formatToolDuration((row.span.end ?? now) - row.span.start)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* ── Tokens ── */}
+        <div className="rounded-lg px-3 py-2.5 bg-[rgb(var(--aegis-overlay)/0.03)] border border-[rgb(var(--aegis-overlay)/0.05)]">
+          <div className="text-[9px] uppercase tracking-wider text-aegis-text-dim mb-1">{t('runTimeline.tokens')}</div>
+          {usage ? (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] font-mono text-aegis-text">
+              {usage.input !== undefined && <span>{t('runTimeline.input')} {fmtTokens(usage.input)}</span>}
+              {usage.output !== undefined && <span>{t('runTimeline.output')} {fmtTokens(usage.output)}</span>}
+              {usage.cacheRead !== undefined && <span>{t('runTimeline.cacheRead')} {fmtTokens(usage.cacheRead)}</span>}
+              {usage.cacheWrite !== undefined && <span>{t('runTimeline.cacheWrite')} {fmtTokens(usage.cacheWrite)}</span>}
+              {usage.total !== undefined && <span className="font-semibold">{t('runTimeline.total')} {fmtTokens(usage.total)}</span>}
+              {usage.cost !== undefined && <span>${usage.cost.toFixed(4)}</span>}
+            </div>
+          ) : approxTokens !== undefined ? (
+            <div className="text-[11px] font-mono text-aegis-text" title={t('runTimeline.approxHint')}>≈ {fmtTokens(approxTokens)}</div>
+          ) : (
+            <div className="text-[11px] text-aegis-text-dim">{running ? t('runTimeline.tokensPending') : '—'}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function RunTimelinePanel() {
+  const openRunId = useRunTimelineStore((s) => s.openRunId);
+  const runs = useRunTimelineStore((s) => s.runs);
+  const order = useRunTimelineStore((s) => s.order);
+  const setOpenRun = useRunTimelineStore((s) => s.setOpenRun);
+  const activeSessionKey = useChatStore((s) => s.activeSessionKey);
+  const close = useCallback(() => setOpenRun(null), [setOpenRun]);
+
+  const run = openRunId ? runs[openRunId] : undefined;
+  if (!run || run.sessionKey !== activeSessionKey) return null;
+  const sessionRuns = order.filter((id) => runs[id].sessionKey === run.sessionKey);
+  const index = sessionRuns.indexOf(run.runId);
+
+  return (
+    <RunTimelineView
+      run={run}
+      index={index}
+      count={sessionRuns.length}
+      onStep={(delta) => setOpenRun(sessionRuns[index + delta] ?? run.runId)}
+      onClose={close}
+    />
+  );
+}
@@ -0,0 +1,62 @@
+import { useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Terminal } from 'lucide-react';
+import type { SlashSuggestion } from '@/services/slashCommands';
+import clsx from 'clsx';
+
+// ═══════════════════════════════════════════════════════════
+// Slash Command Menu — autocomplete popover above MessageInput
+// Keyboard handling stays in MessageInput (the textarea keeps focus).
+// ═══════════════════════════════════════════════════════════
+
+interface SlashCommandMenuProps {
+  suggestions: SlashSuggestion[];
+  selectedIdx: number;
+  onHover: (index: number) => void;
+  onSelect: (suggestion: SlashSuggestion) => void;
+}
+
+export function SlashCommandMenu({ suggestions, selectedIdx, onHover, onSelect }: SlashCommandMenuProps) {
+  const { t } = useTranslation();
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the highlighted row in view while arrowing through the list
+  useEffect(() => {
+    const row = listRef.current?.children[selectedIdx] as HTMLElement | undefined;
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIdx]);
+
+  return (
+    <div className="absolute bottom-full inset-x-0 mb-2 z-50 rounded-xl overflow-hidden shadow-2xl border border-aegis-border/30 bg-aegis-surface">
+      <div ref={listRef} className="max-h-[260px] overflow-y-auto py-1">
+        {suggestions.map((s, i) => (
+          <button
+            key={s.key}
+            // mousedown keeps focus in the textarea
+            onMouseDown={(e) => { e.preventDefault(); onSelect(s); }}
+            onMouseEnter={() => onHover(i)}
+            className={clsx(
+              'w-full flex items-center gap-3 px-3 py-2 text-start transition-colors',
+              i === selectedIdx ? 'bg-aegis-primary/10' : 'hover:bg-[rgb(var(--aegis-overlay)/0.03)]'
+            )}
+          >
+            <span className="w-4 flex justify-center shrink-0 text-[13px]">
+              {s.icon || <Terminal size={13} className={i === selectedIdx ? 'text-aegis-primary' : 'text-aegis-text-dim'} />}
+            </span>
+            <span className={clsx('font-mono text-[12.5px] shrink-0', i === selectedIdx ? 'text-aegis-text' : 'text-aegis-text-secondary')} dir="ltr">
+              {s.label}
+              {s.hint && <span className="text-aegis-text-dim ms-1.5">{s.hint}</span>}
+            </span>
+            <span className="flex-1 min-w-0 truncate text-[11px] text-aegis-text-dim" dir="auto">{s.description}</span>
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-3 px-3 py-1.5 border-t border-aegis-border/15 text-[10px] text-aegis-text-dim/60">
+        <span>↑↓ {t('commandPaletteFooter.navigate')}</span>
+        <span>Tab {t('slash.complete')}</span>
+        <span>↵ {t('commandPaletteFooter.execute')}</span>
+        <span>ESC {t('commandPaletteFooter.close')}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+// ═══════════════════════════════════════════════════════════
+// TerminalOutput — read-only terminal view for exec output
+// ANSI colors use the integrated terminal's palette, so output
+// looks the same as it would in the Terminal page.
+// ═══════════════════════════════════════════════════════════
+
+import { useMemo, useState, type CSSProperties } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ITheme } from '@xterm/xterm';
+import { parseAnsiLines, type AnsiColor, type AnsiStyle } from '@/utils/ansi';
+import { getTerminalTheme, ANSI_COLOR_NAMES } from '@/utils/terminalTheme';
+import { HighlightText } from './HighlightText';
+
+/** Lines rendered before "show all" — huge logs stay responsive */
+export const LINE_LIMIT = 5000;
+
+function cssOf(style: AnsiStyle, palette: ITheme): CSSProperties | undefined {
+  const color = (c?: AnsiColor) => (typeof c === 'number' ? palette[ANSI_COLOR_NAMES[c]] : c);
+  let fg = color(style.fg);
+  let bg = color(style.bg);
+  if (style.inverse) [fg, bg] = [bg ?? palette.background, fg ?? palette.foreground];
+  if (!fg && !bg && !style.bold && !style.dim && !style.italic && !style.underline) return undefined;
+  return {
+    color: fg,
+    background: bg,
+    fontWeight: style.bold ? 700 : undefined,
+    opacity: style.dim ? 0.6 : undefined,
+    fontStyle: style.italic ? 'italic' : undefined,
+    textDecoration: style.underline ? 'underline' : undefined,
+  };
+}
+
+export function TerminalOutput({ text, query, command }: { text: string; query: string; command?: string }) {
+  const { t } = useTranslation();
+  const [showAll, setShowAll] = useState(false);
+  const lines = useMemo(() => parseAnsiLines(text), [text]);
+  // Read at render time so a theme switch applies on the next render
+  const palette = getTerminalTheme();
+  const shown = showAll ? lines : lines.slice(0, LINE_LIMIT);
+
+  return (
+    <div className="min-h-full font-mono text-[12px] leading-[1.35]" dir="ltr"
+      style={{ background: palette.background, color: palette.foreground }}>
+      <div className="px-3 py-2">
+        {command && (
+          <div className="whitespace-pre-wrap break-all mb-1">
+            <span style={{ color: palette.green }}>$ </span>
+            <HighlightText text={command} query={query} />
+          </div>
+        )}
+        {shown.map((runs, i) => (
+          <div key={i} className="whitespace-pre-wrap break-all min-h-[1.35em]">
+            {runs.map((run, j) => (
+              <HighlightText key={j} text={run.text} query={query} style={cssOf(run.style, palette)} />
+            ))}
+          </div>
+        ))}
+        {!showAll && lines.length > LINE_LIMIT && (
+          <button onClick={() => setShowAll(true)} className="mt-2 text-[11px] underline opacity-70 hover:opacity-100">
+            {t('toolInspector.showAllLines', { count: lines.length })}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 // ═══════════════════════════════════════════════════════════
 // ToolCallBubble — Intent-first tool call display
-// Shows tool name + key params + result in a compact card
+// Shows tool name + key params + result in a compact card;
+// the full input/output opens in the ToolInspector side panel
 // ═══════════════════════════════════════════════════════════
 
 import { useState } from 'react';
-import { ChevronDown, ChevronRight } from 'lucide-react';
+import { ChevronDown, ChevronRight, PanelRightOpen } from 'lucide-react';
 import clsx from 'clsx';
 
 export interface ToolCallInfo {
@@ -44,12 +45,19 @@ const TOOL_META: Record<string, { icon: string; label: string; color: string }>
   message:       { icon: '💬', label: 'Message',       color: 'var(--aegis-accent)' },
 };
 
-function getToolMeta(name: string) {
+export function getToolMeta(name: string) {
   return TOOL_META[name] || { icon: '🔧', label: name, color: 'var(--aegis-text-dim)' };
 }
 
+export function formatToolDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Tools whose output is terminal output — the card opens straight into the inspector */
+export const TERMINAL_TOOLS = new Set(['exec', 'process', 'bash', 'Bash', 'shell']);
+
 /** Summarize input params into a short readable string */
-function summarizeInput(toolName: string, input: Record<string, any>): string {
+export function summarizeInput(toolName: string, input: Record<string, any>): string {
   if (!input || Object.keys(input).length === 0) return '';
 
   // Tool-specific summaries
@@ -84,14 +92,17 @@ function previewOutput(output: string): string {
 // ── Component ─────────────────────────────────────────────
 interface ToolCallBubbleProps {
   tool: ToolCallInfo;
+  /** Open the full input/output in the inspector panel */
+  onInspect?: () => void;
 }
 
-export function ToolCallBubble({ tool }: ToolCallBubbleProps) {
+export function ToolCallBubble({ tool, onInspect }: ToolCallBubbleProps) {
   const [expanded, setExpanded] = useState(false);
   const meta = getToolMeta(tool.toolName);
   const summary = tool.input ? summarizeInput(tool.toolName, tool.input) : '';
   const outputPreview = tool.output ? previewOutput(tool.output) : '';
   const hasDetails = !!(tool.input && Object.keys(tool.input).length > 0) || !!tool.output;
+  const opensInspector = !!onInspect && TERMINAL_TOOLS.has(tool.toolName);
 
   return (
     <div className="px-5 py-0.5">
@@ -100,9 +111,12 @@ export function ToolCallBubble({ tool }: ToolCallBubbleProps) {
           'group rounded-xl overflow-hidden transition-all duration-200',
           'border border-[rgb(var(--aegis-overlay)/0.06)]',
           'bg-[rgb(var(--aegis-overlay)/0.025)]',
-          hasDetails && 'cursor-pointer hover:border-[rgb(var(--aegis-overlay)/0.12)]'
+          (hasDetails || opensInspector) && 'cursor-pointer hover:border-[rgb(var(--aegis-overlay)/0.12)]'
         )}
-        onClick={() => hasDetails && setExpanded((v) => !v)}
+        onClick={() => {
+          if (opensInspector) onInspect!();
+          else if (hasDetails) setExpanded((v) => !v);
+        }}
       >
         {/* ── Main row ── */}
         <div className="flex items-center gap-2.5 px-3 py-2">
@@ -136,12 +150,19 @@ export function ToolCallBubble({ tool }: ToolCallBubbleProps) {
             )}
             {tool.durationMs !== undefined && tool.status === 'done' && (
               <span className="text-[9px] text-aegis-text-dim font-mono">
-                {tool.durationMs < 1000
-                  ? `${tool.durationMs}ms`
-                  : `${(tool.durationMs / 1000).toFixed(1)}s`}
+                {formatToolDuration(tool.durationMs)}
               </span>
             )}
-            {hasDetails && (
+            {onInspect && !opensInspector && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onInspect(); }}
+                title="Open in inspector"
+                className="p-0.5 rounded text-aegis-text-dim opacity-0 group-hover:opacity-100 hover:text-aegis-primary transition-opacity"
+              >
+                <PanelRightOpen size={11} />
+              </button>
+            )}
+            {hasDetails && !opensInspector && (
               expanded
                 ? <ChevronDown size={10} className="text-aegis-text-dim" />
                 : <ChevronRight size={10} className="text-aegis-text-dim" />
@@ -181,7 +202,7 @@ export function ToolCallBubble({ tool }: ToolCallBubbleProps) {
                   bg-[rgb(var(--aegis-overlay)/0.04)] rounded-lg p-2 max-h-[200px] overflow-auto"
                   dir="ltr">
                   {tool.output.length > 1000
-                    ? tool.output.slice(0, 1000) + '\n…(truncated)'
+                    ? tool.output.slice(0, 1000) + '\n…(truncated — open the inspector for the full output)'
                     : tool.output}
                 </pre>
               </div>
@@ -0,0 +1,406 @@
+// ═══════════════════════════════════════════════════════════
+// ToolInspector — side panel with a tool call's full input/output
+//
+// Picks a view per content: exec output as a read-only terminal,
+// JSON as a foldable tree, file contents highlighted by extension,
+// Edit arguments as a line diff. Search marks hits in every view
+// and steps through them; copy and save take the plain text.
+// ═══════════════════════════════════════════════════════════
+
+import { useState, useEffect, useMemo, useRef, useCallback, type ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { X, Search, ChevronUp, ChevronDown, Copy, Check, Download } from 'lucide-react';
+import { useChatStore, type ChatMessage } from '@/stores/chatStore';
+import { diffLines, toHunks, diffStats, type DiffLine } from '@/utils/diff';
+import { hasAnsi, stripAnsi } from '@/utils/ansi';
+import { getToolMeta, formatToolDuration, TERMINAL_TOOLS } from './ToolCallBubble';
+import { buildTheme } from './CodeBlock';
+import { JsonTreeView } from './JsonTreeView';
+import { TerminalOutput, LINE_LIMIT } from './TerminalOutput';
+import { HighlightText } from './HighlightText';
+import clsx from 'clsx';
+
+type Section = 'input' | 'output';
+type View = 'terminal' | 'tree' | 'raw' | 'code' | 'diff' | 'text';
+
+/** Past this size syntax highlighting is too slow — plain text instead */
+const HIGHLIGHT_LIMIT = 200_000;
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+  json: 'json', md: 'markdown', py: 'python', rb: 'ruby', go: 'go', rs: 'rust', java: 'java',
+  kt: 'kotlin', swift: 'swift', c: 'c', h: 'c', cpp: 'cpp', hpp: 'cpp', cs: 'csharp', php: 'php',
+  sh: 'bash', bash: 'bash', zsh: 'bash', ps1: 'powershell', sql: 'sql', html: 'markup', xml: 'markup',
+  svg: 'markup', css: 'css', scss: 'scss', yml: 'yaml', yaml: 'yaml', toml: 'toml', ini: 'ini',
+  diff: 'diff', patch: 'diff', dockerfile: 'docker',
+};
+
+function languageOf(path?: string): string {
+  if (!path) return 'text';
+  const name = path.split(/[\\/]/).pop()?.toLowerCase() || '';
+  if (name === 'dockerfile') return 'docker';
+  return LANGUAGES[name.split('.').pop() || ''] || 'text';
+}
+
+const baseName = (path: string) => path.split(/[\\/]/).pop() || path;
+
+const str = (v: unknown) => (typeof v === 'string' ? v : undefined);
+
+function filePathOf(input?: Record<string, any>): string | undefined {
+  return str(input?.path) ?? str(input?.file_path) ?? str(input?.filePath);
+}
+
+/** Edit-style arguments (old/new text) → the two sides of a diff */
+function editSidesOf(input?: Record<string, any>): { oldText: string; newText: string } | null {
+  const oldText = str(input?.old_string) ?? str(input?.oldText) ?? str(input?.old_str);
+  const newText = str(input?.new_string) ?? str(input?.newText) ?? str(input?.new_str);
+  return oldText !== undefined && newText !== undefined ? { oldText, newText } : null;
+}
+
+function parseJson(text: string): unknown {
+  const trimmed = text.trim();
+  if (!/^[[{]/.test(trimmed)) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+const looksLikeDiff = (text: string) => /^@@ .* @@/m.test(text) && /^(---|\+\+\+) /m.test(text);
+
+// ── Views ────────────────────────────────────────────────
+
+function PlainText({ text, query }: { text: string; query: string }) {
+  const { t } = useTranslation();
+  const [showAll, setShowAll] = useState(false);
+  const lines = useMemo(() => text.split('\n'), [text]);
+  const shown = showAll ? lines : lines.slice(0, LINE_LIMIT);
+  return (
+    <div className="py-2 font-mono text-[11px] leading-[18px]" dir="ltr">
+      {shown.map((line, i) => (
+        <div key={i} className="flex">
+          <span className="w-10 shrink-0 text-end pe-3 text-aegis-text-dim/60 select-none">{i + 1}</span>
+          <HighlightText text={line} query={query} className="flex-1 min-w-0 whitespace-pre-wrap break-all pe-3 text-aegis-text-muted" />
+        </div>
+      ))}
+      {!showAll && lines.length > LINE_LIMIT && (
+        <button onClick={() => setShowAll(true)} className="ms-10 mt-2 text-[11px] text-aegis-primary underline">
+          {t('toolInspector.showAllLines', { count: lines.length })}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function CodeView({ code, language, query }: { code: string; language: string; query: string }) {
+  const needle = query.toLowerCase();
+  const lines = useMemo(() => code.split('\n'), [code]);
+  if (code.length > HIGHLIGHT_LIMIT) return <PlainText text={code} query={query} />;
+  const isDark = !document.documentElement.classList.contains('light');
+  return (
+    <div dir="ltr" className="text-[12px]">
+      <SyntaxHighlighter
+        language={language}
+        style={buildTheme(isDark ? oneDark : oneLight)}
+        showLineNumbers
+        lineNumberStyle={{ color: 'rgb(var(--aegis-overlay) / 0.2)', fontSize: '0.85em', paddingRight: '1em', minWidth: '2.5em' }}
+        wrapLines
+        wrapLongLines
+        // Token spans can't hold a <mark>, so a hit highlights its whole line
+        lineProps={(n: number) => needle && lines[n - 1]?.toLowerCase().includes(needle)
+          ? { 'data-hit': true, style: { display: 'block', background: 'rgb(var(--aegis-warning) / 0.15)' } }
+          : {}}
+        customStyle={{ background: 'var(--aegis-code-bg)', margin: 0, minHeight: '100%' }}
+      >
+        {code}
+      </SyntaxHighlighter>
+    </div>
+  );
+}
+
+const ROW_CLS: Record<DiffLine['op'], string> = {
+  same: 'text-aegis-text-muted',
+  add: 'bg-aegis-success/10 text-aegis-success',
+  del: 'bg-aegis-danger/10 text-aegis-danger',
+};
+
+const SIGN: Record<DiffLine['op'], string> = { same: ' ', add: '+', del: '-' };
+
+function DiffView({ oldText, newText, query }: { oldText: string; newText: string; query: string }) {
+  const { t } = useTranslation();
+  const { hunks, stats } = useMemo(() => {
+    const lines = diffLines(oldText, newText);
+    return { hunks: toHunks(lines), stats: diffStats(lines) };
+  }, [oldText, newText]);
+  return (
+    <div className="py-2 font-mono text-[11px] leading-[18px]" dir="ltr">
+      <div className="flex gap-3 px-3 pb-2 text-[10px]">
+        <span className="text-aegis-success">+{stats.added}</span>
+        <span className="text-aegis-danger">−{stats.removed}</span>
+      </div>
+      {hunks.map((hunk, h) => (
+        <div key={h}>
+          {hunk.skippedBefore > 0 && (
+            <div className="px-3 py-0.5 text-[10px] text-aegis-text-dim bg-[rgb(var(--aegis-overlay)/0.03)] font-sans">
+              ⋯ {t('toolInspector.unchangedLines', { count: hunk.skippedBefore })}
+            </div>
+          )}
+          {hunk.lines.map((line, i) => (
+            <div key={i} className={clsx('flex', ROW_CLS[line.op])}>
+              <span className="w-9 shrink-0 text-end pe-2 text-aegis-text-dim select-none">{line.newNo ?? line.oldNo ?? ''}</span>
+              <span className="w-4 shrink-0 select-none">{SIGN[line.op]}</span>
+              <HighlightText text={line.text} query={query} className="flex-1 min-w-0 whitespace-pre-wrap break-all pe-3" />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ── Panel ────────────────────────────────────────────────
+
+interface ToolInspectorProps {
+  message: ChatMessage;
+  /** Call card holding the arguments when `message` is a history result card without them */
+  call?: ChatMessage;
+  onClose: () => void;
+}
+
+export function ToolInspector({ message, call, onClose }: ToolInspectorProps) {
+  const { t } = useTranslation();
+  const toolName = message.toolName || call?.toolName || 'unknown';
+  const meta = getToolMeta(toolName);
+  const input = message.toolInput && Object.keys(message.toolInput).length > 0 ? message.toolInput : call?.toolInput;
+  const output = message.toolOutput || '';
+  const hasInput = !!input && Object.keys(input).length > 0;
+  const isTerminal = TERMINAL_TOOLS.has(toolName);
+
+  const [section, setSection] = useState<Section>(output || !hasInput ? 'output' : 'input');
+  const [query, setQuery] = useState('');
+  const [hitCount, setHitCount] = useState(0);
+  const [activeHit, setActiveHit] = useState(0);
+  const [done, setDone] = useState<'copied' | 'saved' | null>(null);
+  const bodyRef = useRef<HTMLDivElement>(null);
+
+  const outputJson = useMemo(() => parseJson(output), [output]);
+  const plainOutput = useMemo(() => stripAnsi(output), [output]);
+  const filePath = filePathOf(input);
+  const editSides = editSidesOf(input);
+  const writeContent = str(input?.content);
+
+  const views = useMemo<View[]>(() => {
+    if (section === 'input') {
+      const list: View[] = [];
+      if (editSides) list.push('diff');
+      if (writeContent !== undefined) list.push('code');
+      return [...list, 'tree', 'raw'];
+    }
+    const list: View[] = [];
+    if (isTerminal || hasAnsi(output)) list.push('terminal');
+    if (outputJson !== undefined && typeof outputJson === 'object' && outputJson !== null) list.push('tree', 'raw');
+    if ((filePath && languageOf(filePath) !== 'text') || looksLikeDiff(output)) list.push('code');
+    return [...list, 'text'];
+  }, [section, editSides, writeContent, isTerminal, output, outputJson, filePath]);
+
+  const [view, setView] = useState<View>(views[0]);
+  useEffect(() => {
+    if (!views.includes(view)) setView(views[0]);
+  }, [views, view]);
+
+  // Another card opened in the same panel — start fresh
+  useEffect(() => {
+    setSection(message.toolOutput || !hasInput ? 'output' : 'input');
+    setQuery('');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [message.id]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  // Hits are counted from the rendered marks, so every view supports search the same way
+  useEffect(() => {
+    const hits = bodyRef.current?.querySelectorAll('[data-hit]') ?? [];
+    setHitCount(hits.length);
+    setActiveHit((i) => (i < hits.length ? i : 0));
+  });
+
+  useEffect(() => {
+    const hits = bodyRef.current?.querySelectorAll<HTMLElement>('[data-hit]');
+    if (!hits?.length) return;
+    const el = hits[Math.min(activeHit, hits.length - 1)];
+    el.classList.add('outline', 'outline-2', 'outline-aegis-warning');
+    el.scrollIntoView({ block: 'center' });
+    return () => el.classList.remove('outline', 'outline-2', 'outline-aegis-warning');
+  }, [activeHit, query, view, section]);
+
+  const step = (delta: number) => {
+    if (hitCount === 0) return;
+    setActiveHit((i) => (i + delta + hitCount) % hitCount);
+  };
+
+  // ── Copy / save ──
+
+  const exportText = (): { text: string; name: string } => {
+    if (section === 'input') {
+      if (view === 'code' && writeContent !== undefined) return { text: writeContent, name: filePath ? baseName(filePath) : `${toolName}-content.txt` };
+      return { text: JSON.stringify(input ?? {}, null, 2), name: `${toolName}-input.json` };
+    }
+    if (outputJson !== undefined && (view === 'tree' || view === 'raw')) {
+      return { text: JSON.stringify(outputJson, null, 2), name: `${toolName}-output.json` };
+    }
+    if (filePath && view === 'code') return { text: plainOutput, name: baseName(filePath) };
+    return { text: plainOutput, name: `${toolName}-output.${looksLikeDiff(output) ? 'diff' : 'txt'}` };
+  };
+
+  const flash = (kind: 'copied' | 'saved') => {
+    setDone(kind);
+    setTimeout(() => setDone(null), 2000);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(exportText().text);
+    flash('copied');
+  };
+
+  const handleSave = async () => {
+    const { text, name } = exportText();
+    if (!window.aegis?.file?.saveText) {
+      const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = name;
+      a.click();
+      URL.revokeObjectURL(url);
+      return;
+    }
+    const result = await window.aegis.file.saveText(text, name, t('toolInspector.save'));
+    if (result.success) flash('saved');
+    else if (!result.canceled) console.error('[ToolInspector] Save failed:', result.error);
+  };
+
+  // ── Body ──
+
+  let body: ReactNode;
+  if (section === 'input') {
+    if (!hasInput) body = <p className="px-4 py-10 text-center text-[11px] text-aegis-text-dim">{t('toolInspector.noInput')}</p>;
+    else if (view === 'diff' && editSides) body = <DiffView {...editSides} query={query} />;
+    else if (view === 'code' && writeContent !== undefined) body = <CodeView code={writeContent} language={languageOf(filePath)} query={query} />;
+    else if (view === 'tree') body = <JsonTreeView value={input} query={query} />;
+    else body = <PlainText text={JSON.stringify(input, null, 2)} query={query} />;
+  } else if (!output) {
+    body = (
+      <p className="px-4 py-10 text-center text-[11px] text-aegis-text-dim">
+        {message.toolStatus === 'running' ? t('toolInspector.waiting') : t('toolInspector.noOutput')}
+      </p>
+    );
+  } else if (view === 'terminal') {
+    body = <TerminalOutput text={output} query={query} command={isTerminal ? str(input?.command) : undefined} />;
+  } else if (view === 'tree') {
+    body = <JsonTreeView value={outputJson} query={query} />;
+  } else if (view === 'raw') {
+    body = <PlainText text={JSON.stringify(outputJson, null, 2)} query={query} />;
+  } else if (view === 'code') {
+    body = <CodeView code={plainOutput} language={filePath ? languageOf(filePath) : 'diff'} query={query} />;
+  } else {
+    body = <PlainText text={plainOutput} query={query} />;
+  }
+
+  const tab = (active: boolean) => clsx(
+    'text-[10px] px-2.5 py-1 rounded-full border transition-colors',
+    active
+      ? 'bg-aegis-primary/15 border-aegis-primary/30 text-aegis-primary'
+      : 'border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-dim hover:text-aegis-text-muted',
+  );
+  const iconBtn = 'p-1.5 rounded-lg text-aegis-text-dim hover:text-aegis-text hover:bg-[rgb(var(--aegis-overlay)/0.05)] transition-colors disabled:opacity-40';
+
+  return (
+    <div className="w-[480px] max-w-[50%] shrink-0 flex flex-col min-h-0 border-s border-[rgb(var(--aegis-overlay)/0.06)] bg-aegis-bg">
+      {/* ── Header ── */}
+      <div className="shrink-0 flex items-center gap-2 px-3 py-2.5 border-b border-[rgb(var(--aegis-overlay)/0.06)]">
+        <span className="text-[14px]">{meta.icon}</span>
+        <span className="text-[12px] font-mono font-semibold truncate" style={{ color: `rgb(${meta.color})` }}>{meta.label}</span>
+        <span className={clsx('text-[9px] font-mono', message.toolStatus === 'running' ? 'text-aegis-warning'
+          : message.toolStatus === 'error' ? 'text-aegis-danger' : 'text-aegis-success/70')}>
+          {t(`toolInspector.status.${message.toolStatus || 'done'}`)}
+        </span>
+        {message.toolDurationMs !== undefined && (
+          <span className="text-[9px] font-mono text-aegis-text-dim">{formatToolDuration(message.toolDurationMs)}</span>
+        )}
+        <div className="flex-1" />
+        <button onClick={handleCopy} title={t('toolInspector.copy')} className={iconBtn}>
+          {done === 'copied' ? <Check size={13} className="text-aegis-success" /> : <Copy size={13} />}
+        </button>
+        <button onClick={handleSave} title={t('toolInspector.save')} className={iconBtn}>
+          {done === 'saved' ? <Check size={13} className="text-aegis-success" /> : <Download size={13} />}
+        </button>
+        <button onClick={onClose} title={t('common.close')} className={iconBtn}>
+          <X size={14} />
+        </button>
+      </div>
+
+      {/* ── Section + view ── */}
+      <div className="shrink-0 flex items-center gap-1 px-3 py-2 border-b border-[rgb(var(--aegis-overlay)/0.05)] flex-wrap">
+        {(['input', 'output'] as const).map((s) => (
+          <button key={s} onClick={() => setSection(s)} className={tab(section === s)}>{t(`toolInspector.${s}`)}</button>
+        ))}
+        <span className="mx-1 h-4 w-px bg-[rgb(var(--aegis-overlay)/0.08)]" />
+        {views.length > 1 && views.map((v) => (
+          <button key={v} onClick={() => setView(v)} className={tab(view === v)}>{t(`toolInspector.views.${v}`)}</button>
+        ))}
+        <div className="flex-1" />
+        {section === 'output' && output && (
+          <span className="text-[9px] font-mono text-aegis-text-dim">
+            {t('toolInspector.size', { chars: output.length.toLocaleString(), lines: output.split('\n').length.toLocaleString() })}
+          </span>
+        )}
+      </div>
+
+      {/* ── Search ── */}
+      <div className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 border-b border-[rgb(var(--aegis-overlay)/0.05)]">
+        <Search size={12} className="text-aegis-text-dim shrink-0" />
+        <input
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setActiveHit(0); }}
+          onKeyDown={(e) => { if (e.key === 'Enter') step(e.shiftKey ? -1 : 1); }}
+          placeholder={t('toolInspector.search')}
+          className="flex-1 min-w-0 bg-transparent text-[11px] text-aegis-text outline-none placeholder:text-aegis-text-dim"
+        />
+        {query && (
+          <span className="text-[10px] font-mono text-aegis-text-dim shrink-0">
+            {hitCount > 0 ? `${activeHit + 1}/${hitCount}` : t('toolInspector.noMatches')}
+          </span>
+        )}
+        <button onClick={() => step(-1)} disabled={hitCount === 0} className={iconBtn}><ChevronUp size={12} /></button>
+        <button onClick={() => step(1)} disabled={hitCount === 0} className={iconBtn}><ChevronDown size={12} /></button>
+      </div>
+
+      <div ref={bodyRef} className="flex-1 min-h-0 overflow-auto">{body}</div>
+    </div>
+  );
+}
+
+/** The inspector for the store's inspected tool card — nothing while its session isn't shown */
+export function ToolInspectorPanel() {
+  const inspected = useChatStore((s) => s.inspectedTool);
+  const activeSessionKey = useChatStore((s) => s.activeSessionKey);
+  const messages = useChatStore((s) => s.messages);
+  const setInspectedTool = useChatStore((s) => s.setInspectedTool);
+  const close = useCallback(() => setInspectedTool(null), [setInspectedTool]);
+
+  if (!inspected || inspected.sessionKey !== activeSessionKey) return null;
+  const message = messages.find((m) => m.id === inspected.messageId);
+  if (!message) return null;
+  // History splits a call into an arguments card and a result card
+  const call = message.toolCallId && !message.toolInput
+    ? messages.find((m) => m.id !== message.id && m.toolCallId === message.toolCallId && m.toolInput)
+    : undefined;
+
+  return <ToolInspector message={message} call={call} onClose={close} />;
+}
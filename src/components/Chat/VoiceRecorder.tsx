@@ -3,6 +3,7 @@ import { Mic, Square, X, Send, Loader2 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { getDirection } from '@/i18n';
+import { pickRecordingMimeType } from '@/services/speech';
 import clsx from 'clsx';
 
 // ═══════════════════════════════════════════════════════════
@@ -15,9 +16,11 @@ interface VoiceRecorderProps {
   onSendVoice: (base64: string, mimeType: string, durationSec: number, localUrl: string) => void;
   onCancel: () => void;
   disabled?: boolean;
+  /** Send button tooltip — "Transcribe" when the recording becomes text first */
+  sendTitle?: string;
 }
 
-export function VoiceRecorder({ onSendVoice, onCancel, disabled }: VoiceRecorderProps) {
+export function VoiceRecorder({ onSendVoice, onCancel, disabled, sendTitle }: VoiceRecorderProps) {
   const { t } = useTranslation();
   const { language } = useSettingsStore();
   const dir = getDirection(language);
@@ -81,13 +84,7 @@ export function VoiceRecorder({ onSendVoice, onCancel, disabled }: VoiceRecorder
       source.connect(analyser);
       analyserRef.current = analyser;
 
-      // Pick best supported format
-      const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
-        ? 'audio/webm;codecs=opus'
-        : MediaRecorder.isTypeSupported('audio/ogg;codecs=opus')
-          ? 'audio/ogg;codecs=opus'
-          : 'audio/webm';
-
+      const mimeType = pickRecordingMimeType();
       const recorder = new MediaRecorder(stream, { mimeType });
       mediaRecorderRef.current = recorder;
       chunksRef.current = [];
@@ -249,7 +246,7 @@ export function VoiceRecorder({ onSendVoice, onCancel, disabled }: VoiceRecorder
           'shadow-lg shadow-aegis-primary/20',
           'disabled:opacity-40 disabled:cursor-not-allowed disabled:shadow-none'
         )}
-        title={t('voice.sendRecording')}
+        title={sendTitle || t('voice.sendRecording')}
       >
         {saving ? (
           <Loader2 size={18} className="animate-spin" />
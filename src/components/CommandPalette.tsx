@@ -7,19 +7,28 @@ import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   LayoutDashboard, MessageCircle, Kanban, DollarSign, Clock, Bot, Brain,
-  Settings, Search, Wifi, WifiOff, Heart, Mail, Calendar, RefreshCw,
-  Globe, Bell, BellOff, Command
+  Settings, Search, Wifi, WifiOff, Zap,
+  Globe, Bell, BellOff, Command, Layers, FileText, FileCode, FileJson, FolderOpen, Server, Activity, FlaskConical, FileCog, ShieldCheck
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { useChatStore } from '@/stores/chatStore';
+import { useProfileStore, DEMO_PROFILE_ID } from '@/stores/profileStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { useMacroStore, macroName } from '@/stores/macroStore';
 import { gateway } from '@/services/gateway';
+import { runConversationExport, runTranscriptImport } from '@/services/conversationExport';
+import { switchProfile } from '@/services/profiles';
+import { startDemoMode, stopDemoMode } from '@/services/demoMode';
+import { runMacro } from '@/services/macros';
 import { changeLanguage } from '@/i18n';
 import clsx from 'clsx';
 
 interface PaletteCommand {
   id: string;
   icon: any;
+  /** Shown instead of the icon (prompt macros) */
+  emoji?: string;
   name: string;
   description?: string;
   shortcut?: string;
@@ -32,6 +41,8 @@ export function CommandPalette() {
   const { t } = useTranslation();
   const { commandPaletteOpen, setCommandPaletteOpen, language, setLanguage, notificationsEnabled, setNotificationsEnabled } = useSettingsStore();
   const { connected } = useChatStore();
+  const { profiles, activeId } = useProfileStore();
+  const macros = useMacroStore((s) => s.macros);
   const [query, setQuery] = useState('');
   const [selectedIdx, setSelectedIdx] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -44,22 +55,34 @@ export function CommandPalette() {
     { id: 'nav-workshop', icon: Kanban, name: t('nav.workshop'), shortcut: 'Ctrl+3', keywords: ['workshop', 'kanban', 'ورشة', 'مهام'], action: () => navigate('/workshop') },
     { id: 'nav-costs', icon: DollarSign, name: t('nav.costs'), shortcut: 'Ctrl+4', keywords: ['costs', 'تكاليف', 'tokens'], action: () => navigate('/costs') },
     { id: 'nav-cron', icon: Clock, name: t('nav.cron'), shortcut: 'Ctrl+5', keywords: ['cron', 'schedule', 'جدولة'], action: () => navigate('/cron') },
+    { id: 'nav-search', icon: Search, name: t('nav.search'), shortcut: 'Ctrl+Shift+F', keywords: ['search', 'archive', 'history', 'find', 'بحث', 'أرشيف'], action: () => navigate('/search') },
+    { id: 'nav-artifacts', icon: Layers, name: t('nav.artifacts'), keywords: ['artifacts', 'preview', 'html', 'svg', 'mermaid', 'مخرجات'], action: () => navigate('/artifacts') },
     { id: 'nav-agents', icon: Bot, name: t('nav.agents'), shortcut: 'Ctrl+6', keywords: ['agents', 'وكلاء', 'sessions'], action: () => navigate('/agents') },
     { id: 'nav-memory', icon: Brain, name: t('nav.memory'), shortcut: 'Ctrl+7', keywords: ['memory', 'ذاكرة', 'search'], action: () => navigate('/memory') },
+    { id: 'nav-config', icon: FileCog, name: t('nav.config'), keywords: ['config', 'gateway', 'json', 'rollback', 'إعدادات', 'تهيئة'], action: () => navigate('/config') },
+    { id: 'nav-approvals', icon: ShieldCheck, name: t('nav.approvals'), keywords: ['approvals', 'approve', 'deny', 'exec', 'audit', 'موافقات', 'سجل'], action: () => navigate('/approvals') },
+    { id: 'nav-diagnostics', icon: Activity, name: t('nav.diagnostics'), keywords: ['diagnostics', 'websocket', 'frames', 'debug', 'connection', 'تشخيص', 'اتصال'], action: () => navigate('/diagnostics') },
     { id: 'nav-settings', icon: Settings, name: t('nav.settings'), shortcut: 'Ctrl+,', keywords: ['settings', 'إعدادات'], action: () => navigate('/settings') },
 
-    // Actions
-    { id: 'act-heartbeat', icon: Heart, name: t('palette.heartbeat'), keywords: ['heartbeat', 'فحص', 'check'], action: () => {
-      window.dispatchEvent(new CustomEvent('aegis:quick-action', { detail: { message: 'Run a quick heartbeat check — emails, calendar, anything urgent?', autoSend: true } }));
+    // Prompt macros (user-defined — Settings → Prompt Macros)
+    ...macros.map((m): PaletteCommand => ({
+      id: `macro-${m.id}`, icon: Zap, emoji: m.icon, name: macroName(m), shortcut: m.hotkey,
+      keywords: ['macro', 'prompt', 'ماكرو', ...m.keywords.map((k) => k.toLowerCase())],
+      action: () => { runMacro(m.id); },
+    })),
+
+    // Export
+    { id: 'export-md', icon: FileText, name: t('export.paletteMarkdown'), keywords: ['export', 'markdown', 'md', 'save', 'تصدير'], action: () => {
+      navigate('/chat'); runConversationExport('markdown');
     }},
-    { id: 'act-emails', icon: Mail, name: t('palette.checkEmails'), keywords: ['email', 'إيميل', 'بريد'], action: () => {
-      window.dispatchEvent(new CustomEvent('aegis:quick-action', { detail: { message: 'Check my unread emails and summarize anything important.', autoSend: true } }));
+    { id: 'export-html', icon: FileCode, name: t('export.paletteHtml'), keywords: ['export', 'html', 'save', 'تصدير'], action: () => {
+      navigate('/chat'); runConversationExport('html');
     }},
-    { id: 'act-calendar', icon: Calendar, name: t('palette.checkCalendar'), keywords: ['calendar', 'تقويم', 'مواعيد'], action: () => {
-      window.dispatchEvent(new CustomEvent('aegis:quick-action', { detail: { message: "What's on my calendar today and tomorrow?", autoSend: true } }));
+    { id: 'export-json', icon: FileJson, name: t('export.paletteJson'), keywords: ['export', 'json', 'transcript', 'save', 'تصدير'], action: () => {
+      navigate('/chat'); runConversationExport('json');
     }},
-    { id: 'act-compact', icon: RefreshCw, name: t('palette.compactContext'), keywords: ['compact', 'ضغط', 'context'], action: () => {
-      window.dispatchEvent(new CustomEvent('aegis:quick-action', { detail: { message: 'Compact the main session context', autoSend: true } }));
+    { id: 'import-transcript', icon: FolderOpen, name: t('export.paletteImport'), keywords: ['import', 'transcript', 'json', 'open', 'استيراد'], action: () => {
+      navigate('/chat'); runTranscriptImport();
     }},
 
     // Connection
@@ -67,6 +90,15 @@ export function CommandPalette() {
       const config = await window.aegis?.config?.get();
       gateway.connect(config?.gatewayUrl || 'ws://127.0.0.1:18789', config?.gatewayToken || '');
     }},
+    ...profiles.filter((p) => p.id !== activeId).map((p): PaletteCommand => ({
+      id: `profile-${p.id}`, icon: Server, name: t('profiles.switchTo', { name: p.name }), description: p.url,
+      keywords: ['gateway', 'profile', 'switch', 'بوابة', p.name.toLowerCase()],
+      action: () => { switchProfile(p.id).catch((err) => console.error('[Palette] Profile switch failed:', err)); },
+    })),
+    { id: 'conn-demo', icon: FlaskConical, name: activeId === DEMO_PROFILE_ID ? t('demo.leave') : t('demo.start'), keywords: ['demo', 'mock', 'offline', 'تجريبي'], action: () => {
+      const run = activeId === DEMO_PROFILE_ID ? stopDemoMode() : startDemoMode().then(() => undefined);
+      run.catch((err) => useNotificationStore.getState().addToast('info', t('demo.failed'), err?.message || String(err)));
+    }},
 
     // Settings
     { id: 'set-lang', icon: Globe, name: t('palette.toggleLanguage'), keywords: ['language', 'لغة', 'english', 'عربي'], action: () => {
@@ -165,7 +197,9 @@ export function CommandPalette() {
                   i === selectedIdx ? 'bg-aegis-primary/10' : 'hover:bg-[rgb(var(--aegis-overlay)/0.03)]'
                 )}
               >
-                <cmd.icon size={16} className={clsx(i === selectedIdx ? 'text-aegis-primary' : 'text-aegis-text-dim')} />
+                {cmd.emoji
+                  ? <span className="w-4 text-center text-[14px] leading-none">{cmd.emoji}</span>
+                  : <cmd.icon size={16} className={clsx(i === selectedIdx ? 'text-aegis-primary' : 'text-aegis-text-dim')} />}
                 <div className="flex-1 min-w-0">
                   <span className={clsx('text-[13px]', i === selectedIdx ? 'text-aegis-text' : 'text-aegis-text-muted')}>
                     {cmd.name}
@@ -0,0 +1,162 @@
+// ═══════════════════════════════════════════════════════════
+// GatewayProfilesCard — Manage named gateway profiles (Settings)
+// Add / edit / delete / switch. Tokens are stored by the main process.
+// ═══════════════════════════════════════════════════════════
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Server, Plus, Pencil, Trash2, Check, X, ArrowRightLeft } from 'lucide-react';
+import { GlassCard } from '@/components/shared/GlassCard';
+import { useProfileStore, PROFILE_COLORS, type GatewayProfile, type ProfileDraft } from '@/stores/profileStore';
+import { switchProfile, reconnectActiveProfile } from '@/services/profiles';
+import clsx from 'clsx';
+
+const EMPTY_DRAFT: ProfileDraft = { name: '', url: 'ws://127.0.0.1:18789', token: '', color: PROFILE_COLORS[1] };
+
+const inputCls = `w-full px-3 py-2 rounded-xl text-[12px]
+  bg-[rgb(var(--aegis-overlay)/0.03)] border border-aegis-border
+  text-aegis-text placeholder:text-aegis-text-dim
+  outline-none focus:border-aegis-accent/40 focus:bg-aegis-accent/[0.03] transition-all`;
+
+function ProfileForm({ initial, onSave, onCancel }: {
+  initial: ProfileDraft;
+  onSave: (draft: ProfileDraft) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<ProfileDraft>(initial);
+  const [saving, setSaving] = useState(false);
+  const valid = draft.name.trim() && /^wss?:\/\/\S+$/.test(draft.url.trim());
+
+  const submit = async () => {
+    if (!valid || saving) return;
+    setSaving(true);
+    try { await onSave(draft); } finally { setSaving(false); }
+  };
+
+  return (
+    <div className="space-y-2.5 p-3 rounded-xl border border-aegis-accent/20 bg-aegis-accent/[0.03]">
+      <div className="grid grid-cols-2 gap-2">
+        <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder={t('profiles.namePlaceholder')} className={inputCls} autoFocus />
+        <input value={draft.url} onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+          placeholder="ws://127.0.0.1:18789" className={clsx(inputCls, 'font-mono')} dir="ltr" />
+      </div>
+      <input type="password" value={draft.token || ''} onChange={(e) => setDraft({ ...draft, token: e.target.value })}
+        placeholder={t('settingsExtra.tokenPlaceholder')} className={clsx(inputCls, 'font-mono')} dir="ltr" />
+      <div className="flex items-center gap-1.5">
+        {PROFILE_COLORS.map((c) => (
+          <button key={c} onClick={() => setDraft({ ...draft, color: c })}
+            className={clsx('w-5 h-5 rounded-full border-2 transition-transform',
+              draft.color === c ? 'border-aegis-text scale-110' : 'border-transparent')}
+            style={{ background: c }} aria-label={c} />
+        ))}
+        <div className="flex-1" />
+        <button onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-[11px] text-aegis-text-dim hover:text-aegis-text-muted">
+          <X size={12} /> {t('common.cancel')}
+        </button>
+        <button onClick={submit} disabled={!valid || saving}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-[11px] font-semibold
+            bg-aegis-primary/15 text-aegis-primary border border-aegis-primary/25 hover:bg-aegis-primary/25 disabled:opacity-40">
+          <Check size={12} /> {t('common.save')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function GatewayProfilesCard({ delay }: { delay?: number }) {
+  const { t } = useTranslation();
+  const { profiles, activeId, saveProfile, deleteProfile } = useProfileStore();
+  const [editing, setEditing] = useState<string | 'new' | null>(null);
+  const [confirmDel, setConfirmDel] = useState<string | null>(null);
+
+  if (!window.aegis?.profiles) return null;
+
+  const handleSave = async (draft: ProfileDraft) => {
+    const before = profiles.find((p) => p.id === draft.id);
+    const saved = await saveProfile(draft);
+    setEditing(null);
+    // Editing the connection of the live profile → reconnect (it may be a different gateway now)
+    if (saved && saved.id === activeId && before && (before.url !== saved.url || before.token !== saved.token)) {
+      await reconnectActiveProfile();
+    }
+  };
+
+  const handleDelete = async (p: GatewayProfile) => {
+    if (confirmDel !== p.id) { setConfirmDel(p.id); return; }
+    setConfirmDel(null);
+    await deleteProfile(p.id);
+  };
+
+  return (
+    <GlassCard delay={delay}>
+      <h3 className="text-[14px] font-semibold text-aegis-text mb-1 flex items-center gap-2">
+        <Server size={16} className="text-aegis-accent" />
+        {t('profiles.title')}
+      </h3>
+      <p className="text-[11px] text-aegis-text-dim mb-4">{t('profiles.hint')}</p>
+
+      <div className="space-y-1.5">
+        {profiles.map((p) => editing === p.id ? (
+          <ProfileForm key={p.id} initial={p} onSave={handleSave} onCancel={() => setEditing(null)} />
+        ) : (
+          <div key={p.id}
+            className={clsx(
+              'flex items-center gap-3 px-3 py-2.5 rounded-xl border transition-colors',
+              p.id === activeId
+                ? 'border-aegis-primary/20 bg-aegis-primary/[0.05]'
+                : 'border-[rgb(var(--aegis-overlay)/0.06)] bg-[rgb(var(--aegis-overlay)/0.02)]',
+            )}>
+            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ background: p.color }} />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 text-[12px] font-semibold text-aegis-text">
+                <span className="truncate">{p.name}</span>
+                {p.id === activeId && (
+                  <span className="text-[9px] font-bold uppercase tracking-wider text-aegis-primary">{t('profiles.active')}</span>
+                )}
+                {p.deviceToken && (
+                  <span className="text-[9px] text-aegis-text-dim" title={t('profiles.pairedHint')}>🔑</span>
+                )}
+              </div>
+              <div className="text-[10px] font-mono text-aegis-text-dim truncate" dir="ltr">{p.url}</div>
+            </div>
+            {p.id !== activeId && (
+              <button onClick={() => switchProfile(p.id)} title={t('profiles.switch')}
+                className="p-1.5 rounded-lg text-aegis-text-dim hover:text-aegis-primary hover:bg-aegis-primary/10 transition-colors">
+                <ArrowRightLeft size={13} />
+              </button>
+            )}
+            <button onClick={() => setEditing(p.id)} title={t('profiles.edit')}
+              className="p-1.5 rounded-lg text-aegis-text-dim hover:text-aegis-text-muted hover:bg-[rgb(var(--aegis-overlay)/0.06)] transition-colors">
+              <Pencil size={13} />
+            </button>
+            {p.id !== activeId && (
+              <button onClick={() => handleDelete(p)} onMouseLeave={() => setConfirmDel(null)}
+                title={confirmDel === p.id ? t('profiles.confirmDelete') : t('profiles.delete')}
+                className={clsx(
+                  'p-1.5 rounded-lg transition-colors',
+                  confirmDel === p.id
+                    ? 'text-aegis-danger bg-aegis-danger/10'
+                    : 'text-aegis-text-dim hover:text-aegis-danger hover:bg-aegis-danger/10',
+                )}>
+                <Trash2 size={13} />
+              </button>
+            )}
+          </div>
+        ))}
+
+        {editing === 'new' ? (
+          <ProfileForm initial={EMPTY_DRAFT} onSave={handleSave} onCancel={() => setEditing(null)} />
+        ) : (
+          <button onClick={() => setEditing('new')}
+            className="w-full flex items-center justify-center gap-1.5 py-2 rounded-xl text-[12px] text-aegis-text-muted
+              border border-dashed border-[rgb(var(--aegis-overlay)/0.12)] hover:text-aegis-text hover:border-aegis-accent/30 transition-colors">
+            <Plus size={13} /> {t('profiles.add')}
+          </button>
+        )}
+      </div>
+    </GlassCard>
+  );
+}
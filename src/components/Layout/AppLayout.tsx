@@ -14,8 +14,8 @@ import { useSettingsStore } from '@/stores/settingsStore';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { getDirection } from '@/i18n';
 
-/** Pages that work without Gateway connection */
-const OFFLINE_PAGES = ['/settings', '/terminal'];
+/** Pages that work without Gateway connection (chat queues messages in the outbox) */
+const OFFLINE_PAGES = ['/settings', '/terminal', '/chat', '/diagnostics'];
 
 export function AppLayout() {
   const { language } = useSettingsStore();
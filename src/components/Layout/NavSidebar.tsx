@@ -9,7 +9,7 @@ import { motion } from 'framer-motion';
 import {
   LayoutDashboard, MessageCircle, Kanban, DollarSign,
   Clock, Bot, Settings, Brain, Activity, User, Puzzle,
-  Terminal,
+  Terminal, Layers, Search, FileCog, ShieldCheck,
 } from 'lucide-react';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { getDirection } from '@/i18n';
@@ -27,11 +27,16 @@ const navItems: NavItem[] = [
   { to: '/chat', icon: MessageCircle, labelKey: 'nav.chat' },
   { to: '/workshop', icon: Kanban, labelKey: 'nav.workshop' },
   { to: '/cron', icon: Clock, labelKey: 'nav.cron' },
+  { to: '/artifacts', icon: Layers, labelKey: 'nav.artifacts' },
+  { to: '/search', icon: Search, labelKey: 'nav.search' },
   { to: '/agents', icon: Bot, labelKey: 'nav.agents' },
   { to: '/costs', icon: DollarSign, labelKey: 'nav.costs' },
   { to: '/skills', icon: Puzzle, labelKey: 'nav.skills' },
   { to: '/terminal', icon: Terminal, labelKey: 'nav.terminal' },
   { to: '/memory', icon: Brain, labelKey: 'nav.memory', badge: '🧪' },
+  { to: '/config', icon: FileCog, labelKey: 'nav.config' },
+  { to: '/approvals', icon: ShieldCheck, labelKey: 'nav.approvals' },
+  { to: '/diagnostics', icon: Activity, labelKey: 'nav.diagnostics' },
   { to: '/settings', icon: Settings, labelKey: 'nav.settings' },
 ];
 
@@ -0,0 +1,76 @@
+// ═══════════════════════════════════════════════════════════
+// MacroPromptDialog — Collect a macro's {{ask:…}} fields
+// Shown app-wide whenever macroStore.pending is set.
+// ═══════════════════════════════════════════════════════════
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Zap } from 'lucide-react';
+import { useMacroStore, macroName } from '@/stores/macroStore';
+import { completePendingRun } from '@/services/macros';
+
+export function MacroPromptDialog() {
+  const { t } = useTranslation();
+  const pending = useMacroStore((s) => s.pending);
+  const setPending = useMacroStore((s) => s.setPending);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (pending) setAnswers(Object.fromEntries(pending.fields.map((f) => [f.label, f.defaultValue])));
+  }, [pending]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    completePendingRun(answers);
+  };
+
+  return (
+    <AnimatePresence>
+      {pending && (
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[80] flex items-center justify-center bg-black/50 backdrop-blur-sm"
+          onClick={() => setPending(null)}>
+          <motion.form initial={{ scale: 0.95, opacity: 0 }} animate={{ scale: 1, opacity: 1 }} exit={{ scale: 0.95, opacity: 0 }}
+            onSubmit={submit} onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => { if (e.key === 'Escape') setPending(null); }}
+            className="w-[440px] p-6 rounded-2xl bg-aegis-bg border border-aegis-border/30 shadow-2xl">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-9 h-9 rounded-lg flex items-center justify-center text-[18px] bg-aegis-primary/10 border border-aegis-primary/25">
+                {pending.macro.icon || <Zap size={18} className="text-aegis-primary" />}
+              </div>
+              <div>
+                <h3 className="text-[15px] font-bold text-aegis-text">{macroName(pending.macro)}</h3>
+                <p className="text-[11px] text-aegis-text-muted">{t('macros.promptDesc')}</p>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {pending.fields.map((field, i) => (
+                <label key={field.label} className="block">
+                  <span className="block text-[11px] text-aegis-text-muted mb-1">{field.label}</span>
+                  <input autoFocus={i === 0} dir="auto"
+                    value={answers[field.label] ?? ''}
+                    onChange={(e) => setAnswers((prev) => ({ ...prev, [field.label]: e.target.value }))}
+                    className="w-full px-3 py-2 rounded-xl text-[13px] text-aegis-text outline-none
+                      bg-[rgb(var(--aegis-overlay)/0.04)] border border-[rgb(var(--aegis-overlay)/0.08)] focus:border-aegis-primary/40" />
+                </label>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-end gap-2 mt-5">
+              <button type="button" onClick={() => setPending(null)}
+                className="px-4 py-2 rounded-xl text-[13px] text-aegis-text-muted hover:text-aegis-text-secondary">
+                {t('common.cancel')}
+              </button>
+              <button type="submit"
+                className="px-4 py-2 rounded-xl text-[13px] font-semibold bg-aegis-primary/15 border border-aegis-primary/30 text-aegis-primary hover:bg-aegis-primary/25 transition-colors">
+                {pending.macro.autoSend ? t('macros.run') : t('macros.insert')}
+              </button>
+            </div>
+          </motion.form>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,237 @@
+// ═══════════════════════════════════════════════════════════
+// MacrosCard — Manage prompt macros (Settings)
+// Add / edit / delete, hotkey recording, JSON import / export.
+// ═══════════════════════════════════════════════════════════
+
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Zap, Plus, Pencil, Trash2, Check, X, Play, Upload, Download } from 'lucide-react';
+import { GlassCard } from '@/components/shared/GlassCard';
+import { useMacroStore, macroName, type PromptMacro, type MacroDraft } from '@/stores/macroStore';
+import { useGatewayDataStore } from '@/stores/gatewayDataStore';
+import { runMacro, formatHotkey, isReservedHotkey, exportMacros, importMacros } from '@/services/macros';
+import clsx from 'clsx';
+
+const EMPTY_DRAFT: MacroDraft = { name: '', icon: '⚡', keywords: [], template: '', target: '', autoSend: true };
+
+const inputCls = `w-full px-3 py-2 rounded-xl text-[12px]
+  bg-[rgb(var(--aegis-overlay)/0.03)] border border-aegis-border
+  text-aegis-text placeholder:text-aegis-text-dim
+  outline-none focus:border-aegis-accent/40 focus:bg-aegis-accent/[0.03] transition-all`;
+
+/** Session keys a macro can target — open sessions plus every agent's main session */
+function useTargets() {
+  const sessions = useGatewayDataStore((s) => s.sessions);
+  const agents = useGatewayDataStore((s) => s.agents);
+  return useMemo(() => {
+    const targets = new Map<string, string>();
+    agents.forEach((a) => targets.set(`agent:${a.id}:main`, a.name || a.id));
+    sessions.forEach((s) => { if (!targets.has(s.key)) targets.set(s.key, s.label || s.key); });
+    return [...targets.entries()];
+  }, [sessions, agents]);
+}
+
+function HotkeyInput({ value, onChange }: { value?: string; onChange: (hotkey?: string) => void }) {
+  const { t } = useTranslation();
+  const [recording, setRecording] = useState(false);
+  const [reserved, setReserved] = useState<string | null>(null);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep the global shortcut handler (and any bound macro) out of the recording
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') { setRecording(false); return; }
+    if (e.key === 'Backspace' || e.key === 'Delete') { onChange(undefined); setRecording(false); return; }
+    const combo = formatHotkey(e);
+    // Ctrl or Alt is required — bare keys would fire while typing
+    if (!combo || !(e.ctrlKey || e.metaKey || e.altKey)) return;
+    // App shortcuts and copy / paste / undo stay theirs — keep recording
+    if (isReservedHotkey(combo)) { setReserved(combo); return; }
+    setReserved(null);
+    onChange(combo);
+    setRecording(false);
+  };
+
+  return (
+    <>
+      <button type="button" onClick={() => { setRecording(true); setReserved(null); }} onBlur={() => setRecording(false)}
+        onKeyDown={recording ? handleKeyDown : undefined}
+        className={clsx(inputCls, 'text-start font-mono', recording && 'border-aegis-accent/40 text-aegis-accent')}>
+        {recording ? t('macros.hotkeyRecording') : value || t('macros.hotkeyNone')}
+      </button>
+      {reserved && <span className="block mt-1 text-[10px] text-aegis-warning">{t('macros.hotkeyReserved', { hotkey: reserved })}</span>}
+    </>
+  );
+}
+
+function MacroForm({ initial, onSave, onCancel }: {
+  initial: MacroDraft;
+  onSave: (draft: MacroDraft) => void;
+  onCancel: () => void;
+}) {
+  const { t } = useTranslation();
+  const targets = useTargets();
+  const [draft, setDraft] = useState<MacroDraft>(initial);
+  const [keywords, setKeywords] = useState(initial.keywords.join(', '));
+  const valid = draft.name.trim() && draft.template.trim();
+  const hotkeyTaken = useMacroStore((s) => s.macros.some((m) => m.hotkey && m.hotkey === draft.hotkey && m.id !== draft.id));
+
+  const submit = () => {
+    if (!valid) return;
+    const name = draft.name.trim();
+    onSave({
+      ...draft,
+      name,
+      // Renamed built-ins keep the typed name in every language
+      nameKey: draft.nameKey && name === macroName(initial) ? draft.nameKey : undefined,
+      icon: draft.icon.trim() || '⚡',
+      keywords: keywords.split(',').map((k) => k.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <div className="space-y-2.5 p-3 rounded-xl border border-aegis-accent/20 bg-aegis-accent/[0.03]">
+      <div className="grid grid-cols-[56px_1fr] gap-2">
+        <input value={draft.icon} onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+          className={clsx(inputCls, 'text-center text-[15px]')} maxLength={4} aria-label={t('macros.icon')} />
+        <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder={t('macros.namePlaceholder')} className={inputCls} autoFocus />
+      </div>
+      <textarea value={draft.template} onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+        placeholder={t('macros.templatePlaceholder')} rows={4} dir="auto"
+        className={clsx(inputCls, 'resize-y min-h-[80px]')} />
+      <p className="text-[10px] text-aegis-text-dim font-mono" dir="ltr">
+        {'{{clipboard}} {{selection}} {{date}} {{time}} {{ask:Label|default}}'}
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block">
+          <span className="block text-[10px] text-aegis-text-dim mb-1">{t('macros.target')}</span>
+          <select value={draft.target} onChange={(e) => setDraft({ ...draft, target: e.target.value })} className={inputCls}>
+            <option value="">{t('macros.targetActive')}</option>
+            {draft.target && !targets.some(([key]) => key === draft.target) && (
+              <option value={draft.target}>{draft.target}</option>
+            )}
+            {targets.map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-[10px] text-aegis-text-dim mb-1">{t('macros.hotkey')}</span>
+          <HotkeyInput value={draft.hotkey} onChange={(hotkey) => setDraft({ ...draft, hotkey })} />
+        </label>
+      </div>
+      {hotkeyTaken && <p className="text-[10px] text-aegis-warning">{t('macros.hotkeyTaken')}</p>}
+      <input value={keywords} onChange={(e) => setKeywords(e.target.value)}
+        placeholder={t('macros.keywordsPlaceholder')} className={inputCls} />
+      <div className="flex items-center gap-1.5">
+        <label className="flex items-center gap-2 text-[11px] text-aegis-text-muted cursor-pointer">
+          <input type="checkbox" checked={draft.autoSend}
+            onChange={(e) => setDraft({ ...draft, autoSend: e.target.checked })} className="accent-aegis-primary" />
+          {t('macros.autoSend')}
+        </label>
+        <div className="flex-1" />
+        <button onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-[11px] text-aegis-text-dim hover:text-aegis-text-muted">
+          <X size={12} /> {t('common.cancel')}
+        </button>
+        <button onClick={submit} disabled={!valid}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-[11px] font-semibold
+            bg-aegis-primary/15 text-aegis-primary border border-aegis-primary/25 hover:bg-aegis-primary/25 disabled:opacity-40">
+          <Check size={12} /> {t('common.save')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function MacrosCard({ delay }: { delay?: number }) {
+  const { t } = useTranslation();
+  const { macros, saveMacro, deleteMacro } = useMacroStore();
+  const [editing, setEditing] = useState<string | 'new' | null>(null);
+  const [confirmDel, setConfirmDel] = useState<string | null>(null);
+
+  const handleSave = (draft: MacroDraft) => {
+    saveMacro(draft);
+    setEditing(null);
+  };
+
+  const handleDelete = (m: PromptMacro) => {
+    if (confirmDel !== m.id) { setConfirmDel(m.id); return; }
+    setConfirmDel(null);
+    deleteMacro(m.id);
+  };
+
+  return (
+    <GlassCard delay={delay}>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-[14px] font-semibold text-aegis-text flex items-center gap-2">
+          <Zap size={16} className="text-aegis-accent" />
+          {t('macros.title')}
+        </h3>
+        <div className="flex items-center gap-1">
+          <button onClick={() => importMacros()} title={t('macros.import')}
+            className="p-1.5 rounded-lg text-aegis-text-dim hover:text-aegis-text-muted hover:bg-[rgb(var(--aegis-overlay)/0.06)] transition-colors">
+            <Upload size={13} />
+          </button>
+          <button onClick={() => exportMacros()} title={t('macros.export')} disabled={macros.length === 0}
+            className="p-1.5 rounded-lg text-aegis-text-dim hover:text-aegis-text-muted hover:bg-[rgb(var(--aegis-overlay)/0.06)] transition-colors disabled:opacity-40">
+            <Download size={13} />
+          </button>
+        </div>
+      </div>
+      <p className="text-[11px] text-aegis-text-dim mb-4">{t('macros.hint')}</p>
+
+      <div className="space-y-1.5">
+        {macros.map((m) => editing === m.id ? (
+          <MacroForm key={m.id} initial={{ ...m, name: macroName(m) }} onSave={handleSave} onCancel={() => setEditing(null)} />
+        ) : (
+          <div key={m.id}
+            className="flex items-center gap-3 px-3 py-2.5 rounded-xl border border-[rgb(var(--aegis-overlay)/0.06)] bg-[rgb(var(--aegis-overlay)/0.02)]">
+            <span className="w-5 text-center text-[15px] shrink-0">{m.icon}</span>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 text-[12px] font-semibold text-aegis-text">
+                <span className="truncate">{macroName(m)}</span>
+                {m.hotkey && (
+                  <kbd className="text-[9px] font-mono text-aegis-text-dim bg-aegis-surface/30 px-1.5 py-0.5 rounded border border-aegis-border/15">
+                    {m.hotkey}
+                  </kbd>
+                )}
+                {!m.autoSend && (
+                  <span className="text-[9px] text-aegis-text-dim">{t('macros.reviewBadge')}</span>
+                )}
+              </div>
+              <div className="text-[10px] text-aegis-text-dim truncate" dir="auto">{m.template}</div>
+            </div>
+            <button onClick={() => runMacro(m.id)} title={t('macros.run')}
+              className="p-1.5 rounded-lg text-aegis-text-dim hover:text-aegis-primary hover:bg-aegis-primary/10 transition-colors">
+              <Play size={13} />
+            </button>
+            <button onClick={() => setEditing(m.id)} title={t('macros.edit')}
+              className="p-1.5 rounded-lg text-aegis-text-dim hover:text-aegis-text-muted hover:bg-[rgb(var(--aegis-overlay)/0.06)] transition-colors">
+              <Pencil size={13} />
+            </button>
+            <button onClick={() => handleDelete(m)} onMouseLeave={() => setConfirmDel(null)}
+              title={confirmDel === m.id ? t('macros.confirmDelete') : t('macros.delete')}
+              className={clsx(
+                'p-1.5 rounded-lg transition-colors',
+                confirmDel === m.id
+                  ? 'text-aegis-danger bg-aegis-danger/10'
+                  : 'text-aegis-text-dim hover:text-aegis-danger hover:bg-aegis-danger/10',
+              )}>
+              <Trash2 size={13} />
+            </button>
+          </div>
+        ))}
+
+        {editing === 'new' ? (
+          <MacroForm initial={EMPTY_DRAFT} onSave={handleSave} onCancel={() => setEditing(null)} />
+        ) : (
+          <button onClick={() => setEditing('new')}
+            className="w-full flex items-center justify-center gap-1.5 py-2 rounded-xl text-[12px] text-aegis-text-muted
+              border border-dashed border-[rgb(var(--aegis-overlay)/0.12)] hover:text-aegis-text hover:border-aegis-accent/30 transition-colors">
+            <Plus size={13} /> {t('macros.add')}
+          </button>
+        )}
+      </div>
+    </GlassCard>
+  );
+}
@@ -8,7 +8,7 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { ShieldCheck, RefreshCw, X, Loader2, Key, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { ShieldCheck, RefreshCw, X, Loader2, Key, CheckCircle2, AlertTriangle, FlaskConical, History } from 'lucide-react';
 
 interface PairingScreenProps {
   /** HTTP base URL of the Gateway (derived from WS URL) */
@@ -19,11 +19,13 @@ interface PairingScreenProps {
   onCancel: () => void;
   /** The scope/auth error message that triggered pairing */
   errorMessage?: string;
+  /** Connect to the built-in mock gateway instead — `replay` asks for a recording first */
+  onDemo?: (replay: boolean) => Promise<void>;
 }
 
 type PairingState = 'idle' | 'requesting' | 'waiting' | 'waiting-cli' | 'approved' | 'error';
 
-export function PairingScreen({ gatewayHttpUrl, onPaired, onCancel, errorMessage }: PairingScreenProps) {
+export function PairingScreen({ gatewayHttpUrl, onPaired, onCancel, errorMessage, onDemo }: PairingScreenProps) {
   const { t, i18n } = useTranslation();
   const isRTL = i18n.dir() === 'rtl';
 
@@ -33,6 +35,7 @@ export function PairingScreen({ gatewayHttpUrl, onPaired, onCancel, errorMessage
   const [error, setError] = useState<string>('');
   const [showManualToken, setShowManualToken] = useState(false);
   const [manualToken, setManualToken] = useState('');
+  const [demoStarting, setDemoStarting] = useState(false);
   const pollTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const mountedRef = useRef(true);
 
@@ -164,6 +167,16 @@ export function PairingScreen({ gatewayHttpUrl, onPaired, onCancel, errorMessage
     }, 3000);
   }, [gatewayHttpUrl, onPaired]);
 
+  const startDemo = (replay: boolean) => async () => {
+    if (!onDemo) return;
+    setDemoStarting(true);
+    try {
+      await onDemo(replay);
+    } finally {
+      if (mountedRef.current) setDemoStarting(false);
+    }
+  };
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-[#0a0a14]"
@@ -403,6 +416,38 @@ export function PairingScreen({ gatewayHttpUrl, onPaired, onCancel, errorMessage
           </div>
         )}
 
+        {/* Demo mode — explore the app against the built-in mock gateway */}
+        {onDemo && (
+          <div className="px-8 pb-4">
+            <div className="border-t border-[#1e1e30] pt-4 space-y-2">
+              <p className="text-xs text-gray-400 text-center">{t('pairing.demoHint')}</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={startDemo(false)}
+                  disabled={demoStarting}
+                  className="flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-xl border border-[#2a2a3e]
+                    text-gray-300 hover:text-white hover:border-aegis-primary/50 text-xs transition-colors
+                    disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {demoStarting ? <Loader2 size={14} className="animate-spin" /> : <FlaskConical size={14} />}
+                  <span>{t('pairing.demoMode')}</span>
+                </button>
+                <button
+                  onClick={startDemo(true)}
+                  disabled={demoStarting}
+                  title={t('pairing.replayHint')}
+                  className="flex items-center justify-center gap-2 py-2 px-3 rounded-xl border border-[#2a2a3e]
+                    text-gray-400 hover:text-white hover:border-[#3a3a5e] text-xs transition-colors
+                    disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <History size={14} />
+                  <span>{t('pairing.replay')}</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Bottom info */}
         <div className="px-8 pb-6">
           <div className="text-[10px] text-gray-600 text-center leading-relaxed">
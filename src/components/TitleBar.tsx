@@ -1,9 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
 import { useChatStore } from '@/stores/chatStore';
+import { useProfileStore, DEMO_PROFILE_ID } from '@/stores/profileStore';
 import { gateway } from '@/services/gateway';
+import { switchProfile } from '@/services/profiles';
+import { stopDemoMode } from '@/services/demoMode';
 import { APP_VERSION } from '@/hooks/useAppVersion';
-import { ChevronDown, Check } from 'lucide-react';
+import { ChevronDown, Check, Settings2, FlaskConical, X } from 'lucide-react';
 import clsx from 'clsx';
 
 // ═══════════════════════════════════════════════════════════
@@ -266,6 +270,140 @@ function ThinkingPicker({ currentThinking }: { currentThinking: string | null })
   );
 }
 
+// ═══════════════════════════════════════════════════════════
+// ProfilePicker — Color badge of the active gateway profile + switcher
+// ═══════════════════════════════════════════════════════════
+
+function ProfilePicker() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { profiles, activeId } = useProfileStore();
+  const [open, setOpen] = useState(false);
+  const [switching, setSwitching] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const active = profiles.find((p) => p.id === activeId);
+  if (!active) return null;
+
+  const handleSelect = async (id: string) => {
+    setOpen(false);
+    if (id === activeId || switching) return;
+    setSwitching(true);
+    try {
+      await switchProfile(id);
+    } catch (err) {
+      console.error('[ProfilePicker] Failed to switch profile:', err);
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <div ref={ref} className="relative no-drag">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        disabled={switching}
+        title={`${t('profiles.gateway')}: ${active.url}`}
+        className={clsx(
+          'flex items-center gap-1.5 px-2 py-0.5 rounded-md text-[10px] font-semibold border transition-all duration-150',
+          switching && 'opacity-60 cursor-wait',
+        )}
+        style={{ color: active.color, borderColor: `${active.color}40`, background: `${active.color}14` }}
+      >
+        <span className="w-[6px] h-[6px] rounded-full" style={{ background: active.color }} />
+        <span className="max-w-[120px] truncate">{active.name}</span>
+        <ChevronDown size={9} className={clsx('transition-transform duration-150', open && 'rotate-180')} />
+      </button>
+
+      {open && (
+        <div className="absolute top-full left-0 mt-1 z-50 min-w-[220px] rounded-xl overflow-hidden shadow-xl"
+          style={{
+            background: 'rgb(var(--aegis-surface))',
+            border: '1px solid rgb(var(--aegis-overlay) / 0.12)',
+          }}
+        >
+          {profiles.map((p) => {
+            const isActive = p.id === activeId;
+            return (
+              <button
+                key={p.id}
+                onClick={() => handleSelect(p.id)}
+                className={clsx(
+                  'w-full flex items-center gap-2.5 px-3 py-2 text-[12px] text-start transition-colors',
+                  isActive
+                    ? 'bg-[rgb(var(--aegis-primary)/0.08)]'
+                    : 'hover:bg-[rgb(var(--aegis-overlay)/0.06)]'
+                )}
+              >
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ background: p.color }} />
+                <span className="flex-1 min-w-0">
+                  <span className={clsx('block truncate', isActive ? 'text-aegis-primary' : 'text-aegis-text-secondary')}>{p.name}</span>
+                  <span className="block truncate text-[10px] font-mono text-aegis-text-dim">{p.url}</span>
+                </span>
+                {isActive && <Check size={11} className="text-aegis-primary shrink-0" />}
+              </button>
+            );
+          })}
+          <button
+            onClick={() => { setOpen(false); navigate('/settings'); }}
+            className="w-full flex items-center gap-2 px-3 py-2 text-[11px] text-aegis-text-muted border-t border-[rgb(var(--aegis-overlay)/0.08)] hover:bg-[rgb(var(--aegis-overlay)/0.06)] transition-colors"
+          >
+            <Settings2 size={11} /> {t('profiles.manage')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════
+// DemoBadge — shown instead of the profile badge in demo mode
+// ═══════════════════════════════════════════════════════════
+
+function DemoBadge() {
+  const { t } = useTranslation();
+  const isDemo = useProfileStore((s) => s.activeId === DEMO_PROFILE_ID);
+  const [leaving, setLeaving] = useState(false);
+  if (!isDemo) return null;
+
+  const leave = async () => {
+    setLeaving(true);
+    try {
+      await stopDemoMode();
+    } catch (err) {
+      console.error('[Demo] Failed to leave demo mode:', err);
+    } finally {
+      setLeaving(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={leave}
+      disabled={leaving}
+      title={t('demo.leave')}
+      className={clsx(
+        'no-drag group flex items-center gap-1.5 px-2 py-0.5 rounded-md text-[10px] font-semibold border transition-all duration-150',
+        'text-aegis-warning border-aegis-warning/30 bg-aegis-warning/10 hover:bg-aegis-warning/20',
+        leaving && 'opacity-60 cursor-wait',
+      )}
+    >
+      <FlaskConical size={10} />
+      <span>{t('demo.badge')}</span>
+      <X size={9} className="opacity-50 group-hover:opacity-100" />
+    </button>
+  );
+}
+
 // ═══════════════════════════════════════════════════════════
 // useAutoUpdate — Tracks electron-updater state
 // ═══════════════════════════════════════════════════════════
@@ -418,6 +556,9 @@ export function TitleBar() {
           <VersionBadge />
         </div>
 
+        <ProfilePicker />
+        <DemoBadge />
+
         {/* Model + Tokens + Status */}
         <div className="flex items-center gap-3 text-[11px] text-aegis-text-muted font-mono">
         <ModelPicker currentModel={currentModel} />
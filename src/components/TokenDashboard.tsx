@@ -43,8 +43,7 @@ export function TokenDashboard({ open, onClose }: TokenDashboardProps) {
   const loadDetails = useCallback(async () => {
     setLoading(true);
     try {
-      const result = await gateway.getSessions();
-      const rawSessions = Array.isArray(result?.sessions) ? result.sessions : [];
+      const { sessions: rawSessions } = await gateway.getSessions();
 
       const details: SessionDetail[] = rawSessions.map((s: any) => {
         const key = s.key || s.sessionKey || 'unknown';
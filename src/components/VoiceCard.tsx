@@ -0,0 +1,172 @@
+// ═══════════════════════════════════════════════════════════
+// VoiceCard — speech-to-text, read-aloud and push-to-talk (Settings)
+// STT: off (recordings go out as files), a local whisper-compatible
+// server, or the gateway. TTS: any /v1/audio/speech endpoint —
+// empty URL hides "read aloud". Push-to-talk: a global shortcut.
+// ═══════════════════════════════════════════════════════════
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AudioLines, Play, Loader2, Check } from 'lucide-react';
+import { GlassCard } from '@/components/shared/GlassCard';
+import { AudioPlayer } from '@/components/Chat/AudioPlayer';
+import { useSettingsStore, type VoiceSettings } from '@/stores/settingsStore';
+import { useChatStore } from '@/stores/chatStore';
+import { gateway } from '@/services/gateway';
+import { synthesize, GATEWAY_STT_METHOD } from '@/services/speech';
+import { applyTalkHotkey } from '@/services/talkMode';
+import clsx from 'clsx';
+
+const PROVIDERS: VoiceSettings['sttProvider'][] = ['off', 'whisper', 'gateway'];
+
+const inputCls = `w-full px-3 py-2 rounded-xl text-[12px] font-mono
+  bg-[rgb(var(--aegis-overlay)/0.03)] border border-aegis-border
+  text-aegis-text placeholder:text-aegis-text-dim
+  outline-none focus:border-aegis-accent/40 focus:bg-aegis-accent/[0.03] transition-all`;
+
+function Field({ label, value, placeholder, onChange }: {
+  label: string;
+  value: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="block">
+      <span className="block text-[10px] text-aegis-text-dim mb-1">{label}</span>
+      <input value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)}
+        className={inputCls} dir="ltr" spellCheck={false} />
+    </label>
+  );
+}
+
+/** Push-to-talk shortcut — an Electron accelerator, applied on Enter or blur */
+function TalkHotkeyField() {
+  const { t } = useTranslation();
+  const saved = useSettingsStore((s) => s.voice.talkHotkey);
+  const setVoice = useSettingsStore((s) => s.setVoice);
+  const [draft, setDraft] = useState(saved);
+  const [status, setStatus] = useState<'ok' | 'failed' | null>(null);
+
+  const apply = async () => {
+    const hotkey = draft.trim();
+    if (hotkey === saved) return;
+    setVoice({ talkHotkey: hotkey });
+    const ok = await applyTalkHotkey(hotkey);
+    setStatus(hotkey ? (ok ? 'ok' : 'failed') : null);
+  };
+
+  return (
+    <label className="block">
+      <span className="block text-[10px] text-aegis-text-dim mb-1">{t('talk.hotkey')}</span>
+      <div className="relative">
+        <input value={draft} placeholder="Alt+Shift+Space" dir="ltr" spellCheck={false}
+          onChange={(e) => { setDraft(e.target.value); setStatus(null); }}
+          onBlur={apply}
+          onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+          className={inputCls} />
+        {status === 'ok' && <Check size={13} className="absolute end-3 top-1/2 -translate-y-1/2 text-aegis-success" />}
+      </div>
+      {status === 'failed' && (
+        <span className="block mt-1 text-[10px] text-aegis-danger">{t('talk.hotkeyFailed', { hotkey: saved })}</span>
+      )}
+    </label>
+  );
+}
+
+export function VoiceCard({ delay }: { delay?: number }) {
+  const { t } = useTranslation();
+  const voice = useSettingsStore((s) => s.voice);
+  const setVoice = useSettingsStore((s) => s.setVoice);
+  const connected = useChatStore((s) => s.connected);
+  const [sampleUrl, setSampleUrl] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [testError, setTestError] = useState<string | null>(null);
+
+  useEffect(() => () => { if (sampleUrl) URL.revokeObjectURL(sampleUrl); }, [sampleUrl]);
+
+  const playSample = async () => {
+    setTesting(true);
+    setTestError(null);
+    setSampleUrl(null);
+    try {
+      setSampleUrl(await synthesize(t('speech.sample')));
+    } catch (err: any) {
+      setTestError(err?.message || String(err));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const gatewayMissing = voice.sttProvider === 'gateway' && connected && !gateway.supportsMethod(GATEWAY_STT_METHOD);
+
+  return (
+    <GlassCard delay={delay}>
+      <h3 className="text-[14px] font-semibold text-aegis-text mb-1 flex items-center gap-2">
+        <AudioLines size={16} className="text-aegis-accent" />
+        {t('speech.title')}
+      </h3>
+      <p className="text-[11px] text-aegis-text-dim mb-4">{t('speech.hint')}</p>
+
+      {/* Speech-to-text */}
+      <div className="text-[12px] font-semibold text-aegis-text mb-2">{t('speech.stt')}</div>
+      <div className="flex gap-1 p-1 rounded-xl bg-[rgb(var(--aegis-overlay)/0.03)] border border-aegis-border mb-3">
+        {PROVIDERS.map((p) => (
+          <button key={p} onClick={() => setVoice({ sttProvider: p })}
+            className={clsx('flex-1 px-3 py-1.5 rounded-lg text-[11px] font-semibold transition-colors',
+              voice.sttProvider === p
+                ? 'bg-aegis-primary/15 text-aegis-primary'
+                : 'text-aegis-text-dim hover:text-aegis-text-muted')}>
+            {t(`speech.provider.${p}`)}
+          </button>
+        ))}
+      </div>
+      {voice.sttProvider === 'off' && (
+        <p className="text-[10px] text-aegis-text-dim mb-3">{t('speech.offHint')}</p>
+      )}
+      {voice.sttProvider === 'whisper' && (
+        <div className="space-y-2 mb-3">
+          <Field label={t('speech.sttUrl')} value={voice.sttUrl} onChange={(sttUrl) => setVoice({ sttUrl })}
+            placeholder="http://localhost:8080/v1/audio/transcriptions" />
+          <div className="grid grid-cols-2 gap-2">
+            <Field label={t('speech.model')} value={voice.sttModel} onChange={(sttModel) => setVoice({ sttModel })} placeholder="whisper-1" />
+            <Field label={t('speech.language')} value={voice.sttLanguage} onChange={(sttLanguage) => setVoice({ sttLanguage })} placeholder={t('speech.languageAuto')} />
+          </div>
+        </div>
+      )}
+      {voice.sttProvider === 'gateway' && (
+        <div className="space-y-2 mb-3">
+          <Field label={t('speech.language')} value={voice.sttLanguage} onChange={(sttLanguage) => setVoice({ sttLanguage })} placeholder={t('speech.languageAuto')} />
+          {gatewayMissing && (
+            <p className="text-[10px] text-aegis-warning">{t('speech.gatewayUnsupported', { method: GATEWAY_STT_METHOD })}</p>
+          )}
+        </div>
+      )}
+
+      {/* Text-to-speech */}
+      <div className="text-[12px] font-semibold text-aegis-text mb-2 mt-4">{t('speech.tts')}</div>
+      <div className="space-y-2">
+        <Field label={t('speech.ttsUrl')} value={voice.ttsUrl} onChange={(ttsUrl) => setVoice({ ttsUrl })}
+          placeholder="http://localhost:8880/v1/audio/speech" />
+        <div className="grid grid-cols-2 gap-2">
+          <Field label={t('speech.model')} value={voice.ttsModel} onChange={(ttsModel) => setVoice({ ttsModel })} placeholder="tts-1" />
+          <Field label={t('speech.voice')} value={voice.ttsVoice} onChange={(ttsVoice) => setVoice({ ttsVoice })} placeholder="alloy" />
+        </div>
+        <div className="flex items-center gap-3 pt-1">
+          <button onClick={playSample} disabled={testing || !voice.ttsUrl.trim()}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[11px] font-semibold
+              bg-aegis-primary/15 text-aegis-primary border border-aegis-primary/25 hover:bg-aegis-primary/25 disabled:opacity-40">
+            {testing ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+            {t('speech.playSample')}
+          </button>
+          {testError && <span className="text-[10px] text-aegis-danger truncate">{testError}</span>}
+        </div>
+        {sampleUrl && <AudioPlayer src={sampleUrl} autoPlay />}
+      </div>
+
+      {/* Push-to-talk */}
+      <div className="text-[12px] font-semibold text-aegis-text mb-1 mt-4">{t('talk.title')}</div>
+      <p className="text-[10px] text-aegis-text-dim mb-2">{t('talk.hint')}</p>
+      <TalkHotkeyField />
+    </GlassCard>
+  );
+}
@@ -2,6 +2,7 @@ import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { useChatStore } from '@/stores/chatStore';
+import { macroForHotkey, runMacro } from '@/services/macros';
 
 // ═══════════════════════════════════════════════════════════
 // Keyboard Shortcuts — Global hotkeys for AEGIS Desktop
@@ -41,6 +42,13 @@ export function useKeyboardShortcuts() {
         return;
       }
 
+      // Ctrl+Shift+F → Search chat archive
+      if (ctrl && shift && (e.key === 'F' || e.key === 'f')) {
+        e.preventDefault();
+        navigate('/search');
+        return;
+      }
+
       // ── Only when NOT in text inputs ──
       if (isInput) return;
 
@@ -97,6 +105,14 @@ export function useKeyboardShortcuts() {
         window.dispatchEvent(new CustomEvent('aegis:refresh'));
         return;
       }
+
+      // Prompt macro hotkeys — after the built-ins, never while typing
+      // (Ctrl or Alt required and app / editing combos refused — see MacrosCard)
+      const macro = macroForHotkey(e);
+      if (macro) {
+        e.preventDefault();
+        runMacro(macro.id);
+      }
     };
 
     window.addEventListener('keydown', handler);
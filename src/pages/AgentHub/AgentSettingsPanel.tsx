@@ -19,6 +19,7 @@ import {
   Search, FolderOpen, Clock, Zap,
 } from 'lucide-react';
 import { gateway } from '@/services/gateway';
+import { modelRefId, type ModelEntry } from '@/services/protocol';
 import { useGatewayDataStore } from '@/stores/gatewayDataStore';
 import { themeHex, themeAlpha, dataColor } from '@/utils/theme-colors';
 import clsx from 'clsx';
@@ -58,33 +59,6 @@ interface AgentSettingsPanelProps {
   onSaved: () => void;
 }
 
-// Shape of an agent entry inside config.agents.list
-// model can be string ("provider/model") or object ({ primary, fallbacks })
-interface ConfigAgent {
-  id: string;
-  name?: string;
-  model?: string | { primary?: string; fallbacks?: string[] };
-  params?: {
-    cacheRetention?: string;
-    temperature?: number;
-    maxTokens?: number;
-    context1m?: boolean;
-  };
-  [k: string]: unknown;
-}
-
-// Shape of the config.get response
-interface ConfigGetResponse {
-  baseHash?: string;
-  hash?: string;
-  config?: {
-    agents?: {
-      list?: ConfigAgent[];
-    };
-    [k: string]: unknown;
-  };
-}
-
 // ═══════════════════════════════════════════════════════════
 // CacheRetentionBadge — reusable badge for agent cards
 // ═══════════════════════════════════════════════════════════
@@ -142,52 +116,11 @@ function modelsMatch(a: string, b: string): boolean {
   return nameA === nameB;
 }
 
-/** Parse any shape the models.list API might return */
-function parseModelsResponse(res: unknown): ModelOption[] {
-  const list: ModelOption[] = [];
-
-  // Format A: { models: { "provider/model": { alias, params } } }
-  if (
-    res !== null &&
-    typeof res === 'object' &&
-    'models' in res &&
-    res.models !== null &&
-    typeof res.models === 'object' &&
-    !Array.isArray(res.models)
-  ) {
-    for (const [id, cfg] of Object.entries(res.models as Record<string, unknown>)) {
-      const alias =
-        cfg !== null && typeof cfg === 'object' && 'alias' in cfg
-          ? (cfg as Record<string, unknown>).alias as string | undefined
-          : undefined;
-      list.push({ id, alias, displayName: alias ? `${alias} — ${id}` : id });
-    }
-  }
-  // Format B: { models: [{ id, alias }] }
-  else if (
-    res !== null &&
-    typeof res === 'object' &&
-    'models' in res &&
-    Array.isArray((res as Record<string, unknown>).models)
-  ) {
-    for (const m of (res as Record<string, unknown>).models as unknown[]) {
-      if (m === null || typeof m !== 'object') continue;
-      const mObj = m as Record<string, unknown>;
-      const id = (mObj.id || mObj.model || '') as string;
-      const alias = mObj.alias as string | undefined;
-      if (id) list.push({ id, alias, displayName: alias ? `${alias} — ${id}` : id });
-    }
-  }
-  // Format C: raw array
-  else if (Array.isArray(res)) {
-    for (const m of res as unknown[]) {
-      const id = typeof m === 'string' ? m : ((m as Record<string, unknown>)?.id as string || '');
-      const alias = typeof m === 'object' && m ? ((m as Record<string, unknown>).alias as string | undefined) : undefined;
-      if (id) list.push({ id, alias, displayName: alias ? `${alias} — ${id}` : id });
-    }
-  }
-
-  return list.sort((a, b) => a.displayName.localeCompare(b.displayName));
+/** Dropdown options from a models.list result (already normalized by protocol.ts) */
+function toModelOptions(models: ModelEntry[]): ModelOption[] {
+  return models
+    .map(({ id, alias }) => ({ id, alias, displayName: alias ? `${alias} — ${id}` : id }))
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
 }
 
 /** Format a token count to human-readable short form */
@@ -263,24 +196,14 @@ export function AgentSettingsPanel({
     setSaved(false);
 
     gateway.call('config.get', {})
-      .then((res: unknown) => {
+      .then(({ config }) => {
         if (cancelled) return;
 
-        const snap = res as ConfigGetResponse;
-
         // Find this agent's entry in config.agents.list
-        const agentConfig = snap?.config?.agents?.list?.find(
-          (a: ConfigAgent) => a.id === agent.id
-        );
+        const agentConfig = config.agents?.list?.find((a) => a.id === agent.id);
 
         // Resolve model: config first, then agentSessions fallback
-        // Model can be string ("provider/model") or object ({ primary, fallbacks })
-        const rawModel = agentConfig?.model;
-        const cfgModel = typeof rawModel === 'string'
-          ? rawModel
-          : (rawModel && typeof rawModel === 'object' && 'primary' in rawModel)
-            ? String((rawModel as Record<string, unknown>).primary ?? '')
-            : '';
+        const cfgModel = modelRefId(agentConfig?.model);
         const sessionModel = agentSessions.length > 0 ? agentSessions[0].model : '';
         const resolvedModel = cfgModel || sessionModel || '';
 
@@ -308,9 +231,9 @@ export function AgentSettingsPanel({
     setLoadingModels(true);
 
     gateway.getAvailableModels()
-      .then((res: unknown) => {
+      .then(({ models }) => {
         if (cancelled) return;
-        const parsed = parseModelsResponse(res);
+        const parsed = toModelOptions(models);
 
         // If current model isn't in the list, prepend it so it shows in the dropdown
         if (selectedModel && !parsed.find(m => modelsMatch(m.id, selectedModel))) {
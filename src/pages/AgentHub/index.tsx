@@ -15,6 +15,7 @@ import { StatusDot } from '@/components/shared/StatusDot';
 import { useChatStore } from '@/stores/chatStore';
 import { useGatewayDataStore, refreshAll, refreshGroup } from '@/stores/gatewayDataStore';
 import { gateway } from '@/services/gateway';
+import { modelRefId } from '@/services/protocol';
 import clsx from 'clsx';
 import { themeHex, themeAlpha, overlay, dataColor } from '@/utils/theme-colors';
 
@@ -535,18 +536,11 @@ export function AgentHubPage() {
 
   useEffect(() => {
     if (!connected) return;
-    gateway.call('config.get', {}).then((snap: any) => {
-      const cfgList: any[] = snap?.config?.agents?.list ?? [];
+    gateway.call('config.get', {}).then(({ config }) => {
       const models: Record<string, string> = {};
-      for (const cfg of cfgList) {
-        if (!cfg?.id) continue;
-        const raw = cfg.model;
-        const m = typeof raw === 'string'
-          ? raw
-          : (raw && typeof raw === 'object' && 'primary' in raw)
-            ? String(raw.primary ?? '')
-            : '';
-        if (m) models[cfg.id] = m;
+      for (const cfg of config.agents?.list ?? []) {
+        const m = modelRefId(cfg.model);
+        if (cfg.id && m) models[cfg.id] = m;
       }
       setAgentModels(models);
     }).catch(() => { /* silent — cards just show '—' */ });
@@ -595,8 +589,8 @@ export function AgentHubPage() {
     if (!workerLogs[sessionKey]) {
       setLoadingLog(sessionKey);
       try {
-        const result = await gateway.getHistory(sessionKey, 10);
-        const msgs = (result?.messages || [])
+        const { messages } = await gateway.getHistory(sessionKey, 10);
+        const msgs = messages
           .filter((m: any) => m.role === 'assistant' || m.role === 'user').slice(-6)
           .map((m: any) => ({ role: m.role, content: typeof m.content === 'string' ? m.content : Array.isArray(m.content) ? m.content.filter((c: any) => c.type === 'text').map((c: any) => c.text).join(' ') : JSON.stringify(m.content) }));
         setWorkerLogs(prev => ({ ...prev, [sessionKey]: msgs }));
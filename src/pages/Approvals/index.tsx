@@ -0,0 +1,155 @@
+// ═══════════════════════════════════════════════════════════
+// Approvals — pending tool approvals and the decision audit log
+// Every request ends up here once settled: approved (once or for
+// the session), denied, allowed by a session rule, answered by
+// another client, or expired. The log is kept in localStorage.
+// ═══════════════════════════════════════════════════════════
+
+import { useState, useMemo, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ShieldCheck, ShieldAlert, Search, Trash2, Download } from 'lucide-react';
+import { useApprovalStore, type ApprovalOutcome } from '@/stores/approvalStore';
+import { useChatStore } from '@/stores/chatStore';
+import { ApprovalCard } from '@/components/Chat/ApprovalCard';
+import clsx from 'clsx';
+
+const OUTCOMES: ApprovalOutcome[] = ['allow-once', 'allow-session', 'auto-allow', 'deny', 'elsewhere', 'expired'];
+
+const OUTCOME_CLS: Record<ApprovalOutcome, string> = {
+  'allow-once': 'bg-aegis-success/10 text-aegis-success',
+  'allow-session': 'bg-aegis-success/10 text-aegis-success',
+  'auto-allow': 'bg-aegis-primary/10 text-aegis-primary',
+  deny: 'bg-aegis-danger/10 text-aegis-danger',
+  elsewhere: 'bg-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text-muted',
+  expired: 'bg-aegis-warning/10 text-aegis-warning',
+};
+
+const timeOf = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
+
+export function ApprovalsPage() {
+  const { t } = useTranslation();
+  const pending = useApprovalStore((s) => s.pending);
+  const audit = useApprovalStore((s) => s.audit);
+  const sessions = useChatStore((s) => s.sessions);
+  const [filter, setFilter] = useState<ApprovalOutcome | 'all'>('all');
+  const [query, setQuery] = useState('');
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  useEffect(() => {
+    if (!confirmClear) return;
+    const timer = setTimeout(() => setConfirmClear(false), 3000);
+    return () => clearTimeout(timer);
+  }, [confirmClear]);
+
+  const shown = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return audit.filter((e) => (filter === 'all' || e.outcome === filter)
+      && (!needle || [e.command, e.cwd, e.agentId, e.sessionKey].some((v) => v?.toLowerCase().includes(needle))));
+  }, [audit, filter, query]);
+
+  const labelOf = (key?: string) => (key ? sessions.find((s) => s.key === key)?.label || key : '—');
+
+  const clear = () => {
+    if (!confirmClear) { setConfirmClear(true); return; }
+    setConfirmClear(false);
+    useApprovalStore.getState().clearAudit();
+  };
+
+  const exportLog = async () => {
+    const content = JSON.stringify(audit, null, 2);
+    const name = `aegis-approvals-${new Date().toISOString().slice(0, 10)}.json`;
+    await window.aegis?.file?.saveText(content, name, t('approvals.export'));
+  };
+
+  const chip = (active: boolean) => clsx(
+    'text-[10px] px-2.5 py-1 rounded-full border transition-colors',
+    active
+      ? 'bg-aegis-primary/15 border-aegis-primary/30 text-aegis-primary'
+      : 'border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-dim hover:text-aegis-text-muted',
+  );
+  const actionBtn = 'flex items-center gap-1.5 px-3 py-1.5 rounded-[10px] text-[11px] font-semibold border border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-muted hover:text-aegis-text hover:bg-[rgb(var(--aegis-overlay)/0.04)] transition-colors disabled:opacity-40 disabled:pointer-events-none';
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0" style={{ minHeight: 'calc(100vh - 80px)' }}>
+
+      {/* ═══ COMMAND BAR ═══ */}
+      <div className="shrink-0 flex items-center gap-3 px-6 py-3 border-b border-[rgb(var(--aegis-overlay)/0.06)] bg-[rgb(var(--aegis-overlay)/0.004)]">
+        <span className="text-base font-extrabold shrink-0">🛂 {t('approvals.pageTitle')}</span>
+        {pending.length > 0 && (
+          <span className="text-[9px] font-extrabold px-2 py-0.5 rounded-md border uppercase tracking-[1px] bg-aegis-warning/10 border-aegis-warning/20 text-aegis-warning">
+            {t('approvals.pendingCount', { count: pending.length })}
+          </span>
+        )}
+        <div className="flex-1" />
+        <button onClick={exportLog} disabled={audit.length === 0} className={actionBtn}>
+          <Download size={12} /> {t('approvals.export')}
+        </button>
+        <button onClick={clear} disabled={audit.length === 0} className={clsx(actionBtn, confirmClear && 'text-aegis-danger border-aegis-danger/30')}>
+          <Trash2 size={12} /> {confirmClear ? t('approvals.clearConfirm') : t('approvals.clear')}
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto px-6 py-4 space-y-5">
+        {/* ═══ PENDING ═══ */}
+        {pending.length > 0 && (
+          <section className="space-y-2">
+            <div className="flex items-center gap-2 text-[12px] font-bold text-aegis-text">
+              <ShieldAlert size={14} className="text-aegis-warning" /> {t('approvals.pending')}
+            </div>
+            {pending.map((req) => <ApprovalCard key={req.id} req={req} showSession />)}
+          </section>
+        )}
+
+        {/* ═══ AUDIT LOG ═══ */}
+        <section>
+          <div className="flex items-center gap-2 mb-2 flex-wrap">
+            <ShieldCheck size={14} className="text-aegis-primary" />
+            <span className="text-[12px] font-bold text-aegis-text">{t('approvals.audit')}</span>
+            <span className="text-[10px] text-aegis-text-dim">{shown.length}/{audit.length}</span>
+            <div className="flex-1" />
+            <div className="flex items-center gap-1.5 px-2 py-1 rounded-lg border border-[rgb(var(--aegis-overlay)/0.08)]">
+              <Search size={11} className="text-aegis-text-dim" />
+              <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder={t('approvals.search')}
+                className="w-[180px] bg-transparent text-[11px] text-aegis-text outline-none placeholder:text-aegis-text-dim" />
+            </div>
+          </div>
+          <div className="flex items-center gap-1 mb-3 flex-wrap">
+            <button onClick={() => setFilter('all')} className={chip(filter === 'all')}>{t('approvals.all')}</button>
+            {OUTCOMES.map((o) => (
+              <button key={o} onClick={() => setFilter(o)} className={chip(filter === o)}>{t(`approvals.outcome.${o}`)}</button>
+            ))}
+          </div>
+
+          {shown.length === 0 ? (
+            <p className="py-12 text-center text-[12px] text-aegis-text-dim">{t('approvals.empty')}</p>
+          ) : (
+            <div className="rounded-2xl border border-[rgb(var(--aegis-overlay)/0.06)] overflow-hidden">
+              {shown.map((e) => (
+                <div key={`${e.requestId}-${e.decidedAt}`} className="px-4 py-2.5 border-b border-[rgb(var(--aegis-overlay)/0.04)] last:border-b-0">
+                  <div className="flex items-center gap-2 text-[11px]">
+                    <span className={clsx('text-[9px] px-1.5 py-0.5 rounded font-semibold shrink-0', OUTCOME_CLS[e.outcome])}>
+                      {t(`approvals.outcome.${e.outcome}`)}
+                    </span>
+                    <span className="text-[10px] font-mono text-aegis-text-dim shrink-0">{e.kind}</span>
+                    <span className="font-mono text-aegis-text truncate" dir="ltr">{e.command}</span>
+                    <div className="flex-1" />
+                    <span className="text-[10px] text-aegis-text-dim shrink-0">{timeOf(e.decidedAt)}</span>
+                  </div>
+                  <div className="mt-1 flex items-center gap-3 text-[10px] text-aegis-text-dim">
+                    <span>{labelOf(e.sessionKey)}</span>
+                    {e.agentId && <span className="font-mono">{e.agentId}</span>}
+                    {e.cwd && <span className="font-mono truncate" dir="ltr">{e.cwd}</span>}
+                    {e.detail && <span>{t('approvals.gatewayDecision', { decision: e.detail })}</span>}
+                    <div className="flex-1" />
+                    <span>{t('approvals.waited', { seconds: Math.max(0, Math.round((Date.parse(e.decidedAt) - Date.parse(e.requestedAt)) / 1000)) })}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+// ═══════════════════════════════════════════════════════════
+// Archive Search — Full-text search over the local chat archive
+// Filters: session / role / date range / has attachment.
+// Clicking a hit opens the session and jumps to the message.
+// ═══════════════════════════════════════════════════════════
+
+import { useState, useEffect, useMemo, useRef, Fragment } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { Search, Loader2, Paperclip, User, Bot, Wrench, X } from 'lucide-react';
+import { useChatStore } from '@/stores/chatStore';
+import { useProfileStore } from '@/stores/profileStore';
+import type { ArchiveHit, ArchiveQuery, ArchivedSession } from '@/services/archive';
+import clsx from 'clsx';
+
+const PAGE_SIZE = 50;
+const ROLES = ['all', 'user', 'assistant', 'tool'] as const;
+
+const ROLE_ICONS = { user: User, assistant: Bot, tool: Wrench } as const;
+
+/** Local calendar date (YYYY-MM-DD from <input type=date>) → ISO bound */
+const dayStart = (d: string) => (d ? new Date(`${d}T00:00:00`).toISOString() : undefined);
+const dayEnd = (d: string) => (d ? new Date(`${d}T23:59:59.999`).toISOString() : undefined);
+
+/** Wrap query terms found in the snippet with <mark> */
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  if (terms.length === 0) return <>{text}</>;
+  const escaped = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = text.split(new RegExp(`(${escaped.join('|')})`, 'gi'));
+  return (
+    <>
+      {parts.map((p, i) => i % 2 === 1
+        ? <mark key={i} className="bg-aegis-warning/25 text-aegis-text rounded-sm px-0.5">{p}</mark>
+        : <Fragment key={i}>{p}</Fragment>)}
+    </>
+  );
+}
+
+export function ArchiveSearchPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const sessions = useChatStore((s) => s.sessions);
+  const profileId = useProfileStore((s) => s.activeId);
+  const available = !!window.aegis?.archive;
+
+  const [text, setText] = useState('');
+  const [sessionKey, setSessionKey] = useState('');
+  const [role, setRole] = useState<(typeof ROLES)[number]>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [hasAttachment, setHasAttachment] = useState(false);
+
+  const [hits, setHits] = useState<ArchiveHit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [archived, setArchived] = useState<ArchivedSession[]>([]);
+  const searchId = useRef(0);
+
+  const terms = useMemo(
+    () => (text.match(/"([^"]+)"|\S+/g) || []).map((t) => t.replace(/"/g, '')).filter(Boolean),
+    [text],
+  );
+
+  // Only the active gateway's archive — session keys repeat across gateways
+  const query: ArchiveQuery = useMemo(() => ({
+    profileId,
+    text: text.trim() || undefined,
+    sessionKey: sessionKey || undefined,
+    role: role === 'all' ? undefined : role,
+    from: dayStart(from),
+    to: dayEnd(to),
+    hasAttachment: hasAttachment || undefined,
+    limit: PAGE_SIZE,
+  }), [profileId, text, sessionKey, role, from, to, hasAttachment]);
+
+  useEffect(() => {
+    if (!available || !profileId) return;
+    window.aegis.archive.sessions(profileId).then(setArchived).catch(() => {});
+  }, [available, profileId]);
+
+  // Debounced search on every filter change
+  useEffect(() => {
+    if (!available || !profileId) return;
+    const id = ++searchId.current;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await window.aegis.archive.search(query);
+        if (id !== searchId.current) return; // stale
+        setHits(result.hits);
+        setTotal(result.total);
+      } catch (err) {
+        console.error('[Archive] Search failed:', err);
+      } finally {
+        if (id === searchId.current) setLoading(false);
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [query, available]);
+
+  const loadMore = async () => {
+    const id = searchId.current;
+    setLoading(true);
+    try {
+      const result = await window.aegis.archive.search({ ...query, offset: hits.length });
+      if (id !== searchId.current) return;
+      setHits((h) => [...h, ...result.hits]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sessionLabel = (key: string) => sessions.find((s) => s.key === key)?.label || key;
+
+  const jumpTo = (hit: ArchiveHit) => {
+    const { record } = hit;
+    const store = useChatStore.getState();
+    store.setJumpTarget({
+      profileId: record.profileId,
+      sessionKey: record.sessionKey,
+      messageId: record.id,
+      role: record.role,
+      content: record.content,
+      toolName: record.toolName,
+    });
+    store.openTab(record.sessionKey);
+    navigate('/chat');
+  };
+
+  const hasFilters = !!(sessionKey || role !== 'all' || from || to || hasAttachment);
+  const clearFilters = () => {
+    setSessionKey(''); setRole('all'); setFrom(''); setTo(''); setHasAttachment(false);
+  };
+
+  const inputCls = 'bg-[rgb(var(--aegis-overlay)/0.03)] border border-[rgb(var(--aegis-overlay)/0.06)] rounded-[10px] px-2.5 py-1.5 text-[11px] text-aegis-text outline-none focus:border-aegis-accent/30';
+
+  // ═══ RENDER ═══
+  return (
+    <div className="flex flex-col flex-1 min-h-0" style={{ minHeight: 'calc(100vh - 80px)' }}>
+
+      {/* ═══ COMMAND BAR ═══ */}
+      <div className="shrink-0 flex items-center gap-4 px-6 py-3 border-b border-[rgb(var(--aegis-overlay)/0.06)] bg-[rgb(var(--aegis-overlay)/0.004)]">
+        <div className="flex items-center gap-2 shrink-0">
+          <span className="text-base font-extrabold">🔎 {t('archive.title')}</span>
+          <span className="text-[9px] font-extrabold px-2 py-0.5 rounded-md
+            bg-aegis-primary/10 border border-aegis-primary/20 text-aegis-primary uppercase tracking-[1px]">
+            {t('archive.sessionsCount', { count: archived.length })}
+          </span>
+        </div>
+        <div className="relative flex-1 max-w-[560px]">
+          <Search size={14} className="absolute start-3 top-1/2 -translate-y-1/2 text-aegis-text-muted pointer-events-none" />
+          <input
+            autoFocus value={text} onChange={(e) => setText(e.target.value)}
+            placeholder={t('archive.placeholder')} dir="auto"
+            className="w-full ps-9 pe-3 py-2 rounded-[10px] text-[13px]
+              bg-[rgb(var(--aegis-overlay)/0.03)] border border-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text placeholder:text-aegis-text-muted
+              outline-none focus:border-aegis-accent/30 focus:bg-aegis-accent/[0.03] transition-all"
+          />
+        </div>
+        <div className="flex-1" />
+        {loading && <Loader2 size={14} className="animate-spin text-aegis-text-dim" />}
+      </div>
+
+      {/* ═══ FILTERS ═══ */}
+      <div className="shrink-0 flex items-center gap-3 flex-wrap px-6 py-2.5 border-b border-[rgb(var(--aegis-overlay)/0.06)]">
+        <select value={sessionKey} onChange={(e) => setSessionKey(e.target.value)} className={clsx(inputCls, 'max-w-[220px]')}>
+          <option value="">{t('archive.allSessions')}</option>
+          {archived.map((s) => (
+            <option key={s.sessionKey} value={s.sessionKey}>{sessionLabel(s.sessionKey)} ({s.count})</option>
+          ))}
+        </select>
+
+        <div className="flex items-center gap-1">
+          {ROLES.map((r) => (
+            <button key={r} onClick={() => setRole(r)}
+              className={clsx(
+                'text-[10px] px-2.5 py-1 rounded-full border transition-colors',
+                role === r
+                  ? 'bg-aegis-primary/15 border-aegis-primary/30 text-aegis-primary'
+                  : 'border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-dim hover:text-aegis-text-muted',
+              )}>
+              {t(`archive.role.${r}`)}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1.5 text-[11px] text-aegis-text-muted">
+          {t('archive.from')}
+          <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={inputCls} />
+          {t('archive.to')}
+          <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={inputCls} />
+        </div>
+
+        <label className="flex items-center gap-1.5 text-[11px] text-aegis-text-muted cursor-pointer select-none">
+          <input type="checkbox" checked={hasAttachment} onChange={(e) => setHasAttachment(e.target.checked)} className="accent-aegis-primary" />
+          <Paperclip size={11} /> {t('archive.hasAttachment')}
+        </label>
+
+        {hasFilters && (
+          <button onClick={clearFilters} className="flex items-center gap-1 text-[11px] text-aegis-text-dim hover:text-aegis-text-muted">
+            <X size={11} /> {t('archive.clearFilters')}
+          </button>
+        )}
+        <div className="flex-1" />
+        <span className="text-[11px] text-aegis-text-dim">{t('archive.results', { count: total })}</span>
+      </div>
+
+      {/* ═══ RESULTS ═══ */}
+      <div className="flex-1 overflow-y-auto px-6 py-3">
+        {!available ? (
+          <div className="text-center py-16 text-[12px] text-aegis-text-dim">{t('archive.unavailable')}</div>
+        ) : hits.length === 0 && !loading ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <div className="text-[28px] mb-3">🗂️</div>
+            <p className="text-xs font-semibold text-aegis-text-dim">
+              {text || hasFilters ? t('archive.noResults') : t('archive.empty')}
+            </p>
+            <p className="text-[10px] text-aegis-text-dim mt-1">{t('archive.hint')}</p>
+          </div>
+        ) : (
+          <div className="space-y-1.5 max-w-[900px]">
+            {hits.map((hit) => {
+              const r = hit.record;
+              const Icon = ROLE_ICONS[r.role] || Bot;
+              return (
+                <button key={`${r.sessionKey}|${r.id}`} onClick={() => jumpTo(hit)}
+                  className="w-full text-start flex gap-3 px-4 py-3 rounded-xl border border-[rgb(var(--aegis-overlay)/0.06)]
+                    bg-[rgb(var(--aegis-overlay)/0.02)] hover:bg-[rgb(var(--aegis-overlay)/0.04)] hover:border-aegis-accent/20 transition-colors">
+                  <div className={clsx(
+                    'w-7 h-7 rounded-lg flex items-center justify-center shrink-0 border',
+                    r.role === 'user' ? 'bg-aegis-accent/10 border-aegis-accent/20 text-aegis-accent'
+                      : r.role === 'tool' ? 'bg-aegis-warning/10 border-aegis-warning/20 text-aegis-warning'
+                      : 'bg-aegis-primary/10 border-aegis-primary/20 text-aegis-primary',
+                  )}>
+                    <Icon size={13} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-[10px] text-aegis-text-dim mb-1">
+                      <span className="font-semibold text-aegis-text-muted truncate max-w-[240px]">{sessionLabel(r.sessionKey)}</span>
+                      {r.toolName && <span className="font-mono">{r.toolName}</span>}
+                      <span>·</span>
+                      <span>{new Date(r.timestamp).toLocaleString()}</span>
+                      {(r.attachments?.length || r.mediaUrl) && <Paperclip size={10} />}
+                    </div>
+                    <div className="text-[12px] text-aegis-text-secondary leading-relaxed break-words" dir="auto">
+                      <Highlighted text={hit.snippet} terms={terms} />
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+            {hits.length < total && (
+              <button onClick={loadMore} disabled={loading}
+                className="w-full py-2 text-[11px] font-semibold text-aegis-text-muted hover:text-aegis-text-secondary">
+                {t('archive.loadMore', { count: total - hits.length })}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
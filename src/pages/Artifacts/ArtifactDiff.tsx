@@ -0,0 +1,96 @@
+// ═══════════════════════════════════════════════════════════
+// ArtifactDiff — Unified line diff between two artifact versions
+// Long unchanged runs are folded to a few lines of context.
+// ═══════════════════════════════════════════════════════════
+
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { diffLines, diffStats, type DiffLine } from '@/utils/diff';
+import clsx from 'clsx';
+
+const CONTEXT = 3;
+
+type Row =
+  | { kind: 'line'; line: DiffLine }
+  | { kind: 'fold'; count: number; start: number };
+
+function buildRows(lines: DiffLine[], expanded: Set<number>): Row[] {
+  // Keep lines within CONTEXT of a change; fold the rest
+  const keep = lines.map(() => false);
+  lines.forEach((line, i) => {
+    if (line.op === 'same') return;
+    for (let k = Math.max(0, i - CONTEXT); k <= Math.min(lines.length - 1, i + CONTEXT); k++) keep[k] = true;
+  });
+
+  const rows: Row[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (keep[i]) {
+      rows.push({ kind: 'line', line: lines[i] });
+      i++;
+      continue;
+    }
+    const start = i;
+    while (i < lines.length && !keep[i]) i++;
+    if (i - start <= 1) rows.push({ kind: 'line', line: lines[start] });
+    else if (expanded.has(start)) lines.slice(start, i).forEach((line) => rows.push({ kind: 'line', line }));
+    else rows.push({ kind: 'fold', count: i - start, start });
+  }
+  return rows;
+}
+
+export function ArtifactDiff({ before, after, beforeLabel, afterLabel }: {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const rows = useMemo(() => buildRows(lines, expanded), [lines, expanded]);
+  const { added, removed } = useMemo(() => diffStats(lines), [lines]);
+
+  return (
+    <div className="rounded-xl border border-[rgb(var(--aegis-overlay)/0.06)] overflow-hidden" dir="ltr">
+      <div className="flex items-center gap-3 px-4 py-2 text-[11px] border-b border-[rgb(var(--aegis-overlay)/0.06)] bg-[rgb(var(--aegis-overlay)/0.03)]">
+        <span className="font-mono text-aegis-text-muted">{beforeLabel} → {afterLabel}</span>
+        <span className="font-mono text-aegis-success">+{added}</span>
+        <span className="font-mono text-aegis-danger">−{removed}</span>
+        {added === 0 && removed === 0 && <span className="text-aegis-text-dim">{t('artifacts.noChanges')}</span>}
+      </div>
+      <div className="font-mono text-[11px] leading-[1.6]">
+        {rows.map((row, idx) => row.kind === 'fold' ? (
+          <button key={`fold-${row.start}`}
+            onClick={() => setExpanded((s) => new Set(s).add(row.start))}
+            className="w-full text-start px-4 py-1 text-[10px] text-aegis-text-dim bg-[rgb(var(--aegis-overlay)/0.03)] hover:text-aegis-text-muted">
+            ⋯ {t('artifacts.unchangedLines', { count: row.count })}
+          </button>
+        ) : (
+          <div key={idx}
+            className={clsx(
+              'flex',
+              row.line.op === 'add' && 'bg-aegis-success/[0.08]',
+              row.line.op === 'del' && 'bg-aegis-danger/[0.08]',
+            )}>
+            <span className="w-10 shrink-0 text-end pe-2 text-aegis-text-dim/60 select-none">{row.line.oldNo ?? ''}</span>
+            <span className="w-10 shrink-0 text-end pe-2 text-aegis-text-dim/60 select-none">{row.line.newNo ?? ''}</span>
+            <span className={clsx(
+              'w-4 shrink-0 select-none',
+              row.line.op === 'add' ? 'text-aegis-success' : row.line.op === 'del' ? 'text-aegis-danger' : 'text-transparent',
+            )}>
+              {row.line.op === 'add' ? '+' : row.line.op === 'del' ? '−' : ' '}
+            </span>
+            <span className={clsx(
+              'flex-1 whitespace-pre-wrap break-all pe-3',
+              row.line.op === 'same' ? 'text-aegis-text-secondary' : 'text-aegis-text',
+            )}>
+              {row.line.text || ' '}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+// ═══════════════════════════════════════════════════════════
+// Artifacts — Library of every artifact the agent has produced
+// List (search / type filter) + Detail (versions, diff, export)
+// ═══════════════════════════════════════════════════════════
+
+import { useState, useMemo, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import {
+  Search, Eye, ExternalLink, Download, Copy, Check, Trash2, RotateCcw,
+  Loader2, GitCompare, Code2, MessageCircle,
+} from 'lucide-react';
+import { useArtifactStore, type ArtifactEntry } from '@/stores/artifactStore';
+import { useChatStore } from '@/stores/chatStore';
+import { gateway } from '@/services/gateway';
+import { ARTIFACT_ICONS, artifactFileName, buildArtifactExport } from '@/utils/artifacts';
+import { timeAgo } from '@/utils/format';
+import { ArtifactDiff } from './ArtifactDiff';
+import clsx from 'clsx';
+
+type DetailTab = 'source' | 'diff';
+
+const TYPE_FILTERS = ['all', 'html', 'react', 'svg', 'mermaid', 'code'] as const;
+
+/** Plain text of a raw chat.history message (string or content blocks) */
+function historyText(content: any): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((b: any) => b?.type === 'text' && typeof b.text === 'string')
+      .map((b: any) => b.text)
+      .join('\n');
+  }
+  return '';
+}
+
+export function ArtifactsPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const artifacts = useArtifactStore((s) => s.artifacts);
+  const { indexMessage, removeArtifact, removeVersion } = useArtifactStore();
+  const sessions = useChatStore((s) => s.sessions);
+  const connected = useChatStore((s) => s.connected);
+
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<(typeof TYPE_FILTERS)[number]>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [versionIdx, setVersionIdx] = useState(0);
+  const [compareIdx, setCompareIdx] = useState<number | null>(null);
+  const [tab, setTab] = useState<DetailTab>('source');
+  const [scanning, setScanning] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [confirmDel, setConfirmDel] = useState<string | null>(null);
+  const [exportMsg, setExportMsg] = useState<string | null>(null);
+
+  // ── Derived ──
+  const list = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return Object.values(artifacts)
+      .filter((a) => typeFilter === 'all' || a.type === typeFilter)
+      .filter((a) => !q || a.title.toLowerCase().includes(q))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }, [artifacts, query, typeFilter]);
+
+  const selected: ArtifactEntry | null = (selectedId && artifacts[selectedId]) || list[0] || null;
+  const versions = selected?.versions || [];
+  const version = versions[Math.min(versionIdx, versions.length - 1)];
+  const baseIdx = compareIdx ?? Math.max(0, versionIdx - 1);
+  const base = versions[baseIdx];
+
+  // New selection → show its latest version
+  useEffect(() => {
+    if (!selected) return;
+    setVersionIdx(selected.versions.length - 1);
+    setCompareIdx(null);
+    setTab('source');
+    setConfirmDel(null);
+  }, [selected?.id, selected?.versions.length]); // eslint-disable-line
+
+  const sessionLabel = (key: string) => sessions.find((s) => s.key === key)?.label || key;
+
+  // ── Scan every known session's history ──
+  const scanSessions = async () => {
+    if (!connected || scanning) return;
+    setScanning(true);
+    try {
+      const keys = sessions.map((s) => s.key);
+      for (const key of keys) {
+        try {
+          const { messages } = await gateway.getHistory(key, 200);
+          for (const m of messages) {
+            if (m.role !== 'assistant') continue;
+            const text = historyText(m.content);
+            const ts = m.timestamp ?? m.createdAt;
+            if (text) indexMessage(key, m.id || m.messageId || '', text, ts != null ? new Date(ts).toISOString() : undefined);
+          }
+        } catch { /* session may be gone — skip */ }
+      }
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  // ── Actions ──
+  const openPreview = (newWindow = false) => {
+    if (!selected || !version) return;
+    window.aegis?.artifact?.open({
+      type: version.type,
+      title: versions.length > 1 && newWindow ? `${selected.title} (v${versionIdx + 1})` : selected.title,
+      content: version.content,
+      newWindow,
+    });
+  };
+
+  const exportVersion = async () => {
+    if (!selected || !version) return;
+    const artifact = { type: version.type, title: selected.title, content: version.content };
+    const result = await window.aegis?.artifact?.export(buildArtifactExport(artifact), artifactFileName(artifact));
+    if (result?.success && result.path) {
+      setExportMsg(t('artifacts.exported', { path: result.path }));
+      setTimeout(() => setExportMsg(null), 3000);
+    } else if (result?.error) {
+      setExportMsg(result.error);
+      setTimeout(() => setExportMsg(null), 3000);
+    }
+  };
+
+  const copySource = async () => {
+    if (!version) return;
+    await navigator.clipboard.writeText(version.content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const openInChat = () => {
+    if (!version) return;
+    useChatStore.getState().openTab(version.sessionKey);
+    navigate('/chat');
+  };
+
+  const deleteArtifact = () => {
+    if (!selected) return;
+    if (confirmDel !== selected.id) { setConfirmDel(selected.id); return; }
+    removeArtifact(selected.id);
+    setSelectedId(null);
+    setConfirmDel(null);
+  };
+
+  // ═══ RENDER ═══
+  return (
+    <div className="flex flex-col flex-1 min-h-0" style={{ minHeight: 'calc(100vh - 80px)' }}>
+
+      {/* ═══ COMMAND BAR ═══ */}
+      <div className="shrink-0 flex items-center gap-4 px-6 py-3 border-b border-[rgb(var(--aegis-overlay)/0.06)] bg-[rgb(var(--aegis-overlay)/0.004)]">
+        <div className="flex items-center gap-2">
+          <span className="text-base font-extrabold">🧩 {t('artifacts.title')}</span>
+          <span className="text-[9px] font-extrabold px-2 py-0.5 rounded-md
+            bg-aegis-primary/10 border border-aegis-primary/20 text-aegis-primary uppercase tracking-[1px]">
+            {t('artifacts.count', { count: Object.keys(artifacts).length })}
+          </span>
+        </div>
+        <div className="flex-1" />
+        <div className="relative">
+          <Search size={13} className="absolute start-2.5 top-1/2 -translate-y-1/2 text-aegis-text-muted pointer-events-none" />
+          <input
+            value={query} onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('artifacts.search')}
+            className="w-[200px] ps-8 pe-3 py-1.5 rounded-[10px] text-xs
+              bg-[rgb(var(--aegis-overlay)/0.03)] border border-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text placeholder:text-aegis-text-muted
+              outline-none focus:border-aegis-accent/30 focus:bg-aegis-accent/[0.03] transition-all"
+          />
+        </div>
+        <button onClick={scanSessions} disabled={!connected || scanning}
+          title={t('artifacts.scanHint')}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-[10px] border border-[rgb(var(--aegis-overlay)/0.06)]
+            text-[11px] font-semibold text-aegis-text-muted hover:text-aegis-text-secondary transition-colors disabled:opacity-40">
+          <RotateCcw size={12} className={scanning ? 'animate-spin' : ''} /> {t('artifacts.scan')}
+        </button>
+      </div>
+
+      <div className="flex-1 grid overflow-hidden" style={{ gridTemplateColumns: '320px 1fr' }}>
+
+        {/* ═══ LIST ═══ */}
+        <div className="border-e border-[rgb(var(--aegis-overlay)/0.06)] flex flex-col overflow-hidden">
+          <div className="shrink-0 flex flex-wrap gap-1 px-3 py-2.5 border-b border-[rgb(var(--aegis-overlay)/0.06)]">
+            {TYPE_FILTERS.map((f) => (
+              <button key={f} onClick={() => setTypeFilter(f)}
+                className={clsx(
+                  'text-[10px] px-2.5 py-1 rounded-full border transition-colors',
+                  typeFilter === f
+                    ? 'bg-aegis-primary/15 border-aegis-primary/30 text-aegis-primary'
+                    : 'border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-dim hover:text-aegis-text-muted',
+                )}>
+                {f === 'all' ? t('artifacts.allTypes') : f}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-2">
+            {list.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-16 text-center px-4">
+                <div className="text-[28px] mb-3">🧩</div>
+                <p className="text-xs font-semibold text-aegis-text-dim">{t('artifacts.empty')}</p>
+                <p className="text-[10px] text-aegis-text-dim mt-1">{t('artifacts.emptyHint')}</p>
+              </div>
+            ) : list.map((a) => {
+              const isSelected = selected?.id === a.id;
+              return (
+                <button key={a.id} onClick={() => setSelectedId(a.id)}
+                  className={clsx(
+                    'w-full text-start flex items-center gap-2.5 px-3 py-2.5 mb-1 rounded-xl border transition-colors',
+                    isSelected
+                      ? 'border-aegis-accent/20 bg-aegis-accent/[0.04]'
+                      : 'border-transparent hover:bg-[rgb(var(--aegis-overlay)/0.03)]',
+                  )}>
+                  <span className="text-lg shrink-0">{ARTIFACT_ICONS[a.type] || '📄'}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className={clsx('text-[12px] font-semibold truncate', isSelected ? 'text-aegis-accent' : 'text-aegis-text')}>
+                      {a.title}
+                    </div>
+                    <div className="text-[10px] text-aegis-text-dim flex items-center gap-1.5">
+                      <span className="uppercase tracking-wider">{a.type}</span>
+                      <span>·</span>
+                      <span>{timeAgo(a.updatedAt)}</span>
+                    </div>
+                  </div>
+                  {a.versions.length > 1 && (
+                    <span className="text-[9px] font-bold px-1.5 py-0.5 rounded-md bg-aegis-primary/10 text-aegis-primary shrink-0">
+                      v{a.versions.length}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* ═══ DETAIL ═══ */}
+        {selected && version ? (
+          <div className="flex flex-col overflow-hidden">
+            {/* Header */}
+            <div className="shrink-0 flex items-center gap-3 px-5 py-3 border-b border-[rgb(var(--aegis-overlay)/0.06)]">
+              <span className="text-2xl">{ARTIFACT_ICONS[version.type] || '📄'}</span>
+              <div className="flex-1 min-w-0">
+                <div className="text-[14px] font-bold text-aegis-text truncate">{selected.title}</div>
+                <div className="text-[10px] text-aegis-text-dim flex items-center gap-1.5">
+                  <span className="uppercase tracking-wider">{version.type}</span>
+                  <span>·</span>
+                  <span>{sessionLabel(version.sessionKey)}</span>
+                  <span>·</span>
+                  <span>{new Date(version.createdAt).toLocaleString()}</span>
+                </div>
+              </div>
+              <DetailButton icon={Eye} label={t('artifacts.preview')} onClick={() => openPreview(false)} primary />
+              <DetailButton icon={ExternalLink} label={t('artifacts.newWindow')} onClick={() => openPreview(true)} />
+              <DetailButton icon={Download} label={t('artifacts.export')} onClick={exportVersion} />
+              <DetailButton icon={copied ? Check : Copy} label={t('artifacts.copy')} onClick={copySource} />
+              <DetailButton icon={MessageCircle} label={t('artifacts.openInChat')} onClick={openInChat} />
+              <button onClick={deleteArtifact}
+                className={clsx(
+                  'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[11px] font-semibold border transition-colors',
+                  confirmDel === selected.id
+                    ? 'bg-aegis-danger/15 border-aegis-danger/30 text-aegis-danger'
+                    : 'border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-dim hover:text-aegis-danger hover:border-aegis-danger/30',
+                )}>
+                <Trash2 size={12} />
+                {confirmDel === selected.id && t('artifacts.confirmDelete')}
+              </button>
+            </div>
+            {exportMsg && (
+              <div className="shrink-0 px-5 py-1.5 text-[11px] text-aegis-primary bg-aegis-primary/[0.06] border-b border-aegis-primary/10 truncate">
+                {exportMsg}
+              </div>
+            )}
+
+            {/* Versions */}
+            <div className="shrink-0 flex items-center gap-2 px-5 py-2.5 border-b border-[rgb(var(--aegis-overlay)/0.06)] overflow-x-auto">
+              <span className="text-[10px] font-bold uppercase tracking-[1.5px] text-aegis-text-muted shrink-0">
+                {t('artifacts.versions')}
+              </span>
+              {versions.map((v, i) => (
+                <button key={v.hash} onClick={() => { setVersionIdx(i); setCompareIdx(null); }}
+                  title={new Date(v.createdAt).toLocaleString()}
+                  className={clsx(
+                    'text-[11px] font-mono px-2 py-0.5 rounded-md border shrink-0 transition-colors',
+                    i === versionIdx
+                      ? 'bg-aegis-accent/15 border-aegis-accent/30 text-aegis-accent'
+                      : 'border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-dim hover:text-aegis-text-muted',
+                  )}>
+                  v{i + 1}
+                </button>
+              ))}
+              <div className="flex-1" />
+              {versions.length > 1 && (
+                <button onClick={() => removeVersion(selected.id, version.hash)}
+                  className="text-[10px] text-aegis-text-dim hover:text-aegis-danger shrink-0">
+                  {t('artifacts.removeVersion', { n: versionIdx + 1 })}
+                </button>
+              )}
+            </div>
+
+            {/* Tabs */}
+            <div className="shrink-0 flex items-center gap-1 px-5 pt-2.5">
+              <TabButton active={tab === 'source'} onClick={() => setTab('source')} icon={Code2} label={t('artifacts.source')} />
+              <TabButton active={tab === 'diff'} onClick={() => setTab('diff')} icon={GitCompare} label={t('artifacts.diff')}
+                disabled={versions.length < 2} />
+              {tab === 'diff' && versions.length > 1 && (
+                <div className="ms-auto flex items-center gap-1.5 text-[11px] text-aegis-text-muted">
+                  {t('artifacts.compareWith')}
+                  <select value={baseIdx} onChange={(e) => setCompareIdx(Number(e.target.value))}
+                    className="bg-[rgb(var(--aegis-overlay)/0.04)] border border-[rgb(var(--aegis-overlay)/0.08)] rounded-md px-1.5 py-0.5 text-[11px] text-aegis-text outline-none">
+                    {versions.map((_, i) => i !== versionIdx && (
+                      <option key={i} value={i}>v{i + 1}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-auto px-5 py-3">
+              {tab === 'diff' && base && base !== version ? (
+                <ArtifactDiff key={`${baseIdx}-${versionIdx}`} before={base.content} after={version.content}
+                  beforeLabel={`v${baseIdx + 1}`} afterLabel={`v${versionIdx + 1}`} />
+              ) : (
+                <pre className="text-[11px] text-aegis-text-secondary font-mono whitespace-pre-wrap break-words
+                  bg-[rgb(var(--aegis-overlay)/0.04)] border border-[rgb(var(--aegis-overlay)/0.06)] rounded-xl p-4">
+                  {version.content}
+                </pre>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center text-[12px] text-aegis-text-dim">
+            {scanning ? <Loader2 size={18} className="animate-spin" /> : t('artifacts.selectHint')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ── Small building blocks ──
+
+function DetailButton({ icon: Icon, label, onClick, primary }: {
+  icon: any; label: string; onClick: () => void; primary?: boolean;
+}) {
+  return (
+    <button onClick={onClick} title={label}
+      className={clsx(
+        'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[11px] font-semibold border transition-colors',
+        primary
+          ? 'bg-aegis-primary/15 border-aegis-primary/25 text-aegis-primary hover:bg-aegis-primary/25'
+          : 'border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-muted hover:text-aegis-text-secondary',
+      )}>
+      <Icon size={12} />
+      {primary && label}
+    </button>
+  );
+}
+
+function TabButton({ active, onClick, icon: Icon, label, disabled }: {
+  active: boolean; onClick: () => void; icon: any; label: string; disabled?: boolean;
+}) {
+  return (
+    <button onClick={onClick} disabled={disabled}
+      className={clsx(
+        'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[11px] font-semibold transition-colors disabled:opacity-30',
+        active ? 'bg-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text' : 'text-aegis-text-dim hover:text-aegis-text-muted',
+      )}>
+      <Icon size={12} /> {label}
+    </button>
+  );
+}
@@ -4,12 +4,18 @@
 
 import { ChatTabs } from '@/components/Chat/ChatTabs';
 import { ChatView } from '@/components/Chat/ChatView';
+import { ToolInspectorPanel } from '@/components/Chat/ToolInspector';
+import { RunTimelinePanel } from '@/components/Chat/RunTimeline';
 
 export function ChatPage() {
   return (
     <div className="flex flex-col h-full">
       <ChatTabs />
-      <ChatView />
+      <div className="flex flex-1 min-h-0">
+        <ChatView />
+        <ToolInspectorPanel />
+        <RunTimelinePanel />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,354 @@
+// ═══════════════════════════════════════════════════════════
+// CronJobEditor — Create / edit a cron job (cron.add / cron.update)
+// Covers all schedule kinds: cron expression, fixed interval, one-shot
+// ═══════════════════════════════════════════════════════════
+
+import { useState, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { Loader2, Clock, Repeat, CalendarClock } from 'lucide-react';
+import clsx from 'clsx';
+import { gateway } from '@/services/gateway';
+import { describeGatewayError } from '@/services/gatewayErrors';
+import { refreshGroup } from '@/stores/gatewayDataStore';
+import {
+  validateCron, describeSchedule, nextScheduleRuns,
+  isValidTimeZone, localTimeZone, wallClockToUtc, utcToWallClock,
+} from '@/utils/cron';
+
+type ScheduleKind = 'cron' | 'every' | 'at';
+type EveryUnit = 'minutes' | 'hours' | 'days';
+
+const UNIT_MS: Record<EveryUnit, number> = { minutes: 60_000, hours: 3_600_000, days: 86_400_000 };
+
+const CRON_PRESETS: { expr: string; key: string }[] = [
+  { expr: '*/15 * * * *', key: 'every15m' },
+  { expr: '0 * * * *',    key: 'hourly' },
+  { expr: '0 9 * * *',    key: 'daily9' },
+  { expr: '0 9 * * 1-5',  key: 'weekdays9' },
+  { expr: '0 9 * * 1',    key: 'weeklyMon' },
+  { expr: '0 9 1 * *',    key: 'monthly1st' },
+];
+
+const PREVIEW_COUNT = 5;
+
+// Full IANA list where supported (Chromium), else a short fallback
+const TIME_ZONES: string[] = (Intl as any).supportedValuesOf?.('timeZone')
+  ?? ['UTC', 'Europe/London', 'Europe/Berlin', 'Asia/Riyadh', 'Asia/Dubai', 'Asia/Tokyo', 'America/New_York', 'America/Los_Angeles'];
+
+// ── Form state ↔ Gateway job ─────────────────────────────
+
+/** Fields of a Gateway cron job the editor reads */
+export interface EditableJob {
+  id: string;
+  name?: string;
+  schedule?: any;
+  sessionTarget?: string;
+  payload?: any;
+  enabled?: boolean;
+  state?: { nextRunAtMs?: number };
+}
+
+interface EditorForm {
+  name: string;
+  kind: ScheduleKind;
+  expr: string;
+  tz: string;
+  everyValue: string;
+  everyUnit: EveryUnit;
+  at: string;              // datetime-local value, wall-clock in tz
+  sessionTarget: 'main' | 'isolated';
+  message: string;
+  enabled: boolean;
+}
+
+function formFromJob(job: EditableJob | null): EditorForm {
+  const s = job?.schedule || {};
+  const tz = s.tz || localTimeZone();
+  const everyMs = s.everyMs || 3_600_000;
+  const everyUnit: EveryUnit = everyMs % UNIT_MS.days === 0 ? 'days'
+    : everyMs % UNIT_MS.hours === 0 ? 'hours' : 'minutes';
+  const atMs = typeof s.atMs === 'number' ? s.atMs : s.at ? new Date(s.at).getTime() : Date.now() + UNIT_MS.hours;
+
+  return {
+    name: job?.name || '',
+    kind: (['cron', 'every', 'at'].includes(s.kind) ? s.kind : 'cron') as ScheduleKind,
+    expr: s.expr || '0 9 * * *',
+    tz,
+    everyValue: String(everyMs / UNIT_MS[everyUnit]),
+    everyUnit,
+    at: utcToWallClock(isNaN(atMs) ? Date.now() : atMs, tz),
+    sessionTarget: job?.sessionTarget === 'main' ? 'main' : 'isolated',
+    // Main-session jobs inject a system event; isolated jobs run an agent turn
+    message: job?.payload?.message ?? job?.payload?.text ?? '',
+    enabled: job?.enabled ?? true,
+  };
+}
+
+function scheduleFromForm(f: EditorForm): any {
+  if (f.kind === 'every') return { kind: 'every', everyMs: Math.round(parseFloat(f.everyValue) * UNIT_MS[f.everyUnit]) };
+  if (f.kind === 'at') {
+    const ms = wallClockToUtc(f.at, f.tz);
+    return { kind: 'at', at: ms !== null ? new Date(ms).toISOString() : '' };
+  }
+  return { kind: 'cron', expr: f.expr.trim(), tz: f.tz };
+}
+
+function payloadFromForm(f: EditorForm): any {
+  return f.sessionTarget === 'main'
+    ? { kind: 'systemEvent', text: f.message }
+    : { kind: 'agentTurn', message: f.message };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Editor modal
+// ═══════════════════════════════════════════════════════════
+
+export function CronJobEditor({ job, onClose, onSaved }: {
+  /** Job to edit — null creates a new one */
+  job: EditableJob | null;
+  onClose: () => void;
+  onSaved?: (jobId?: string) => void;
+}) {
+  const { t, i18n } = useTranslation();
+  const [form, setForm] = useState<EditorForm>(() => formFromJob(job));
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const set = <K extends keyof EditorForm>(key: K, value: EditorForm[K]) =>
+    setForm((f) => ({ ...f, [key]: value }));
+
+  // ── Validation ──
+  const scheduleError = useMemo((): string | null => {
+    if (!isValidTimeZone(form.tz)) return t('cronEditor.errTz');
+    if (form.kind === 'cron') return validateCron(form.expr);
+    if (form.kind === 'every') {
+      const v = parseFloat(form.everyValue);
+      if (!(v > 0) || v * UNIT_MS[form.everyUnit] < UNIT_MS.minutes) return t('cronEditor.errEvery');
+    }
+    if (form.kind === 'at') {
+      const ms = wallClockToUtc(form.at, form.tz);
+      if (ms === null) return t('cronEditor.errAt');
+      if (ms <= Date.now()) return t('cronEditor.errAtPast');
+    }
+    return null;
+  }, [form.tz, form.kind, form.expr, form.everyValue, form.everyUnit, form.at, t]);
+
+  const error = scheduleError
+    ?? (!form.name.trim() ? t('cronEditor.errName') : null)
+    ?? (!form.message.trim() ? t('cronEditor.errMessage') : null);
+
+  // ── Preview ──
+  const schedule = useMemo(() => scheduleFromForm(form), [form]);
+
+  const preview = useMemo(() => {
+    if (scheduleError) return { text: '', runs: [] as number[] };
+    // Keep the Gateway's own next run as the anchor while the interval is unchanged
+    const knownNext = job?.schedule?.everyMs === schedule.everyMs ? job?.state?.nextRunAtMs : undefined;
+    return { text: describeSchedule(schedule), runs: nextScheduleRuns(schedule, PREVIEW_COUNT, knownNext) };
+  }, [schedule, scheduleError, job]);
+
+  const fmtRun = useMemo(() => {
+    const fmt = new Intl.DateTimeFormat(i18n.language === 'ar' ? 'ar-SA' : 'en-US', {
+      timeZone: isValidTimeZone(form.tz) ? form.tz : 'UTC',
+      weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+    });
+    return (ms: number) => fmt.format(new Date(ms));
+  }, [form.tz, i18n.language]);
+
+  // ── Save ──
+  const save = async () => {
+    if (error) return;
+    setSaving(true);
+    setSaveError(null);
+    const fields = {
+      name: form.name.trim(),
+      schedule,
+      sessionTarget: form.sessionTarget,
+      payload: payloadFromForm(form),
+      enabled: form.enabled,
+    };
+    try {
+      const res = job
+        ? await gateway.call('cron.update', { jobId: job.id, patch: fields })
+        : await gateway.call('cron.add', { job: fields });
+      await refreshGroup('cron');
+      onSaved?.(job?.id ?? res?.id ?? res?.job?.id);
+      onClose();
+    } catch (e: any) {
+      setSaveError(describeGatewayError(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputCls = `w-full px-3 py-2 rounded-[10px] text-xs
+    bg-[rgb(var(--aegis-overlay)/0.03)] border border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text placeholder:text-aegis-text-muted
+    outline-none focus:border-aegis-accent/30 focus:bg-aegis-accent/[0.03] transition-all`;
+  const labelCls = 'text-[10px] uppercase tracking-[1px] text-aegis-text-dim font-bold mb-1.5 block';
+
+  const kinds: { id: ScheduleKind; icon: React.ElementType }[] = [
+    { id: 'cron', icon: Clock },
+    { id: 'every', icon: Repeat },
+    { id: 'at', icon: CalendarClock },
+  ];
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 backdrop-blur-sm"
+      onClick={onClose}>
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }} animate={{ scale: 1, opacity: 1 }} exit={{ scale: 0.95, opacity: 0 }}
+        onClick={e => e.stopPropagation()}
+        className="w-[600px] max-h-[90vh] overflow-y-auto p-6 rounded-2xl border border-[rgb(var(--aegis-overlay)/0.1)] shadow-2xl"
+        style={{ background: 'var(--aegis-bg-frosted)', backdropFilter: 'blur(40px)' }}>
+        <h3 className="text-base font-extrabold mb-5">
+          {job ? t('cronEditor.editTitle') : t('cronEditor.newTitle')}
+        </h3>
+
+        <div className="space-y-4">
+          {/* Name */}
+          <div>
+            <label className={labelCls}>{t('cronEditor.name')}</label>
+            <input value={form.name} onChange={e => set('name', e.target.value)} className={inputCls} dir="auto" autoFocus />
+          </div>
+
+          {/* Schedule kind */}
+          <div>
+            <label className={labelCls}>{t('cronEditor.schedule')}</label>
+            <div className="flex gap-1.5 mb-3">
+              {kinds.map(({ id, icon: Icon }) => (
+                <button key={id} onClick={() => set('kind', id)}
+                  className={clsx(
+                    'flex-1 flex items-center justify-center gap-1.5 py-2 rounded-[10px] text-[11px] font-semibold border transition-all',
+                    form.kind === id
+                      ? 'bg-aegis-accent/10 border-aegis-accent/30 text-aegis-accent'
+                      : 'bg-[rgb(var(--aegis-overlay)/0.02)] border-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text-muted hover:text-aegis-text-secondary',
+                  )}>
+                  <Icon size={12} /> {t(`cronEditor.kind.${id}`)}
+                </button>
+              ))}
+            </div>
+
+            {form.kind === 'cron' && (
+              <>
+                <input value={form.expr} onChange={e => set('expr', e.target.value)}
+                  placeholder="min hour day month weekday" className={clsx(inputCls, 'font-mono')} dir="ltr" />
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {CRON_PRESETS.map(p => (
+                    <button key={p.expr} onClick={() => set('expr', p.expr)}
+                      className={clsx(
+                        'text-[10px] px-2.5 py-1 rounded-full border transition-colors',
+                        form.expr.trim() === p.expr
+                          ? 'bg-aegis-primary/10 border-aegis-primary/30 text-aegis-primary'
+                          : 'border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-dim hover:text-aegis-text-muted',
+                      )}>
+                      {t(`cronEditor.preset.${p.key}`)}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {form.kind === 'every' && (
+              <div className="flex gap-2">
+                <input type="number" min={1} value={form.everyValue} onChange={e => set('everyValue', e.target.value)}
+                  className={clsx(inputCls, 'font-mono')} dir="ltr" />
+                <select value={form.everyUnit} onChange={e => set('everyUnit', e.target.value as EveryUnit)}
+                  className={clsx(inputCls, 'w-[140px]')}>
+                  {(Object.keys(UNIT_MS) as EveryUnit[]).map(u => (
+                    <option key={u} value={u}>{t(`cronEditor.unit.${u}`)}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {form.kind === 'at' && (
+              <input type="datetime-local" value={form.at} onChange={e => set('at', e.target.value)}
+                className={clsx(inputCls, 'font-mono')} dir="ltr" />
+            )}
+          </div>
+
+          {/* Timezone — applies to cron evaluation, "at" input and the preview */}
+          <div>
+            <label className={labelCls}>{t('cronEditor.timezone')}</label>
+            <input value={form.tz} onChange={e => set('tz', e.target.value)} list="cron-editor-tz"
+              className={clsx(inputCls, 'font-mono')} dir="ltr" />
+            <datalist id="cron-editor-tz">
+              {TIME_ZONES.map(z => <option key={z} value={z} />)}
+            </datalist>
+          </div>
+
+          {/* Preview */}
+          <div className="p-3 rounded-xl bg-[rgb(var(--aegis-overlay)/0.02)] border border-[rgb(var(--aegis-overlay)/0.06)]">
+            {preview.text ? (
+              <>
+                <div className="text-[12px] font-semibold text-aegis-text mb-2">{preview.text}</div>
+                <div className="text-[9px] uppercase tracking-[1px] text-aegis-text-dim font-bold mb-1">
+                  {t('cronEditor.nextRuns', { n: preview.runs.length, tz: form.tz })}
+                </div>
+                {preview.runs.length === 0 ? (
+                  <div className="text-[11px] text-aegis-text-dim">{t('cronEditor.noUpcoming')}</div>
+                ) : (
+                  <div className="space-y-0.5">
+                    {preview.runs.map(ms => (
+                      <div key={ms} className="text-[11px] font-mono text-aegis-text-muted">{fmtRun(ms)}</div>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-[11px] text-aegis-danger">{scheduleError}</div>
+            )}
+          </div>
+
+          {/* Target + payload */}
+          <div>
+            <label className={labelCls}>{t('cronEditor.target')}</label>
+            <div className="flex gap-1.5 mb-1.5">
+              {(['isolated', 'main'] as const).map(target => (
+                <button key={target} onClick={() => set('sessionTarget', target)}
+                  className={clsx(
+                    'flex-1 py-2 rounded-[10px] text-[11px] font-semibold border transition-all',
+                    form.sessionTarget === target
+                      ? 'bg-aegis-primary/10 border-aegis-primary/30 text-aegis-primary'
+                      : 'bg-[rgb(var(--aegis-overlay)/0.02)] border-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text-muted hover:text-aegis-text-secondary',
+                  )}>
+                  {t(`cronEditor.targetOpt.${target}`)}
+                </button>
+              ))}
+            </div>
+            <div className="text-[10px] text-aegis-text-dim mb-2">{t(`cronEditor.targetHint.${form.sessionTarget}`)}</div>
+            <textarea value={form.message} onChange={e => set('message', e.target.value)} rows={4} dir="auto"
+              placeholder={t('cronEditor.messagePlaceholder')} className={clsx(inputCls, 'resize-none')} />
+          </div>
+
+          {/* Enabled */}
+          <label className="flex items-center gap-2 text-[12px] text-aegis-text-muted cursor-pointer">
+            <input type="checkbox" checked={form.enabled} onChange={e => set('enabled', e.target.checked)}
+              className="accent-aegis-primary" />
+            {t('cronEditor.enabled')}
+          </label>
+        </div>
+
+        {(saveError || (error && !scheduleError)) && (
+          <div className="mt-4 text-[11px] text-aegis-danger">{saveError || error}</div>
+        )}
+
+        <div className="flex items-center justify-end gap-2 mt-5">
+          <button onClick={onClose}
+            className="px-4 py-2 rounded-xl text-[11px] text-aegis-text-muted hover:text-aegis-text-secondary transition-colors">
+            {t('cronEditor.cancel')}
+          </button>
+          <button onClick={save} disabled={!!error || saving}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-xl text-[11px] font-bold
+              bg-aegis-accent/10 border border-aegis-accent/25 text-aegis-accent
+              hover:bg-aegis-accent/15 transition-colors disabled:opacity-40">
+            {saving && <Loader2 size={12} className="animate-spin" />}
+            {job ? t('cronEditor.save') : t('cronEditor.create')}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -5,13 +5,16 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Play, RotateCcw, Loader2, Check, X, Plus, Search } from 'lucide-react';
+import { Play, RotateCcw, Loader2, Check, X, Plus, Search, Pencil, Trash2, LayoutTemplate } from 'lucide-react';
 import { gateway } from '@/services/gateway';
+import type { CronRunEntry } from '@/services/protocol';
 import { useChatStore } from '@/stores/chatStore';
 import { useGatewayDataStore, refreshGroup } from '@/stores/gatewayDataStore';
 import clsx from 'clsx';
 import { motion, AnimatePresence } from 'framer-motion';
 import { dataColor, themeHex, themeAlpha } from '@/utils/theme-colors';
+import { formatSchedule } from '@/utils/cron';
+import { CronJobEditor } from './CronJobEditor';
 
 // ═══════════════════════════════════════════════════════════
 // Types
@@ -38,9 +41,7 @@ interface CronJob {
   };
 }
 
-interface RunEntry {
-  ts: string;
-  status: string;
+interface RunEntry extends CronRunEntry {
   summary?: string;
   error?: string;
   durationMs?: number;
@@ -127,32 +128,6 @@ function getCronTemplates(t: (key: string) => string) {
 
 // ── Formatting ──
 
-function formatSchedule(schedule: any): string {
-  if (!schedule) return '—';
-  if (schedule.kind === 'every') {
-    const mins = Math.round((schedule.everyMs || 0) / 60000);
-    if (mins < 60) return `Every ${mins}m`;
-    const h = Math.floor(mins / 60), m = mins % 60;
-    return m > 0 ? `Every ${h}h ${m}m` : `Every ${h}h`;
-  }
-  if (schedule.kind === 'at') return new Date(schedule.at).toLocaleString();
-  if (schedule.kind === 'cron') {
-    const parts = (schedule.expr || '').split(' ');
-    if (parts.length >= 5) {
-      const [min, hour, dom, mon] = parts;
-      if (dom !== '*' && mon === '*' && hour !== '*') return `Monthly ${dom}${ordSuffix(dom)} ${fmtTime(hour, min)}`;
-      if (dom !== '*' && mon !== '*') return `${['','Jan','Feb','Mar','Apr','May','Jun','Jul','Aug','Sep','Oct','Nov','Dec'][+mon]||mon} ${dom} ${fmtTime(hour,min)}`;
-      if (hour.includes('*/')) return `Every ${hour.replace('*/','')}h`;
-      if (hour !== '*' && dom === '*') return `Daily ${fmtTime(hour, min)}`;
-    }
-    return schedule.expr;
-  }
-  return '—';
-}
-
-function ordSuffix(n: string) { const v = +n; return [1,21,31].includes(v)?'st':[2,22].includes(v)?'nd':[3,23].includes(v)?'rd':'th'; }
-function fmtTime(h: string, m: string) { const hr=+h, mm=m.padStart(2,'0'); return hr===0?`12:${mm}AM`:hr<12?`${hr}:${mm}AM`:hr===12?`12:${mm}PM`:`${hr-12}:${mm}PM`; }
-
 function formatTimeAgo(ts: string | number | null | undefined): string {
   if (ts == null) return '—';
   try {
@@ -379,6 +354,9 @@ export function CronMonitorPage() {
   const [selectedJobRuns, setSelectedJobRuns] = useState<RunEntry[]>([]);
   const [loadingRuns, setLoadingRuns] = useState(false);
   const [showTemplates, setShowTemplates] = useState(false);
+  // Editor modal: { job: null } = create, { job } = edit
+  const [editor, setEditor] = useState<{ job: CronJob | null } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [showAllLogs, setShowAllLogs] = useState(false);
 
@@ -460,7 +438,7 @@ export function CronMonitorPage() {
         await Promise.all(batch.map(async (job) => {
           try {
             const result = await gateway.call('cron.runs', { jobId: job.id });
-            const entries = (result?.entries || []).slice(-5).map((e: any) => ({
+            const entries = result.entries.slice(-5).map((e: any) => ({
               ...e, jobId: job.id, jobName: job.name || job.id,
             }));
             runsCache.current[job.id] = entries;
@@ -483,7 +461,7 @@ export function CronMonitorPage() {
     try {
       const job = jobsRef.current.find(j => j.id === jobId);
       const result = await gateway.call('cron.runs', { jobId });
-      const entries = (result?.entries || []).slice(-5).map((e: any) => ({
+      const entries = result.entries.slice(-5).map((e: any) => ({
         ...e, jobId, jobName: job?.name || jobId,
       }));
       runsCache.current[jobId] = entries;
@@ -519,7 +497,7 @@ export function CronMonitorPage() {
       try {
         const result = await gateway.call('cron.runs', { jobId: selectedJobId });
         if (fetchId !== selectedFetchId.current) return; // stale — discard
-        const entries = (result?.entries || []).slice(-14).reverse();
+        const entries = result.entries.slice(-14).reverse();
         setSelectedJobRuns(entries);
       } catch {
         if (fetchId !== selectedFetchId.current) return; // stale
@@ -550,6 +528,18 @@ export function CronMonitorPage() {
     }
   };
 
+  const deleteJob = async (jobId: string) => {
+    setActionLoading(`del-${jobId}`);
+    try {
+      await gateway.call('cron.remove', { jobId });
+      delete runsCache.current[jobId];
+      setRecentRuns(r => r.filter(run => run.jobId !== jobId));
+      if (selectedJobId === jobId) setSelectedJobId(null);
+      await refreshGroup('cron');
+    } catch { /* silent */ }
+    finally { setActionLoading(null); setConfirmDeleteId(null); }
+  };
+
   const cronTemplates = useMemo(() => getCronTemplates(t), [t]);
 
   const addTemplate = async (tpl: ReturnType<typeof getCronTemplates>[0]) => {
@@ -598,6 +588,11 @@ export function CronMonitorPage() {
           <RotateCcw size={12} className={loading ? 'animate-spin' : ''} /> Refresh
         </button>
         <button onClick={() => setShowTemplates(true)}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-[10px] border border-[rgb(var(--aegis-overlay)/0.06)]
+            text-[11px] font-semibold text-aegis-text-muted hover:text-aegis-text-secondary transition-colors">
+          <LayoutTemplate size={12} /> {t('cron.templates')}
+        </button>
+        <button onClick={() => setEditor({ job: null })}
           className="flex items-center gap-1.5 px-3 py-1.5 rounded-[10px]
             bg-aegis-accent/10 border border-aegis-accent/25 text-aegis-accent
             text-[11px] font-semibold hover:bg-aegis-accent/15 transition-colors">
@@ -860,6 +855,34 @@ export function CronMonitorPage() {
                       hover:text-aegis-text-secondary transition-colors disabled:opacity-40">
                     {selectedJob.enabled ? t('cronDetail.pause') : t('cronDetail.enable')}
                   </button>
+                  <button onClick={() => setEditor({ job: selectedJob })}
+                    disabled={!!actionLoading}
+                    title={t('cronDetail.edit')}
+                    className="w-9 shrink-0 flex items-center justify-center rounded-[10px]
+                      bg-[rgb(var(--aegis-overlay)/0.02)] border border-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text-muted
+                      hover:text-aegis-accent hover:border-aegis-accent/30 transition-colors disabled:opacity-40">
+                    <Pencil size={12} />
+                  </button>
+                  {confirmDeleteId === selectedJob.id ? (
+                    <button onClick={() => deleteJob(selectedJob.id)}
+                      onMouseLeave={() => setConfirmDeleteId(null)}
+                      disabled={!!actionLoading}
+                      className="px-3 shrink-0 rounded-[10px] text-[11px] font-bold
+                        bg-aegis-danger/10 border border-aegis-danger/30 text-aegis-danger transition-colors disabled:opacity-40">
+                      {actionLoading === `del-${selectedJob.id}`
+                        ? <Loader2 size={12} className="animate-spin" />
+                        : t('cronDetail.confirmDelete')}
+                    </button>
+                  ) : (
+                    <button onClick={() => setConfirmDeleteId(selectedJob.id)}
+                      disabled={!!actionLoading}
+                      title={t('cronDetail.delete')}
+                      className="w-9 shrink-0 flex items-center justify-center rounded-[10px]
+                        bg-[rgb(var(--aegis-overlay)/0.02)] border border-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text-muted
+                        hover:text-aegis-danger hover:border-aegis-danger/30 transition-colors disabled:opacity-40">
+                      <Trash2 size={12} />
+                    </button>
+                  )}
                 </div>
               </motion.div>
             ) : (
@@ -988,6 +1011,17 @@ export function CronMonitorPage() {
         )}
       </AnimatePresence>
 
+      {/* ═══ Job Editor Modal ═══ */}
+      <AnimatePresence>
+        {editor && (
+          <CronJobEditor
+            job={editor.job}
+            onClose={() => setEditor(null)}
+            onSaved={(id) => { if (id) setSelectedJobId(id); }}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Fix #7: keyframes moved to index.css — no more <style> recreation per render */}
     </div>
   );
@@ -0,0 +1,172 @@
+// ═══════════════════════════════════════════════════════════
+// Dashboard/FleetOverview.tsx
+// "All gateways" mode — totals across every gateway profile
+// plus one breakdown row per gateway (services/fleet.ts).
+// ═══════════════════════════════════════════════════════════
+
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Layers, DollarSign, BarChart3, Bot, Timer, ArrowRightLeft } from 'lucide-react';
+import clsx from 'clsx';
+import { GlassCard } from '@/components/shared/GlassCard';
+import { StatusDot } from '@/components/shared/StatusDot';
+import { useChatStore } from '@/stores/chatStore';
+import { useGatewayDataStore } from '@/stores/gatewayDataStore';
+import { useFleetStore } from '@/stores/fleetStore';
+import { useProfileStore } from '@/stores/profileStore';
+import { summarizeFleet, type CronHealth } from '@/services/fleet';
+import { switchProfile } from '@/services/profiles';
+import { fmtCostShort } from './components';
+
+function CronHealthBadges({ health }: { health: CronHealth }) {
+  const { t } = useTranslation();
+  return (
+    <div className="flex items-center gap-1.5 text-[10px] font-mono">
+      <span className="text-aegis-success" title={t('fleet.cronOk')}>✓{health.ok}</span>
+      <span className={health.failing > 0 ? 'text-aegis-danger font-bold' : 'text-aegis-text-dim'}
+        title={t('fleet.cronFailing')}>✗{health.failing}</span>
+      <span className="text-aegis-text-dim" title={t('fleet.cronDisabled')}>⏸{health.disabled}</span>
+    </div>
+  );
+}
+
+function TotalCard({ icon: Icon, iconClass, label, value, children }: {
+  icon: typeof Layers;
+  iconClass: string;
+  label: string;
+  value: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-1.5 px-3 py-2.5 rounded-xl bg-[rgb(var(--aegis-overlay)/0.02)] border border-[rgb(var(--aegis-overlay)/0.06)]">
+      <div className="flex items-center gap-1.5 text-[10px] text-aegis-text-muted font-medium">
+        <Icon size={12} className={iconClass} />
+        {label}
+      </div>
+      <div className="text-[18px] font-bold text-aegis-text leading-none tracking-tight">{value}</div>
+      {children}
+    </div>
+  );
+}
+
+export function FleetOverview({ delay }: { delay?: number }) {
+  const { t } = useTranslation();
+  const connected = useChatStore((s) => s.connected);
+  const sources   = useFleetStore((s) => s.sources);
+  const profiles  = useProfileStore((s) => s.profiles);
+  const activeId  = useProfileStore((s) => s.activeId);
+  const sessions  = useGatewayDataStore((s) => s.sessions);
+  const cost      = useGatewayDataStore((s) => s.costSummary);
+  const cronJobs  = useGatewayDataStore((s) => s.cronJobs);
+  const subAgents = useGatewayDataStore((s) => s.runningSubAgents);
+
+  const rows = useMemo(
+    () => summarizeFleet(connected),
+    // summarizeFleet reads the stores directly — these are its inputs
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [connected, sources, profiles, activeId, sessions, cost, cronJobs, subAgents],
+  );
+
+  const totals = useMemo(() => rows.reduce(
+    (acc, r) => ({
+      todayCost: acc.todayCost + r.todayCost,
+      monthCost: acc.monthCost + r.monthCost,
+      sessions: acc.sessions + r.sessions,
+      activeSessions: acc.activeSessions + r.activeSessions,
+      subAgents: acc.subAgents + r.subAgents,
+      cron: {
+        ok: acc.cron.ok + r.cron.ok,
+        failing: acc.cron.failing + r.cron.failing,
+        disabled: acc.cron.disabled + r.cron.disabled,
+      },
+    }),
+    { todayCost: 0, monthCost: 0, sessions: 0, activeSessions: 0, subAgents: 0, cron: { ok: 0, failing: 0, disabled: 0 } },
+  ), [rows]);
+
+  const online = rows.filter((r) => r.connected).length;
+
+  return (
+    <GlassCard delay={delay}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Layers size={15} className="text-aegis-primary" />
+          <span className="text-[13px] font-semibold text-aegis-text">{t('fleet.title')}</span>
+        </div>
+        <span className="text-[10px] text-aegis-text-dim font-mono">
+          {t('fleet.online', { online, total: rows.length })}
+        </span>
+      </div>
+
+      {/* ── Totals across gateways ── */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 mb-3">
+        <TotalCard icon={DollarSign} iconClass="text-aegis-primary" label={t('dashboard.todayCost')}
+          value={fmtCostShort(totals.todayCost)} />
+        <TotalCard icon={BarChart3} iconClass="text-aegis-accent" label={t('dashboard.thisMonth')}
+          value={fmtCostShort(totals.monthCost)} />
+        <TotalCard icon={Bot} iconClass="text-aegis-accent" label={t('fleet.sessions')}
+          value={String(totals.activeSessions)}>
+          <div className="text-[10px] text-aegis-text-dim">
+            {t('fleet.sessionsDetail', { total: totals.sessions, subAgents: totals.subAgents })}
+          </div>
+        </TotalCard>
+        <TotalCard icon={Timer} iconClass="text-aegis-warning" label={t('fleet.cronHealth')}
+          value={String(totals.cron.ok + totals.cron.failing + totals.cron.disabled)}>
+          <CronHealthBadges health={totals.cron} />
+        </TotalCard>
+      </div>
+
+      {/* ── Per-gateway breakdown ── */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-[11px]">
+          <thead>
+            <tr className="text-[9.5px] uppercase tracking-wider text-aegis-text-dim">
+              <th className="text-start font-semibold py-1.5">{t('fleet.gateway')}</th>
+              <th className="text-end font-semibold py-1.5">{t('dashboard.todayCost')}</th>
+              <th className="text-end font-semibold py-1.5">{t('dashboard.thisMonth')}</th>
+              <th className="text-end font-semibold py-1.5">{t('fleet.sessions')}</th>
+              <th className="text-end font-semibold py-1.5">{t('fleet.subAgents')}</th>
+              <th className="text-end font-semibold py-1.5 ps-3">{t('fleet.cronHealth')}</th>
+              <th className="w-7" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.profileId} className="border-t border-[rgb(var(--aegis-overlay)/0.05)]">
+                <td className="py-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <StatusDot status={r.connected ? 'active' : 'error'} size={6} />
+                    <span className="w-2 h-2 rounded-full shrink-0" style={{ background: r.color }} />
+                    <span className={clsx('truncate font-semibold', r.active ? 'text-aegis-text' : 'text-aegis-text-secondary')}>
+                      {r.name}
+                    </span>
+                    {r.active && (
+                      <span className="text-[8.5px] font-bold uppercase tracking-wider text-aegis-primary">{t('profiles.active')}</span>
+                    )}
+                    {!r.connected && r.error && (
+                      <span className="text-[10px] text-aegis-danger truncate max-w-[160px]" title={r.error}>{r.error}</span>
+                    )}
+                  </div>
+                </td>
+                <td className="py-2 text-end font-mono text-aegis-text">{fmtCostShort(r.todayCost)}</td>
+                <td className="py-2 text-end font-mono text-aegis-text-muted">{fmtCostShort(r.monthCost)}</td>
+                <td className="py-2 text-end font-mono text-aegis-text-muted">{r.activeSessions}/{r.sessions}</td>
+                <td className={clsx('py-2 text-end font-mono', r.subAgents > 0 ? 'text-aegis-accent' : 'text-aegis-text-dim')}>
+                  {r.subAgents}
+                </td>
+                <td className="py-2 ps-3"><div className="flex justify-end"><CronHealthBadges health={r.cron} /></div></td>
+                <td className="py-2 text-end">
+                  {!r.active && (
+                    <button onClick={() => switchProfile(r.profileId)} title={t('profiles.switch')}
+                      className="p-1 rounded-md text-aegis-text-dim hover:text-aegis-primary hover:bg-aegis-primary/10 transition-colors">
+                      <ArrowRightLeft size={12} />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </GlassCard>
+  );
+}
@@ -1,11 +1,11 @@
 // ═══════════════════════════════════════════════════════════
 // Dashboard/components.tsx
 // Sub-components: ContextRing, QuickAction, SessionItem,
-//                 FeedItem, AgentItem
+//                 FeedItem, AgentItem, BudgetBanner
 // ═══════════════════════════════════════════════════════════
 
 import { motion } from 'framer-motion';
-import { Loader2 } from 'lucide-react';
+import { Loader2, Wallet, ChevronRight } from 'lucide-react';
 import clsx from 'clsx';
 import { themeHex } from '@/utils/theme-colors';
 
@@ -82,7 +82,8 @@ export function ContextRing({ percentage }: { percentage: number }) {
 // QuickAction — Action button with hover glow
 // ═══════════════════════════════════════════════════════════
 export function QuickAction({ icon: Icon, label, glowColor, bgColor, iconColor, onClick, loading }: {
-  icon: React.ElementType;
+  /** Lucide icon, or an emoji string (prompt macros) */
+  icon: React.ElementType | string;
   label: string;
   glowColor: string;
   bgColor: string;
@@ -114,7 +115,9 @@ export function QuickAction({ icon: Icon, label, glowColor, bgColor, iconColor,
           className="w-9 h-9 rounded-[10px] flex items-center justify-center relative z-10 transition-transform duration-250 group-hover:scale-110"
           style={{ background: bgColor, border: `1px solid ${iconColor}25` }}
         >
-          <Icon size={18} style={{ color: iconColor }} />
+          {typeof Icon === 'string'
+            ? <span className="text-[17px] leading-none">{Icon}</span>
+            : <Icon size={18} style={{ color: iconColor }} />}
         </div>
       )}
       <span className="text-[10.5px] font-medium text-aegis-text-muted leading-tight text-center relative z-10 group-hover:text-aegis-text transition-colors">
@@ -240,3 +243,49 @@ export function AgentItem({ emoji, name, model, cost, costToday, maxCost, isFree
     </div>
   );
 }
+
+// ═══════════════════════════════════════════════════════════
+// BudgetBanner — Shown when any budget meter crosses 50%
+// ═══════════════════════════════════════════════════════════
+export function BudgetBanner({ percent, title, detail, actionLabel, onAction }: {
+  percent: number;
+  title: string;
+  detail: string;
+  actionLabel: string;
+  onAction: () => void;
+}) {
+  const color = percent >= 100 ? themeHex('danger')
+              : percent >= 80  ? themeHex('warning')
+              : themeHex('primary');
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -6 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="flex items-center gap-3 px-4 py-3 rounded-2xl border"
+      style={{ background: `${color}0d`, borderColor: `${color}33` }}
+    >
+      <Wallet size={16} style={{ color }} className="flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="text-[12px] font-bold" style={{ color }}>{title}</div>
+        <div className="text-[11px] text-aegis-text-muted truncate">{detail}</div>
+      </div>
+      <div className="w-28 h-1.5 rounded-full bg-[rgb(var(--aegis-overlay)/0.06)] overflow-hidden flex-shrink-0">
+        <div
+          className="h-full rounded-full transition-all duration-700"
+          style={{ width: `${Math.min(100, percent)}%`, background: color }}
+        />
+      </div>
+      <span className="text-[12px] font-bold font-mono flex-shrink-0" style={{ color }}>
+        {Math.round(percent)}%
+      </span>
+      <button
+        onClick={onAction}
+        className="flex items-center gap-0.5 text-[11px] text-aegis-text-muted hover:text-aegis-text transition-colors flex-shrink-0"
+      >
+        {actionLabel}
+        <ChevronRight size={12} className="rtl:rotate-180" />
+      </button>
+    </motion.div>
+  );
+}
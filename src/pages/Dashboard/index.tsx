@@ -13,9 +13,9 @@ import {
   ResponsiveContainer, CartesianGrid,
 } from 'recharts';
 import {
-  Heart, Mail, Calendar, RefreshCw, BarChart3, FileText,
+  RefreshCw, BarChart3,
   Wifi, WifiOff, Bot, Shield, Activity, Zap, ChevronRight,
-  TrendingUp, TrendingDown, DollarSign, Cpu,
+  TrendingUp, TrendingDown, DollarSign, Cpu, Layers,
 } from 'lucide-react';
 import { GlassCard } from '@/components/shared/GlassCard';
 import { PageTransition } from '@/components/shared/PageTransition';
@@ -23,14 +23,25 @@ import { StatusDot } from '@/components/shared/StatusDot';
 import { Sparkline } from '@/components/shared/Sparkline';
 import { useChatStore } from '@/stores/chatStore';
 import { useGatewayDataStore, refreshAll } from '@/stores/gatewayDataStore';
+import { useBudgetStore } from '@/stores/budgetStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useProfileStore } from '@/stores/profileStore';
+import { useFleetStore } from '@/stores/fleetStore';
+import { useMacroStore, macroName } from '@/stores/macroStore';
+import { worstMeter, describeMeter } from '@/services/budget';
 import { gateway } from '@/services/gateway';
+import { runMacro } from '@/services/macros';
 import clsx from 'clsx';
 import { themeHex, themeAlpha, dataColor } from '@/utils/theme-colors';
 
 import {
-  ContextRing, QuickAction, SessionItem, FeedItem, AgentItem,
+  ContextRing, QuickAction, SessionItem, FeedItem, AgentItem, BudgetBanner,
   fmtTokens, fmtCost, fmtCostShort, timeAgo, fmtUptime,
 } from './components';
+import { FleetOverview } from './FleetOverview';
+
+// Quick-action tile colors, cycled across the user's prompt macros
+const QUICK_ACTION_COLORS = ['danger', 'primary', 'success', 'warning', 'accent'] as const;
 
 // ── Agent emoji + display name helpers ───────────────────────
 
@@ -90,6 +101,14 @@ export function DashboardPage() {
   const sessions  = useGatewayDataStore((s) => s.sessions);
   const costData  = useGatewayDataStore((s) => s.costSummary);
   const usageData = useGatewayDataStore((s) => s.sessionsUsage);
+  const presence  = useGatewayDataStore((s) => s.presence);
+  const budgetMeters = useBudgetStore((s) => s.meters);
+  const budgetLimit  = useSettingsStore((s) => s.budgetLimit);
+  const profileCount = useProfileStore((s) => s.profiles.length);
+  const fleetEnabled = useFleetStore((s) => s.enabled);
+  const setFleetEnabled = useFleetStore((s) => s.setEnabled);
+  const showFleet    = fleetEnabled && profileCount > 1;
+  const macros       = useMacroStore((s) => s.macros);
 
   const [quickActionLoading, setQuickActionLoading] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
@@ -116,22 +135,10 @@ export function DashboardPage() {
     setTimeout(() => setRefreshing(false), 600);
   }, []);
 
-  // ── Quick Actions ────────────────────────────────────────────
-  const handleQuickAction = (action: string) => {
-    setQuickActionLoading(action);
-    const messages: Record<string, string> = {
-      heartbeat: 'Run a quick heartbeat check — emails, calendar, anything urgent?',
-      emails:    'Check my unread emails and summarize anything important.',
-      calendar:  "What's on my calendar today and tomorrow?",
-      compact:   'Compact the main session context',
-      status:    'Give me a full system status report',
-      summary:   'Summarize what we discussed in this session',
-    };
-    if (messages[action]) {
-      window.dispatchEvent(new CustomEvent('aegis:quick-action', {
-        detail: { message: messages[action], autoSend: true },
-      }));
-    }
+  // ── Quick Actions (prompt macros) ───────────────────────────
+  const handleQuickAction = (id: string) => {
+    setQuickActionLoading(id);
+    runMacro(id);
     setTimeout(() => setQuickActionLoading(null), 2000);
   };
 
@@ -214,6 +221,12 @@ export function DashboardPage() {
     }));
   }, [allDaily]);
 
+  // Budget banner — most-consumed meter, only once it reaches 50%
+  const budgetAlert = useMemo(() => {
+    const worst = worstMeter(budgetMeters);
+    return worst && worst.percent >= 50 ? worst : null;
+  }, [budgetMeters]);
+
   // Agent list from usageData
   const agentList = useMemo(() => {
     const raw: any[] = usageData?.aggregates?.byAgent || [];
@@ -285,6 +298,14 @@ export function DashboardPage() {
             <span>{t('dashboard.uptime')}: <span className="text-aegis-text">{fmtUptime(uptime)}</span></span>
             <span className="opacity-30">·</span>
             <span>{shortModel !== '—' ? shortModel : t('dashboard.model')}</span>
+            {presence.length > 0 && (
+              <>
+                <span className="opacity-30">·</span>
+                <span title={presence.map((p) => p.host || p.instanceId).filter(Boolean).join(', ')}>
+                  {t('dashboard.clients', { count: presence.length })}
+                </span>
+              </>
+            )}
           </div>
 
           {/* Status badge */}
@@ -305,6 +326,23 @@ export function DashboardPage() {
             }
           </div>
 
+          {/* All gateways toggle (only with 2+ profiles) */}
+          {profileCount > 1 && (
+            <button
+              onClick={() => setFleetEnabled(!fleetEnabled)}
+              className={clsx(
+                'flex items-center gap-1.5 px-2.5 py-1 rounded-lg border text-[10.5px] font-semibold transition-colors',
+                fleetEnabled
+                  ? 'bg-aegis-primary/10 border-aegis-primary/25 text-aegis-primary'
+                  : 'border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-muted hover:text-aegis-text',
+              )}
+              title={t('fleet.toggleHint')}
+            >
+              <Layers size={12} />
+              {t('fleet.toggle')}
+            </button>
+          )}
+
           {/* Refresh button */}
           <button
             onClick={handleRefresh}
@@ -329,6 +367,22 @@ export function DashboardPage() {
         </div>
       </div>
 
+      {/* ════ BUDGET BANNER (≥ 50% of any limit) ════ */}
+      {budgetAlert && (
+        <BudgetBanner
+          percent={budgetAlert.percent}
+          title={budgetAlert.percent >= 100
+            ? t('budget.exceededTitle')
+            : t('budget.alertTitle', { percent: Math.round(budgetAlert.percent) })}
+          detail={describeMeter(budgetAlert)}
+          actionLabel={t('budget.manage')}
+          onAction={() => navigate('/settings')}
+        />
+      )}
+
+      {/* ════ ALL GATEWAYS (fleet mode) ════ */}
+      {showFleet && <FleetOverview delay={0.03} />}
+
       {/* ════ SECTION 2: HERO CARDS (4 columns) ════ */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
 
@@ -366,7 +420,9 @@ export function DashboardPage() {
             {fmtCostShort(monthCost)}
           </div>
           <div className="text-[11px] text-aegis-text-dim">
-            {t('dashboard.monthBudget')}
+            {budgetLimit > 0
+              ? t('budget.ofLimit', { limit: fmtCostShort(budgetLimit) })
+              : t('dashboard.monthBudget')}
           </div>
           {spark30.length > 0 && (
             <Sparkline data={spark30} color={themeHex('accent')} width={120} height={30} />
@@ -506,29 +562,31 @@ export function DashboardPage() {
 
         {/* ── Quick Actions ── */}
         <GlassCard delay={0.20}>
-          <div className="flex items-center gap-2 mb-3">
-            <Zap size={15} className="text-aegis-accent" />
-            <span className="text-[13px] font-semibold text-aegis-text">{t('dashboard.quickActions')}</span>
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <Zap size={15} className="text-aegis-accent" />
+              <span className="text-[13px] font-semibold text-aegis-text">{t('dashboard.quickActions')}</span>
+            </div>
+            <button
+              onClick={() => navigate('/settings')}
+              className="flex items-center gap-0.5 text-[10px] text-aegis-primary hover:underline"
+            >
+              {t('macros.manage')}
+              <ChevronRight size={12} />
+            </button>
           </div>
+          {macros.length === 0 && (
+            <div className="text-center py-6 text-[11px] text-aegis-text-dim">{t('macros.empty')}</div>
+          )}
           <div className="grid grid-cols-3 gap-2">
-            <QuickAction icon={Heart}    label={t('dashboard.runHeartbeat')}
-              glowColor={themeAlpha('danger', 0.08)} bgColor={themeAlpha('danger', 0.1)} iconColor={themeHex('danger')}
-              onClick={() => handleQuickAction('heartbeat')} loading={quickActionLoading === 'heartbeat'} />
-            <QuickAction icon={Mail}     label={t('dashboard.checkEmails')}
-              glowColor={themeAlpha('primary', 0.08)} bgColor={themeAlpha('primary', 0.1)} iconColor={themeHex('primary')}
-              onClick={() => handleQuickAction('emails')}    loading={quickActionLoading === 'emails'} />
-            <QuickAction icon={Calendar} label={t('dashboard.checkCalendar')}
-              glowColor={themeAlpha('success', 0.08)} bgColor={themeAlpha('success', 0.1)} iconColor={themeHex('success')}
-              onClick={() => handleQuickAction('calendar')}  loading={quickActionLoading === 'calendar'} />
-            <QuickAction icon={RefreshCw} label={t('dashboard.compact')}
-              glowColor={themeAlpha('warning', 0.08)} bgColor={themeAlpha('warning', 0.1)} iconColor={themeHex('warning')}
-              onClick={() => handleQuickAction('compact')}   loading={quickActionLoading === 'compact'} />
-            <QuickAction icon={BarChart3} label={t('dashboard.systemStatus')}
-              glowColor={themeAlpha('accent', 0.08)} bgColor={themeAlpha('accent', 0.1)} iconColor={themeHex('accent')}
-              onClick={() => handleQuickAction('status')}    loading={quickActionLoading === 'status'} />
-            <QuickAction icon={FileText}  label={t('dashboard.sessionSummary')}
-              glowColor="rgb(var(--aegis-overlay) / 0.03)" bgColor="rgb(var(--aegis-overlay) / 0.04)" iconColor="rgb(var(--aegis-text-dim))"
-              onClick={() => handleQuickAction('summary')}   loading={quickActionLoading === 'summary'} />
+            {macros.map((m, i) => {
+              const color = QUICK_ACTION_COLORS[i % QUICK_ACTION_COLORS.length];
+              return (
+                <QuickAction key={m.id} icon={m.icon || Zap} label={macroName(m)}
+                  glowColor={themeAlpha(color, 0.08)} bgColor={themeAlpha(color, 0.1)} iconColor={themeHex(color)}
+                  onClick={() => handleQuickAction(m.id)} loading={quickActionLoading === m.id} />
+              );
+            })}
           </div>
         </GlassCard>
 
@@ -0,0 +1,381 @@
+// ═══════════════════════════════════════════════════════════
+// Diagnostics — connection state and WS traffic of the active gateway
+// Auth / challenge status, reconnect history with close codes, the
+// pending-request table, protocol (schema drift) warnings and a frame
+// inspector over the ring buffer kept by services/diagnostics.ts.
+// Works while disconnected.
+// ═══════════════════════════════════════════════════════════
+
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ArrowUpRight, ArrowDownLeft, Download, Pause, Play, Trash2, ShieldCheck, ShieldAlert,
+  History, Hourglass, Search, CheckCircle2, XCircle, Circle, FileWarning,
+} from 'lucide-react';
+import {
+  getDiagnostics, subscribeDiagnostics, setFrameRecordingPaused, clearFrames, clearProtocolWarnings, exportDiagnostics, closeCodeLabel,
+  type FrameRecord, type ConnectionEvent, type AuthStatus, type ProtocolWarning,
+} from '@/services/diagnostics';
+import { useChatStore } from '@/stores/chatStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { formatBytes } from '@/utils/format';
+import clsx from 'clsx';
+
+const FRAME_TYPES = ['all', 'req', 'res', 'event'] as const;
+const VISIBLE_FRAMES = 300;
+
+const timeOf = (ts: number) =>
+  new Date(ts).toLocaleTimeString(undefined, { hour12: false }) + '.' + String(ts % 1000).padStart(3, '0');
+
+const ageOf = (ms: number) => (ms < 1000 ? `${ms}ms` : ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60_000)}m ${Math.floor((ms % 60_000) / 1000)}s`);
+
+/** Re-render on recorder changes and once a second (pending-request ages) */
+function useDiagnostics() {
+  const [snapshot, setSnapshot] = useState(getDiagnostics);
+  useEffect(() => {
+    const refresh = () => setSnapshot(getDiagnostics());
+    const unsubscribe = subscribeDiagnostics(refresh);
+    const tick = setInterval(refresh, 1000);
+    return () => { unsubscribe(); clearInterval(tick); };
+  }, []);
+  return snapshot;
+}
+
+// ── Cards ────────────────────────────────────────────────
+
+function Card({ icon: Icon, title, right, children }: { icon: React.ElementType; title: string; right?: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <div className="rounded-2xl border border-[rgb(var(--aegis-overlay)/0.06)] bg-[rgb(var(--aegis-overlay)/0.02)] flex flex-col min-h-0">
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-[rgb(var(--aegis-overlay)/0.05)]">
+        <Icon size={14} className="text-aegis-primary" />
+        <span className="text-[12px] font-bold text-aegis-text">{title}</span>
+        <div className="flex-1" />
+        {right}
+      </div>
+      <div className="flex-1 min-h-0 overflow-y-auto">{children}</div>
+    </div>
+  );
+}
+
+function StateDot({ state }: { state: 'good' | 'bad' | 'idle' }) {
+  if (state === 'good') return <CheckCircle2 size={12} className="text-aegis-success shrink-0" />;
+  if (state === 'bad') return <XCircle size={12} className="text-aegis-danger shrink-0" />;
+  return <Circle size={12} className="text-aegis-text-dim shrink-0" />;
+}
+
+function AuthCard({ auth }: { auth: AuthStatus }) {
+  const { t } = useTranslation();
+  const rows: Array<{ label: string; value: string; state: 'good' | 'bad' | 'idle' }> = [
+    {
+      label: t('diagnostics.auth.challenge'),
+      value: t(`diagnostics.auth.challengeState.${auth.challenge}`) + (auth.challengeAt ? ` · ${timeOf(auth.challengeAt)}` : ''),
+      state: auth.challenge === 'received' ? 'good' : auth.challenge === 'timeout' ? 'bad' : 'idle',
+    },
+    {
+      label: t('diagnostics.auth.signature'),
+      value: t(`diagnostics.auth.signatureState.${auth.signature}`),
+      state: auth.signature === 'signed' ? 'good' : auth.signature === 'none' ? 'idle' : 'bad',
+    },
+    {
+      label: t('diagnostics.auth.device'),
+      value: auth.deviceId ? `${auth.deviceId.slice(0, 16)}…` : '—',
+      state: auth.deviceId ? 'good' : 'idle',
+    },
+    {
+      label: t('diagnostics.auth.handshake'),
+      value: t(`diagnostics.auth.handshakeState.${auth.handshake}`),
+      state: auth.handshake === 'ok' ? 'good' : auth.handshake === 'failed' ? 'bad' : 'idle',
+    },
+  ];
+  return (
+    <Card icon={auth.handshake === 'failed' ? ShieldAlert : ShieldCheck} title={t('diagnostics.auth.title')}>
+      <div className="px-4 py-2 space-y-2">
+        {rows.map((r) => (
+          <div key={r.label} className="flex items-center gap-2 text-[11px]">
+            <StateDot state={r.state} />
+            <span className="text-aegis-text-muted w-24 shrink-0">{r.label}</span>
+            <span className="text-aegis-text-secondary font-mono truncate" dir="ltr">{r.value}</span>
+          </div>
+        ))}
+        {auth.error && (
+          <p className="text-[11px] text-aegis-danger/90 break-words pt-1 border-t border-[rgb(var(--aegis-overlay)/0.05)]">{auth.error}</p>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+function eventDetail(e: ConnectionEvent, t: (k: string, o?: any) => string): string {
+  switch (e.kind) {
+    case 'close': return `${e.code} · ${closeCodeLabel(e.code ?? 0)}${e.reason ? ` — ${e.reason}` : ''}`;
+    case 'reconnect-scheduled': return t('diagnostics.history.reconnectDetail', { attempt: e.attempt, delay: ageOf(e.delayMs ?? 0) });
+    default: return e.detail || '';
+  }
+}
+
+function HistoryCard({ events }: { events: ConnectionEvent[] }) {
+  const { t } = useTranslation();
+  const bad = new Set(['close', 'error', 'handshake-failed', 'heartbeat-timeout']);
+  return (
+    <Card icon={History} title={t('diagnostics.history.title')}
+      right={<span className="text-[10px] text-aegis-text-dim">{events.length}</span>}>
+      {events.length === 0 ? (
+        <p className="px-4 py-6 text-center text-[11px] text-aegis-text-dim">{t('diagnostics.empty')}</p>
+      ) : (
+        <div className="divide-y divide-[rgb(var(--aegis-overlay)/0.04)]">
+          {[...events].reverse().map((e, i) => (
+            <div key={`${e.ts}-${i}`} className="flex items-start gap-2 px-4 py-1.5 text-[11px]">
+              <span className="font-mono text-aegis-text-dim shrink-0" dir="ltr">{timeOf(e.ts)}</span>
+              <span className={clsx('shrink-0 font-semibold', bad.has(e.kind) ? 'text-aegis-danger' : e.kind === 'handshake-ok' ? 'text-aegis-success' : 'text-aegis-text-secondary')}>
+                {t(`diagnostics.history.kind.${e.kind}`)}
+              </span>
+              <span className="text-aegis-text-muted break-all min-w-0" dir="ltr">{eventDetail(e, t)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function PendingCard({ pending }: { pending: ReturnType<typeof getDiagnostics>['pending'] }) {
+  const { t } = useTranslation();
+  const now = Date.now();
+  return (
+    <Card icon={Hourglass} title={t('diagnostics.pending.title')}
+      right={<span className="text-[10px] text-aegis-text-dim">{pending.length}</span>}>
+      {pending.length === 0 ? (
+        <p className="px-4 py-6 text-center text-[11px] text-aegis-text-dim">{t('diagnostics.pending.none')}</p>
+      ) : (
+        <table className="w-full text-[11px]">
+          <thead>
+            <tr className="text-aegis-text-dim text-start">
+              <th className="px-4 py-1.5 font-medium text-start">{t('diagnostics.pending.method')}</th>
+              <th className="px-2 py-1.5 font-medium text-start">{t('diagnostics.pending.id')}</th>
+              <th className="px-4 py-1.5 font-medium text-end">{t('diagnostics.pending.age')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...pending].sort((a, b) => a.startedAt - b.startedAt).map((p) => {
+              const age = now - p.startedAt;
+              return (
+                <tr key={p.id} className="border-t border-[rgb(var(--aegis-overlay)/0.04)]">
+                  <td className="px-4 py-1.5 font-mono text-aegis-text-secondary" dir="ltr">{p.method}</td>
+                  <td className="px-2 py-1.5 font-mono text-aegis-text-dim truncate max-w-[140px]" dir="ltr">{p.id}</td>
+                  <td className={clsx('px-4 py-1.5 font-mono text-end', age > 30_000 ? 'text-aegis-danger' : age > 5_000 ? 'text-aegis-warning' : 'text-aegis-text-muted')}>
+                    {ageOf(age)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </Card>
+  );
+}
+
+/** Results / events that didn't match services/protocol.ts */
+function ProtocolCard({ warnings }: { warnings: ProtocolWarning[] }) {
+  const { t } = useTranslation();
+  return (
+    <Card icon={FileWarning} title={t('diagnostics.protocol.title')}
+      right={warnings.length > 0 ? (
+        <button onClick={clearProtocolWarnings} className="text-[10px] text-aegis-text-dim hover:text-aegis-text-muted transition-colors">
+          {t('diagnostics.frames.clear')}
+        </button>
+      ) : undefined}>
+      {warnings.length === 0 ? (
+        <p className="px-4 py-6 text-center text-[11px] text-aegis-text-dim">{t('diagnostics.protocol.none')}</p>
+      ) : (
+        <div className="divide-y divide-[rgb(var(--aegis-overlay)/0.04)]">
+          {warnings.map((w) => (
+            <div key={`${w.kind}:${w.name}:${w.path}`} className="px-4 py-1.5 text-[11px]" dir="ltr">
+              <div className="flex items-center gap-1.5 min-w-0">
+                <span className="text-[9px] font-bold uppercase text-aegis-warning shrink-0">{t(`diagnostics.protocol.kind.${w.kind}`)}</span>
+                <span className="font-mono text-aegis-text-secondary truncate">
+                  {w.name}{w.path ? <span className="text-aegis-text-muted"> → {w.path}</span> : null}
+                </span>
+                <span className="flex-1" />
+                {w.count > 1 && <span className="font-mono text-[10px] text-aegis-text-dim shrink-0">×{w.count}</span>}
+              </div>
+              <div className="font-mono text-[10px] text-aegis-text-dim truncate" title={w.expected}>
+                {t('diagnostics.protocol.mismatch', { expected: w.expected, received: w.received })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// ── Frame inspector ──────────────────────────────────────
+
+function FrameRow({ frame, open, onToggle }: { frame: FrameRecord; open: boolean; onToggle: () => void }) {
+  const DirIcon = frame.dir === 'out' ? ArrowUpRight : ArrowDownLeft;
+  return (
+    <>
+      <tr onClick={onToggle}
+        className={clsx('cursor-pointer border-t border-[rgb(var(--aegis-overlay)/0.04)] hover:bg-[rgb(var(--aegis-overlay)/0.03)]', open && 'bg-aegis-primary/[0.04]')}>
+        <td className="px-4 py-1 font-mono text-aegis-text-dim whitespace-nowrap" dir="ltr">{timeOf(frame.ts)}</td>
+        <td className="px-2 py-1">
+          <DirIcon size={12} className={frame.dir === 'out' ? 'text-aegis-primary' : 'text-aegis-accent'} />
+        </td>
+        <td className="px-2 py-1 font-mono text-aegis-text-muted">{frame.type}</td>
+        <td className={clsx('px-2 py-1 font-mono truncate max-w-[260px]', frame.ok === false ? 'text-aegis-danger' : 'text-aegis-text-secondary')} dir="ltr">
+          {frame.name || '—'}
+        </td>
+        <td className="px-2 py-1 font-mono text-aegis-text-dim truncate max-w-[160px]" dir="ltr">{frame.id || ''}</td>
+        <td className="px-2 py-1 font-mono text-aegis-text-muted text-end whitespace-nowrap">{formatBytes(frame.size)}</td>
+        <td className="px-4 py-1 font-mono text-aegis-text-muted text-end whitespace-nowrap">
+          {frame.latencyMs !== undefined ? ageOf(frame.latencyMs) : ''}
+        </td>
+      </tr>
+      {open && (
+        <tr>
+          <td colSpan={7} className="px-4 pb-2">
+            <pre className="text-[11px] font-mono text-aegis-text-secondary whitespace-pre-wrap break-all max-h-[320px] overflow-auto rounded-lg p-3 bg-[rgb(var(--aegis-overlay)/0.04)]" dir="ltr">
+              {frame.payload !== undefined ? JSON.stringify(frame.payload, null, 2) : frame.preview}
+            </pre>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+export function DiagnosticsPage() {
+  const { t } = useTranslation();
+  const { url, frames, events, auth, pending, warnings, paused } = useDiagnostics();
+  const { connected, connecting, connectionError } = useChatStore();
+  const [type, setType] = useState<(typeof FRAME_TYPES)[number]>('all');
+  const [dir, setDir] = useState<'all' | 'in' | 'out'>('all');
+  const [filter, setFilter] = useState('');
+  const [openSeq, setOpenSeq] = useState<number | null>(null);
+
+  const visible = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const matches = frames.filter((f) =>
+      (type === 'all' || f.type === type) &&
+      (dir === 'all' || f.dir === dir) &&
+      (!needle || f.name.toLowerCase().includes(needle) || f.id?.toLowerCase().includes(needle)));
+    return matches.slice(-VISIBLE_FRAMES).reverse();
+  }, [frames, type, dir, filter]);
+
+  const totalBytes = useMemo(() => frames.reduce((sum, f) => sum + f.size, 0), [frames]);
+
+  const handleExport = async () => {
+    const result = await exportDiagnostics();
+    if (result.success) {
+      useNotificationStore.getState().addToast('info', t('diagnostics.title'), t('diagnostics.exported'));
+    } else if (!result.canceled) {
+      useNotificationStore.getState().addToast('info', t('diagnostics.title'), result.error || t('diagnostics.exportFailed'));
+    }
+  };
+
+  const chip = (active: boolean) => clsx(
+    'text-[10px] px-2.5 py-1 rounded-full border transition-colors',
+    active
+      ? 'bg-aegis-primary/15 border-aegis-primary/30 text-aegis-primary'
+      : 'border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-dim hover:text-aegis-text-muted',
+  );
+  const actionBtn = 'flex items-center gap-1.5 px-3 py-1.5 rounded-[10px] text-[11px] font-semibold border border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-muted hover:text-aegis-text hover:bg-[rgb(var(--aegis-overlay)/0.04)] transition-colors';
+
+  // ═══ RENDER ═══
+  return (
+    <div className="flex flex-col flex-1 min-h-0" style={{ minHeight: 'calc(100vh - 80px)' }}>
+
+      {/* ═══ COMMAND BAR ═══ */}
+      <div className="shrink-0 flex items-center gap-4 px-6 py-3 border-b border-[rgb(var(--aegis-overlay)/0.06)] bg-[rgb(var(--aegis-overlay)/0.004)]">
+        <div className="flex items-center gap-2 shrink-0">
+          <span className="text-base font-extrabold">🩺 {t('diagnostics.title')}</span>
+          <span className={clsx(
+            'text-[9px] font-extrabold px-2 py-0.5 rounded-md border uppercase tracking-[1px]',
+            connected ? 'bg-aegis-success/10 border-aegis-success/20 text-aegis-success'
+              : connecting ? 'bg-aegis-warning/10 border-aegis-warning/20 text-aegis-warning'
+              : 'bg-aegis-danger/10 border-aegis-danger/20 text-aegis-danger',
+          )}>
+            {connected ? t('connection.connected') : connecting ? t('connection.connecting') : t('connection.disconnected')}
+          </span>
+        </div>
+        <span className="text-[11px] font-mono text-aegis-text-dim truncate min-w-0" dir="ltr" title={connectionError || undefined}>
+          {url}{!connected && connectionError ? ` — ${connectionError}` : ''}
+        </span>
+        <div className="flex-1" />
+        <button onClick={handleExport} className={actionBtn}>
+          <Download size={12} /> {t('diagnostics.export')}
+        </button>
+      </div>
+
+      {/* ═══ STATUS CARDS ═══ */}
+      <div className="shrink-0 grid grid-cols-4 gap-3 px-6 py-4 h-[260px]">
+        <AuthCard auth={auth} />
+        <HistoryCard events={events} />
+        <PendingCard pending={pending} />
+        <ProtocolCard warnings={warnings} />
+      </div>
+
+      {/* ═══ FRAMES ═══ */}
+      <div className="shrink-0 flex items-center gap-3 flex-wrap px-6 py-2.5 border-y border-[rgb(var(--aegis-overlay)/0.06)]">
+        <span className="text-[12px] font-bold text-aegis-text">{t('diagnostics.frames.title')}</span>
+        <div className="flex items-center gap-1">
+          {FRAME_TYPES.map((ft) => (
+            <button key={ft} onClick={() => setType(ft)} className={chip(type === ft)}>
+              {ft === 'all' ? t('diagnostics.frames.allTypes') : ft}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          {(['all', 'out', 'in'] as const).map((d) => (
+            <button key={d} onClick={() => setDir(d)} className={chip(dir === d)}>
+              {t(`diagnostics.frames.dir.${d}`)}
+            </button>
+          ))}
+        </div>
+        <div className="relative">
+          <Search size={12} className="absolute start-2.5 top-1/2 -translate-y-1/2 text-aegis-text-muted pointer-events-none" />
+          <input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder={t('diagnostics.frames.filter')} dir="ltr"
+            className="ps-7 pe-2.5 py-1.5 w-[220px] rounded-[10px] text-[11px] bg-[rgb(var(--aegis-overlay)/0.03)] border border-[rgb(var(--aegis-overlay)/0.06)] text-aegis-text outline-none focus:border-aegis-accent/30" />
+        </div>
+        <div className="flex-1" />
+        <span className="text-[11px] text-aegis-text-dim">
+          {t('diagnostics.frames.count', { count: frames.length, size: formatBytes(totalBytes) })}
+        </span>
+        <button onClick={() => setFrameRecordingPaused(!paused)} className={actionBtn}>
+          {paused ? <Play size={12} /> : <Pause size={12} />}
+          {paused ? t('diagnostics.frames.resume') : t('diagnostics.frames.pause')}
+        </button>
+        <button onClick={() => { clearFrames(); setOpenSeq(null); }} className={actionBtn}>
+          <Trash2 size={12} /> {t('diagnostics.frames.clear')}
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto">
+        {visible.length === 0 ? (
+          <p className="px-6 py-10 text-center text-[12px] text-aegis-text-dim">{t('diagnostics.frames.none')}</p>
+        ) : (
+          <table className="w-full text-[11px]">
+            <thead className="sticky top-0 bg-aegis-bg z-[1]">
+              <tr className="text-aegis-text-dim">
+                <th className="px-4 py-1.5 font-medium text-start">{t('diagnostics.frames.time')}</th>
+                <th className="px-2 py-1.5" />
+                <th className="px-2 py-1.5 font-medium text-start">{t('diagnostics.frames.type')}</th>
+                <th className="px-2 py-1.5 font-medium text-start">{t('diagnostics.frames.name')}</th>
+                <th className="px-2 py-1.5 font-medium text-start">{t('diagnostics.frames.id')}</th>
+                <th className="px-2 py-1.5 font-medium text-end">{t('diagnostics.frames.size')}</th>
+                <th className="px-4 py-1.5 font-medium text-end">{t('diagnostics.frames.latency')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((f) => (
+                <FrameRow key={f.seq} frame={f} open={openSeq === f.seq}
+                  onToggle={() => setOpenSeq((s) => (s === f.seq ? null : f.seq))} />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
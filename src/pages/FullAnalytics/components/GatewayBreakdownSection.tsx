@@ -0,0 +1,96 @@
+// ═══════════════════════════════════════════════════════════
+// GatewayBreakdownSection — Cost per gateway profile + fleet total
+// Only rendered in the Dashboard's "All gateways" mode.
+// ═══════════════════════════════════════════════════════════
+
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Layers, Loader2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { GlassCard } from '@/components/shared/GlassCard';
+import { fetchFleetCost, type GatewayCost } from '@/services/fleet';
+import { formatUsd } from '../helpers';
+
+interface GatewayBreakdownSectionProps {
+  /** Days of history to request from each gateway */
+  days: number;
+  startDate: string;
+  endDate: string;
+  /** Bumped by the page's Refresh button */
+  refreshKey: number;
+}
+
+export function GatewayBreakdownSection({ days, startDate, endDate, refreshKey }: GatewayBreakdownSectionProps) {
+  const { t } = useTranslation();
+  const [costs, setCosts] = useState<GatewayCost[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchFleetCost(days)
+      .then((result) => { if (!cancelled) setCosts(result); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [days, refreshKey]);
+
+  // Same range rule as useAnalyticsData — open bounds include everything
+  const rows = useMemo(() => costs.map((g) => {
+    const daily = (g.cost?.daily || []).filter((d) =>
+      (!startDate || d.date >= startDate) && (!endDate || d.date <= endDate));
+    return { ...g, total: daily.reduce((sum, d) => sum + (d.totalCost || 0), 0) };
+  }).sort((a, b) => b.total - a.total), [costs, startDate, endDate]);
+
+  const fleetTotal = rows.reduce((sum, r) => sum + r.total, 0);
+  const maxCost = Math.max(...rows.map((r) => r.total), 0.001);
+
+  return (
+    <GlassCard delay={0.08}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Layers size={14} className="text-aegis-primary" />
+          <span className="text-[10px] text-aegis-text-dim uppercase tracking-widest font-bold">
+            {t('fleet.costByGateway')}
+          </span>
+          {loading && <Loader2 size={12} className="animate-spin text-aegis-text-dim" />}
+        </div>
+        <div className="text-[11px] text-aegis-text-muted">
+          {t('fleet.fleetTotal')}:{' '}
+          <span className="font-mono font-bold text-aegis-text">{formatUsd(fleetTotal)}</span>
+        </div>
+      </div>
+
+      <div className="space-y-2.5">
+        {rows.map((r, i) => {
+          const sharePct = fleetTotal > 0 ? ((r.total / fleetTotal) * 100).toFixed(1) : '0';
+          return (
+            <div key={r.profileId}>
+              <div className="flex items-center gap-2 text-[11px] mb-1">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ background: r.color }} />
+                <span className="font-semibold text-aegis-text-secondary truncate">{r.name}</span>
+                {r.active && (
+                  <span className="text-[8.5px] font-bold uppercase tracking-wider text-aegis-primary">{t('profiles.active')}</span>
+                )}
+                {!r.cost && !loading && (
+                  <span className="text-[10px] text-aegis-text-dim">{t('fleet.unavailable')}</span>
+                )}
+                <div className="flex-1" />
+                <span className="text-[9px] text-aegis-text-dim">{sharePct}%</span>
+                <span className="font-mono font-bold" style={{ color: r.color }}>{formatUsd(r.total)}</span>
+              </div>
+              <div className="w-full h-1.5 rounded-full bg-[rgb(var(--aegis-overlay)/0.04)] overflow-hidden">
+                <motion.div
+                  initial={{ width: 0 }}
+                  animate={{ width: `${Math.round((r.total / maxCost) * 100)}%` }}
+                  transition={{ duration: 0.8, delay: i * 0.05, ease: [0.22, 1, 0.36, 1] }}
+                  className="h-full rounded-full"
+                  style={{ background: r.color }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </GlassCard>
+  );
+}
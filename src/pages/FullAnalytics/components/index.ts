@@ -14,3 +14,4 @@ export { DateRangePicker }        from './DateRangePicker';
 export { LoadingSkeleton }        from './LoadingSkeleton';
 export { OverviewCards }          from './OverviewCards';
 export { ChartsSection }          from './ChartsSection';
+export { GatewayBreakdownSection } from './GatewayBreakdownSection';
@@ -9,6 +9,8 @@ import { Activity, AlertCircle, AlertTriangle, RefreshCw } from 'lucide-react';
 import clsx from 'clsx';
 import { PageTransition } from '@/components/shared/PageTransition';
 import { useChatStore }   from '@/stores/chatStore';
+import { useFleetStore }  from '@/stores/fleetStore';
+import { useProfileStore } from '@/stores/profileStore';
 
 import { useAnalyticsData }   from './useAnalyticsData';
 import { downloadCSV, copyAnalyticsText } from './helpers';
@@ -22,6 +24,7 @@ import {
   LoadingSkeleton,
   OverviewCards,
   ChartsSection,
+  GatewayBreakdownSection,
 } from './components';
 
 // ─────────────────────────────────────────────────────────────
@@ -57,9 +60,16 @@ export function FullAnalyticsPage() {
 
   const hasData = !!(costData || usageData);
   const [manualRefreshing, setManualRefreshing] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // "All gateways" mode (Dashboard toggle) adds a per-gateway cost breakdown
+  const fleetEnabled = useFleetStore((s) => s.enabled);
+  const profileCount = useProfileStore((s) => s.profiles.length);
+  const showFleet    = fleetEnabled && profileCount > 1;
 
   const handleRefresh = useCallback(async () => {
     setManualRefreshing(true);
+    setRefreshKey((k) => k + 1);
     await refresh();
     setTimeout(() => setManualRefreshing(false), 600);
   }, [refresh]);
@@ -187,6 +197,16 @@ export function FullAnalyticsPage() {
             periodInfo={periodInfo}
           />
 
+          {/* ── Section 1b: Cost per gateway (fleet mode) ── */}
+          {showFleet && (
+            <GatewayBreakdownSection
+              days={costData?.days || 30}
+              startDate={startDate}
+              endDate={endDate}
+              refreshKey={refreshKey}
+            />
+          )}
+
           {/* ── Section 2: Token Breakdown ── */}
           <TokenBreakdownSection totals={totals} />
 
@@ -0,0 +1,63 @@
+// ═══════════════════════════════════════════════════════════
+// ConfigDiff — unified line diff between two config texts
+// Unchanged runs fold to a "N unchanged lines" marker.
+// ═══════════════════════════════════════════════════════════
+
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { diffLines, toHunks, diffStats, type DiffLine } from '@/utils/diff';
+import clsx from 'clsx';
+
+const ROW_CLS: Record<DiffLine['op'], string> = {
+  same: 'text-aegis-text-muted',
+  add: 'bg-aegis-success/10 text-aegis-success',
+  del: 'bg-aegis-danger/10 text-aegis-danger',
+};
+
+const SIGN: Record<DiffLine['op'], string> = { same: ' ', add: '+', del: '-' };
+
+export function ConfigDiff({ oldText, newText, oldLabel, newLabel }: {
+  oldText: string;
+  newText: string;
+  oldLabel: string;
+  newLabel: string;
+}) {
+  const { t } = useTranslation();
+  const { hunks, stats } = useMemo(() => {
+    const lines = diffLines(oldText, newText);
+    return { hunks: toHunks(lines), stats: diffStats(lines) };
+  }, [oldText, newText]);
+
+  return (
+    <div className="flex flex-col min-h-0 h-full">
+      <div className="shrink-0 flex items-center gap-3 px-4 py-2 border-b border-[rgb(var(--aegis-overlay)/0.05)] text-[11px]">
+        <span className="text-aegis-danger font-mono">− {oldLabel}</span>
+        <span className="text-aegis-success font-mono">+ {newLabel}</span>
+        <div className="flex-1" />
+        <span className="font-mono text-aegis-success">+{stats.added}</span>
+        <span className="font-mono text-aegis-danger">−{stats.removed}</span>
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto font-mono text-[11px] leading-[18px]" dir="ltr">
+        {hunks.length === 0 ? (
+          <div className="px-4 py-8 text-center text-aegis-text-dim text-[12px] font-sans">{t('gatewayConfig.noDiff')}</div>
+        ) : hunks.map((hunk, h) => (
+          <div key={h}>
+            {hunk.skippedBefore > 0 && (
+              <div className="px-4 py-0.5 text-[10px] text-aegis-text-dim bg-[rgb(var(--aegis-overlay)/0.03)] font-sans">
+                ⋯ {t('gatewayConfig.unchangedLines', { count: hunk.skippedBefore })}
+              </div>
+            )}
+            {hunk.lines.map((line, i) => (
+              <div key={i} className={clsx('flex whitespace-pre', ROW_CLS[line.op])}>
+                <span className="w-10 shrink-0 text-end pe-2 text-aegis-text-dim select-none">{line.oldNo ?? ''}</span>
+                <span className="w-10 shrink-0 text-end pe-2 text-aegis-text-dim select-none">{line.newNo ?? ''}</span>
+                <span className="w-4 shrink-0 select-none">{SIGN[line.op]}</span>
+                <span className="pe-4">{line.text}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+// ═══════════════════════════════════════════════════════════
+// ConfigTree — structured editor for the whole gateway config
+// Objects and arrays fold; strings, numbers, booleans and null are
+// edited in place. Secret-looking keys are masked until revealed.
+// Fields with a schema issue are marked (paths as in SchemaIssue).
+// ═══════════════════════════════════════════════════════════
+
+import { useState, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronRight, Plus, Trash2, Eye, EyeOff, AlertTriangle } from 'lucide-react';
+import type { SchemaIssue } from '@/utils/schema';
+import clsx from 'clsx';
+
+type Path = (string | number)[];
+type Json = unknown;
+
+const SECRET_KEY = /token|secret|password|api[-_]?key|authorization|cookie/i;
+
+const isContainer = (v: Json): v is Record<string, Json> | Json[] => v !== null && typeof v === 'object';
+
+/** ['agents', 'list', 0, 'model'] → "agents.list[].model" (SchemaIssue path form) */
+function issuePathOf(path: Path): string {
+  return path.reduce<string>((acc, key) => (typeof key === 'number' ? `${acc}[]` : acc ? `${acc}.${key}` : key), '');
+}
+
+type IssueMatcher = { test: RegExp; issue: SchemaIssue };
+
+/** Record schemas report their keys as "*" ("models.providers.*.apiKey") */
+function issueMatchers(issues: SchemaIssue[]): IssueMatcher[] {
+  return issues.map((issue) => ({
+    issue,
+    test: new RegExp(`^${issue.path.replace(/[.[\]]/g, '\\$&').replace(/\*/g, '[^.\\[]+')}$`),
+  }));
+}
+
+// ── Immutable updates ────────────────────────────────────
+
+function setIn(root: Json, path: Path, value: Json): Json {
+  if (path.length === 0) return value;
+  const [key, ...rest] = path;
+  if (Array.isArray(root)) {
+    const copy = root.slice();
+    copy[key as number] = setIn(root[key as number], rest, value);
+    return copy;
+  }
+  const obj = (root ?? {}) as Record<string, Json>;
+  return { ...obj, [key]: setIn(obj[key as string], rest, value) };
+}
+
+function deleteIn(root: Json, path: Path): Json {
+  const [key, ...rest] = path;
+  if (rest.length > 0) {
+    const child = Array.isArray(root) ? root[key as number] : (root as Record<string, Json>)[key as string];
+    return setIn(root, [key], deleteIn(child, rest));
+  }
+  if (Array.isArray(root)) return root.filter((_, i) => i !== key);
+  const { [key as string]: _removed, ...restObj } = root as Record<string, Json>;
+  return restObj;
+}
+
+/** New values are typed as JSON; anything that isn't JSON is a string */
+function parseLoose(text: string): Json {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// ── Leaf editors ─────────────────────────────────────────
+
+const inputCls = 'flex-1 min-w-0 bg-transparent border border-transparent hover:border-[rgb(var(--aegis-overlay)/0.1)] focus:border-aegis-primary/50 rounded px-1.5 py-0.5 text-[11px] font-mono outline-none';
+
+function LeafEditor({ name, value, onSet }: { name: string; value: Json; onSet: (v: Json) => void }) {
+  const { t } = useTranslation();
+  const [reveal, setReveal] = useState(false);
+  const [numText, setNumText] = useState<string | null>(null);
+
+  if (typeof value === 'boolean') {
+    return (
+      <button
+        onClick={() => onSet(!value)}
+        className={clsx('text-[11px] font-mono px-2 py-0.5 rounded border',
+          value ? 'text-aegis-success border-aegis-success/30 bg-aegis-success/10' : 'text-aegis-text-dim border-[rgb(var(--aegis-overlay)/0.1)]')}
+      >
+        {String(value)}
+      </button>
+    );
+  }
+
+  if (typeof value === 'number') {
+    return (
+      <input
+        type="number"
+        value={numText ?? String(value)}
+        onChange={(e) => setNumText(e.target.value)}
+        onBlur={() => {
+          const parsed = numText === null ? value : Number(numText);
+          if (numText !== null && numText.trim() !== '' && Number.isFinite(parsed)) onSet(parsed);
+          setNumText(null);
+        }}
+        className={clsx(inputCls, 'text-aegis-accent')}
+        dir="ltr"
+      />
+    );
+  }
+
+  if (value === null) {
+    return (
+      <input
+        defaultValue=""
+        placeholder="null"
+        onBlur={(e) => { if (e.target.value.trim()) onSet(parseLoose(e.target.value)); }}
+        className={clsx(inputCls, 'text-aegis-text-dim placeholder:text-aegis-text-dim')}
+        dir="ltr"
+      />
+    );
+  }
+
+  const secret = SECRET_KEY.test(name);
+  return (
+    <>
+      <input
+        type={secret && !reveal ? 'password' : 'text'}
+        value={String(value)}
+        onChange={(e) => onSet(e.target.value)}
+        className={clsx(inputCls, 'text-aegis-warning')}
+        dir="ltr"
+        spellCheck={false}
+      />
+      {secret && (
+        <button onClick={() => setReveal((v) => !v)} title={reveal ? t('gatewayConfig.hide') : t('gatewayConfig.reveal')}
+          className="p-0.5 text-aegis-text-dim hover:text-aegis-text">
+          {reveal ? <EyeOff size={11} /> : <Eye size={11} />}
+        </button>
+      )}
+    </>
+  );
+}
+
+// ── Nodes ────────────────────────────────────────────────
+
+interface NodeProps {
+  name: string;
+  value: Json;
+  path: Path;
+  depth: number;
+  issues: IssueMatcher[];
+  expandAll: boolean | null;
+  onSet: (path: Path, value: Json) => void;
+  onDelete: (path: Path) => void;
+}
+
+function AddChild({ isArray, onAdd, onCancel }: { isArray: boolean; onAdd: (key: string, value: Json) => void; onCancel: () => void }) {
+  const { t } = useTranslation();
+  const [key, setKey] = useState('');
+  const [value, setValue] = useState('');
+  const submit = () => {
+    if (!isArray && !key.trim()) return;
+    onAdd(key.trim(), value.trim() ? parseLoose(value) : '');
+  };
+  const onKey = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') submit();
+    if (e.key === 'Escape') onCancel();
+  };
+  return (
+    <div className="flex items-center gap-1.5 py-0.5">
+      {!isArray && (
+        <input autoFocus value={key} onChange={(e) => setKey(e.target.value)} onKeyDown={onKey}
+          placeholder={t('gatewayConfig.newKey')} className={clsx(inputCls, 'max-w-[160px] border-[rgb(var(--aegis-overlay)/0.1)]')} dir="ltr" />
+      )}
+      <input autoFocus={isArray} value={value} onChange={(e) => setValue(e.target.value)} onKeyDown={onKey}
+        placeholder={t('gatewayConfig.newValue')} className={clsx(inputCls, 'border-[rgb(var(--aegis-overlay)/0.1)]')} dir="ltr" />
+      <button onClick={submit} className="text-[10px] px-2 py-0.5 rounded bg-aegis-primary/15 text-aegis-primary">{t('gatewayConfig.add')}</button>
+    </div>
+  );
+}
+
+function Node({ name, value, path, depth, issues, expandAll, onSet, onDelete }: NodeProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(depth < 2);
+  const [adding, setAdding] = useState(false);
+  const issue = path.length > 0 ? issues.find((m) => m.test.test(issuePathOf(path)))?.issue : undefined;
+  const expanded = expandAll ?? open;
+
+  const label = (
+    <span className={clsx('font-mono text-[11px] shrink-0', typeof path[path.length - 1] === 'number' ? 'text-aegis-text-dim' : 'text-aegis-text-secondary')} dir="ltr">
+      {name}
+    </span>
+  );
+  const issueMark = issue && (
+    <span title={`${issue.path}: expected ${issue.expected}, got ${issue.received}`} className="text-aegis-danger shrink-0">
+      <AlertTriangle size={11} />
+    </span>
+  );
+  const removeBtn = depth > 0 && (
+    <button onClick={() => onDelete(path)} title={t('gatewayConfig.remove')}
+      className="p-0.5 text-aegis-text-dim opacity-0 group-hover:opacity-100 hover:text-aegis-danger transition-opacity shrink-0">
+      <Trash2 size={11} />
+    </button>
+  );
+
+  if (!isContainer(value)) {
+    return (
+      <div className="group flex items-center gap-2 py-[1px]" style={{ paddingInlineStart: depth * 14 + 14 }}>
+        {label}
+        <span className="text-aegis-text-dim text-[11px]">:</span>
+        <LeafEditor name={name} value={value} onSet={(v) => onSet(path, v)} />
+        {issueMark}
+        {removeBtn}
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries: [string | number, Json][] = isArray ? value.map((v, i) => [i, v]) : Object.entries(value);
+
+  return (
+    <div>
+      {depth > 0 && (
+        <div className="group flex items-center gap-1.5 py-[1px] cursor-pointer" style={{ paddingInlineStart: depth * 14 }}
+          onClick={() => setOpen(!expanded)}>
+          <ChevronRight size={12} className={clsx('text-aegis-text-dim transition-transform shrink-0', expanded && 'rotate-90')} />
+          {label}
+          <span className="text-[10px] text-aegis-text-dim font-mono">{isArray ? `[${entries.length}]` : `{${entries.length}}`}</span>
+          {issueMark}
+          <button onClick={(e) => { e.stopPropagation(); setOpen(true); setAdding(true); }} title={t('gatewayConfig.add')}
+            className="p-0.5 text-aegis-text-dim opacity-0 group-hover:opacity-100 hover:text-aegis-primary transition-opacity shrink-0">
+            <Plus size={11} />
+          </button>
+          {removeBtn}
+        </div>
+      )}
+      {(expanded || depth === 0) && (
+        <>
+          {entries.map(([key, child]) => (
+            <Node key={String(key)} name={String(key)} value={child} path={[...path, key]} depth={depth + 1}
+              issues={issues} expandAll={expandAll} onSet={onSet} onDelete={onDelete} />
+          ))}
+          {(adding || depth === 0) && (
+            <div style={{ paddingInlineStart: (depth + 1) * 14 + 14 }}>
+              {adding ? (
+                <AddChild
+                  isArray={isArray}
+                  onCancel={() => setAdding(false)}
+                  onAdd={(key, v) => {
+                    onSet([...path, isArray ? entries.length : key], v);
+                    setAdding(false);
+                  }}
+                />
+              ) : (
+                <button onClick={() => setAdding(true)} className="flex items-center gap-1 text-[10px] text-aegis-text-dim hover:text-aegis-primary py-1">
+                  <Plus size={10} /> {t('gatewayConfig.addKey')}
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// ── Tree ─────────────────────────────────────────────────
+
+export function ConfigTree({ value, issues, expandAll, onChange }: {
+  value: Record<string, unknown>;
+  issues: SchemaIssue[];
+  /** true / false forces every node open / closed; null leaves it to each node */
+  expandAll: boolean | null;
+  onChange: (next: Record<string, unknown>) => void;
+}) {
+  const matchers = useMemo(() => issueMatchers(issues), [issues]);
+  return (
+    <div className="py-2 px-2">
+      <Node
+        name=""
+        value={value}
+        path={[]}
+        depth={0}
+        issues={matchers}
+        expandAll={expandAll}
+        onSet={(path, v) => onChange(setIn(value, path, v) as Record<string, unknown>)}
+        onDelete={(path) => onChange(deleteIn(value, path) as Record<string, unknown>)}
+      />
+    </div>
+  );
+}
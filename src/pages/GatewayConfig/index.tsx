@@ -0,0 +1,364 @@
+// ═══════════════════════════════════════════════════════════
+// Gateway Config — edit the whole gateway config
+// Structured tree and raw JSON edit the same draft text; the diff view
+// compares it with the live config (or a conflicting save, or a
+// history entry). Saves are hash-checked in services/gatewayConfig.ts
+// and every applied config lands in the per-profile history panel.
+// ═══════════════════════════════════════════════════════════
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Save, RotateCw, RefreshCw, History, ChevronsDown, ChevronsUp, AlertTriangle, GitCompare,
+  Undo2, Trash2, Loader2, FileWarning,
+} from 'lucide-react';
+import {
+  loadGatewayConfig, saveGatewayConfig, parseConfigText, formatConfig, listConfigHistory, clearConfigHistory,
+  ConfigConflictError, type ConfigHistoryEntry,
+} from '@/services/gatewayConfig';
+import { validateGatewayConfig, type ConfigSnapshot } from '@/services/protocol';
+import { describeGatewayError } from '@/services/gatewayErrors';
+import { PROFILE_SWITCHED_EVENT } from '@/services/profiles';
+import { useChatStore } from '@/stores/chatStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { ConfigTree } from './ConfigTree';
+import { ConfigDiff } from './ConfigDiff';
+import clsx from 'clsx';
+
+type Mode = 'tree' | 'raw' | 'diff';
+/** What the diff view compares */
+type Compare = { kind: 'draft' } | { kind: 'theirs' } | { kind: 'history'; entry: ConfigHistoryEntry };
+
+const shortHash = (hash?: string) => (hash ? hash.slice(0, 8) : '—');
+
+const timeOf = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+
+const SOURCE_CLS: Record<ConfigHistoryEntry['source'], string> = {
+  before: 'bg-[rgb(var(--aegis-overlay)/0.05)] text-aegis-text-dim',
+  saved: 'bg-aegis-primary/10 text-aegis-primary',
+  rollback: 'bg-aegis-warning/10 text-aegis-warning',
+};
+
+export function GatewayConfigPage() {
+  const { t } = useTranslation();
+  const { connected } = useChatStore();
+
+  const [base, setBase] = useState<ConfigSnapshot | null>(null);
+  const [text, setText] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [mode, setMode] = useState<Mode>('tree');
+  const [compare, setCompare] = useState<Compare>({ kind: 'draft' });
+  const [expandAll, setExpandAll] = useState<boolean | null>(null);
+  /** Someone else's save, found when ours was checked */
+  const [conflict, setConflict] = useState<ConfigSnapshot | null>(null);
+  /** Set when a history entry was restored into the editor — the save is recorded as a rollback */
+  const [restoredFrom, setRestoredFrom] = useState<ConfigHistoryEntry | null>(null);
+  const [history, setHistory] = useState<ConfigHistoryEntry[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [confirm, setConfirm] = useState<'apply' | 'reload' | 'clear' | null>(null);
+
+  const baseText = useMemo(() => (base ? formatConfig(base.config) : ''), [base]);
+  const parsed = useMemo(() => parseConfigText(text), [text]);
+  const issues = useMemo(() => (parsed.config ? validateGatewayConfig(parsed.config) : []), [parsed]);
+  const dirty = !!base && text !== baseText;
+
+  const toast = (body: string) => useNotificationStore.getState().addToast('info', t('gatewayConfig.title'), body);
+
+  const refreshHistory = useCallback(() => {
+    listConfigHistory().then(setHistory).catch(() => setHistory([]));
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const snapshot = await loadGatewayConfig();
+      setBase(snapshot);
+      setText(formatConfig(snapshot.config));
+      setConflict(null);
+      setRestoredFrom(null);
+      setCompare({ kind: 'draft' });
+    } catch (err) {
+      setLoadError(describeGatewayError(err));
+    } finally {
+      setLoading(false);
+    }
+    refreshHistory();
+  }, [refreshHistory]);
+
+  useEffect(() => {
+    if (connected) load();
+  }, [connected, load]);
+
+  useEffect(() => {
+    const onSwitch = () => { setBase(null); setText(''); setHistory([]); };
+    window.addEventListener(PROFILE_SWITCHED_EVENT, onSwitch);
+    return () => window.removeEventListener(PROFILE_SWITCHED_EVENT, onSwitch);
+  }, []);
+
+  // Two-click confirms reset after a moment
+  useEffect(() => {
+    if (!confirm) return;
+    const timer = setTimeout(() => setConfirm(null), 3000);
+    return () => clearTimeout(timer);
+  }, [confirm]);
+
+  // ── Actions ──
+
+  const save = async (apply: boolean) => {
+    if (!base || !parsed.config || saving) return;
+    if (apply && confirm !== 'apply') { setConfirm('apply'); return; }
+    setConfirm(null);
+    setSaving(true);
+    try {
+      const saved = await saveGatewayConfig(parsed.config, base, { apply, source: restoredFrom ? 'rollback' : 'saved' });
+      setBase(saved);
+      setText(formatConfig(saved.config));
+      setConflict(null);
+      setRestoredFrom(null);
+      setCompare({ kind: 'draft' });
+      toast(apply ? t('gatewayConfig.applied') : t('gatewayConfig.saved'));
+    } catch (err) {
+      if (err instanceof ConfigConflictError) {
+        setConflict(err.live);
+        setCompare({ kind: 'theirs' });
+        setMode('diff');
+      } else {
+        toast(t('gatewayConfig.saveFailed', { error: describeGatewayError(err) }));
+      }
+    } finally {
+      setSaving(false);
+      refreshHistory();
+    }
+  };
+
+  const reload = () => {
+    if (dirty && confirm !== 'reload') { setConfirm('reload'); return; }
+    setConfirm(null);
+    load();
+  };
+
+  /** Conflict: drop the draft and continue from their version */
+  const takeTheirs = () => {
+    if (!conflict) return;
+    setBase(conflict);
+    setText(formatConfig(conflict.config));
+    setConflict(null);
+    setRestoredFrom(null);
+    setCompare({ kind: 'draft' });
+  };
+
+  /** Conflict: keep the draft, rebased on their version — the next save overwrites it knowingly */
+  const keepMine = () => {
+    if (!conflict) return;
+    setBase(conflict);
+    setConflict(null);
+    setCompare({ kind: 'draft' });
+  };
+
+  const restore = (entry: ConfigHistoryEntry) => {
+    setText(formatConfig(entry.config));
+    setRestoredFrom(entry);
+    setCompare({ kind: 'draft' });
+    setMode('diff');
+  };
+
+  const clearHistory = async () => {
+    if (confirm !== 'clear') { setConfirm('clear'); return; }
+    setConfirm(null);
+    await clearConfigHistory();
+    refreshHistory();
+  };
+
+  const diffSides = useMemo(() => {
+    if (compare.kind === 'theirs' && conflict) {
+      return { oldText: baseText, newText: formatConfig(conflict.config), oldLabel: t('gatewayConfig.loaded'), newLabel: t('gatewayConfig.theirs') };
+    }
+    if (compare.kind === 'history') {
+      return {
+        oldText: baseText,
+        newText: formatConfig(compare.entry.config),
+        oldLabel: t('gatewayConfig.live'),
+        newLabel: `${t(`gatewayConfig.source.${compare.entry.source}`)} · ${timeOf(compare.entry.savedAt)}`,
+      };
+    }
+    return { oldText: baseText, newText: text, oldLabel: t('gatewayConfig.live'), newLabel: t('gatewayConfig.draft') };
+  }, [compare, conflict, baseText, text, t]);
+
+  const chip = (active: boolean) => clsx(
+    'text-[10px] px-2.5 py-1 rounded-full border transition-colors',
+    active
+      ? 'bg-aegis-primary/15 border-aegis-primary/30 text-aegis-primary'
+      : 'border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-dim hover:text-aegis-text-muted',
+  );
+  const actionBtn = 'flex items-center gap-1.5 px-3 py-1.5 rounded-[10px] text-[11px] font-semibold border border-[rgb(var(--aegis-overlay)/0.08)] text-aegis-text-muted hover:text-aegis-text hover:bg-[rgb(var(--aegis-overlay)/0.04)] transition-colors disabled:opacity-40 disabled:pointer-events-none';
+  const canSave = dirty && !!parsed.config && !conflict && !saving;
+
+  // ═══ RENDER ═══
+  return (
+    <div className="flex flex-col flex-1 min-h-0" style={{ minHeight: 'calc(100vh - 80px)' }}>
+
+      {/* ═══ COMMAND BAR ═══ */}
+      <div className="shrink-0 flex items-center gap-3 px-6 py-3 border-b border-[rgb(var(--aegis-overlay)/0.06)] bg-[rgb(var(--aegis-overlay)/0.004)]">
+        <span className="text-base font-extrabold shrink-0">🧾 {t('gatewayConfig.title')}</span>
+        <span className="text-[10px] font-mono text-aegis-text-dim" dir="ltr" title={base?.hash || base?.baseHash}>
+          {shortHash(base?.hash || base?.baseHash)}
+        </span>
+        {dirty && (
+          <span className="text-[9px] font-extrabold px-2 py-0.5 rounded-md border uppercase tracking-[1px] bg-aegis-warning/10 border-aegis-warning/20 text-aegis-warning">
+            {restoredFrom ? t('gatewayConfig.restored') : t('gatewayConfig.unsaved')}
+          </span>
+        )}
+        <div className="flex items-center gap-1 ms-2">
+          {(['tree', 'raw', 'diff'] as const).map((m) => (
+            <button key={m} onClick={() => { setMode(m); if (m === 'diff' && compare.kind === 'theirs' && !conflict) setCompare({ kind: 'draft' }); }} className={chip(mode === m)}>
+              {t(`gatewayConfig.modes.${m}`)}
+            </button>
+          ))}
+        </div>
+        {mode === 'tree' && (
+          <div className="flex items-center gap-1">
+            <button onClick={() => setExpandAll(true)} title={t('gatewayConfig.expandAll')} className="p-1.5 rounded-lg text-aegis-text-dim hover:text-aegis-text hover:bg-[rgb(var(--aegis-overlay)/0.04)]">
+              <ChevronsDown size={13} />
+            </button>
+            <button onClick={() => setExpandAll(false)} title={t('gatewayConfig.collapseAll')} className="p-1.5 rounded-lg text-aegis-text-dim hover:text-aegis-text hover:bg-[rgb(var(--aegis-overlay)/0.04)]">
+              <ChevronsUp size={13} />
+            </button>
+          </div>
+        )}
+        <div className="flex-1" />
+        <button onClick={reload} disabled={loading || !connected} className={clsx(actionBtn, confirm === 'reload' && 'text-aegis-danger border-aegis-danger/30')}>
+          {loading ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+          {confirm === 'reload' ? t('gatewayConfig.discardConfirm') : t('gatewayConfig.reload')}
+        </button>
+        <button onClick={() => setShowHistory((v) => !v)} className={clsx(actionBtn, showHistory && 'text-aegis-primary border-aegis-primary/30')}>
+          <History size={12} /> {t('gatewayConfig.history')}
+        </button>
+        <button onClick={() => save(false)} disabled={!canSave} className={actionBtn}>
+          {saving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />} {t('gatewayConfig.save')}
+        </button>
+        <button onClick={() => save(true)} disabled={!canSave} title={t('gatewayConfig.applyHint')}
+          className={clsx(actionBtn, confirm === 'apply' && 'text-aegis-warning border-aegis-warning/30')}>
+          <RotateCw size={12} /> {confirm === 'apply' ? t('gatewayConfig.applyConfirm') : t('gatewayConfig.apply')}
+        </button>
+      </div>
+
+      {/* ═══ BANNERS ═══ */}
+      {conflict && (
+        <div className="shrink-0 flex items-center gap-3 px-6 py-2.5 bg-aegis-danger/10 border-b border-aegis-danger/20 text-[12px]">
+          <AlertTriangle size={14} className="text-aegis-danger shrink-0" />
+          <span className="text-aegis-text flex-1">{t('gatewayConfig.conflict')}</span>
+          <button onClick={() => { setCompare({ kind: 'theirs' }); setMode('diff'); }} className={actionBtn}>
+            <GitCompare size={12} /> {t('gatewayConfig.showTheirs')}
+          </button>
+          <button onClick={takeTheirs} className={actionBtn}>{t('gatewayConfig.takeTheirs')}</button>
+          <button onClick={keepMine} className={actionBtn}>{t('gatewayConfig.keepMine')}</button>
+        </div>
+      )}
+      {(parsed.error || issues.length > 0) && (
+        <div className="shrink-0 px-6 py-2 border-b border-[rgb(var(--aegis-overlay)/0.06)] text-[11px] max-h-[96px] overflow-y-auto">
+          {parsed.error ? (
+            <div className="flex items-center gap-2 text-aegis-danger">
+              <FileWarning size={12} className="shrink-0" />
+              {parsed.error.line
+                ? t('gatewayConfig.parseErrorAt', { line: parsed.error.line, column: parsed.error.column, message: parsed.error.message })
+                : t('gatewayConfig.parseError', { message: parsed.error.message })}
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 text-aegis-warning mb-1">
+                <AlertTriangle size={12} className="shrink-0" /> {t('gatewayConfig.issues', { count: issues.length })}
+              </div>
+              {issues.map((issue, i) => (
+                <div key={i} className="font-mono text-aegis-text-dim ps-5" dir="ltr">
+                  {issue.path}: expected {issue.expected}, got {issue.received}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* ═══ BODY ═══ */}
+      <div className="flex-1 min-h-0 flex">
+        <div className="flex-1 min-w-0 min-h-0 overflow-y-auto">
+          {!base ? (
+            <div className="px-6 py-16 text-center text-[12px] text-aegis-text-dim">
+              {loading ? <Loader2 size={16} className="animate-spin mx-auto" />
+                : loadError ? t('gatewayConfig.loadFailed', { error: loadError })
+                : !connected ? t('gatewayConfig.offline') : t('common.loading')}
+            </div>
+          ) : mode === 'raw' ? (
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              spellCheck={false}
+              dir="ltr"
+              className="w-full h-full min-h-[400px] resize-none bg-transparent px-6 py-4 font-mono text-[12px] leading-[18px] text-aegis-text outline-none"
+            />
+          ) : mode === 'diff' ? (
+            <ConfigDiff {...diffSides} />
+          ) : parsed.config ? (
+            <ConfigTree
+              value={parsed.config}
+              issues={issues}
+              expandAll={expandAll}
+              onChange={(next) => { setExpandAll(null); setText(formatConfig(next)); }}
+            />
+          ) : (
+            <div className="px-6 py-16 text-center text-[12px] text-aegis-text-dim">{t('gatewayConfig.fixRaw')}</div>
+          )}
+        </div>
+
+        {/* ═══ HISTORY ═══ */}
+        {showHistory && (
+          <div className="w-[280px] shrink-0 border-s border-[rgb(var(--aegis-overlay)/0.06)] flex flex-col min-h-0">
+            <div className="flex items-center gap-2 px-4 py-2.5 border-b border-[rgb(var(--aegis-overlay)/0.05)]">
+              <History size={14} className="text-aegis-primary" />
+              <span className="text-[12px] font-bold text-aegis-text">{t('gatewayConfig.history')}</span>
+              <div className="flex-1" />
+              {history.length > 0 && (
+                <button onClick={clearHistory} title={t('gatewayConfig.clearHistory')}
+                  className={clsx('flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded', confirm === 'clear' ? 'text-aegis-danger' : 'text-aegis-text-dim hover:text-aegis-danger')}>
+                  <Trash2 size={11} /> {confirm === 'clear' && t('gatewayConfig.clearConfirm')}
+                </button>
+              )}
+            </div>
+            <div className="flex-1 min-h-0 overflow-y-auto">
+              {history.length === 0 ? (
+                <p className="px-4 py-8 text-center text-[11px] text-aegis-text-dim">{t('gatewayConfig.noHistory')}</p>
+              ) : history.map((entry) => {
+                const selected = mode === 'diff' && compare.kind === 'history' && compare.entry.id === entry.id;
+                return (
+                  <div key={entry.id} className={clsx('px-4 py-2 border-b border-[rgb(var(--aegis-overlay)/0.04)]', selected && 'bg-aegis-primary/5')}>
+                    <div className="flex items-center gap-2 text-[11px]">
+                      <span className="text-aegis-text">{timeOf(entry.savedAt)}</span>
+                      <span className={clsx('text-[9px] px-1.5 py-0.5 rounded font-semibold', SOURCE_CLS[entry.source])}>
+                        {t(`gatewayConfig.source.${entry.source}`)}
+                      </span>
+                      <div className="flex-1" />
+                      <span className="text-[10px] font-mono text-aegis-text-dim" dir="ltr">{shortHash(entry.hash)}</span>
+                    </div>
+                    <div className="flex items-center gap-3 mt-1.5">
+                      <button onClick={() => { setCompare({ kind: 'history', entry }); setMode('diff'); }}
+                        className="flex items-center gap-1 text-[10px] text-aegis-text-dim hover:text-aegis-primary">
+                        <GitCompare size={11} /> {t('gatewayConfig.compare')}
+                      </button>
+                      <button onClick={() => restore(entry)} disabled={!base}
+                        className="flex items-center gap-1 text-[10px] text-aegis-text-dim hover:text-aegis-warning disabled:opacity-40">
+                        <Undo2 size={11} /> {t('gatewayConfig.restore')}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,11 @@
 // SettingsPage — Full settings with Gateway, Theme, Model
 // ═══════════════════════════════════════════════════════════
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   Settings, Bell, BellOff, Globe, Volume2, VolumeX,
-  Wifi, WifiOff, Palette, Cpu, CheckCircle, Loader2, Keyboard, Copy
+  Wifi, WifiOff, Palette, Cpu, CheckCircle, Loader2, Keyboard, Copy, Wallet
 } from 'lucide-react';
 import { APP_VERSION } from '@/hooks/useAppVersion';
 import { GlassCard } from '@/components/shared/GlassCard';
@@ -15,8 +15,15 @@ import { StatusDot } from '@/components/shared/StatusDot';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { useChatStore } from '@/stores/chatStore';
 import { useGatewayDataStore } from '@/stores/gatewayDataStore';
+import { useProfileStore } from '@/stores/profileStore';
+import { useBudgetStore } from '@/stores/budgetStore';
 import { gateway } from '@/services/gateway';
 import { notifications } from '@/services/notifications';
+import { checkBudgets, refreshAgentSpend } from '@/services/budget';
+import { reconnectActiveProfile } from '@/services/profiles';
+import { GatewayProfilesCard } from '@/components/GatewayProfilesCard';
+import { MacrosCard } from '@/components/MacrosCard';
+import { VoiceCard } from '@/components/VoiceCard';
 import { changeLanguage } from '@/i18n';
 import clsx from 'clsx';
 
@@ -36,9 +43,14 @@ export function SettingsPageFull() {
     toolIntentEnabled, setToolIntentEnabled,
     gatewayUrl, setGatewayUrl,
     gatewayToken, setGatewayToken,
+    budgetLimit, setBudgetLimit,
+    budgetDailyLimit, setBudgetDailyLimit,
+    budgetHardStop, setBudgetHardStop,
+    agentBudgets, setAgentBudget,
   } = useSettingsStore();
   const { connected, connecting } = useChatStore();
   const sessions = useGatewayDataStore((s) => s.sessions);
+  const agents = useGatewayDataStore((s) => s.agents);
 
   const [testingConnection, setTestingConnection] = useState(false);
   const [testResult, setTestResult] = useState<'success' | 'fail' | null>(null);
@@ -46,6 +58,15 @@ export function SettingsPageFull() {
   const [editToken, setEditToken] = useState(gatewayToken);
   const [connectionDirty, setConnectionDirty] = useState(false);
 
+  // With profiles, the URL/token fields edit the active profile
+  const activeProfile = useProfileStore((s) => s.profiles.find((p) => p.id === s.activeId));
+  useEffect(() => {
+    if (!activeProfile) return;
+    setEditUrl(activeProfile.url);
+    setEditToken(activeProfile.token);
+    setConnectionDirty(false);
+  }, [activeProfile?.id, activeProfile?.url, activeProfile?.token]); // eslint-disable-line react-hooks/exhaustive-deps
+
   const mainSession = sessions.find((s) => (s.key || '') === 'agent:main:main');
   const mainModel = mainSession?.model || '—';
   const contextTokens = mainSession?.contextTokens || 0;
@@ -55,6 +76,20 @@ export function SettingsPageFull() {
     changeLanguage(lang);
   };
 
+  // Budget edits re-evaluate meters immediately (no wait for the next slow poll)
+  const recheckBudgets = () => checkBudgets(useGatewayDataStore.getState().costSummary);
+  // The first per-agent limit needs this month's per-agent spend fetched
+  const recheckAgentBudgets = () => {
+    recheckBudgets();
+    if (!useBudgetStore.getState().agentSpend) refreshAgentSpend(gateway).then(recheckBudgets);
+  };
+  const parseLimit = (v: string) => Math.max(0, parseFloat(v) || 0);
+
+  const budgetAgentIds = Array.from(new Set([
+    ...agents.map((a) => a.id),
+    ...Object.keys(agentBudgets),
+  ]));
+
   const handleNotificationsToggle = (enabled: boolean) => {
     setNotificationsEnabled(enabled);
     notifications.setEnabled(enabled);
@@ -120,7 +155,17 @@ export function SettingsPageFull() {
     gateway.connect(url, token);
   };
 
-  const handleSaveConnection = () => {
+  const handleSaveConnection = async () => {
+    if (activeProfile) {
+      setConnectionDirty(false);
+      await useProfileStore.getState().saveProfile({
+        ...activeProfile,
+        url: editUrl.trim() || 'ws://127.0.0.1:18789',
+        token: editToken.trim(),
+      });
+      await reconnectActiveProfile();
+      return;
+    }
     setGatewayUrl(editUrl.trim());
     setGatewayToken(editToken.trim());
     setConnectionDirty(false);
@@ -277,11 +322,96 @@ export function SettingsPageFull() {
         </div>
       </GlassCard>
 
+      {/* Budget */}
+      <GlassCard delay={0.12}>
+        <h3 className="text-[14px] font-semibold text-aegis-text mb-4 flex items-center gap-2">
+          <Wallet size={16} className="text-aegis-warning" />
+          {t('budget.title')}
+        </h3>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-[12px] text-aegis-text-muted font-medium mb-1.5 block">
+                {t('budget.monthlyLimit')}
+              </label>
+              <input
+                type="number" min={0} step="any"
+                value={budgetLimit || ''}
+                onChange={(e) => { setBudgetLimit(parseLimit(e.target.value)); recheckBudgets(); }}
+                placeholder={t('budget.noLimit')}
+                className="w-full px-3 py-2.5 rounded-xl text-[13px] font-mono
+                  bg-[rgb(var(--aegis-overlay)/0.03)] border border-aegis-border
+                  text-aegis-text placeholder:text-aegis-text-dim
+                  outline-none focus:border-aegis-accent/40 focus:bg-aegis-accent/[0.03] transition-all"
+                dir="ltr"
+              />
+            </div>
+            <div>
+              <label className="text-[12px] text-aegis-text-muted font-medium mb-1.5 block">
+                {t('budget.dailyLimit')}
+              </label>
+              <input
+                type="number" min={0} step="any"
+                value={budgetDailyLimit || ''}
+                onChange={(e) => { setBudgetDailyLimit(parseLimit(e.target.value)); recheckBudgets(); }}
+                placeholder={t('budget.noLimit')}
+                className="w-full px-3 py-2.5 rounded-xl text-[13px] font-mono
+                  bg-[rgb(var(--aegis-overlay)/0.03)] border border-aegis-border
+                  text-aegis-text placeholder:text-aegis-text-dim
+                  outline-none focus:border-aegis-accent/40 focus:bg-aegis-accent/[0.03] transition-all"
+                dir="ltr"
+              />
+            </div>
+          </div>
+          <div className="text-[10px] text-aegis-text-dim -mt-2">{t('budget.limitsHint')}</div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-[13px] text-aegis-text">{t('budget.hardStop')}</div>
+              <div className="text-[11px] text-aegis-text-dim">{t('budget.hardStopDesc')}</div>
+            </div>
+            <Toggle enabled={budgetHardStop} onChange={setBudgetHardStop} />
+          </div>
+
+          {/* Per-agent limits */}
+          {budgetAgentIds.length > 0 && (
+            <div>
+              <div className="text-[12px] text-aegis-text-muted font-medium mb-1.5">{t('budget.perAgent')}</div>
+              <div className="space-y-2">
+                {budgetAgentIds.map((id) => (
+                  <div key={id} className="flex items-center gap-3">
+                    <span className="flex-1 text-[12px] font-mono text-aegis-text truncate">{id}</span>
+                    <input
+                      type="number" min={0} step="any"
+                      value={agentBudgets[id] || ''}
+                      onChange={(e) => { setAgentBudget(id, parseLimit(e.target.value)); recheckAgentBudgets(); }}
+                      placeholder={t('budget.noLimit')}
+                      className="w-32 px-3 py-1.5 rounded-lg text-[12px] font-mono
+                        bg-[rgb(var(--aegis-overlay)/0.03)] border border-aegis-border
+                        text-aegis-text placeholder:text-aegis-text-dim
+                        outline-none focus:border-aegis-accent/40 transition-all"
+                      dir="ltr"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="text-[10px] text-aegis-text-dim mt-1">{t('budget.perAgentHint')}</div>
+            </div>
+          )}
+        </div>
+      </GlassCard>
+
       {/* Gateway */}
       <GlassCard delay={0.15}>
         <h3 className="text-[14px] font-semibold text-aegis-text mb-4 flex items-center gap-2">
           {connected ? <Wifi size={16} className="text-aegis-success" /> : <WifiOff size={16} className="text-aegis-danger" />}
           {t('settings.gateway', 'Gateway')}
+          {activeProfile && (
+            <span className="text-[10px] font-semibold px-2 py-0.5 rounded-md border"
+              style={{ color: activeProfile.color, borderColor: `${activeProfile.color}40`, background: `${activeProfile.color}14` }}>
+              {activeProfile.name}
+            </span>
+          )}
         </h3>
         <div className="space-y-4">
           {/* Connection Status */}
@@ -378,6 +508,15 @@ export function SettingsPageFull() {
         </div>
       </GlassCard>
 
+      {/* Gateway profiles */}
+      <GatewayProfilesCard delay={0.17} />
+
+      {/* Prompt macros */}
+      <MacrosCard delay={0.18} />
+
+      {/* Voice */}
+      <VoiceCard delay={0.19} />
+
       {/* Model */}
       <GlassCard delay={0.2}>
         <h3 className="text-[14px] font-semibold text-aegis-text mb-4 flex items-center gap-2">
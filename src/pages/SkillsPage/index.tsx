@@ -146,9 +146,8 @@ function guessCategory(slug: string, summary: string): string {
 
 async function fetchInstalledSkills(): Promise<MySkill[]> {
   try {
-    const result = await gateway.call('skills.status', {});
-    const skills = result?.skills || result?.entries || [];
-    return skills.map((s: any) => ({
+    const { skills } = await gateway.call('skills.status', {});
+    return skills.map((s) => ({
       slug: s.slug || s.name || s.id || '',
       name: s.displayName || s.name || s.slug || '',
       emoji: s.emoji || guessEmoji(s.slug || s.name || ''),
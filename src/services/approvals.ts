@@ -0,0 +1,98 @@
+// ═══════════════════════════════════════════════════════════
+// Approvals — answer the gateway's tool approval requests
+//
+// startApprovals() watches the approval store: a new request that
+// matches an "always allow for this session" rule is approved on the
+// spot, anything else rings a notification (native when AEGIS is in
+// the background) and waits for a card in ChatView. Requests that
+// pass their expiry are dropped and logged as expired.
+// ═══════════════════════════════════════════════════════════
+
+import i18n from '@/i18n';
+import { gateway } from '@/services/gateway';
+import { describeGatewayError } from '@/services/gatewayErrors';
+import { notifications } from '@/services/notifications';
+import { PROFILE_SWITCHED_EVENT } from '@/services/profiles';
+import { useApprovalStore, type ApprovalDecision, type PendingApproval } from '@/stores/approvalStore';
+
+/**
+ * Send the decision. allow-session approves this call and remembers the
+ * rule for the rest of the session; `auto` marks a rule match in the audit.
+ */
+export async function decideApproval(id: string, decision: ApprovalDecision, opts: { auto?: boolean } = {}): Promise<void> {
+  const store = useApprovalStore.getState();
+  const req = store.pending.find((p) => p.id === id);
+  if (!req || req.deciding) return;
+
+  store.updatePending(id, { deciding: decision, error: undefined });
+  try {
+    await gateway.call(req.resolveMethod, { id, decision: decision === 'deny' ? 'deny' : 'allow-once' });
+  } catch (err) {
+    console.warn('[Approvals] Resolve failed:', err);
+    useApprovalStore.getState().updatePending(id, { deciding: undefined, error: describeGatewayError(err) });
+    return;
+  }
+  if (decision === 'allow-session') useApprovalStore.getState().allowForSession(req);
+  useApprovalStore.getState().settle(id, opts.auto ? 'auto-allow' : decision);
+}
+
+/** Drop a request the gateway no longer knows about (e.g. a failed answer after expiry) */
+export function dismissApproval(id: string) {
+  useApprovalStore.getState().settle(id, 'expired');
+}
+
+function announce(req: PendingApproval) {
+  const t = i18n.t.bind(i18n);
+  notifications.notify({
+    type: 'info',
+    title: t('approvals.notifyTitle', { kind: req.kind }),
+    body: req.agentId ? `${req.agentId}: ${req.command}` : req.command,
+  });
+}
+
+export function startApprovals(): () => void {
+  const seen = new Set<string>();
+  const expiry = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const onPending = (pending: PendingApproval[]) => {
+    for (const req of pending) {
+      if (seen.has(req.id)) continue;
+      seen.add(req.id);
+
+      if (useApprovalStore.getState().isAllowedForSession(req)) {
+        console.log('[Approvals] Allowed by session rule:', req.kind, req.command);
+        decideApproval(req.id, 'allow-once', { auto: true });
+        continue;
+      }
+      announce(req);
+      if (req.expiresAt) {
+        expiry.set(req.id, setTimeout(() => {
+          expiry.delete(req.id);
+          const still = useApprovalStore.getState().pending.find((p) => p.id === req.id);
+          if (still && !still.deciding) useApprovalStore.getState().settle(req.id, 'expired');
+        }, Math.max(0, req.expiresAt - Date.now())));
+      }
+    }
+    // Settled requests no longer need their expiry timer
+    for (const [id, timer] of expiry) {
+      if (!pending.some((p) => p.id === id)) {
+        clearTimeout(timer);
+        expiry.delete(id);
+      }
+    }
+  };
+
+  const unsubscribe = useApprovalStore.subscribe((state, prev) => {
+    if (state.pending !== prev.pending) onPending(state.pending);
+  });
+
+  const onSwitch = () => useApprovalStore.getState().reset();
+  window.addEventListener(PROFILE_SWITCHED_EVENT, onSwitch);
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener(PROFILE_SWITCHED_EVENT, onSwitch);
+    expiry.forEach(clearTimeout);
+    expiry.clear();
+  };
+}
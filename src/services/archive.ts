@@ -0,0 +1,163 @@
+// ═══════════════════════════════════════════════════════════
+// Chat Archive — renderer side of electron/archive.ts
+//
+// Recording: watches chatStore and sends every finalized message
+// (user, assistant + its thinking, finished tool cards) to the main
+// process in small batches. Streaming text and running tools are
+// skipped until they settle; re-sends and the history copy of a live
+// message are folded by the main process. Records carry the active
+// gateway profile — session keys repeat across gateways.
+// Lookup: helpers used by ChatView to jump to an archived message,
+// pulling older archived messages in when chat.history doesn't reach it.
+// ═══════════════════════════════════════════════════════════
+
+import { useChatStore, isTranscriptKey, type ChatMessage } from '@/stores/chatStore';
+import { useProfileStore, DEMO_PROFILE_ID } from '@/stores/profileStore';
+import type { ArchiveRecord } from '../../electron/archiveTypes';
+
+export type { ArchiveRecord, ArchiveQuery, ArchiveHit, ArchivedSession } from '../../electron/archiveTypes';
+
+const FLUSH_DELAY_MS = 1000;
+
+// ── Recording ────────────────────────────────────────────
+
+/** History timestamps may be epoch numbers — the archive stores ISO strings */
+function isoOf(ts: unknown): string {
+  const d = new Date(ts as any);
+  return isNaN(d.getTime()) ? new Date().toISOString() : d.toISOString();
+}
+
+const timeOf = (m: ChatMessage) => new Date(m.timestamp).getTime() || 0;
+
+function toRecord(profileId: string, sessionKey: string, m: ChatMessage): ArchiveRecord | null {
+  if (m.role === 'system' || (m.role as string) === 'compaction') return null;
+  if (m.isStreaming) return null;
+  if (m.role === 'tool' && m.toolStatus === 'running') return null;
+  if (m.role !== 'tool' && !m.content?.trim()) return null;
+
+  return {
+    profileId,
+    sessionKey,
+    id: m.id,
+    role: m.role,
+    content: m.content || '',
+    timestamp: isoOf(m.timestamp),
+    ...(m.fromHistory ? {} : { provisional: true }),
+    ...(m.toolName ? { toolName: m.toolName } : {}),
+    ...(m.toolInput ? { toolInput: m.toolInput } : {}),
+    ...(m.toolOutput ? { toolOutput: m.toolOutput } : {}),
+    ...(m.toolStatus ? { toolStatus: m.toolStatus } : {}),
+    ...(m.thinkingContent ? { thinking: m.thinkingContent } : {}),
+    ...(m.attachments?.length
+      ? { attachments: m.attachments.map((a) => ({ fileName: a.fileName, mimeType: a.mimeType })) }
+      : {}),
+    ...(m.mediaUrl && !m.mediaUrl.startsWith('data:') ? { mediaUrl: m.mediaUrl } : {}),
+  };
+}
+
+/** What makes a message worth re-sending — content, tool result, thinking */
+const versionOf = (m: ChatMessage) =>
+  `${m.content?.length || 0}|${m.toolStatus || ''}|${m.toolOutput?.length || 0}|${m.thinkingContent?.length || 0}`;
+
+const sent = new Map<string, string>();
+let pending: ArchiveRecord[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function flush() {
+  flushTimer = null;
+  const batch = pending;
+  pending = [];
+  if (batch.length === 0) return;
+  window.aegis?.archive?.append(batch).catch((err: any) => {
+    console.warn('[Archive] Append failed:', err);
+  });
+}
+
+function collect(sessionKey: string, msgs: ChatMessage[]) {
+  if (isTranscriptKey(sessionKey)) return; // imported transcripts aren't live sessions
+  const profileId = useProfileStore.getState().activeId;
+  if (!profileId || profileId === DEMO_PROFILE_ID) return; // demo chats are not the user's
+  for (const m of msgs) {
+    const key = `${profileId}|${sessionKey}|${m.id}`;
+    const version = versionOf(m);
+    if (sent.get(key) === version) continue;
+    const record = toRecord(profileId, sessionKey, m);
+    if (!record) continue;
+    sent.set(key, version);
+    pending.push(record);
+  }
+  if (pending.length > 0 && !flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+}
+
+/** Start archiving chat messages. Returns an unsubscribe (flushes what's pending). */
+export function startArchiveRecording(): () => void {
+  if (!window.aegis?.archive) return () => {};
+
+  const initial = useChatStore.getState();
+  Object.entries(initial.messagesPerSession).forEach(([key, msgs]) => collect(key, msgs));
+
+  const unsubscribe = useChatStore.subscribe((state, prev) => {
+    if (state.messages !== prev.messages) collect(state.activeSessionKey, state.messages);
+    if (state.messagesPerSession !== prev.messagesPerSession) {
+      for (const [key, msgs] of Object.entries(state.messagesPerSession)) {
+        if (msgs !== prev.messagesPerSession[key]) collect(key, msgs);
+      }
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    if (flushTimer) clearTimeout(flushTimer);
+    flush();
+  };
+}
+
+// ── Lookup (jump to message) ─────────────────────────────
+
+export function recordToMessage(r: ArchiveRecord): ChatMessage {
+  return {
+    id: r.id,
+    role: r.role,
+    content: r.content,
+    timestamp: r.timestamp,
+    ...(r.provisional ? {} : { fromHistory: true }),
+    ...(r.toolName ? { toolName: r.toolName } : {}),
+    ...(r.toolInput ? { toolInput: r.toolInput } : {}),
+    ...(r.toolOutput ? { toolOutput: r.toolOutput } : {}),
+    ...(r.role === 'tool' ? { toolStatus: (r.toolStatus as ChatMessage['toolStatus']) || 'done' } : {}),
+    ...(r.thinking ? { thinkingContent: r.thinking } : {}),
+    ...(r.mediaUrl ? { mediaUrl: r.mediaUrl } : {}),
+  };
+}
+
+const sameText = (a: string, b: string) => a.trim() === b.trim();
+
+/**
+ * Find the loaded message an archive record refers to. Ids differ between
+ * live and history copies, so fall back to role + content.
+ */
+export function findArchivedMessage(
+  msgs: ChatMessage[],
+  r: { id: string; role: string; content: string; toolName?: string },
+): ChatMessage | undefined {
+  return msgs.find((m) => m.id === r.id)
+    ?? msgs.find((m) => m.role === r.role && m.toolName === r.toolName && !!r.content && sameText(m.content || '', r.content));
+}
+
+/**
+ * Prepend the session's archived messages from before the loaded window
+ * (chat.history only returns the last 200). Messages inside the window
+ * are left alone — history splits tool calls differently than live cards.
+ * Only the active profile's archive is read.
+ */
+export async function mergeArchivedMessages(sessionKey: string, msgs: ChatMessage[]): Promise<ChatMessage[]> {
+  const profileId = useProfileStore.getState().activeId;
+  if (!profileId) return msgs;
+  const records: ArchiveRecord[] = (await window.aegis?.archive?.session(profileId, sessionKey)) || [];
+  const earliest = msgs.length > 0 ? Math.min(...msgs.map(timeOf)) : Infinity;
+  const older = records
+    .filter((r) => new Date(r.timestamp).getTime() < earliest && !findArchivedMessage(msgs, r))
+    .map(recordToMessage);
+  if (older.length === 0) return msgs;
+  return [...older, ...msgs];
+}
@@ -0,0 +1,169 @@
+// ═══════════════════════════════════════════════════════════
+// Budget Engine — Compares spend against the user's limits
+//
+// Runs after every slow poll:
+//   • Daily / monthly spend  → costSummary.daily (usage.cost)
+//   • Per-agent spend        → sessions.usage for the current month
+//     (refreshAgentSpend — the polled sessions.usage is all-time)
+// Crossing 50 / 80 / 100% notifies once per period; alerts already
+// fired are remembered in localStorage so restarts don't repeat them.
+// With hard stop on, GatewayService.sendMessage asks isSendBlocked()
+// before every chat.send and holds the message for confirmation.
+// ═══════════════════════════════════════════════════════════
+
+import i18n from '@/i18n';
+import { notifications } from '@/services/notifications';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useBudgetStore, type BudgetMeter } from '@/stores/budgetStore';
+import type { CostSummary } from '@/stores/gatewayDataStore';
+import type { GatewayService } from '@/services/gateway';
+
+export const BUDGET_THRESHOLDS = [50, 80, 100] as const;
+
+const ALERTS_KEY = 'aegis-budget-alerts';
+
+// ── Period helpers ───────────────────────────────────────
+// Same UTC date keys as the Dashboard cost cards.
+
+const todayKey = () => new Date().toISOString().slice(0, 10);   // "YYYY-MM-DD"
+const monthKey = () => todayKey().slice(0, 7);                   // "YYYY-MM"
+
+const periodOf = (m: BudgetMeter) => (m.scope === 'daily' ? todayKey() : monthKey());
+const alertKey = (m: BudgetMeter) => `${m.scope}:${m.agentId ?? ''}:${periodOf(m)}`;
+
+const agentOfSession = (sessionKey: string) => sessionKey.match(/^agent:([^:]+):/)?.[1] ?? 'main';
+
+// ── Fired-alert memory ───────────────────────────────────
+
+function loadAlerts(): Record<string, number> {
+  try {
+    return JSON.parse(localStorage.getItem(ALERTS_KEY) || '{}') || {};
+  } catch {
+    return {};
+  }
+}
+
+function saveAlerts(alerts: Record<string, number>) {
+  // Drop entries from past periods so the map doesn't grow forever
+  const today = todayKey();
+  const month = monthKey();
+  const kept: Record<string, number> = {};
+  for (const [k, v] of Object.entries(alerts)) {
+    if (k.endsWith(`:${today}`) || k.endsWith(`:${month}`)) kept[k] = v;
+  }
+  localStorage.setItem(ALERTS_KEY, JSON.stringify(kept));
+}
+
+// ── Meters ───────────────────────────────────────────────
+
+function meter(scope: BudgetMeter['scope'], spent: number, limit: number, agentId?: string): BudgetMeter {
+  return { scope, agentId, spent, limit, percent: (spent / limit) * 100 };
+}
+
+// ── Per-agent spend ──────────────────────────────────────
+
+const hasAgentBudgets = () => Object.values(useSettingsStore.getState().agentBudgets).some((l) => l > 0);
+
+/**
+ * Fetch this month's per-agent spend into budgetStore. Skipped while no
+ * agent has a limit; a failure keeps the previous figures.
+ */
+export async function refreshAgentSpend(gw: GatewayService): Promise<void> {
+  if (!hasAgentBudgets()) return;
+  const month = monthKey();
+  try {
+    const usage = await gw.getSessionsUsage({ startDate: `${month}-01`, endDate: todayKey(), limit: 1000 });
+    const byAgent: Record<string, number> = {};
+    for (const a of (usage?.aggregates?.byAgent || []) as any[]) {
+      if (a?.agentId) byAgent[a.agentId] = a.totals?.totalCost || 0;
+    }
+    useBudgetStore.getState().setAgentSpend({ month, byAgent });
+  } catch (err) {
+    console.warn('[Budget] Per-agent spend unavailable:', err);
+  }
+}
+
+/** Build meters for every limit the user has configured (limit ≤ 0 = off). */
+export function computeMeters(cost: CostSummary | null): BudgetMeter[] {
+  const { budgetLimit, budgetDailyLimit, agentBudgets } = useSettingsStore.getState();
+  const daily = cost?.daily || [];
+  const meters: BudgetMeter[] = [];
+
+  if (budgetDailyLimit > 0 && cost) {
+    const spent = daily.find((d) => d.date === todayKey())?.totalCost || 0;
+    meters.push(meter('daily', spent, budgetDailyLimit));
+  }
+
+  if (budgetLimit > 0 && cost) {
+    const month = monthKey();
+    const spent = daily
+      .filter((d) => d.date?.startsWith(month))
+      .reduce((sum, d) => sum + (d.totalCost || 0), 0);
+    meters.push(meter('monthly', spent, budgetLimit));
+  }
+
+  // Figures from last month don't count against this month's limits
+  const { agentSpend } = useBudgetStore.getState();
+  const spend = agentSpend?.month === monthKey() ? agentSpend.byAgent : null;
+  for (const [agentId, limit] of Object.entries(agentBudgets)) {
+    if (!(limit > 0) || !spend) continue;
+    meters.push(meter('agent', spend[agentId] || 0, limit, agentId));
+  }
+
+  return meters;
+}
+
+/** One-line localized summary, e.g. "This month: $41.20 of $50.00" */
+export function describeMeter(m: BudgetMeter): string {
+  const vars = { spent: `$${m.spent.toFixed(2)}`, limit: `$${m.limit.toFixed(2)}`, agent: m.agentId };
+  return i18n.t(`budget.alert.${m.scope}`, vars);
+}
+
+/**
+ * Recompute meters and fire threshold notifications.
+ * Called by gatewayDataStore after each slow poll.
+ */
+export function checkBudgets(cost: CostSummary | null) {
+  const meters = computeMeters(cost);
+  useBudgetStore.getState().setMeters(meters);
+
+  const alerts = loadAlerts();
+  let changed = false;
+
+  for (const m of meters) {
+    const crossed = [...BUDGET_THRESHOLDS].reverse().find((th) => m.percent >= th);
+    if (!crossed) continue;
+    const key = alertKey(m);
+    if ((alerts[key] || 0) >= crossed) continue;
+
+    alerts[key] = crossed;
+    changed = true;
+    console.log(`[Budget] ${key} crossed ${crossed}% ($${m.spent.toFixed(2)} / $${m.limit.toFixed(2)})`);
+    notifications.notify({
+      type: 'info',
+      title: crossed >= 100
+        ? i18n.t('budget.exceededTitle')
+        : i18n.t('budget.alertTitle', { percent: crossed }),
+      body: describeMeter(m),
+    });
+  }
+
+  if (changed) saveAlerts(alerts);
+}
+
+/**
+ * Hard stop gate — returns the exceeded meter that should block a send
+ * to this session, or null when sending is allowed.
+ */
+export function isSendBlocked(sessionKey: string): BudgetMeter | null {
+  if (!useSettingsStore.getState().budgetHardStop) return null;
+  const agentId = agentOfSession(sessionKey);
+  return useBudgetStore.getState().meters.find((m) =>
+    m.percent >= 100 && (m.scope !== 'agent' || m.agentId === agentId)
+  ) ?? null;
+}
+
+/** Highest-percentage meter — drives the Dashboard banner. */
+export function worstMeter(meters: BudgetMeter[]): BudgetMeter | null {
+  return meters.reduce<BudgetMeter | null>((worst, m) => (!worst || m.percent > worst.percent ? m : worst), null);
+}
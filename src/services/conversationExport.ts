@@ -0,0 +1,354 @@
+// ═══════════════════════════════════════════════════════════
+// Conversation Export — Markdown / HTML / JSON + transcript import
+//
+// Markdown: readable, GitHub-flavored; thinking folded in <details>,
+//   tool calls as fenced Input/Output blocks, artifacts as titled code.
+// HTML: one self-contained file themed with the current AEGIS palette
+//   (image attachments are embedded as data URIs).
+// JSON: lossless — the raw ChatMessage[] — and the only format that
+//   can be imported back (as a read-only transcript tab).
+// ═══════════════════════════════════════════════════════════
+
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import i18n from '@/i18n';
+import { useChatStore, type ChatMessage } from '@/stores/chatStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { parseArtifacts } from '@/utils/artifacts';
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export const TRANSCRIPT_FORMAT = 'aegis-transcript';
+const TRANSCRIPT_VERSION = 1;
+
+export interface TranscriptFile {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: { key: string; label: string };
+  messages: ChatMessage[];
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = { markdown: 'md', html: 'html', json: 'json' };
+
+// ── Helpers ──────────────────────────────────────────────
+
+/** A code fence longer than any backtick run inside the body */
+function fence(body: string, lang = ''): string {
+  const longest = Math.max(2, ...(body.match(/`+/g) || []).map((r) => r.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${lang}\n${body}\n${ticks}`;
+}
+
+const formatTime = (ts: string) => {
+  const d = new Date(ts);
+  return isNaN(d.getTime()) ? '' : d.toLocaleString();
+};
+
+const ROLE_ICONS: Record<ChatMessage['role'], string> = {
+  user: '👤', assistant: '🤖', tool: '🔧', system: '⚙️',
+};
+
+/** "👤 User" — in the UI language, like the rest of the export */
+const roleLabel = (role: ChatMessage['role']) =>
+  ROLE_ICONS[role] ? `${ROLE_ICONS[role]} ${i18n.t(`export.role.${role}`)}` : role;
+
+/** "Exported from AEGIS · <date> · <n> messages" */
+const exportMeta = (count: number) =>
+  i18n.t('export.meta', { date: new Date().toLocaleString(), count });
+
+const ARTIFACT_LANGS: Record<string, string> = { html: 'html', react: 'jsx', svg: 'svg', mermaid: 'mermaid', code: '' };
+
+/** Message text with <aegis_artifact> blocks turned into titled code blocks */
+function contentMarkdown(text: string): string {
+  if (!text.includes('<aegis_artifact')) return text;
+  return parseArtifacts(text).parts.map((p) => {
+    if (p.kind === 'text') return p.text || '';
+    const a = p.artifact!;
+    return `**📦 ${a.title || a.type}** _(${a.type})_\n\n${fence(a.content, ARTIFACT_LANGS[a.type] ?? '')}`;
+  }).join('\n\n');
+}
+
+function toolMarkdown(m: ChatMessage): string {
+  const parts: string[] = [];
+  const status = m.toolStatus === 'error' ? ' ❌' : '';
+  const duration = m.toolDurationMs ? ` _(${(m.toolDurationMs / 1000).toFixed(1)}s)_` : '';
+  parts.push(`**${m.toolName || 'tool'}**${status}${duration}`);
+  if (m.toolInput && Object.keys(m.toolInput).length > 0) {
+    parts.push(`${i18n.t('export.toolInput')}:\n\n${fence(JSON.stringify(m.toolInput, null, 2), 'json')}`);
+  }
+  if (m.toolOutput) parts.push(`${i18n.t('export.toolOutput')}:\n\n${fence(m.toolOutput)}`);
+  if (m.content && m.content !== m.toolOutput) parts.push(m.content);
+  return parts.join('\n\n');
+}
+
+function attachmentsMarkdown(m: ChatMessage): string {
+  const lines = (m.attachments || []).map((a) => `- 📎 ${a.fileName} (${a.mimeType})`);
+  if (m.mediaUrl) {
+    lines.push(m.mediaUrl.startsWith('data:')
+      ? `- 🎵 ${m.mediaType || 'media'} (${i18n.t('export.embedded')})`
+      : `- 🎵 [${m.mediaType || 'media'}](${m.mediaUrl})`);
+  }
+  return lines.join('\n');
+}
+
+/** Messages worth exporting — drops empty placeholders and streaming stubs */
+const exportable = (msgs: ChatMessage[]) =>
+  msgs.filter((m) => m.role === 'tool' || m.content?.trim() || m.attachments?.length || m.mediaUrl || m.thinkingContent);
+
+// ── Markdown ─────────────────────────────────────────────
+
+function messageMarkdown(m: ChatMessage): string {
+  const out: string[] = [`### ${roleLabel(m.role)}${formatTime(m.timestamp) ? ` · ${formatTime(m.timestamp)}` : ''}`];
+  if (m.thinkingContent) {
+    out.push(`<details>\n<summary>💭 ${i18n.t('export.thinking')}</summary>\n\n${m.thinkingContent}\n\n</details>`);
+  }
+  if (m.role === 'tool') out.push(toolMarkdown(m));
+  else if (m.content?.trim()) out.push(contentMarkdown(m.content));
+  const attachments = attachmentsMarkdown(m);
+  if (attachments) out.push(attachments);
+  return out.join('\n\n');
+}
+
+export function buildMarkdown(title: string, msgs: ChatMessage[]): string {
+  const shown = exportable(msgs);
+  const header = `# ${title}\n\n_${exportMeta(shown.length)}_`;
+  return [header, ...shown.map(messageMarkdown)].join('\n\n---\n\n') + '\n';
+}
+
+// ── HTML ─────────────────────────────────────────────────
+
+const THEME_VARS = [
+  'bg-solid', 'card-solid', 'text', 'text-secondary', 'text-muted', 'text-dim', 'primary', 'accent',
+  'danger', 'warning', 'success', 'overlay', 'user-bubble', 'user-border', 'bot-bubble', 'bot-border', 'code-bg',
+];
+
+/** Snapshot the active theme's CSS variables so the file looks like the app */
+function themeSnapshot(): string {
+  const style = getComputedStyle(document.documentElement);
+  return THEME_VARS
+    .map((name) => `--aegis-${name}: ${style.getPropertyValue(`--aegis-${name}`).trim()};`)
+    .join(' ');
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderMarkdown = (md: string) =>
+  renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, md));
+
+function attachmentsHtml(m: ChatMessage): string {
+  const items = (m.attachments || []).map((a) =>
+    a.mimeType.startsWith('image/') && a.content?.startsWith('data:')
+      ? `<img class="attachment" src="${a.content}" alt="${escapeHtml(a.fileName)}">`
+      : `<span class="chip">📎 ${escapeHtml(a.fileName)}</span>`);
+  if (m.mediaUrl) items.push(`<audio controls src="${escapeHtml(m.mediaUrl)}"></audio>`);
+  return items.length ? `<div class="attachments">${items.join('')}</div>` : '';
+}
+
+function messageHtml(m: ChatMessage): string {
+  const body: string[] = [];
+  if (m.thinkingContent) {
+    body.push(`<details class="thinking"><summary>💭 ${escapeHtml(i18n.t('export.thinking'))}</summary>${renderMarkdown(m.thinkingContent)}</details>`);
+  }
+  if (m.role === 'tool') {
+    // First paragraph (name · status · duration) is the summary, the rest folds
+    const [summary, ...rest] = toolMarkdown(m).split('\n\n');
+    const error = m.toolStatus === 'error' ? ' data-error' : '';
+    body.push(`<details class="tool"${error}><summary>${renderMarkdown(summary)}</summary>${renderMarkdown(rest.join('\n\n'))}</details>`);
+  } else if (m.content?.trim()) {
+    body.push(renderMarkdown(contentMarkdown(m.content)));
+  }
+  body.push(attachmentsHtml(m));
+  return `<article class="msg ${m.role}"><header>${escapeHtml(roleLabel(m.role))}<time>${formatTime(m.timestamp)}</time></header>${body.join('')}</article>`;
+}
+
+const HTML_STYLE = `
+  * { box-sizing: border-box; }
+  body { margin: 0; background: var(--aegis-bg-solid); color: rgb(var(--aegis-text));
+    font: 14px/1.6 -apple-system, 'Segoe UI', Roboto, 'Noto Sans Arabic', sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 32px 20px 64px; }
+  h1.title { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: rgb(var(--aegis-text-dim)); font-size: 12px; margin-bottom: 28px; }
+  .msg { border-radius: 14px; padding: 12px 16px; margin: 10px 0; border: 1px solid var(--aegis-bot-border);
+    background: var(--aegis-bot-bubble); overflow-wrap: anywhere; }
+  .msg.user { background: var(--aegis-user-bubble); border-color: var(--aegis-user-border); margin-inline-start: 15%; }
+  .msg.tool { background: transparent; padding: 6px 12px; font-size: 12px; }
+  .msg.system { opacity: .7; font-size: 12px; }
+  .msg header { display: flex; gap: 8px; font-size: 11px; font-weight: 700; color: rgb(var(--aegis-text-muted)); margin-bottom: 4px; }
+  .msg header time { font-weight: 400; color: rgb(var(--aegis-text-dim)); margin-inline-start: auto; }
+  .msg > p:first-of-type { margin-top: 0; }
+  a { color: rgb(var(--aegis-accent)); }
+  pre { background: var(--aegis-code-bg); border: 1px solid rgb(var(--aegis-overlay) / .06); border-radius: 10px;
+    padding: 10px 12px; overflow-x: auto; font-size: 12px; }
+  code { font-family: 'JetBrains Mono', Consolas, monospace; }
+  :not(pre) > code { background: rgb(var(--aegis-overlay) / .06); padding: 1px 5px; border-radius: 5px; }
+  table { border-collapse: collapse; } th, td { border: 1px solid rgb(var(--aegis-overlay) / .1); padding: 4px 8px; }
+  blockquote { margin: 0; padding-inline-start: 12px; border-inline-start: 3px solid rgb(var(--aegis-primary) / .4);
+    color: rgb(var(--aegis-text-muted)); }
+  details > summary { cursor: pointer; color: rgb(var(--aegis-text-muted)); }
+  details > summary > p { display: inline; margin: 0; }
+  details.thinking { border-inline-start: 2px solid rgb(var(--aegis-accent) / .4); padding-inline-start: 10px;
+    margin-bottom: 8px; font-size: 12px; color: rgb(var(--aegis-text-muted)); }
+  details.tool > summary { color: rgb(var(--aegis-warning)); }
+  details.tool[data-error] > summary { color: rgb(var(--aegis-danger)); }
+  .attachments { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 8px; }
+  .attachments img { max-width: 320px; max-height: 240px; border-radius: 10px; }
+  .chip { font-size: 11px; padding: 2px 8px; border-radius: 8px; background: rgb(var(--aegis-overlay) / .06); }
+`;
+
+export function buildHtml(title: string, msgs: ChatMessage[]): string {
+  const shown = exportable(msgs);
+  const lang = document.documentElement.lang || 'en';
+  const dir = document.documentElement.dir || 'ltr';
+  return `<!DOCTYPE html>
+<html lang="${lang}" dir="${dir}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<style>:root { ${themeSnapshot()} }${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+<h1 class="title">${escapeHtml(title)}</h1>
+<div class="meta">${escapeHtml(exportMeta(shown.length))}</div>
+${shown.map(messageHtml).join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+// ── JSON (lossless) ──────────────────────────────────────
+
+export function buildTranscript(sessionKey: string, label: string, msgs: ChatMessage[]): string {
+  const file: TranscriptFile = {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: { key: sessionKey, label },
+    // Drop in-flight flags — a transcript is a finished snapshot
+    messages: msgs.map(({ isStreaming: _s, ...m }) => m),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Validate a parsed transcript file. Throws with a readable reason. */
+export function parseTranscript(raw: string): TranscriptFile {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  if (data?.format !== TRANSCRIPT_FORMAT) throw new Error('Not an AEGIS transcript');
+  if (typeof data.version !== 'number' || data.version > TRANSCRIPT_VERSION) {
+    throw new Error(`Unsupported transcript version: ${data.version}`);
+  }
+  if (!Array.isArray(data.messages)) throw new Error('Transcript has no messages');
+  const roles = new Set(['user', 'assistant', 'system', 'tool']);
+  const messages: ChatMessage[] = data.messages
+    .filter((m: any) => m && typeof m.id === 'string' && roles.has(m.role))
+    .map((m: any) => ({ ...m, content: typeof m.content === 'string' ? m.content : '', isStreaming: false }));
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    session: { key: String(data.session?.key || ''), label: String(data.session?.label || data.session?.key || 'Transcript') },
+    messages,
+  };
+}
+
+// ── Entry points (ChatTabs / CommandPalette / slash commands) ──
+
+/** Label shown for a session — tab list first, then imported transcripts */
+export function sessionTitle(key: string): string {
+  const { sessions, transcripts } = useChatStore.getState();
+  return sessions.find((s) => s.key === key)?.label || transcripts[key]?.label || key.split(':').pop() || key;
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '_').replace(/\s+/g, ' ').trim().slice(0, 80) || 'conversation';
+}
+
+export function buildExport(format: ExportFormat, sessionKey: string, msgs: ChatMessage[]): string {
+  const title = sessionTitle(sessionKey);
+  if (format === 'markdown') return buildMarkdown(title, msgs);
+  if (format === 'html') return buildHtml(title, msgs);
+  return buildTranscript(sessionKey, title, msgs);
+}
+
+/**
+ * Export the active session through a Save dialog.
+ * Resolves to the saved path, null when canceled. Throws on failure.
+ */
+export async function exportActiveConversation(format: ExportFormat): Promise<string | null> {
+  const { activeSessionKey, messages } = useChatStore.getState();
+  if (messages.length === 0) throw new Error('Nothing to export');
+  const content = buildExport(format, activeSessionKey, messages);
+  const date = new Date().toISOString().slice(0, 10);
+  const fileName = `${safeFileName(sessionTitle(activeSessionKey))}-${date}.${EXTENSIONS[format]}`;
+
+  if (!window.aegis?.file?.saveText) {
+    // Browser / dev fallback — plain download
+    const mime = format === 'html' ? 'text/html' : format === 'json' ? 'application/json' : 'text/markdown';
+    const url = URL.createObjectURL(new Blob([content], { type: mime }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+    return fileName;
+  }
+
+  const result = await window.aegis.file.saveText(content, fileName, 'Export Conversation');
+  if (result.canceled) return null;
+  if (!result.success) throw new Error(result.error || 'Save failed');
+  return result.path || fileName;
+}
+
+/**
+ * Pick a JSON export and open it as a read-only transcript tab.
+ * Resolves to the new tab key, null when canceled. Throws on invalid files.
+ */
+export async function importTranscript(): Promise<string | null> {
+  if (!window.aegis?.file?.openText) throw new Error('Import is only available in the desktop app');
+  const picked = await window.aegis.file.openText(['json']);
+  if (picked.canceled) return null;
+  if (picked.error || picked.content === undefined) throw new Error(picked.error || 'Could not read file');
+
+  const transcript = parseTranscript(picked.content);
+  return useChatStore.getState().openTranscript({
+    label: `📜 ${transcript.session.label}`,
+    sourceSessionKey: transcript.session.key,
+    exportedAt: transcript.exportedAt,
+    fileName: picked.name,
+  }, transcript.messages);
+}
+
+// ── With toast feedback (user-initiated actions) ─────────
+
+const toast = (title: string, body: string) =>
+  useNotificationStore.getState().addToast('info', title, body);
+
+export async function runConversationExport(format: ExportFormat): Promise<void> {
+  try {
+    const saved = await exportActiveConversation(format);
+    if (saved) toast(i18n.t('export.done'), saved);
+  } catch (err: any) {
+    console.error('[Export] Failed:', err);
+    toast(i18n.t('export.failed'), err?.message || String(err));
+  }
+}
+
+export async function runTranscriptImport(): Promise<void> {
+  try {
+    await importTranscript();
+  } catch (err: any) {
+    console.error('[Export] Import failed:', err);
+    toast(i18n.t('export.importFailed'), err?.message || String(err));
+  }
+}
@@ -0,0 +1,50 @@
+// ═══════════════════════════════════════════════════════════
+// Demo Mode — AEGIS against the built-in mock gateway
+//
+// The main process serves electron/mockGateway.ts on loopback and
+// the renderer connects to it like any other gateway, under the
+// reserved DEMO_PROFILE_ID: the real profile's outbox stays put and
+// the archive skips demo chats. Leaving switches back to the profile
+// that was active before. A Diagnostics export can be replayed.
+// ═══════════════════════════════════════════════════════════
+
+import { activateGateway, switchProfile } from '@/services/profiles';
+import { useProfileStore, DEMO_PROFILE_ID } from '@/stores/profileStore';
+import { useOutboxStore } from '@/stores/outboxStore';
+
+export interface DemoRecordingInfo {
+  name: string;
+  /** Events that will be replayed */
+  events: number;
+  /** Recorded results that answer requests */
+  results: number;
+}
+
+/** Profile to return to — remembered when demo mode starts */
+let previousProfileId = '';
+
+export const isDemoMode = () => useProfileStore.getState().activeId === DEMO_PROFILE_ID;
+
+/** Start (or restart) the mock gateway and connect to it */
+export async function startDemoMode(recording?: { name: string; content: string }): Promise<DemoRecordingInfo | undefined> {
+  if (!window.aegis?.mockGateway) throw new Error('Demo mode needs the desktop app');
+  const result = await window.aegis.mockGateway.start(recording ? { recording } : undefined);
+  if (!result.success) throw new Error(result.error);
+
+  if (!isDemoMode()) previousProfileId = useProfileStore.getState().activeId;
+  console.log('[Demo] Connecting to mock gateway', result.url, result.recording ? `(replaying ${result.recording.name})` : '');
+  activateGateway(DEMO_PROFILE_ID, result.url, result.token);
+  return result.recording;
+}
+
+/** Back to the real gateway — demo messages still in the outbox are dropped */
+export async function stopDemoMode(): Promise<void> {
+  if (!isDemoMode()) return;
+  const outbox = useOutboxStore.getState();
+  outbox.items.filter((i) => i.profileId === DEMO_PROFILE_ID).forEach((i) => outbox.remove(i.id));
+
+  const { profiles } = useProfileStore.getState();
+  const target = profiles.find((p) => p.id === previousProfileId) ?? profiles[0];
+  if (target) await switchProfile(target.id);
+  await window.aegis?.mockGateway?.stop();
+}
@@ -0,0 +1,296 @@
+// ═══════════════════════════════════════════════════════════
+// Connection Diagnostics — what the active GatewayService did
+//
+// GatewayService reports every WS frame, connection step and auth
+// result here (observer connections don't). Frames go into a ring
+// buffer; secrets are masked as they are recorded, so what the
+// Diagnostics page shows is exactly what an export contains.
+// Payloads that don't match services/protocol.ts become protocol
+// warnings, one per method/event + field.
+// ═══════════════════════════════════════════════════════════
+
+import i18n from '@/i18n';
+import { APP_VERSION } from '@/hooks/useAppVersion';
+import type { SchemaIssue } from '@/utils/schema';
+
+export type FrameDirection = 'in' | 'out';
+
+export interface FrameRecord {
+  seq: number;
+  ts: number;
+  dir: FrameDirection;
+  /** req / res / event — anything else is 'other' */
+  type: string;
+  /** Request method, event name, or the method a response answers */
+  name: string;
+  id?: string;
+  ok?: boolean;
+  /** Bytes on the wire */
+  size: number;
+  /** Responses: time since the matching request went out */
+  latencyMs?: number;
+  /** Redacted copy — omitted above PAYLOAD_MAX_BYTES (see preview) */
+  payload?: unknown;
+  preview?: string;
+}
+
+export type ConnectionEventKind =
+  | 'connect' | 'open' | 'challenge' | 'handshake-ok' | 'handshake-failed'
+  | 'close' | 'error' | 'heartbeat-timeout' | 'reconnect-scheduled' | 'pairing-retry' | 'switch';
+
+export interface ConnectionEvent {
+  ts: number;
+  kind: ConnectionEventKind;
+  detail?: string;
+  code?: number;
+  reason?: string;
+  attempt?: number;
+  delayMs?: number;
+}
+
+export interface AuthStatus {
+  challenge: 'waiting' | 'received' | 'timeout';
+  challengeAt?: number;
+  signature: 'none' | 'signed' | 'no-signature' | 'unavailable' | 'error';
+  deviceId?: string;
+  handshake: 'pending' | 'ok' | 'failed';
+  error?: string;
+}
+
+export interface PendingRequestInfo {
+  id: string;
+  method: string;
+  startedAt: number;
+}
+
+export interface ProtocolWarning {
+  kind: 'rpc' | 'event';
+  /** Method or event name */
+  name: string;
+  /** Field path inside the payload ('' = the payload itself) */
+  path: string;
+  expected: string;
+  received: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+const MAX_FRAMES = 1000;
+const MAX_EVENTS = 200;
+const MAX_WARNINGS = 100;
+const PAYLOAD_MAX_BYTES = 32 * 1024;
+const PREVIEW_CHARS = 2000;
+const REDACTED = '••••';
+/**
+ * Field names whose values are masked. Matched whole — a substring match
+ * would also hide inputTokens, maxTokens and the other usage counters.
+ */
+const SECRET_NAMES =
+  'token|accessToken|authToken|deviceToken|gatewayToken|newToken|refreshToken|signature|password|secret|api[-_]?key|privateKey|authorization|nonce|cookie';
+const SECRET_KEY = new RegExp(`^(?:${SECRET_NAMES})$`, 'i');
+const SECRET_FIELD_TEXT = new RegExp(`("(?:${SECRET_NAMES})"\\s*:\\s*)"[^"]*"`, 'gi');
+
+const CLOSE_CODES: Record<number, string> = {
+  1000: 'normal',
+  1001: 'goingAway',
+  1006: 'abnormal',
+  1008: 'policy',
+  1011: 'serverError',
+  1012: 'restart',
+  4000: 'heartbeat',
+};
+
+/** i18n label for a WebSocket close code */
+export function closeCodeLabel(code: number): string {
+  const key = CLOSE_CODES[code];
+  return key ? i18n.t(`diagnostics.closeCode.${key}`) : i18n.t('diagnostics.closeCode.unknown');
+}
+
+// ── State ────────────────────────────────────────────────
+
+let frames: FrameRecord[] = [];
+let events: ConnectionEvent[] = [];
+let auth: AuthStatus = { challenge: 'waiting', signature: 'none', handshake: 'pending' };
+let pendingSource: () => PendingRequestInfo[] = () => [];
+let url = '';
+let seq = 0;
+let paused = false;
+/** kind:name:path → warning */
+let warnings = new Map<string, ProtocolWarning>();
+/** Outgoing request id → { method, sent at } — for response names and latency */
+const inflight = new Map<string, { method: string; ts: number }>();
+
+const listeners = new Set<() => void>();
+let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Listeners are throttled — streaming can produce hundreds of frames a second */
+function notify() {
+  if (notifyTimer) return;
+  notifyTimer = setTimeout(() => {
+    notifyTimer = null;
+    listeners.forEach((l) => l());
+  }, 250);
+}
+
+export function subscribeDiagnostics(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+// ── Redaction ────────────────────────────────────────────
+
+function redact(value: unknown, depth = 0): unknown {
+  if (depth > 12 || value == null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+    out[k] = SECRET_KEY.test(k) && v != null && v !== '' ? REDACTED : redact(v, depth + 1);
+  }
+  return out;
+}
+
+/** Same masking for text that could not be parsed (or was too big to keep) */
+function redactText(text: string): string {
+  return text.replace(SECRET_FIELD_TEXT, `$1"${REDACTED}"`);
+}
+
+/** ws://host/?token=… → token masked */
+function redactUrl(raw: string): string {
+  return raw.replace(/([?&][^=&]*(?:token|key|secret)[^=&]*=)[^&]*/gi, `$1${REDACTED}`);
+}
+
+// ── Recording (called by GatewayService) ─────────────────
+
+export function recordFrame(dir: FrameDirection, raw: string, msg: any) {
+  if (paused) return;
+  const now = Date.now();
+  const type = ['req', 'res', 'event'].includes(msg?.type) ? msg.type : 'other';
+  let name = msg?.method || msg?.event || '';
+  let latencyMs: number | undefined;
+
+  if (type === 'req' && dir === 'out' && msg.id) {
+    inflight.set(msg.id, { method: msg.method, ts: now });
+    if (inflight.size > 500) inflight.delete(inflight.keys().next().value!);
+  } else if (type === 'res' && msg.id) {
+    const req = inflight.get(msg.id);
+    if (req) {
+      inflight.delete(msg.id);
+      name = req.method;
+      latencyMs = now - req.ts;
+    }
+  }
+
+  const size = new Blob([raw]).size;
+  const record: FrameRecord = {
+    seq: ++seq,
+    ts: now,
+    dir,
+    type,
+    name,
+    id: msg?.id,
+    ok: type === 'res' ? msg.ok !== false : undefined,
+    size,
+    latencyMs,
+  };
+  if (size <= PAYLOAD_MAX_BYTES && msg) record.payload = redact(msg);
+  else record.preview = redactText(raw.slice(0, PREVIEW_CHARS));
+
+  frames.push(record);
+  if (frames.length > MAX_FRAMES) frames = frames.slice(-MAX_FRAMES);
+  notify();
+}
+
+export function recordConnectionEvent(event: Omit<ConnectionEvent, 'ts'>) {
+  events.push({ ts: Date.now(), ...event });
+  if (events.length > MAX_EVENTS) events = events.slice(-MAX_EVENTS);
+  notify();
+}
+
+export function updateAuthStatus(patch: Partial<AuthStatus>) {
+  auth = { ...auth, ...patch };
+  notify();
+}
+
+/** Schema drift in a result or event — repeats of the same field only bump the count */
+export function recordProtocolIssues(kind: ProtocolWarning['kind'], name: string, issues: SchemaIssue[]) {
+  if (issues.length === 0) return;
+  const now = Date.now();
+  for (const issue of issues) {
+    const key = `${kind}:${name}:${issue.path}`;
+    const known = warnings.get(key);
+    if (known) {
+      warnings.set(key, { ...known, received: issue.received, count: known.count + 1, lastSeen: now });
+      continue;
+    }
+    console.warn(`[Protocol] ${name}${issue.path ? ` → ${issue.path}` : ''}: expected ${issue.expected}, got ${issue.received}`);
+    warnings.set(key, { kind, name, ...issue, count: 1, firstSeen: now, lastSeen: now });
+    if (warnings.size > MAX_WARNINGS) warnings.delete(warnings.keys().next().value!);
+  }
+  notify();
+}
+
+/** New socket — the challenge/signature state starts over */
+export function beginConnection(gatewayUrl: string) {
+  url = redactUrl(gatewayUrl);
+  auth = { challenge: 'waiting', signature: 'none', handshake: 'pending' };
+  inflight.clear();
+  recordConnectionEvent({ kind: 'connect', detail: url });
+}
+
+/** GatewayService registers a reader for its pending-request table */
+export function setPendingRequestSource(source: () => PendingRequestInfo[]) {
+  pendingSource = source;
+}
+
+// ── Reading (Diagnostics page) ───────────────────────────
+
+export interface DiagnosticsSnapshot {
+  url: string;
+  frames: FrameRecord[];
+  events: ConnectionEvent[];
+  auth: AuthStatus;
+  pending: PendingRequestInfo[];
+  warnings: ProtocolWarning[];
+  paused: boolean;
+}
+
+const sortedWarnings = () => [...warnings.values()].sort((a, b) => b.lastSeen - a.lastSeen);
+
+/** Copies — the recorder appends in place */
+export function getDiagnostics(): DiagnosticsSnapshot {
+  return { url, frames: frames.slice(), events: events.slice(), auth, pending: pendingSource(), warnings: sortedWarnings(), paused };
+}
+
+export function setFrameRecordingPaused(value: boolean) {
+  paused = value;
+  notify();
+}
+
+export function clearFrames() {
+  frames = [];
+  notify();
+}
+
+export function clearProtocolWarnings() {
+  warnings = new Map();
+  notify();
+}
+
+// ── Export ───────────────────────────────────────────────
+
+export async function exportDiagnostics(): Promise<{ success: boolean; canceled?: boolean; error?: string }> {
+  const bundle = {
+    format: 'aegis-diagnostics',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    app: { version: APP_VERSION, userAgent: navigator.userAgent, language: i18n.language },
+    gateway: { url, auth: { ...auth, deviceId: auth.deviceId ? `${auth.deviceId.slice(0, 8)}${REDACTED}` : undefined } },
+    connectionHistory: events,
+    pendingRequests: pendingSource().map((p) => ({ ...p, ageMs: Date.now() - p.startedAt })),
+    protocolWarnings: sortedWarnings(),
+    frames,
+  };
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+  return window.aegis.file.saveText(JSON.stringify(bundle, null, 2), `aegis-diagnostics-${stamp}.json`, i18n.t('diagnostics.export'));
+}
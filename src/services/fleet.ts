@@ -0,0 +1,238 @@
+// ═══════════════════════════════════════════════════════════
+// Fleet — poll every gateway profile at once (Dashboard "All gateways")
+//
+// The active profile is already polled into gatewayDataStore by the
+// main connection. Each other profile gets a read-only observer
+// GatewayService, polled on the same fast / mid / slow schedule into
+// fleetStore. Observers exist only while the toggle is on, and like
+// the main engine their fast / mid tiers skip while the window is hidden.
+// ═══════════════════════════════════════════════════════════
+
+import { GatewayService } from '@/services/gateway';
+import { describeGatewayError } from '@/services/gatewayErrors';
+import { useProfileStore, type GatewayProfile } from '@/stores/profileStore';
+import { useFleetStore, type FleetSource } from '@/stores/fleetStore';
+import {
+  useGatewayDataStore, fetchRaw, detectSubAgents, fetchFullCost,
+  FAST_INTERVAL, MID_INTERVAL, SLOW_INTERVAL,
+  type CostSummary, type CronJob,
+} from '@/stores/gatewayDataStore';
+
+interface Observer {
+  gw: GatewayService;
+  /** url + credential — a change means reconnect */
+  signature: string;
+  timers: ReturnType<typeof setInterval>[];
+}
+
+const observers = new Map<string, Observer>();
+
+const signatureOf = (p: GatewayProfile) => `${p.url}|${p.deviceToken || p.token}`;
+
+// ── Polling per observer ─────────────────────────────────
+
+function stopTimers(obs: Observer) {
+  obs.timers.forEach(clearInterval);
+  obs.timers = [];
+}
+
+function startTimers(profileId: string, obs: Observer) {
+  const { updateSource } = useFleetStore.getState();
+  const fail = (e: any) => updateSource(profileId, { error: describeGatewayError(e) });
+
+  const tickFast = () => fetchRaw.sessions(obs.gw).then((sessions) => {
+    const prev = useFleetStore.getState().sources[profileId]?.runningSubAgents || [];
+    updateSource(profileId, {
+      sessions,
+      runningSubAgents: detectSubAgents(sessions, prev),
+      error: null,
+      lastFetch: Date.now(),
+    });
+  }).catch(fail);
+  const tickMid = () => fetchRaw.cron(obs.gw)
+    .then((cronJobs) => updateSource(profileId, { cronJobs, lastFetch: Date.now() }))
+    .catch(fail);
+  const tickSlow = () => fetchRaw.cost(obs.gw)
+    .then((costSummary) => updateSource(profileId, { costSummary, lastFetch: Date.now() }))
+    .catch(fail);
+
+  const whenVisible = (tick: () => void) => () => { if (!document.hidden) tick(); };
+
+  stopTimers(obs);
+  tickFast(); tickMid(); tickSlow();
+  obs.timers = [
+    setInterval(whenVisible(tickFast), FAST_INTERVAL),
+    setInterval(whenVisible(tickMid),  MID_INTERVAL),
+    setInterval(tickSlow, SLOW_INTERVAL),
+  ];
+}
+
+// ── Observer lifecycle ───────────────────────────────────
+
+function addObserver(profile: GatewayProfile) {
+  const gw = new GatewayService({
+    observer: true,
+    onStatusChange: ({ connected, error }) => {
+      const obs = observers.get(profile.id);
+      if (obs?.gw !== gw) return; // removed meanwhile
+      const wasConnected = useFleetStore.getState().sources[profile.id]?.connected;
+      useFleetStore.getState().updateSource(profile.id, {
+        connected,
+        ...(error ? { error } : {}),
+      });
+      if (connected && !wasConnected) startTimers(profile.id, obs);
+      if (!connected) stopTimers(obs);
+    },
+  });
+  observers.set(profile.id, { gw, signature: signatureOf(profile), timers: [] });
+  console.log('[Fleet] Observing', profile.name);
+  gw.connect(profile.url, profile.deviceToken || profile.token);
+}
+
+function removeObserver(profileId: string) {
+  const obs = observers.get(profileId);
+  if (!obs) return;
+  observers.delete(profileId);
+  stopTimers(obs);
+  obs.gw.disconnect();
+  useFleetStore.getState().removeSource(profileId);
+}
+
+/** Reconcile observers with the profile list, the active profile and the toggle */
+function sync() {
+  const { enabled } = useFleetStore.getState();
+  const { profiles, activeId } = useProfileStore.getState();
+  const wanted = new Map(
+    (enabled ? profiles.filter((p) => p.id !== activeId) : []).map((p) => [p.id, p]),
+  );
+
+  for (const [id, obs] of observers) {
+    const profile = wanted.get(id);
+    if (!profile || signatureOf(profile) !== obs.signature) removeObserver(id);
+  }
+  for (const profile of wanted.values()) {
+    if (!observers.has(profile.id)) addObserver(profile);
+  }
+}
+
+/** Keep observers in step with the stores. Returns a stop (drops every observer). */
+export function startFleet(): () => void {
+  sync();
+  const unsubFleet = useFleetStore.subscribe((state, prev) => {
+    if (state.enabled !== prev.enabled) sync();
+  });
+  const unsubProfiles = useProfileStore.subscribe((state, prev) => {
+    if (state.profiles !== prev.profiles || state.activeId !== prev.activeId) sync();
+  });
+  return () => {
+    unsubFleet();
+    unsubProfiles();
+    [...observers.keys()].forEach(removeObserver);
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Aggregation — one summary row per gateway
+// ═══════════════════════════════════════════════════════════
+
+export interface CronHealth {
+  ok: number;
+  failing: number;
+  disabled: number;
+}
+
+export interface GatewaySummary {
+  profileId: string;
+  name: string;
+  color: string;
+  active: boolean;
+  connected: boolean;
+  error: string | null;
+  todayCost: number;
+  monthCost: number;
+  sessions: number;
+  activeSessions: number;
+  subAgents: number;
+  cron: CronHealth;
+}
+
+export function cronHealth(jobs: CronJob[]): CronHealth {
+  const health: CronHealth = { ok: 0, failing: 0, disabled: 0 };
+  for (const job of jobs) {
+    if (job.enabled === false) { health.disabled++; continue; }
+    const run = job.state?.lastRunStatus || job.state?.lastStatus || job.lastRunStatus;
+    const delivery = job.state?.lastDeliveryStatus || job.lastDeliveryStatus;
+    if (run === 'error' || delivery === 'failed' || delivery === 'error') health.failing++;
+    else health.ok++;
+  }
+  return health;
+}
+
+function summarize(
+  profile: GatewayProfile,
+  active: boolean,
+  data: Omit<FleetSource, 'profileId' | 'lastFetch'>,
+): GatewaySummary {
+  const today = new Date().toISOString().slice(0, 10);
+  const daily = data.costSummary?.daily || [];
+  return {
+    profileId: profile.id,
+    name: profile.name,
+    color: profile.color,
+    active,
+    connected: data.connected,
+    error: data.error,
+    todayCost: daily.find((d) => d.date === today)?.totalCost || 0,
+    monthCost: daily
+      .filter((d) => d.date.startsWith(today.slice(0, 7)))
+      .reduce((sum, d) => sum + (d.totalCost || 0), 0),
+    sessions: data.sessions.length,
+    activeSessions: data.sessions.filter((s) => (s.totalTokens || 0) > 0).length,
+    subAgents: data.runningSubAgents.length,
+    cron: cronHealth(data.cronJobs),
+  };
+}
+
+/** Active profile (from gatewayDataStore) first, then every observed profile */
+export function summarizeFleet(connected: boolean): GatewaySummary[] {
+  const { profiles, activeId } = useProfileStore.getState();
+  const { sources } = useFleetStore.getState();
+  const primary = useGatewayDataStore.getState();
+
+  return profiles
+    .filter((p) => p.id === activeId || sources[p.id])
+    .sort((a, b) => Number(b.id === activeId) - Number(a.id === activeId))
+    .map((p) => p.id === activeId
+      ? summarize(p, true, {
+          connected,
+          error: primary.errors.sessions,
+          sessions: primary.sessions,
+          costSummary: primary.costSummary,
+          cronJobs: primary.cronJobs,
+          runningSubAgents: primary.runningSubAgents,
+        })
+      : summarize(p, false, sources[p.id]));
+}
+
+// ── On-demand cost (FullAnalytics) ───────────────────────
+
+export interface GatewayCost {
+  profileId: string;
+  name: string;
+  color: string;
+  active: boolean;
+  cost: CostSummary | null;
+}
+
+/** Cost summaries for every gateway in the fleet (requires the toggle for the others) */
+export async function fetchFleetCost(days: number): Promise<GatewayCost[]> {
+  const { profiles, activeId } = useProfileStore.getState();
+  const results = await Promise.all(profiles.map(async (p): Promise<GatewayCost | null> => {
+    const base = { profileId: p.id, name: p.name, color: p.color, active: p.id === activeId };
+    if (p.id === activeId) return { ...base, cost: await fetchFullCost(days) };
+    const obs = observers.get(p.id);
+    if (!obs?.gw.getStatus().connected) return obs ? { ...base, cost: null } : null;
+    return { ...base, cost: await fetchRaw.cost(obs.gw, days).catch(() => null) };
+  }));
+  return results.filter((r): r is GatewayCost => r !== null);
+}
@@ -8,9 +8,24 @@
 // ═══════════════════════════════════════════════════════════
 
 import { useWorkshopStore, Task } from '@/stores/workshopStore';
-import { startPolling, stopPolling, handleGatewayEvent } from '@/stores/gatewayDataStore';
+import { startPolling, stopPolling, handleGatewayEvent, useGatewayDataStore } from '@/stores/gatewayDataStore';
 import { useChatStore } from '@/stores/chatStore';
 import { useSettingsStore } from '@/stores/settingsStore';
+import { useBudgetStore } from '@/stores/budgetStore';
+import { useOutboxStore, newIdempotencyKey, type OutboxItem } from '@/stores/outboxStore';
+import { useProfileStore } from '@/stores/profileStore';
+import { useRunTimelineStore, parseRunUsage } from '@/stores/runTimelineStore';
+import { isSendBlocked } from '@/services/budget';
+import {
+  recordFrame, recordConnectionEvent, updateAuthStatus, beginConnection, setPendingRequestSource, recordProtocolIssues,
+  type ConnectionEvent, type AuthStatus,
+} from '@/services/diagnostics';
+import {
+  parseRpcResult, checkEvent,
+  type RpcResult, type SessionsListResult, type AgentsListResult, type ChatHistoryResult,
+  type CostSummary, type SessionsUsage, type ModelsListResult,
+} from '@/services/protocol';
+import { GatewayError, type GatewayErrorCode } from '@/services/gatewayErrors';
 import { parseButtons } from '@/utils/buttonParser';
 import i18n from '@/i18n';
 
@@ -195,8 +210,9 @@ export interface MediaInfo {
 
 export interface GatewayCallbacks {
   onMessage: (msg: ChatMessage) => void;
-  onStreamChunk: (messageId: string, content: string, media?: MediaInfo) => void;
-  onStreamEnd: (messageId: string, content: string, media?: MediaInfo) => void;
+  /** Streaming update for a run — sessionKey says which conversation it belongs to */
+  onStreamChunk: (sessionKey: string, messageId: string, content: string, media?: MediaInfo) => void;
+  onStreamEnd: (sessionKey: string, messageId: string, content: string, media?: MediaInfo) => void;
   onStatusChange: (status: { connected: boolean; connecting: boolean; error?: string }) => void;
   /** Fired when Gateway rejects with missing scope / invalid token */
   onScopeError?: (error: string) => void;
@@ -204,13 +220,81 @@ export interface GatewayCallbacks {
   onPairingComplete?: (token: string) => void;
 }
 
+// One in-flight assistant run. Several can stream at once (one per open tab),
+// so they are tracked by sessionKey + runId instead of a single "current" run.
+interface ActiveStream {
+  sessionKey: string;
+  runId: string;
+  content: string;
+  lastUpdate: number;
+}
+
 interface PendingRequest {
   resolve: (value: any) => void;
   reject: (reason: any) => void;
   timer: ReturnType<typeof setTimeout>;
+  method: string;
+  startedAt: number;
+  /** Detaches the AbortSignal listener */
+  cleanup?: () => void;
+}
+
+export interface RequestOptions {
+  /** Overrides the method's default from METHOD_TIMEOUTS */
+  timeoutMs?: number;
+  /** Rejects with code 'aborted' — the gateway still finishes the call, its response is dropped */
+  signal?: AbortSignal;
+  /** Extra attempts after a retryable failure — defaults to READ_RETRIES for IDEMPOTENT_READS, else 0 */
+  retries?: number;
+}
+
+// ── Request policy ──
+// Unknown methods keep the long default — agents.create, config.apply / set and
+// sessions.reset can take a while; only calls known to answer quickly get less
+const DEFAULT_TIMEOUT_MS = 120_000;
+const METHOD_TIMEOUTS: Record<string, number> = {
+  'sessions.list': 30_000,
+  'agents.list': 30_000,
+  'models.list': 30_000,
+  'cron.list': 30_000,
+  'chat.abort': 30_000,
+};
+/** Reads that are safe to send again after a timeout or a dropped socket */
+const IDEMPOTENT_READS = new Set(['sessions.list', 'usage.cost', 'cron.list']);
+const READ_RETRIES = 2;
+const RETRY_BASE_MS = 1_000;
+
+function timeoutFor(method: string, override?: number): number {
+  return override ?? METHOD_TIMEOUTS[method] ?? DEFAULT_TIMEOUT_MS;
+}
+
+/** Resolves after ms, or rejects as soon as the signal aborts */
+function waitOrAbort(ms: number, method: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GatewayError('aborted', method, `${method} aborted`));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface GatewayServiceOptions {
+  /**
+   * Read-only secondary connection (multi-gateway dashboard). Observers only
+   * answer requests: no central polling, no event handling, no message queue,
+   * and they never overwrite the active profile's device token.
+   */
+  observer?: boolean;
+  /** Status listener for observers (they have no GatewayCallbacks) */
+  onStatusChange?: GatewayCallbacks['onStatusChange'];
 }
 
-class GatewayService {
+export class GatewayService {
   private ws: WebSocket | null = null;
   private connected = false;
   private connecting = false;
@@ -226,13 +310,14 @@ class GatewayService {
   private pairingRetryTimer: ReturnType<typeof setTimeout> | null = null;
   private readonly PAIRING_RETRY_MS = 5_000; // Retry every 5s when pairing needed
 
-  // Current streaming state
-  private currentRunId: string | null = null;
-  private currentStreamContent: string = '';
+  // Streaming state — keyed by streamKey(sessionKey, runId)
+  private activeStreams = new Map<string, ActiveStream>();
   private lastCompactionTs = 0;
 
   // Device identity challenge nonce (from connect.challenge event)
   private challengeNonce: string | null = null;
+  /** RPC methods the gateway advertised in hello-ok (features.methods) */
+  private methods = new Set<string>();
   private connectTimer: ReturnType<typeof setTimeout> | null = null;
 
   // Stable per-window instance ID for diagnostics and duplicate connection prevention
@@ -242,14 +327,37 @@ class GatewayService {
   private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
   private readonly HEARTBEAT_DEAD_MS = 45_000; // No traffic for 45s = dead
 
-  // ── Message Queue (buffer while disconnected) ──
-  private messageQueue: Array<{ message: string; attachments?: any[]; sessionKey?: string }> = [];
-  private readonly MAX_QUEUE_SIZE = 50;
+  // ── Message Queue (buffer while disconnected — durable, see outboxStore) ──
+  private flushing = false;
+  /** idempotencyKeys already accepted by the gateway — a duplicate queue entry is dropped on flush */
+  private sentKeys = new Set<string>();
+  private readonly SENT_KEYS_MAX = 200;
 
   private url = '';
   private token = '';
   private contextSent = false;  // Track if Desktop context was sent with first message
 
+  private readonly observer: boolean;
+  private readonly statusListener?: GatewayCallbacks['onStatusChange'];
+
+  constructor(options: GatewayServiceOptions = {}) {
+    this.observer = !!options.observer;
+    this.statusListener = options.onStatusChange;
+    if (!this.observer) {
+      setPendingRequestSource(() => [...this.pendingRequests].map(([id, p]) => ({ id, method: p.method, startedAt: p.startedAt })));
+    }
+  }
+
+  // ── Diagnostics (active connection only — see services/diagnostics.ts) ──
+
+  private diagEvent(event: Omit<ConnectionEvent, 'ts'>) {
+    if (!this.observer) recordConnectionEvent(event);
+  }
+
+  private diagAuth(patch: Partial<AuthStatus>) {
+    if (!this.observer) updateAuthStatus(patch);
+  }
+
   // ── Heartbeat Management (activity-based) ──
   // Any incoming message resets the timer. If no traffic for HEARTBEAT_DEAD_MS → reconnect.
 
@@ -262,6 +370,7 @@ class GatewayService {
     if (!this.connected) return;
     this.heartbeatTimer = setTimeout(() => {
       console.warn('[GW] ❌ No traffic for', this.HEARTBEAT_DEAD_MS / 1000, 's — connection dead');
+      this.diagEvent({ kind: 'heartbeat-timeout', detail: `${this.HEARTBEAT_DEAD_MS / 1000}s` });
       this.ws?.close(4000, 'Heartbeat timeout');
     }, this.HEARTBEAT_DEAD_MS);
   }
@@ -272,36 +381,86 @@ class GatewayService {
 
   // ── Message Queue Management ──
 
-  private enqueueMessage(message: string, attachments?: any[], sessionKey?: string) {
-    if (this.messageQueue.length >= this.MAX_QUEUE_SIZE) {
-      console.warn('[GW] Queue full — dropping oldest message');
-      this.messageQueue.shift();
+  /** Items written for the active gateway profile (no profile = written before profiles loaded) */
+  private ownsQueueItem(item: OutboxItem): boolean {
+    return !item.profileId || item.profileId === useProfileStore.getState().activeId;
+  }
+
+  private enqueueMessage(message: string, attachments: any[] | undefined, sessionKey: string, idempotencyKey?: string) {
+    const outbox = useOutboxStore.getState();
+    // A queued item whose send was cut off comes back here — keep the one entry
+    const existing = idempotencyKey && outbox.items.find((i) => i.idempotencyKey === idempotencyKey);
+    if (existing) {
+      outbox.update(existing.id, { status: 'queued' });
+      return;
     }
-    this.messageQueue.push({ message, attachments, sessionKey });
-    console.log('[GW] 📦 Queued message — queue size:', this.messageQueue.length);
+    outbox.enqueue({
+      profileId: useProfileStore.getState().activeId,
+      sessionKey,
+      message,
+      attachments,
+      idempotencyKey,
+    });
+    console.log('[GW] 📦 Queued message — queue size:', this.getQueueSize());
   }
 
-  private async flushQueue() {
-    if (this.messageQueue.length === 0) return;
-    console.log('[GW] 📤 Flushing', this.messageQueue.length, 'queued messages');
-    // Copy and clear — prevent re-entrancy issues
-    const queued = [...this.messageQueue];
-    this.messageQueue = [];
-    for (const item of queued) {
-      try {
-        await this.sendMessage(item.message, item.attachments, item.sessionKey);
-      } catch (err) {
-        console.error('[GW] Failed to flush queued message:', err);
-        // Re-queue failed messages at the front
-        this.messageQueue.unshift(item);
-        break; // Stop flushing — connection might be dead again
+  /**
+   * Send the active profile's queued items one by one, always taking the
+   * first queued item so reordering in the panel applies mid-flush.
+   * Failed items stay in the queue until retried from the panel.
+   */
+  async flushQueue() {
+    if (this.flushing || this.observer) return;
+    this.flushing = true;
+    try {
+      while (this.ws && this.connected) {
+        const outbox = useOutboxStore.getState();
+        const item = outbox.items.find((i) => i.status === 'queued' && this.ownsQueueItem(i));
+        if (!item) break;
+        if (this.sentKeys.has(item.idempotencyKey)) {
+          console.log('[GW] 📤 Dropping duplicate queued message:', item.idempotencyKey);
+          outbox.remove(item.id);
+          continue;
+        }
+        outbox.update(item.id, { status: 'sending', attempts: item.attempts + 1, error: undefined });
+        try {
+          const result = await this.sendMessage(item.message, item.attachments, item.sessionKey, { idempotencyKey: item.idempotencyKey });
+          // Connection dropped between the check and the send — the item is queued again
+          if (result?.queued) break;
+          this.rememberSent(item.idempotencyKey);
+          useOutboxStore.getState().remove(item.id);
+          if (!result?.held) useChatStore.getState().setIsTyping(true, item.sessionKey);
+        } catch (err: any) {
+          // Socket dropped mid-send — the idempotencyKey makes sending it again safe
+          if (err instanceof GatewayError && (err.code === 'disconnected' || err.code === 'not_connected')) {
+            useOutboxStore.getState().update(item.id, { status: 'queued' });
+            break;
+          }
+          console.error('[GW] Failed to flush queued message:', err);
+          useOutboxStore.getState().update(item.id, { status: 'failed', error: err?.message || String(err) });
+        }
       }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private rememberSent(key: string) {
+    this.sentKeys.add(key);
+    if (this.sentKeys.size > this.SENT_KEYS_MAX) {
+      this.sentKeys.delete(this.sentKeys.values().next().value!);
     }
   }
 
-  /** Number of messages waiting in the offline queue */
+  /** Put a failed (or edited) item back in line and flush when connected */
+  retryQueued(id: string) {
+    useOutboxStore.getState().update(id, { status: 'queued', error: undefined });
+    this.flushQueue();
+  }
+
+  /** Number of messages waiting in the offline queue for this gateway */
   getQueueSize(): number {
-    return this.messageQueue.length;
+    return useOutboxStore.getState().items.filter((i) => this.ownsQueueItem(i)).length;
   }
 
   // ── Setup ──
@@ -340,6 +499,43 @@ class GatewayService {
     return this.extractText(content);
   }
 
+  // ── Stream Tracking (per session + run) ──
+
+  private streamKey(sessionKey: string, runId: string): string {
+    return `${sessionKey}::${runId}`;
+  }
+
+  /** Most recently updated run in a session — used when an event carries no runId */
+  private latestStreamFor(sessionKey: string): ActiveStream | undefined {
+    let latest: ActiveStream | undefined;
+    for (const stream of this.activeStreams.values()) {
+      if (stream.sessionKey !== sessionKey) continue;
+      if (!latest || stream.lastUpdate > latest.lastUpdate) latest = stream;
+    }
+    return latest;
+  }
+
+  /** Put a run on the timeline, noting the session's token count to diff against */
+  private trackRun(sessionKey: string, runId: string) {
+    const timeline = useRunTimelineStore.getState();
+    if (timeline.runs[runId]) return;
+    const session = useGatewayDataStore.getState().sessions.find((s) => s.key === sessionKey);
+    timeline.beginRun(sessionKey, runId, session?.totalTokens);
+  }
+
+  /** Remove a finished run and return what it had accumulated */
+  private takeStream(sessionKey: string, runId: string): string {
+    const key = this.streamKey(sessionKey, runId);
+    const content = this.activeStreams.get(key)?.content || '';
+    this.activeStreams.delete(key);
+    return content;
+  }
+
+  /** Session a chat event belongs to — older gateways omit sessionKey, so fall back to the active tab */
+  private resolveSessionKey(payload: any): string {
+    return payload.sessionKey || useChatStore.getState().activeSessionKey;
+  }
+
   // ── Connect ──
 
   connect(url: string, token: string) {
@@ -357,11 +553,13 @@ class GatewayService {
     this.emitStatus();
 
     console.log('[GW] Connecting:', url);
+    if (!this.observer) beginConnection(url);
 
     this.ws = new WebSocket(url);
 
     this.ws.onopen = () => {
       console.log('[GW] Open — waiting for connect.challenge...');
+      this.diagEvent({ kind: 'open' });
       this.challengeNonce = null;
       // Wait up to 2s for challenge nonce (v2 auth).
       // If it doesn't arrive, proceed without device signature (token-only auth).
@@ -369,6 +567,7 @@ class GatewayService {
       this.connectTimer = setTimeout(() => {
         if (this.connecting) {
           console.log('[GW] No challenge received — proceeding with token-only auth');
+          this.diagAuth({ challenge: 'timeout' });
           this.sendHandshake();
         }
       }, 2000);
@@ -377,6 +576,7 @@ class GatewayService {
     this.ws.onmessage = (event) => {
       try {
         const msg = JSON.parse(event.data);
+        if (!this.observer) recordFrame('in', event.data, msg);
         this.handleMessage(msg);
       } catch (e) {
         console.error('[GW] Parse error:', e);
@@ -385,11 +585,16 @@ class GatewayService {
 
     this.ws.onclose = (event) => {
       console.log('[GW] Closed:', event.code, event.reason);
+      this.diagEvent({ kind: 'close', code: event.code, reason: event.reason || undefined });
       this.stopHeartbeat();
-      stopPolling();
+      if (!this.observer) stopPolling();
       this.connected = false;
       this.connecting = false;
       this.ws = null;
+      // Responses can't arrive on a new socket — fail now instead of at the timeout
+      this.rejectAllPending('disconnected', `Connection closed (${event.code})`);
+      // Runs cannot resume on a new socket — drop their partial state
+      this.activeStreams.clear();
       this.emitStatus();
 
       // Close code 1008 = pairing required (Gateway scope rejection)
@@ -397,6 +602,12 @@ class GatewayService {
         this.pairingRequired = true;
       }
 
+      // Observers can't run the pairing flow — report and stay down
+      if (this.pairingRequired && this.observer) {
+        this.emitStatus({ error: event.reason || 'pairing required' });
+        return;
+      }
+
       // Pairing required — gentle retry instead of exponential backoff
       if (this.pairingRequired) {
         this.callbacks?.onScopeError?.(event.reason || 'pairing required');
@@ -409,6 +620,7 @@ class GatewayService {
 
     this.ws.onerror = (event) => {
       console.error('[GW] Error:', event);
+      this.diagEvent({ kind: 'error', detail: 'Connection error' });
       this.connecting = false;
       this.emitStatus({ error: 'Connection error' });
     };
@@ -428,6 +640,7 @@ class GatewayService {
     }
     this.connected = false;
     this.connecting = false;
+    this.rejectAllPending('disconnected', 'Disconnected');
     this.emitStatus();
   }
 
@@ -441,19 +654,23 @@ class GatewayService {
     // Note: Gateway client schema is strict — no extra fields allowed
     // Desktop identity is carried in userAgent instead
 
-    this.registerCallback(id, {
+    this.registerCallback(id, 'connect', {
       resolve: (response: any) => {
         console.log('[GW] Handshake response:', JSON.stringify(response).substring(0, 200));
         if (response.ok !== false && (response.payload?.type === 'hello-ok' || response.type === 'hello-ok')) {
           console.log('[GW] ✅ Connected!');
+          this.diagEvent({ kind: 'handshake-ok' });
+          this.diagAuth({ handshake: 'ok', error: undefined });
           // Save device token if issued
           const auth = response.auth || response.payload?.auth;
-          if (auth?.deviceToken && window.aegis?.pairing?.saveToken) {
+          if (auth?.deviceToken && !this.observer && window.aegis?.pairing?.saveToken) {
             window.aegis.pairing.saveToken(auth.deviceToken).catch(() => {});
           }
           this.connected = true;
           this.connecting = false;
           this.reconnectAttempt = 0;
+          const methods = response.payload?.features?.methods;
+          this.methods = new Set(Array.isArray(methods) ? methods.filter((m: unknown) => typeof m === 'string') : []);
           // Reset pairing state on successful connect
           this.pairingRequired = false;
           if (this.pairingRetryTimer) {
@@ -462,8 +679,12 @@ class GatewayService {
           }
           this.startHeartbeat();
           this.emitStatus();
+          if (this.observer) return;
           // Start central data polling
           startPolling(this);
+          // Seed presence from the hello snapshot — later changes arrive as events
+          const presence = response.payload?.snapshot?.presence;
+          if (Array.isArray(presence)) handleGatewayEvent('presence', { presence });
           // Enable reasoning streaming so ThinkingBubble works for all users
           this.enableReasoningStream();
           // Flush any messages queued while disconnected
@@ -471,6 +692,8 @@ class GatewayService {
         } else {
           const err = response.error?.message || JSON.stringify(response);
           console.error('[GW] ❌ Handshake failed:', err);
+          this.diagEvent({ kind: 'handshake-failed', detail: err });
+          this.diagAuth({ handshake: 'failed', error: err });
           this.connected = false;
           this.connecting = false;
           this.emitStatus({ error: err });
@@ -479,6 +702,8 @@ class GatewayService {
       reject: (err: any) => {
         const errStr = String(err);
         console.error('[GW] ❌ Handshake rejected:', errStr);
+        this.diagEvent({ kind: 'handshake-failed', detail: errStr });
+        this.diagAuth({ handshake: 'failed', error: errStr });
         this.connecting = false;
         // Detect pairing rejection — will switch to gentle retry in onclose
         if (errStr.toLowerCase().includes('pairing required') || errStr.toLowerCase().includes('pairing_required')) {
@@ -511,14 +736,20 @@ class GatewayService {
             nonce: signed.nonce,
           };
           console.log('[GW] 🔑 Device identity attached (v2):', signed.deviceId.substring(0, 16) + '...');
+          this.diagAuth({ signature: 'signed', deviceId: signed.deviceId });
         } else {
           console.warn('[GW] Device signing returned no signature — skipping device auth');
+          this.diagAuth({ signature: 'no-signature' });
         }
       } else if (!this.challengeNonce) {
         console.log('[GW] No challenge nonce — using token-only auth');
+        this.diagAuth({ signature: 'none' });
+      } else {
+        this.diagAuth({ signature: 'unavailable' });
       }
-    } catch (err) {
+    } catch (err: any) {
       console.warn('[GW] Device identity unavailable:', err);
+      this.diagAuth({ signature: 'error', error: err?.message || String(err) });
     }
 
     const platform = detectPlatform();
@@ -552,11 +783,27 @@ class GatewayService {
 
   // ── Send Message ──
 
-  async sendMessage(message: string, attachments?: any[], sessionKey = 'agent:main:main'): Promise<any> {
+  async sendMessage(
+    message: string,
+    attachments?: any[],
+    sessionKey = 'agent:main:main',
+    opts: { skipBudgetCheck?: boolean; idempotencyKey?: string; bubbleId?: string } = {},
+  ): Promise<any> {
+    // Budget hard stop — hold the message until the user confirms (BudgetHoldDialog)
+    if (!opts.skipBudgetCheck) {
+      const meter = isSendBlocked(sessionKey);
+      if (meter) {
+        console.warn('[GW] 💸 Budget exceeded — holding chat.send for confirmation:', meter.scope, meter.agentId ?? '');
+        useBudgetStore.getState().holdMessage({ message, attachments, sessionKey, meter, bubbleId: opts.bubbleId });
+        useChatStore.getState().setIsTyping(false, sessionKey);
+        return { held: true };
+      }
+    }
+
     // Queue message if disconnected instead of throwing
     if (!this.ws || !this.connected) {
-      this.enqueueMessage(message, attachments, sessionKey);
-      return { queued: true, queueSize: this.messageQueue.length };
+      this.enqueueMessage(message, attachments, sessionKey, opts.idempotencyKey);
+      return { queued: true, queueSize: this.getQueueSize() };
     }
 
     // Gateway expects: { type, mimeType, content (base64 string), fileName }
@@ -575,29 +822,51 @@ class GatewayService {
       };
     });
 
-    // Inject Desktop context with the FIRST message only
+    // A rewind (edit, branch switch) or fork waiting for this session: the
+    // transcript is cleared only now, and the conversation it continues from
+    // goes out in front of the message in a hidden block — no turn of its own,
+    // so nothing asks for a reply. The rewind is per profile (chatStore).
+    const rewind = useChatStore.getState().pendingRewinds[sessionKey];
+    if (rewind?.reset) {
+      await this.request('sessions.reset', { key: sessionKey });
+      // The gateway no longer has these — history loads show them from here
+      useChatStore.getState().setHistoryPrefix(sessionKey, rewind.prefix);
+      useChatStore.getState().setPendingRewind(sessionKey, { ...rewind, reset: false });
+    }
+    const prior = rewind?.context;
+
+    // Inject Desktop context with the FIRST message only — and again for a
+    // rewound or forked session, which starts without it
     let finalMessage = message;
-    if (!this.contextSent && message.trim()) {
-      finalMessage = `${AEGIS_DESKTOP_CONTEXT}\n\n${message}`;
+    if (prior) {
+      finalMessage = `[AEGIS_PRIOR_CONTEXT]\n${prior}\n[/AEGIS_PRIOR_CONTEXT]\n\n${finalMessage}`;
+    }
+    if ((!this.contextSent || prior) && message.trim()) {
+      finalMessage = `${AEGIS_DESKTOP_CONTEXT}\n\n${finalMessage}`;
       this.contextSent = true;
       console.log('[GW] 📋 Desktop context injected with first message');
     }
 
-    return this.request('chat.send', {
+    const result = await this.request('chat.send', {
       sessionKey,
       message: finalMessage,
-      idempotencyKey: `aegis-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      idempotencyKey: opts.idempotencyKey || newIdempotencyKey(),
       ...(gwAttachments?.length ? { attachments: gwAttachments } : {}),
     });
+    // Unless the user rewound again meanwhile
+    if (rewind && useChatStore.getState().pendingRewinds[sessionKey]?.context === prior) {
+      useChatStore.getState().setPendingRewind(sessionKey, null);
+    }
+    return result;
   }
 
   // ── Sessions & History ──
 
-  async getSessions(): Promise<any> {
+  async getSessions(): Promise<SessionsListResult> {
     return this.request('sessions.list', {});
   }
 
-  async getAgents(): Promise<any> {
+  async getAgents(): Promise<AgentsListResult> {
     return this.request('agents.list', {});
   }
 
@@ -613,8 +882,8 @@ class GatewayService {
     return this.request('agents.delete', { agentId });
   }
 
-  async getHistory(sessionKey: string, limit = 200): Promise<any> {
-    return this.request('chat.history', { sessionKey, limit });
+  async getHistory(sessionKey: string, limit = 200, opts?: RequestOptions): Promise<ChatHistoryResult> {
+    return this.request('chat.history', { sessionKey, limit }, opts);
   }
 
   // ── Abort (Stop) ──
@@ -652,26 +921,32 @@ class GatewayService {
 
   // ── Session Status (token usage) ──
 
-  async getSessionStatus(sessionKey = 'agent:main:main'): Promise<any> {
+  async getSessionStatus(sessionKey = 'agent:main:main'): Promise<SessionsListResult> {
     return this.request('sessions.list', {});
   }
 
   // ── Cost & Usage ──
 
-  async getAvailableModels(): Promise<any> {
+  async getAvailableModels(): Promise<ModelsListResult> {
     return this.request('models.list', {});
   }
 
-  /** Public gateway RPC — use for one-off calls not covered by dedicated methods */
-  async call(method: string, params: any = {}): Promise<any> {
-    return this.request(method, params);
+  /** Public gateway RPC — use for one-off calls not covered by dedicated methods.
+   *  Methods listed in protocol.ts RpcResults come back typed and normalized. */
+  async call<M extends string>(method: M, params: any = {}, opts?: RequestOptions): Promise<RpcResult<M>> {
+    return this.request(method, params, opts);
+  }
+
+  /** Whether the connected gateway advertised `method` — false before the handshake */
+  supportsMethod(method: string): boolean {
+    return this.methods.has(method);
   }
 
-  async getCostSummary(days = 30): Promise<any> {
+  async getCostSummary(days = 30): Promise<CostSummary | null> {
     return this.request('usage.cost', { days });
   }
 
-  async getSessionsUsage(params: { limit?: number; startDate?: string; endDate?: string; key?: string } = {}): Promise<any> {
+  async getSessionsUsage(params: { limit?: number; startDate?: string; endDate?: string; key?: string } = {}): Promise<SessionsUsage | null> {
     return this.request('sessions.usage', { limit: 50, ...params });
   }
 
@@ -691,22 +966,71 @@ class GatewayService {
 
   // ── Internal ──
 
-  private async request(method: string, params: any): Promise<any> {
-    if (!this.ws || !this.connected) throw new Error('Not connected');
+  /** Sends once, then retries retryable failures with backoff (idempotent reads only by default) */
+  private async request<M extends string>(method: M, params: any, opts: RequestOptions = {}): Promise<RpcResult<M>> {
+    const retries = opts.retries ?? (IDEMPOTENT_READS.has(method) ? READ_RETRIES : 0);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const raw = await this.requestOnce<unknown>(method, params, opts);
+        const { value, issues } = parseRpcResult(method, raw);
+        if (!this.observer) recordProtocolIssues('rpc', method, issues);
+        return value;
+      } catch (err) {
+        if (!(err instanceof GatewayError) || !err.retryable || attempt >= retries) throw err;
+        const delay = RETRY_BASE_MS * 2 ** attempt;
+        console.warn(`[GW] ↻ ${method} failed (${err.code}) — retry ${attempt + 1}/${retries} in ${delay}ms`);
+        await waitOrAbort(delay, method, opts.signal);
+      }
+    }
+  }
+
+  private requestOnce<T>(method: string, params: any, opts: RequestOptions): Promise<T> {
+    if (opts.signal?.aborted) return Promise.reject(new GatewayError('aborted', method, `${method} aborted`));
+    if (!this.ws || !this.connected) return Promise.reject(new GatewayError('not_connected', method, 'Not connected'));
 
-    return new Promise((resolve, reject) => {
+    return new Promise<T>((resolve, reject) => {
       const id = this.nextId();
-      this.registerCallback(id, { resolve, reject });
+      this.registerCallback(id, method, { resolve, reject }, opts);
       this.send({ type: 'req', id, method, params });
     });
   }
 
-  private registerCallback(id: string, handlers: { resolve: (v: any) => void; reject: (e: any) => void }) {
+  private registerCallback(
+    id: string,
+    method: string,
+    handlers: { resolve: (v: any) => void; reject: (e: any) => void },
+    opts: RequestOptions = {},
+  ) {
+    const timeoutMs = timeoutFor(method, opts.timeoutMs);
     const timer = setTimeout(() => {
-      this.pendingRequests.delete(id);
-      handlers.reject('Request timeout');
-    }, 120000);
-    this.pendingRequests.set(id, { ...handlers, timer });
+      this.takePending(id)?.reject(new GatewayError('timeout', method, `${method} timed out after ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+
+    const { signal } = opts;
+    let cleanup: (() => void) | undefined;
+    if (signal) {
+      const onAbort = () => this.takePending(id)?.reject(new GatewayError('aborted', method, `${method} aborted`));
+      signal.addEventListener('abort', onAbort, { once: true });
+      cleanup = () => signal.removeEventListener('abort', onAbort);
+    }
+    this.pendingRequests.set(id, { ...handlers, timer, method, startedAt: Date.now(), cleanup });
+  }
+
+  /** Remove a pending request and stop its timer — whoever takes it settles it */
+  private takePending(id: string): PendingRequest | undefined {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) return undefined;
+    this.pendingRequests.delete(id);
+    clearTimeout(pending.timer);
+    pending.cleanup?.();
+    return pending;
+  }
+
+  private rejectAllPending(code: GatewayErrorCode, message: string) {
+    for (const id of [...this.pendingRequests.keys()]) {
+      const pending = this.takePending(id);
+      pending?.reject(new GatewayError(code, pending.method, message));
+    }
   }
 
   private handleMessage(msg: any) {
@@ -715,9 +1039,12 @@ class GatewayService {
 
     // Intercept connect.challenge — extract nonce and trigger handshake
     if (msg.type === 'event' && msg.event === 'connect.challenge') {
+      if (!this.observer) recordProtocolIssues('event', msg.event, checkEvent(msg.event, msg.payload));
       const nonce = msg.payload?.nonce;
       if (nonce && typeof nonce === 'string') {
         console.log('[GW] 🔑 Received connect.challenge with nonce');
+        this.diagEvent({ kind: 'challenge' });
+        this.diagAuth({ challenge: 'received', challengeAt: Date.now() });
         this.challengeNonce = nonce;
         if (this.connectTimer) {
           clearTimeout(this.connectTimer);
@@ -730,32 +1057,37 @@ class GatewayService {
 
     // Response
     if (msg.type === 'res' && msg.id) {
-      const pending = this.pendingRequests.get(msg.id);
+      const pending = this.takePending(msg.id);
       if (pending) {
-        clearTimeout(pending.timer);
-        this.pendingRequests.delete(msg.id);
         if (msg.ok !== false) {
           pending.resolve(msg.payload ?? msg);
         } else {
-          const errorMsg = msg.error?.message || 'Request failed';
+          const errorMsg = typeof msg.error?.message === 'string' ? msg.error.message : 'Request failed';
           // Detect scope/auth errors for auto-pairing flow
-          if (typeof errorMsg === 'string' &&
-              (errorMsg.toLowerCase().includes('missing scope') ||
-               errorMsg.toLowerCase().includes('unauthorized') ||
-               errorMsg.toLowerCase().includes('invalid token') ||
-               errorMsg.toLowerCase().includes('token required') ||
-               errorMsg.toLowerCase().includes('auth'))) {
+          const lower = errorMsg.toLowerCase();
+          const isAuthError =
+            lower.includes('missing scope') ||
+            lower.includes('unauthorized') ||
+            lower.includes('invalid token') ||
+            lower.includes('token required') ||
+            lower.includes('auth');
+          if (isAuthError) {
             console.warn('[GW] 🔑 Scope/auth error detected:', errorMsg);
             this.callbacks?.onScopeError?.(errorMsg);
           }
-          pending.reject(errorMsg);
+          pending.reject(new GatewayError(isAuthError ? 'unauthorized' : 'rejected', pending.method, errorMsg, {
+            retryable: msg.error?.retryable === true,
+            gatewayCode: typeof msg.error?.code === 'string' ? msg.error.code : undefined,
+            details: msg.error?.details,
+          }));
         }
       }
       return;
     }
 
-    // Event
-    if (msg.type === 'event') {
+    // Event — observers only answer requests
+    if (msg.type === 'event' && !this.observer) {
+      recordProtocolIssues('event', msg.event || '', checkEvent(msg.event || '', msg.payload));
       this.handleEvent(msg);
     }
   }
@@ -776,12 +1108,24 @@ class GatewayService {
   //   }
   // }}
   // ═══════════════════════════════════════════════════════════
-  private handleToolStream(payload: any) {
+  private handleToolStream(payload: any, sessionKey: string) {
     const data = payload.data ?? {};
     const toolCallId = typeof data.toolCallId === 'string' ? data.toolCallId : '';
     const toolName = typeof data.name === 'string' ? data.name : 'tool';
     const phase    = typeof data.phase === 'string' ? data.phase : '';
 
+    // Run timeline — recorded whether or not tool cards are shown
+    const runId = payload.runId || this.latestStreamFor(sessionKey)?.runId || '';
+    if (runId && toolCallId) {
+      const timeline = useRunTimelineStore.getState();
+      if (phase === 'start') {
+        const args = data.args && typeof data.args === 'object' ? data.args : undefined;
+        timeline.noteToolStart(runId, toolCallId, toolName, args, typeof payload.ts === 'number' ? payload.ts : undefined);
+      } else if (phase === 'result') {
+        timeline.noteToolResult(runId, toolCallId, data.result);
+      }
+    }
+
     // NOTE: Sub-agent tracking moved to polling-based detection in gatewayDataStore.
     // Gateway WebSocket does NOT emit stream:"tool" events, so handleToolStream
     // only fires for visual tool cards (Tool Intent View).
@@ -792,20 +1136,22 @@ class GatewayService {
     const msgId    = `tool-live-${toolCallId}`;
 
     const store = useChatStore.getState();
+    const msgs = store.getSessionMessages(sessionKey);
 
     if (phase === 'start') {
       // Tool is starting — add a 'running' card (idempotent)
-      if (!store.messages.some((m) => m.id === msgId)) {
+      if (!msgs.some((m) => m.id === msgId)) {
         const toolInput = data.args && typeof data.args === 'object' ? data.args : {};
         store.addMessage({
           id: msgId,
           role: 'tool',
           content: '',
           toolName,
+          toolCallId,
           toolInput,
           toolStatus: 'running',
           timestamp: new Date().toISOString(),
-        });
+        }, sessionKey);
       }
       return;
     }
@@ -815,12 +1161,11 @@ class GatewayService {
       const partial = data.partialResult != null
         ? (typeof data.partialResult === 'string' ? data.partialResult : JSON.stringify(data.partialResult))
         : '';
-      const msgs = store.messages;
       const idx  = msgs.findIndex((m) => m.id === msgId);
       if (idx >= 0) {
         const updated = [...msgs];
-        updated[idx] = { ...updated[idx], toolOutput: partial.slice(0, 2000) };
-        store.setMessages(updated);
+        updated[idx] = { ...updated[idx], toolOutput: partial };
+        store.setSessionMessages(sessionKey, updated);
       }
       return;
     }
@@ -830,19 +1175,19 @@ class GatewayService {
       const output = data.result != null
         ? (typeof data.result === 'string' ? data.result : JSON.stringify(data.result))
         : '';
-      const msgs = store.messages;
       const idx  = msgs.findIndex((m) => m.id === msgId);
       if (idx >= 0) {
         const updated = [...msgs];
-        const startTs = typeof payload.ts === 'number' ? payload.ts : 0;
-        const durationMs = startTs > 0 ? Date.now() - startTs : undefined;
+        // Without a gateway ts, time from when the card appeared
+        const startTs = typeof payload.ts === 'number' ? payload.ts : Date.parse(updated[idx].timestamp);
+        const durationMs = startTs > 0 ? Math.max(0, Date.now() - startTs) : undefined;
         updated[idx] = {
           ...updated[idx],
-          toolOutput: output.slice(0, 2000),
+          toolOutput: output,
           toolStatus: 'done',
           ...(durationMs !== undefined ? { toolDurationMs: durationMs } : {}),
         };
-        store.setMessages(updated);
+        store.setSessionMessages(sessionKey, updated);
       } else {
         // No 'start' event received — add result card directly
         store.addMessage({
@@ -850,10 +1195,11 @@ class GatewayService {
           role: 'tool',
           content: '',
           toolName,
-          toolOutput: output.slice(0, 2000),
+          toolCallId,
+          toolOutput: output,
           toolStatus: 'done',
           timestamp: new Date().toISOString(),
-        });
+        }, sessionKey);
       }
       return;
     }
@@ -873,15 +1219,16 @@ class GatewayService {
   //   }
   // }}
   // ═══════════════════════════════════════════════════════════
-  private handleThinkingStream(payload: any) {
+  private handleThinkingStream(payload: any, sessionKey: string) {
     const data = payload.data ?? {};
     const text = typeof data.text === 'string' ? data.text : '';
-    const runId = payload.runId || this.currentRunId || '';
+    const runId = payload.runId || this.latestStreamFor(sessionKey)?.runId || '';
 
     if (!text || !runId) return;
 
+    useRunTimelineStore.getState().noteThinking(runId);
     const store = useChatStore.getState();
-    store.setThinkingStream(runId, text);
+    store.setThinkingStream(sessionKey, runId, text);
   }
 
   // ═══════════════════════════════════════════════════════════
@@ -895,6 +1242,9 @@ class GatewayService {
   //
   // "delta" = streaming update (accumulated content, NOT a chunk)
   // "final" = complete, fetch full history
+  //
+  // Runs are tracked per sessionKey + runId, so two tabs can stream at
+  // the same time and each update lands in its own conversation.
   // ═══════════════════════════════════════════════════════════
   private handleEvent(msg: any) {
     const event = msg.event || '';
@@ -905,6 +1255,7 @@ class GatewayService {
     // intercept the agent compaction event and inject CompactDivider immediately.
     if (event === 'agent' && p.stream === 'compaction' && p.data?.phase === 'end' && !p.data?.willRetry) {
       const sk = p.sessionKey || '';
+      useRunTimelineStore.getState().noteCompaction(sk || 'agent:main:main');
       if (sk === 'agent:main:main' || !sk) {
         const now = Date.now();
         if (now - this.lastCompactionTs > 10_000) { // Dedup: max 1 per 10s
@@ -914,7 +1265,7 @@ class GatewayService {
             role: 'compaction' as any,
             content: '',
             timestamp: new Date().toISOString(),
-          });
+          }, sk || undefined);
           console.log('[GW] 📦 Compaction detected — divider injected');
         }
       }
@@ -928,25 +1279,31 @@ class GatewayService {
 
     // Filter out events from isolated cron/sub-agent sessions
     // Only show messages from main session or sessions the user explicitly opened
-    const sessionKey = p.sessionKey || '';
+    const sessionKey = this.resolveSessionKey(p);
     // Block only truly isolated sessions (cron jobs and sub-agent runs).
     // Main sessions may use any suffix: agent:main:main, agent:main:webchat, etc.
-    if (sessionKey && (sessionKey.includes(':subagent:') || sessionKey.includes(':cron:'))) {
+    if (sessionKey.includes(':subagent:') || sessionKey.includes(':cron:')) {
+      // A sub-agent's last event ends its bar on the parent run's timeline
+      if (p.state === 'final' || p.state === 'error' || p.state === 'aborted') {
+        useRunTimelineStore.getState().endSubAgent(sessionKey);
+      }
       console.log('[GW] Ignoring event from isolated session:', sessionKey);
       return;
     }
 
+    if (p.runId) this.trackRun(sessionKey, p.runId);
+
     // ── Tool stream events (real-time tool execution) ──
     // payload.stream === "tool" → tool call lifecycle events (start/update/result)
     if (p.stream === 'tool') {
-      this.handleToolStream(p);
+      this.handleToolStream(p, sessionKey);
       return;
     }
 
     // ── Thinking stream events (real-time reasoning display) ──
     // payload.stream === "thinking" → accumulated reasoning text
     if (p.stream === 'thinking') {
-      this.handleThinkingStream(p);
+      this.handleThinkingStream(p, sessionKey);
       return;
     }
 
@@ -988,10 +1345,11 @@ class GatewayService {
 
     const media: MediaInfo | undefined = mediaUrl ? { mediaUrl, mediaType } : undefined;
 
-    console.log('[GW] Chat event — state:', state, 'runId:', runId?.substring(0, 12), 'text length:', messageText.length);
+    console.log('[GW] Chat event — state:', state, 'session:', sessionKey, 'runId:', runId?.substring(0, 12), 'text length:', messageText.length);
 
     // Use runId as the message ID for streaming
     const mId = runId || `msg-${Date.now()}`;
+    const streamKey = this.streamKey(sessionKey, mId);
 
     // ── Reasoning message detection ──
     // When reasoningLevel='on', Gateway sends reasoning as a separate 'final'
@@ -1003,7 +1361,7 @@ class GatewayService {
       if (reasoningText) {
         console.log('[GW] 🧠 Reasoning message captured:', reasoningText.length, 'chars');
         // Store as live thinking, then it will be finalized onto the next assistant message
-        useChatStore.getState().setThinkingStream(mId, reasoningText);
+        useChatStore.getState().setThinkingStream(sessionKey, mId, reasoningText);
       }
       return; // Don't show as a regular message
     }
@@ -1012,11 +1370,12 @@ class GatewayService {
       case 'delta': {
         // Streaming update — content is ACCUMULATED (not a chunk)
         // Only update if the new content is longer (protocol sends full accumulated text)
-        if (messageText.length >= this.currentStreamContent.length) {
-          this.currentStreamContent = messageText;
-          this.currentRunId = mId;
+        const stream = this.activeStreams.get(streamKey);
+        if (messageText.length >= (stream?.content.length || 0)) {
+          this.activeStreams.set(streamKey, { sessionKey, runId: mId, content: messageText, lastUpdate: Date.now() });
+          if (messageText) useRunTimelineStore.getState().noteText(mId);
           // Pass media if present (usually comes with final, but check delta too)
-          this.callbacks?.onStreamChunk(mId, messageText, media);
+          this.callbacks?.onStreamChunk(sessionKey, mId, messageText, media);
         }
         break;
       }
@@ -1026,12 +1385,11 @@ class GatewayService {
         // When tools are called mid-response, the final event may only contain
         // post-tool text. In that case, keep the accumulated streaming content
         // which includes the full pre-tool response the user already saw.
-        let finalText = messageText || this.currentStreamContent;
-        if (this.currentStreamContent && this.currentStreamContent.length > (messageText?.length || 0)) {
-          finalText = this.currentStreamContent;
+        const streamed = this.takeStream(sessionKey, mId);
+        let finalText = messageText || streamed;
+        if (streamed && streamed.length > (messageText?.length || 0)) {
+          finalText = streamed;
         }
-        this.currentStreamContent = '';
-        this.currentRunId = null;
 
         // Strip directive tags (defense-in-depth — Gateway 2026.2.22+ strips server-side)
         finalText = stripDirectiveTags(finalText);
@@ -1045,33 +1403,33 @@ class GatewayService {
           finalText = cleanContent || finalText;
         }
 
-        // Parse [[button:...]] markers — strip from text, store in chatStore
+        // Parse [[button:...]] markers — strip from text, store in chatStore.
+        // Quick replies belong to the visible conversation only.
         const btnResult = parseButtons(finalText);
-        if (btnResult.buttons.length > 0) {
-          finalText = btnResult.cleanContent;
+        if (btnResult.buttons.length > 0) finalText = btnResult.cleanContent;
+        if (sessionKey === useChatStore.getState().activeSessionKey) {
           useChatStore.getState().setQuickReplies(btnResult.buttons);
-        } else {
-          useChatStore.getState().setQuickReplies([]);
         }
         
-        this.callbacks?.onStreamEnd(mId, finalText, media);
+        useRunTimelineStore.getState().endRun(mId, 'done', parseRunUsage(p.usage ?? p.message?.usage));
+        this.callbacks?.onStreamEnd(sessionKey, mId, finalText, media);
         break;
       }
 
       case 'error': {
         const errorText = p.errorMessage || i18n.t('errors.occurred');
-        this.currentStreamContent = '';
-        this.currentRunId = null;
-        useChatStore.getState().clearThinking();
-        this.callbacks?.onStreamEnd(mId, `⚠️ ${errorText}`);
+        this.takeStream(sessionKey, mId);
+        useChatStore.getState().clearThinking(sessionKey);
+        useRunTimelineStore.getState().endRun(mId, 'error');
+        this.callbacks?.onStreamEnd(sessionKey, mId, `⚠️ ${errorText}`);
         break;
       }
 
       case 'aborted': {
-        this.currentStreamContent = '';
-        this.currentRunId = null;
-        useChatStore.getState().clearThinking();
-        this.callbacks?.onStreamEnd(mId, this.currentStreamContent || `⏹️ ${i18n.t('chat.stopped', 'Stopped')}`);
+        const streamed = this.takeStream(sessionKey, mId);
+        useChatStore.getState().clearThinking(sessionKey);
+        useRunTimelineStore.getState().endRun(mId, 'aborted');
+        this.callbacks?.onStreamEnd(sessionKey, mId, streamed || `⏹️ ${i18n.t('chat.stopped', 'Stopped')}`);
         break;
       }
 
@@ -1082,7 +1440,9 @@ class GatewayService {
 
   private send(msg: any) {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(msg));
+      const raw = JSON.stringify(msg);
+      if (!this.observer) recordFrame('out', raw, msg);
+      this.ws.send(raw);
     }
   }
 
@@ -1091,11 +1451,9 @@ class GatewayService {
   }
 
   private emitStatus(extra?: { error?: string }) {
-    this.callbacks?.onStatusChange({
-      connected: this.connected,
-      connecting: this.connecting,
-      ...extra,
-    });
+    const status = { connected: this.connected, connecting: this.connecting, ...extra };
+    this.callbacks?.onStatusChange(status);
+    this.statusListener?.(status);
   }
 
   // ── Pairing Retry (gentle 5s interval — no backoff) ──
@@ -1105,6 +1463,7 @@ class GatewayService {
     this.pairingRetryTimer = setTimeout(() => {
       if (this.pairingRequired && !this.connected && !this.connecting) {
         console.log('[GW] 🔑 Pairing retry...');
+        this.diagEvent({ kind: 'pairing-retry' });
         this.connect(this.url, this.token);
       }
     }, this.PAIRING_RETRY_MS);
@@ -1124,6 +1483,7 @@ class GatewayService {
     const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempt), 30000);
     this.reconnectAttempt++;
     console.log(`[GW] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt})`);
+    this.diagEvent({ kind: 'reconnect-scheduled', attempt: this.reconnectAttempt, delayMs: delay });
     this.reconnectTimer = setTimeout(() => this.connect(this.url, this.token), delay);
   }
 
@@ -1137,6 +1497,44 @@ class GatewayService {
       .replace(/\/+$/, ''); // Strip trailing slashes to avoid double-slash in URLs
   }
 
+  /**
+   * Move to a different gateway (profile switch). The old socket is detached
+   * before closing so its late onclose can't touch the new connection, and
+   * nothing pending for the old gateway is carried over. Queued messages
+   * stay in the outbox under their own profile until it is active again.
+   */
+  switchGateway(url: string, token: string) {
+    console.log('[GW] 🔀 Switching gateway:', url);
+    this.diagEvent({ kind: 'switch' });
+    this.stopHeartbeat();
+    this.stopPairingRetry();
+    stopPolling();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+    if (this.ws) {
+      const old = this.ws;
+      old.onopen = null;
+      old.onmessage = null;
+      old.onclose = null;
+      old.onerror = null;
+      old.close(1000, 'Switching gateway');
+      this.ws = null;
+    }
+    this.rejectAllPending('gateway_switched', 'Gateway switched');
+    this.activeStreams.clear();
+    this.connected = false;
+    this.connecting = false;
+    this.reconnectAttempt = 0;
+    this.emitStatus();
+    this.connect(url, token);
+  }
+
   /** Reconnect with a new token (after pairing approval) */
   reconnectWithToken(newToken: string) {
     console.log('[GW] 🔑 Reconnecting with new token');
@@ -0,0 +1,161 @@
+// ═══════════════════════════════════════════════════════════
+// Gateway Config — load, hash-checked save and rollback history
+//
+// Saves are optimistic: the editor keeps the snapshot it started
+// from, and before writing we read config.get again. If the live
+// version moved, someone else saved in between — ConfigConflictError
+// carries their version so the page can diff it instead of silently
+// overwriting it. config.set checks baseHash on the gateway too; a
+// rejection for that reason is reported the same way.
+// Every save is recorded in the main-process history (configHistory.ts).
+// ═══════════════════════════════════════════════════════════
+
+import { gateway } from '@/services/gateway';
+import { isGatewayError } from '@/services/gatewayErrors';
+import type { ConfigSnapshot, GatewayConfig } from '@/services/protocol';
+import { useProfileStore } from '@/stores/profileStore';
+
+export interface ConfigHistoryEntry {
+  id: string;
+  /** Gateway profile the config belongs to */
+  profileId: string;
+  savedAt: string;
+  /** Gateway hash of this config, when it reported one */
+  hash?: string;
+  /** before = live config replaced by a save, saved = applied edit, rollback = applied history entry */
+  source: 'before' | 'saved' | 'rollback';
+  config: unknown;
+}
+
+export class ConfigConflictError extends Error {
+  /** The config as it is on the gateway now */
+  readonly live: ConfigSnapshot;
+
+  constructor(live: ConfigSnapshot) {
+    super('The gateway config changed since it was loaded');
+    this.name = 'ConfigConflictError';
+    this.live = live;
+  }
+}
+
+/** config.set rejections that mean "your baseHash is stale" */
+const STALE_HASH = /base ?hash|changed since|stale|conflict|re-?run config\.get/i;
+
+export const formatConfig = (config: unknown) => JSON.stringify(config, null, 2);
+
+const hashOf = (snapshot: ConfigSnapshot) => snapshot.hash || snapshot.baseHash;
+
+/** Same version? Hashes when both sides have one, the content otherwise */
+export function sameConfigVersion(a: ConfigSnapshot, b: ConfigSnapshot): boolean {
+  const ha = hashOf(a);
+  const hb = hashOf(b);
+  if (ha && hb) return ha === hb;
+  return formatConfig(a.config) === formatConfig(b.config);
+}
+
+export interface ConfigParseError {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+/** Raw editor text → config object, with a line/column for JSON syntax errors */
+export function parseConfigText(text: string): { config?: GatewayConfig; error?: ConfigParseError } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err: any) {
+    const message = String(err?.message || err);
+    const lineCol = message.match(/line (\d+) column (\d+)/);
+    if (lineCol) return { error: { message, line: Number(lineCol[1]), column: Number(lineCol[2]) } };
+    const position = message.match(/position (\d+)/);
+    if (!position) return { error: { message } };
+    const before = text.slice(0, Number(position[1])).split('\n');
+    return { error: { message, line: before.length, column: before[before.length - 1].length + 1 } };
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: { message: 'The config must be a JSON object' } };
+  }
+  return { config: value as GatewayConfig };
+}
+
+// ── Load / save ──────────────────────────────────────────
+
+export function loadGatewayConfig(): Promise<ConfigSnapshot> {
+  return gateway.call('config.get', {});
+}
+
+/**
+ * Write `config` if the gateway still has `base`. With `apply` the gateway
+ * restarts to pick it up (config.apply) — otherwise it hot-reloads (config.set).
+ * Resolves with the new live snapshot (or the written config while the
+ * gateway is restarting and can't be read back).
+ */
+export async function saveGatewayConfig(
+  config: GatewayConfig,
+  base: ConfigSnapshot,
+  opts: { apply?: boolean; source?: 'saved' | 'rollback' } = {},
+): Promise<ConfigSnapshot> {
+  const live = await loadGatewayConfig();
+  if (!sameConfigVersion(live, base)) throw new ConfigConflictError(live);
+
+  const baseHash = hashOf(live);
+  try {
+    await gateway.call(opts.apply ? 'config.apply' : 'config.set', {
+      raw: formatConfig(config),
+      ...(baseHash ? { baseHash } : {}),
+    });
+  } catch (err) {
+    if (isGatewayError(err) && err.code === 'rejected' && STALE_HASH.test(err.message)) {
+      throw new ConfigConflictError(await loadGatewayConfig());
+    }
+    throw err;
+  }
+
+  let saved: ConfigSnapshot;
+  try {
+    saved = await loadGatewayConfig();
+  } catch {
+    saved = { config };
+  }
+  await recordSave(live, saved, opts.source ?? 'saved');
+  return saved;
+}
+
+// ── History ──────────────────────────────────────────────
+
+const profileId = () => useProfileStore.getState().activeId || 'default';
+
+function entryOf(snapshot: ConfigSnapshot, source: ConfigHistoryEntry['source']): ConfigHistoryEntry {
+  return {
+    id: `cfg-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    profileId: profileId(),
+    savedAt: new Date().toISOString(),
+    hash: hashOf(snapshot),
+    source,
+    config: snapshot.config,
+  };
+}
+
+/** The replaced config goes in first (unless it's already the newest entry), then the new one */
+async function recordSave(before: ConfigSnapshot, after: ConfigSnapshot, source: ConfigHistoryEntry['source']) {
+  const api = window.aegis?.configHistory;
+  if (!api) return;
+  try {
+    const [latest] = await api.list(profileId());
+    if (!latest || !sameConfigVersion({ hash: latest.hash, config: latest.config as GatewayConfig }, before)) {
+      await api.add(entryOf(before, 'before'));
+    }
+    await api.add(entryOf(after, source));
+  } catch (err) {
+    console.warn('[Config] History update failed:', err);
+  }
+}
+
+export async function listConfigHistory(): Promise<ConfigHistoryEntry[]> {
+  return (await window.aegis?.configHistory?.list(profileId())) ?? [];
+}
+
+export async function clearConfigHistory(): Promise<void> {
+  await window.aegis?.configHistory?.clear(profileId());
+}
@@ -0,0 +1,60 @@
+// ═══════════════════════════════════════════════════════════
+// Gateway Errors — what a failed GatewayService request rejects with
+//
+// `code` says why the request failed on our side of the wire,
+// `retryable` whether sending it again can help. A response the
+// gateway rejected keeps the gateway's own code and message.
+// ═══════════════════════════════════════════════════════════
+
+import i18n from '@/i18n';
+
+export type GatewayErrorCode =
+  | 'not_connected'     // sent while the socket was down
+  | 'disconnected'      // socket closed before the response arrived
+  | 'gateway_switched'  // active profile changed while in flight
+  | 'timeout'
+  | 'aborted'           // caller's AbortSignal fired
+  | 'unauthorized'      // scope / token rejection
+  | 'rejected';         // any other ok:false response
+
+const RETRYABLE_CODES: GatewayErrorCode[] = ['not_connected', 'disconnected', 'timeout'];
+
+export class GatewayError extends Error {
+  readonly code: GatewayErrorCode;
+  readonly method: string;
+  readonly retryable: boolean;
+  /** Error code from the gateway's response (rejected / unauthorized) */
+  readonly gatewayCode?: string;
+  readonly details?: unknown;
+
+  constructor(
+    code: GatewayErrorCode,
+    method: string,
+    message: string,
+    opts: { retryable?: boolean; gatewayCode?: string; details?: unknown } = {},
+  ) {
+    super(message);
+    this.name = 'GatewayError';
+    this.code = code;
+    this.method = method;
+    this.retryable = opts.retryable ?? RETRYABLE_CODES.includes(code);
+    this.gatewayCode = opts.gatewayCode;
+    this.details = opts.details;
+  }
+
+  /** Requests used to reject with a plain string — keep `String(err)` readable */
+  toString(): string {
+    return this.message;
+  }
+}
+
+export function isGatewayError(err: unknown): err is GatewayError {
+  return err instanceof GatewayError;
+}
+
+/** User-facing text for a failed request (falls back to the raw message) */
+export function describeGatewayError(err: unknown): string {
+  if (!isGatewayError(err)) return (err as any)?.message || String(err);
+  if (err.code === 'rejected') return err.message;
+  return i18n.t(`gatewayErrors.${err.code}`, { method: err.method, message: err.message });
+}
@@ -0,0 +1,239 @@
+// ═══════════════════════════════════════════════════════════
+// Prompt Macros — expand a macro template and deliver it
+//
+// Variables: {{clipboard}} {{selection}} {{date}} {{time}} are
+// resolved when the run starts. {{ask:Label|default}} fields are
+// collected by MacroPromptDialog before anything is sent.
+// Macros run from the Command Palette, the Dashboard grid, their
+// in-app hotkey and the tray menu (startMacros).
+// ═══════════════════════════════════════════════════════════
+
+import i18n from '@/i18n';
+import { gateway } from '@/services/gateway';
+import { useChatStore } from '@/stores/chatStore';
+import { useMacroStore, macroName, type PromptMacro, type PendingMacroRun } from '@/stores/macroStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+
+/** Fired on window with { message } — a mounted MessageInput takes the text for review */
+export const QUICK_ACTION_EVENT = 'aegis:quick-action';
+
+const EXPORT_FORMAT = 'aegis-macros';
+const ASK_PATTERN = /\{\{\s*ask:([^}|]+?)\s*(?:\|([^}]*))?\}\}/g;
+
+const toast = (title: string, body: string) =>
+  useNotificationStore.getState().addToast('info', title, body);
+
+// ── Selection tracking ───────────────────────────────────
+// Opening the palette moves focus into its input, so remember the
+// last selection made outside text fields instead of reading it late.
+
+let lastSelection = '';
+
+function onSelectionChange() {
+  const active = document.activeElement;
+  if (active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement) return;
+  const text = window.getSelection()?.toString() || '';
+  if (text.trim()) lastSelection = text;
+}
+
+async function readClipboard(): Promise<string> {
+  try {
+    if (window.aegis?.clipboard) return await window.aegis.clipboard.read();
+    return await navigator.clipboard.readText();
+  } catch {
+    return '';
+  }
+}
+
+// ── Template expansion ───────────────────────────────────
+
+export function askFields(template: string): PendingMacroRun['fields'] {
+  const seen = new Set<string>();
+  const fields: PendingMacroRun['fields'] = [];
+  for (const match of template.matchAll(ASK_PATTERN)) {
+    const label = match[1].trim();
+    if (seen.has(label)) continue;
+    seen.add(label);
+    fields.push({ label, defaultValue: match[2]?.trim() || '' });
+  }
+  return fields;
+}
+
+async function resolveVariables(template: string): Promise<Record<string, string>> {
+  const now = new Date();
+  const lang = i18n.language;
+  return {
+    clipboard: /\{\{\s*clipboard\s*\}\}/.test(template) ? await readClipboard() : '',
+    selection: lastSelection || window.getSelection()?.toString() || '',
+    date: now.toLocaleDateString(lang),
+    time: now.toLocaleTimeString(lang, { hour: '2-digit', minute: '2-digit' }),
+  };
+}
+
+function expand(template: string, vars: Record<string, string>, answers: Record<string, string> = {}): string {
+  return template
+    .replace(ASK_PATTERN, (_m, label: string) => answers[label.trim()] ?? '')
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (m, name: string) => (name in vars ? vars[name] : m));
+}
+
+// ── Delivery ─────────────────────────────────────────────
+
+async function deliver(macro: PromptMacro, text: string) {
+  const chat = useChatStore.getState();
+  const sessionKey = macro.target || chat.activeSessionKey;
+
+  chat.openTab(sessionKey);
+  window.location.hash = '#/chat';
+
+  if (!macro.autoSend) {
+    chat.setDraft(sessionKey, text);
+    window.dispatchEvent(new CustomEvent(QUICK_ACTION_EVENT, { detail: { message: text } }));
+    return;
+  }
+
+  if (!chat.connected) {
+    toast(macroName(macro), i18n.t('macros.notConnected'));
+    return;
+  }
+  const bubbleId = `user-${Date.now()}`;
+  chat.addMessage({
+    id: bubbleId, role: 'user',
+    content: text,
+    timestamp: new Date().toISOString(),
+  }, sessionKey);
+  chat.setIsTyping(true, sessionKey);
+  try {
+    const result = await gateway.sendMessage(text, undefined, sessionKey, { bubbleId });
+    // Queued in the outbox — the typing indicator comes back when it is flushed.
+    // Held by the budget hard stop — BudgetHoldDialog takes it from here.
+    if (result?.queued) useChatStore.getState().setIsTyping(false, sessionKey);
+  } catch (err) {
+    console.error('[Macros] Send failed:', err);
+    useChatStore.getState().setIsTyping(false, sessionKey);
+  }
+}
+
+/** Run a macro — opens MacroPromptDialog first when the template has {{ask:…}} fields */
+export async function runMacro(id: string): Promise<void> {
+  const macro = useMacroStore.getState().macros.find((m) => m.id === id);
+  if (!macro) return;
+  const resolved = await resolveVariables(macro.template);
+  const fields = askFields(macro.template);
+  if (fields.length > 0) {
+    useMacroStore.getState().setPending({ macro, fields, resolved });
+    return;
+  }
+  await deliver(macro, expand(macro.template, resolved));
+}
+
+/** Complete a pending run with the dialog's answers (label → value) */
+export function completePendingRun(answers: Record<string, string>): void {
+  const { pending, setPending } = useMacroStore.getState();
+  if (!pending) return;
+  setPending(null);
+  deliver(pending.macro, expand(pending.macro.template, pending.resolved, answers));
+}
+
+// ── Hotkeys ──────────────────────────────────────────────
+
+/** "Ctrl+Alt+H" from a keydown — null while only modifiers are held */
+export function formatHotkey(e: KeyboardEvent | React.KeyboardEvent): string | null {
+  if (['Control', 'Shift', 'Alt', 'Meta'].includes(e.key)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(e.key.length === 1 ? e.key.toUpperCase() : e.key);
+  return parts.join('+');
+}
+
+/**
+ * Taken by the app (useKeyboardShortcuts) or by text editing — a macro
+ * bound to one would never fire or would break copy / paste / undo
+ */
+const RESERVED_HOTKEYS = new Set([
+  'Ctrl+K', 'Ctrl+Shift+F', 'Ctrl+,', 'Ctrl+N', 'Ctrl+W', 'Ctrl+R', 'Ctrl+Tab', 'Ctrl+Shift+Tab',
+  'Ctrl+1', 'Ctrl+2', 'Ctrl+3', 'Ctrl+4', 'Ctrl+5', 'Ctrl+6', 'Ctrl+7', 'Ctrl+8',
+  'Ctrl+A', 'Ctrl+C', 'Ctrl+V', 'Ctrl+X', 'Ctrl+Z', 'Ctrl+Y', 'Ctrl+Shift+Z', 'Ctrl+Shift+V',
+  'Ctrl+Backspace', 'Ctrl+Delete', 'Ctrl+ArrowLeft', 'Ctrl+ArrowRight', 'Ctrl+Home', 'Ctrl+End',
+  'Ctrl+Shift+ArrowLeft', 'Ctrl+Shift+ArrowRight', 'Ctrl+Shift+Home', 'Ctrl+Shift+End',
+]);
+
+export const isReservedHotkey = (combo: string) => RESERVED_HOTKEYS.has(combo);
+
+/** Macro bound to this keydown, if any */
+export function macroForHotkey(e: KeyboardEvent): PromptMacro | undefined {
+  const combo = formatHotkey(e);
+  if (!combo) return undefined;
+  return useMacroStore.getState().macros.find((m) => m.hotkey === combo);
+}
+
+// ── Import / Export ──────────────────────────────────────
+
+export async function exportMacros(): Promise<void> {
+  const { macros } = useMacroStore.getState();
+  const content = JSON.stringify({ format: EXPORT_FORMAT, version: 1, macros }, null, 2);
+  const result = await window.aegis.file.saveText(content, 'aegis-macros.json', i18n.t('macros.export'));
+  if (result.success) {
+    toast(i18n.t('macros.title'), i18n.t('macros.exported', { count: macros.length }));
+  } else if (!result.canceled) {
+    toast(i18n.t('macros.title'), result.error || i18n.t('macros.exportFailed'));
+  }
+}
+
+const isMacro = (m: any): m is PromptMacro =>
+  m && typeof m.id === 'string' && typeof m.name === 'string' && typeof m.template === 'string';
+
+export async function importMacros(): Promise<void> {
+  const file = await window.aegis.file.openText(['json']);
+  if (file.canceled || !file.content) {
+    if (file.error) toast(i18n.t('macros.title'), file.error);
+    return;
+  }
+  try {
+    const parsed = JSON.parse(file.content);
+    const list: unknown[] = Array.isArray(parsed) ? parsed : parsed?.format === EXPORT_FORMAT ? parsed.macros : [];
+    const macros = list.filter(isMacro).map((m) => ({
+      id: m.id,
+      name: m.name,
+      ...(typeof m.nameKey === 'string' ? { nameKey: m.nameKey } : {}),
+      icon: m.icon || '⚡',
+      keywords: Array.isArray(m.keywords) ? m.keywords : [],
+      template: m.template,
+      target: m.target || '',
+      hotkey: m.hotkey || undefined,
+      autoSend: m.autoSend !== false,
+    }));
+    if (macros.length === 0) throw new Error(i18n.t('macros.importEmpty'));
+    const count = useMacroStore.getState().importMacros(macros);
+    toast(i18n.t('macros.title'), i18n.t('macros.imported', { count }));
+  } catch (err: any) {
+    toast(i18n.t('macros.importFailed'), err?.message || String(err));
+  }
+}
+
+// ── Lifecycle ────────────────────────────────────────────
+
+function syncTray() {
+  window.aegis?.macros?.setTray({
+    label: i18n.t('macros.title'),
+    items: useMacroStore.getState().macros.map((m) => ({ id: m.id, label: `${m.icon} ${macroName(m)}` })),
+  });
+}
+
+/** Selection tracking + tray submenu. Returns a stop. */
+export function startMacros(): () => void {
+  document.addEventListener('selectionchange', onSelectionChange);
+  syncTray();
+  const unsubStore = useMacroStore.subscribe((state, prev) => {
+    if (state.macros !== prev.macros) syncTray();
+  });
+  const unsubTray = window.aegis?.macros?.onRun((id) => { runMacro(id); });
+  i18n.on('languageChanged', syncTray);
+  return () => {
+    document.removeEventListener('selectionchange', onSelectionChange);
+    i18n.off('languageChanged', syncTray);
+    unsubStore();
+    unsubTray?.();
+  };
+}
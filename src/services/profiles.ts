@@ -0,0 +1,57 @@
+// ═══════════════════════════════════════════════════════════
+// Gateway Profiles — switching between named gateways
+//
+// A switch is a clean break: the socket is dropped (nothing pending
+// or queued survives), gatewayDataStore and chatStore caches are
+// cleared, then the new profile connects. Data never bleeds across.
+// ═══════════════════════════════════════════════════════════
+
+import { gateway } from '@/services/gateway';
+import { useBudgetStore } from '@/stores/budgetStore';
+import { useChatStore } from '@/stores/chatStore';
+import { useGatewayDataStore } from '@/stores/gatewayDataStore';
+import { useProfileStore } from '@/stores/profileStore';
+import { useRunTimelineStore } from '@/stores/runTimelineStore';
+
+/** Fired on window after a switch — ChatView re-arms its history load, App updates the pairing URL */
+export const PROFILE_SWITCHED_EVENT = 'aegis:profile-switched';
+
+const httpOf = (wsUrl: string) => wsUrl.replace(/^ws:/, 'http:').replace(/^wss:/, 'https:');
+
+/**
+ * Clear every gateway-derived cache, then connect as `profileId`.
+ * Demo mode (services/demoMode.ts) connects through here too.
+ */
+export function activateGateway(profileId: string, gatewayUrl: string, gatewayToken: string) {
+  // Clear before connecting — the first responses from the new gateway must land in empty stores
+  useGatewayDataStore.getState().reset();
+  useChatStore.getState().resetGatewayState();
+  useRunTimelineStore.getState().reset();
+  useBudgetStore.getState().reset();
+  useProfileStore.getState().setActiveId(profileId);
+  useChatStore.getState().loadBranches(profileId);
+
+  const httpUrl = httpOf(gatewayUrl);
+  localStorage.setItem('aegis-gateway-http', httpUrl);
+  window.dispatchEvent(new CustomEvent(PROFILE_SWITCHED_EVENT, { detail: { profileId, httpUrl } }));
+
+  gateway.switchGateway(gatewayUrl, gatewayToken);
+}
+
+function applyActivation({ profile, gatewayUrl, gatewayToken }: Awaited<ReturnType<typeof window.aegis.profiles.activate>>) {
+  activateGateway(profile.id, gatewayUrl, gatewayToken);
+}
+
+export async function switchProfile(id: string): Promise<void> {
+  if (!window.aegis?.profiles || id === useProfileStore.getState().activeId) return;
+  const activation = await window.aegis.profiles.activate(id);
+  console.log('[Profiles] Switching to', activation.profile.name);
+  applyActivation(activation);
+}
+
+/** Reconnect the active profile after its URL or token was edited */
+export async function reconnectActiveProfile(): Promise<void> {
+  const active = useProfileStore.getState().getActive();
+  if (!window.aegis?.profiles || !active) return;
+  applyActivation(await window.aegis.profiles.activate(active.id));
+}
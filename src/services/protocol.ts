@@ -0,0 +1,544 @@
+// ═══════════════════════════════════════════════════════════
+// Gateway Protocol v3 — typed results and events, checked at runtime
+//
+// GatewayService runs every RPC result through RPC_SCHEMAS and every
+// event through EVENT_SCHEMAS. Results are also normalized: the
+// envelope variants older gateways send ({ entries } vs { skills },
+// bare arrays, config.get without its { config } wrapper…) come out in
+// one shape, so callers never re-parse. A mismatch never throws — it
+// is reported to services/diagnostics.ts as a protocol warning and the
+// best-effort value is returned.
+// ═══════════════════════════════════════════════════════════
+
+import {
+  str, num, bool, unknownValue, literal, optional, nullable, array, record, object, union, check, describeValue,
+  type Schema, type SchemaIssue,
+} from '@/utils/schema';
+
+// ── Sessions ─────────────────────────────────────────────
+
+export interface SessionInfo {
+  key: string;
+  label?: string;
+  model?: string;
+  running?: boolean;
+  totalTokens?: number;
+  contextTokens?: number;
+  maxTokens?: number;
+  compactions?: number;
+  lastActive?: string;
+  kind?: string;
+  [k: string]: any;
+}
+
+export interface SessionsListResult {
+  sessions: SessionInfo[];
+  [k: string]: any;
+}
+
+const SessionInfoSchema = object<SessionInfo>({
+  key: str,
+  label: optional(str),
+  model: optional(str),
+  running: optional(bool),
+  totalTokens: optional(num),
+  contextTokens: optional(num),
+  maxTokens: optional(num),
+  compactions: optional(num),
+  kind: optional(str),
+}, 'SessionInfo');
+
+// ── Agents ───────────────────────────────────────────────
+
+export interface AgentInfo {
+  id: string;
+  name?: string;
+  model?: string;
+  workspace?: string;
+  [k: string]: any;
+}
+
+export interface AgentsListResult {
+  agents: AgentInfo[];
+  defaultId?: string;
+  [k: string]: any;
+}
+
+const AgentInfoSchema = object<AgentInfo>({
+  id: str,
+  name: optional(str),
+  workspace: optional(str),
+}, 'AgentInfo');
+
+// ── Chat ─────────────────────────────────────────────────
+
+export interface HistoryMessage {
+  id?: string;
+  role: string;
+  /** string or content blocks — see GatewayService.extractText */
+  content: unknown;
+  timestamp?: string | number;
+  createdAt?: string | number;
+  [k: string]: any;
+}
+
+export interface ChatHistoryResult {
+  messages: HistoryMessage[];
+  [k: string]: any;
+}
+
+export interface ChatSendResult {
+  runId?: string;
+  status?: string;
+  [k: string]: any;
+}
+
+const timestamp = union<string | number>(str, num);
+
+const HistoryMessageSchema = object<HistoryMessage>({
+  id: optional(str),
+  role: str,
+  content: unknownValue,
+  timestamp: optional(timestamp),
+  createdAt: optional(timestamp),
+}, 'HistoryMessage');
+
+// ── Cron ─────────────────────────────────────────────────
+
+export interface CronJob {
+  id: string;
+  name?: string;
+  schedule?: any;
+  enabled?: boolean;
+  lastRun?: string;
+  state?: any;
+  // Gateway 2026.2.22+: split run vs delivery status
+  lastRunStatus?: string;
+  lastDeliveryStatus?: string;
+  [k: string]: any;
+}
+
+export interface CronListResult {
+  jobs: CronJob[];
+  [k: string]: any;
+}
+
+export interface CronRunEntry {
+  ts?: string | number;
+  status?: string;
+  [k: string]: any;
+}
+
+export interface CronRunsResult {
+  entries: CronRunEntry[];
+  [k: string]: any;
+}
+
+const CronJobSchema = object<CronJob>({
+  id: str,
+  name: optional(str),
+  enabled: optional(bool),
+  lastRunStatus: optional(str),
+  lastDeliveryStatus: optional(str),
+}, 'CronJob');
+
+const CronRunEntrySchema = object<CronRunEntry>({
+  ts: optional(timestamp),
+  status: optional(str),
+}, 'CronRunEntry');
+
+// ── Usage ────────────────────────────────────────────────
+
+export interface DailyEntry {
+  date: string;
+  totalCost: number;
+  inputCost: number;
+  outputCost: number;
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+  requests: number;
+  [k: string]: any;
+}
+
+export interface CostSummary {
+  days: number;
+  daily: DailyEntry[];
+  totals: {
+    totalCost: number;
+    inputCost: number;
+    outputCost: number;
+    input: number;
+    output: number;
+    cacheRead: number;
+    cacheWrite: number;
+    requests: number;
+    [k: string]: any;
+  };
+  updatedAt?: number;
+}
+
+export interface SessionsUsage {
+  sessions?: any[];
+  totals?: any;
+  aggregates?: {
+    byAgent?: any[];
+    byModel?: any[];
+    [k: string]: any;
+  };
+  [k: string]: any;
+}
+
+const CostSummarySchema = object<CostSummary>({
+  days: optional(num),
+  daily: array(object<DailyEntry>({ date: str, totalCost: num }, 'DailyEntry')),
+  totals: object({ totalCost: num }, 'CostTotals'),
+  updatedAt: optional(num),
+}, 'CostSummary');
+
+const SessionsUsageSchema = object<SessionsUsage>({
+  sessions: optional(array(unknownValue)),
+  aggregates: optional(object({
+    byAgent: optional(array(unknownValue)),
+    byModel: optional(array(unknownValue)),
+  })),
+}, 'SessionsUsage');
+
+// ── Skills ───────────────────────────────────────────────
+
+export interface SkillEntry {
+  name?: string;
+  slug?: string;
+  id?: string;
+  displayName?: string;
+  description?: string;
+  enabled?: boolean;
+  source?: string;
+  [k: string]: any;
+}
+
+export interface SkillsStatusResult {
+  skills: SkillEntry[];
+  [k: string]: any;
+}
+
+const SkillEntrySchema = object<SkillEntry>({
+  name: optional(str),
+  slug: optional(str),
+  enabled: optional(bool),
+}, 'SkillEntry');
+
+// ── Config ───────────────────────────────────────────────
+
+/** model is "provider/model" or { primary, fallbacks } */
+export type ModelRef = string | { primary?: string; fallbacks?: string[] };
+
+export interface ConfigAgent {
+  id: string;
+  name?: string;
+  model?: ModelRef;
+  params?: {
+    cacheRetention?: string;
+    temperature?: number;
+    maxTokens?: number;
+    context1m?: boolean;
+  };
+  [k: string]: unknown;
+}
+
+export interface GatewayConfig {
+  agents?: {
+    defaults?: {
+      models?: Record<string, { alias?: string; [k: string]: unknown }>;
+      [k: string]: unknown;
+    };
+    list?: ConfigAgent[];
+    [k: string]: unknown;
+  };
+  [k: string]: unknown;
+}
+
+export interface ConfigSnapshot {
+  hash?: string;
+  baseHash?: string;
+  config: GatewayConfig;
+  [k: string]: unknown;
+}
+
+const ModelRefSchema = union<ModelRef>(
+  str,
+  object({ primary: optional(str), fallbacks: optional(array(str)) }, '{ primary, fallbacks }'),
+);
+
+const ConfigAgentSchema = object<ConfigAgent>({
+  id: str,
+  name: optional(str),
+  model: optional(ModelRefSchema),
+  params: optional(object({
+    cacheRetention: optional(str),
+    temperature: optional(num),
+    maxTokens: optional(num),
+    context1m: optional(bool),
+  })),
+}, 'ConfigAgent');
+
+const GatewayConfigSchema = object<GatewayConfig>({
+  agents: optional(object({
+    defaults: optional(object({
+      models: optional(record(object({ alias: optional(str) }))),
+    })),
+    list: optional(array(ConfigAgentSchema)),
+  })),
+}, 'GatewayConfig');
+
+/** Known config fields with the wrong type — the gateway itself has the final say on save */
+export function validateGatewayConfig(config: unknown): SchemaIssue[] {
+  return check(GatewayConfigSchema, config).issues.map((i) => ({ ...i, path: i.path || '(root)' }));
+}
+
+/** Model id of a ModelRef — agents.list passes the config's ref through too ('' when unset) */
+export function modelRefId(model: unknown): string {
+  if (typeof model === 'string') return model;
+  const primary = (model as { primary?: unknown } | null | undefined)?.primary;
+  return typeof primary === 'string' ? primary : '';
+}
+
+// ── Models ───────────────────────────────────────────────
+
+export interface ModelEntry {
+  id: string;
+  alias?: string;
+  [k: string]: any;
+}
+
+export interface ModelsListResult {
+  models: ModelEntry[];
+  [k: string]: any;
+}
+
+// ── Envelopes (normalized variants) ──────────────────────
+
+/** { [key]: T[] } — older gateways answer with the bare array, some use another key */
+function listEnvelope<T>(key: string, item: Schema<T>, aliases: string[] = []): Schema<any> {
+  const list = array(item);
+  const envelope = object({ [key]: list }, `{ ${key}: ${list.expected} }`);
+  return {
+    expected: envelope.expected,
+    parse(value, path, issues) {
+      if (Array.isArray(value)) return { [key]: list.parse(value, key, issues) };
+      if (typeof value === 'object' && value !== null) {
+        const obj = value as Record<string, unknown>;
+        const alias = aliases.find((a) => Array.isArray(obj[a]) && !(key in obj));
+        if (alias) return { ...obj, [key]: list.parse(obj[alias], alias, issues) };
+      }
+      return envelope.parse(value, path, issues);
+    },
+  };
+}
+
+/** config.get answers { hash, config } — some versions send the config itself */
+const ConfigSnapshotSchema: Schema<ConfigSnapshot> = {
+  expected: 'ConfigSnapshot',
+  parse(value, path, issues) {
+    const wrapped = typeof value === 'object' && value !== null && 'config' in value;
+    const snapshot: Record<string, unknown> = wrapped ? value as Record<string, unknown> : { config: value };
+    return { ...snapshot, config: GatewayConfigSchema.parse(snapshot.config, 'config', issues) };
+  },
+};
+
+/** models.list: { models: { id: { alias } } }, { models: [{ id | model, alias }] } or a bare array */
+const ModelsListSchema: Schema<ModelsListResult> = {
+  expected: 'ModelsList',
+  parse(value, path, issues) {
+    const raw = Array.isArray(value)
+      ? value
+      : typeof value === 'object' && value !== null ? (value as Record<string, unknown>).models : undefined;
+    const entry = (m: unknown, id?: string): ModelEntry | null => {
+      if (typeof m === 'string') return { id: m };
+      if (!m || typeof m !== 'object') {
+        if (id) return { id };
+        issues.push({ path: 'models[]', expected: 'string | ModelEntry', received: describeValue(m) });
+        return null;
+      }
+      const obj = m as Record<string, any>;
+      const modelId = id ?? obj.id ?? obj.model;
+      if (typeof modelId !== 'string' || !modelId) {
+        issues.push({ path: 'models[].id', expected: 'string', received: describeValue(modelId) });
+        return null;
+      }
+      return { ...obj, id: modelId, alias: typeof obj.alias === 'string' ? obj.alias : undefined };
+    };
+    let models: (ModelEntry | null)[];
+    if (Array.isArray(raw)) models = raw.map((m) => entry(m));
+    else if (raw && typeof raw === 'object') models = Object.entries(raw).map(([id, cfg]) => entry(cfg, id));
+    else {
+      issues.push({ path: path || 'models', expected: 'ModelEntry[] | Record<string, ModelEntry>', received: describeValue(raw) });
+      models = [];
+    }
+    return { ...(Array.isArray(value) ? {} : (value as object)), models: models.filter((m): m is ModelEntry => m !== null) };
+  },
+};
+
+// ── RPC results ──────────────────────────────────────────
+
+export interface RpcResults {
+  'chat.send': ChatSendResult;
+  'chat.history': ChatHistoryResult;
+  'sessions.list': SessionsListResult;
+  'agents.list': AgentsListResult;
+  'cron.list': CronListResult;
+  'cron.runs': CronRunsResult;
+  'usage.cost': CostSummary | null;
+  'sessions.usage': SessionsUsage | null;
+  'skills.status': SkillsStatusResult;
+  'config.get': ConfigSnapshot;
+  'models.list': ModelsListResult;
+}
+
+export type RpcMethod = keyof RpcResults;
+/** Typed result for known methods, `any` for the rest */
+export type RpcResult<M extends string> = M extends RpcMethod ? RpcResults[M] : any;
+
+const RPC_SCHEMAS: { [M in RpcMethod]: Schema<RpcResults[M]> } = {
+  'chat.send': object<ChatSendResult>({ runId: optional(str), status: optional(str) }, 'ChatSendResult'),
+  'chat.history': object<ChatHistoryResult>({ messages: array(HistoryMessageSchema) }, 'ChatHistoryResult'),
+  'sessions.list': listEnvelope('sessions', SessionInfoSchema),
+  'agents.list': listEnvelope('agents', AgentInfoSchema),
+  'cron.list': listEnvelope('jobs', CronJobSchema),
+  'cron.runs': listEnvelope('entries', CronRunEntrySchema, ['runs']),
+  'usage.cost': nullable(CostSummarySchema),
+  'sessions.usage': nullable(SessionsUsageSchema),
+  'skills.status': listEnvelope('skills', SkillEntrySchema, ['entries']),
+  'config.get': ConfigSnapshotSchema,
+  'models.list': ModelsListSchema,
+};
+
+/** Validate + normalize a result. Unknown methods pass through untouched. */
+export function parseRpcResult<M extends string>(method: M, raw: unknown): { value: RpcResult<M>; issues: SchemaIssue[] } {
+  const schema = (RPC_SCHEMAS as Record<string, Schema<unknown>>)[method];
+  if (!schema) return { value: raw as RpcResult<M>, issues: [] };
+  return check(schema, raw) as { value: RpcResult<M>; issues: SchemaIssue[] };
+}
+
+// ── Events ───────────────────────────────────────────────
+
+export interface PresenceEntry {
+  host?: string;
+  instanceId?: string;
+  mode?: string;
+  platform?: string;
+  version?: string;
+  lastInputSeconds?: number;
+  ts?: number;
+  [k: string]: any;
+}
+
+const PresenceEntrySchema = object<PresenceEntry>({
+  host: optional(str),
+  instanceId: optional(str),
+  mode: optional(str),
+  lastInputSeconds: optional(num),
+  ts: optional(num),
+}, 'PresenceEntry');
+
+/** session.* events name the session as sessionKey or key */
+const SessionRefSchema: Schema<unknown> = {
+  expected: '{ sessionKey | key }',
+  parse(value, path, issues) {
+    const v = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+    if (typeof v.sessionKey !== 'string' && typeof v.key !== 'string') {
+      issues.push({ path: 'sessionKey', expected: 'string', received: describeValue(v.sessionKey ?? v.key) });
+    }
+    return value;
+  },
+};
+
+const CronRunRefSchema = object({ jobId: optional(str), id: optional(str) }, 'CronRunEvent');
+
+/**
+ * <kind>.approval.requested — a tool call waiting for an operator.
+ * exec sends { command, cwd, … }; other kinds name the tool and its args.
+ */
+export interface ApprovalRequestEvent {
+  id: string;
+  request: {
+    command?: string;
+    cwd?: string;
+    host?: string;
+    tool?: string;
+    args?: Record<string, any>;
+    agentId?: string;
+    sessionKey?: string;
+    resolvedPath?: string;
+    [k: string]: any;
+  };
+  createdAtMs?: number;
+  expiresAtMs?: number;
+}
+
+/** <kind>.approval.resolved — sent to every client, whoever decided */
+export interface ApprovalResolvedEvent {
+  id: string;
+  decision?: string;
+  resolvedBy?: string;
+  ts?: number;
+}
+
+const ApprovalRequestSchema = object<ApprovalRequestEvent>({
+  id: str,
+  request: object({
+    command: optional(str),
+    cwd: optional(str),
+    tool: optional(str),
+    agentId: optional(str),
+    sessionKey: optional(str),
+  }, 'ApprovalRequest'),
+  createdAtMs: optional(num),
+  expiresAtMs: optional(num),
+}, 'ApprovalRequestEvent');
+
+const ApprovalResolvedSchema = object<ApprovalResolvedEvent>({
+  id: str,
+  decision: optional(str),
+  resolvedBy: optional(str),
+  ts: optional(num),
+}, 'ApprovalResolvedEvent');
+
+const EVENT_SCHEMAS: Record<string, Schema<unknown>> = {
+  'connect.challenge': object({ nonce: str }, 'ConnectChallenge'),
+  chat: object({
+    sessionKey: optional(str),
+    runId: optional(str),
+    state: optional(literal('delta', 'final', 'error', 'aborted')),
+    stream: optional(str),
+  }, 'ChatEvent'),
+  agent: object({
+    stream: str,
+    sessionKey: optional(str),
+    runId: optional(str),
+    data: optional(object({ phase: optional(str) })),
+  }, 'AgentEvent'),
+  'session.started': SessionRefSchema,
+  'session.running': SessionRefSchema,
+  'session.ended': SessionRefSchema,
+  'session.stopped': SessionRefSchema,
+  'session.idle': SessionRefSchema,
+  'session.updated': SessionRefSchema,
+  'session.patched': SessionRefSchema,
+  'session.deleted': SessionRefSchema,
+  'session.removed': SessionRefSchema,
+  cron: object({ jobId: str, action: str, status: optional(str) }, 'CronEvent'),
+  'cron.run.started': CronRunRefSchema,
+  'cron.run.completed': CronRunRefSchema,
+  'cron.run.finished': CronRunRefSchema,
+  presence: union(object({ presence: array(PresenceEntrySchema) }), array(PresenceEntrySchema)),
+  'exec.approval.requested': ApprovalRequestSchema,
+  'exec.approval.resolved': ApprovalResolvedSchema,
+};
+
+/** Issues in an event payload — events are only checked, never rewritten */
+export function checkEvent(event: string, payload: unknown): SchemaIssue[] {
+  const schema = EVENT_SCHEMAS[event];
+  return schema ? check(schema, payload).issues : [];
+}
@@ -0,0 +1,157 @@
+// ═══════════════════════════════════════════════════════════
+// Session Management — create / rename / reset / rewind / delete / fork
+//
+// Every action goes to the gateway first; local state (tabs, caches,
+// labels) only follows once the call succeeded, then gatewayDataStore
+// is refreshed so the Dashboard and Agent Hub see the change too.
+// ═══════════════════════════════════════════════════════════
+
+import i18n from '@/i18n';
+import { gateway } from '@/services/gateway';
+import { GatewayError } from '@/services/gatewayErrors';
+import { useChatStore, type ChatMessage } from '@/stores/chatStore';
+import { refreshGroup } from '@/stores/gatewayDataStore';
+
+export const MAIN_SESSION = 'agent:main:main';
+
+/** "agent:<id>:<rest>" → "<id>" */
+export const agentIdOf = (sessionKey: string) => sessionKey.split(':')[1] || 'main';
+
+/** Only real gateway sessions — not the main session, not imported transcripts */
+export const isManageableSession = (key: string) =>
+  key !== MAIN_SESSION && key.startsWith('agent:');
+
+const newSessionKey = (agentId: string, prefix: string) =>
+  `agent:${agentId}:${prefix}-${Date.now().toString(36)}`;
+
+function setLocalLabel(key: string, label: string) {
+  const { sessions, setSessions } = useChatStore.getState();
+  setSessions(sessions.some((s) => s.key === key)
+    ? sessions.map((s) => (s.key === key ? { ...s, label } : s))
+    : [...sessions, { key, label }]);
+}
+
+function refreshSessions() {
+  refreshGroup('sessions').catch(() => {});
+}
+
+/**
+ * Create a session by patching a new key. Gateways create the session on
+ * first use; one that answers without it would leave a tab with no session
+ * behind it, so anything but the new key back counts as a failure.
+ */
+async function createOnGateway(key: string, label: string): Promise<void> {
+  const res: any = await gateway.call('sessions.patch', { key, label });
+  if (res?.ok === false || res?.key !== key) {
+    throw new GatewayError('rejected', 'sessions.patch', i18n.t('sessions.notCreated'), { details: res });
+  }
+}
+
+/** Create a labelled session for an agent and open it. Returns its key. */
+export async function createSession(agentId: string, label: string): Promise<string> {
+  const key = newSessionKey(agentId, 'desktop');
+  await createOnGateway(key, label);
+  setLocalLabel(key, label);
+  useChatStore.getState().openTab(key);
+  refreshSessions();
+  return key;
+}
+
+export async function renameSession(key: string, label: string): Promise<void> {
+  await gateway.call('sessions.patch', { key, label });
+  setLocalLabel(key, label);
+  refreshSessions();
+}
+
+/** Clear the session's history on the gateway — the key (and its tab) stays */
+export async function resetSession(key: string): Promise<void> {
+  await gateway.call('sessions.reset', { key });
+  const chat = useChatStore.getState();
+  chat.setSessionMessages(key, []);
+  chat.setPendingRewind(key, null);
+  chat.setHistoryPrefix(key, null);
+  refreshSessions();
+}
+
+export async function deleteSession(key: string): Promise<void> {
+  if (!isManageableSession(key)) return;
+  await gateway.call('sessions.delete', { key });
+  useChatStore.getState().forgetSession(key);
+  refreshSessions();
+}
+
+// ── Rewind ───────────────────────────────────────────────
+
+/** The conversation as plain turns — the hidden context of a rewound or forked session */
+function transcriptOf(msgs: ChatMessage[]): string {
+  return msgs
+    .filter((m) => (m.role === 'user' || m.role === 'assistant') && m.content?.trim())
+    .map((m) => `**${m.role === 'user' ? 'User' : 'Assistant'}:**\n${m.content.trim()}`)
+    .join('\n\n');
+}
+
+/**
+ * Rewind the session to `shown` (edit & regenerate, switching branches).
+ * Nothing happens on the gateway yet: the session's next message clears
+ * its transcript and carries `shown` as hidden context, so the agent
+ * continues from exactly what is on screen (GatewayService.sendMessage).
+ * Until then the gateway transcript — and a reload — still has the old turns.
+ */
+export function rewindSession(key: string, shown: ChatMessage[]): void {
+  const transcript = transcriptOf(shown);
+  useChatStore.getState().setPendingRewind(key, {
+    prefix: shown,
+    context: transcript
+      ? `Earlier conversation in this session, restored by the client. It has already happened — do not answer or mention it.\n\n${transcript}`
+      : '',
+    reset: true,
+  });
+}
+
+// ── Fork ─────────────────────────────────────────────────
+
+export interface ForkOptions {
+  label: string;
+  /** Model for the new session — omitted = agent default */
+  model?: string;
+}
+
+/**
+ * Start a new session with the source conversation up to (and including)
+ * `messageId`. The gateway has no fork, so the new session starts empty and
+ * the conversation goes out as hidden context with its first message; the
+ * tab shows a copy of it, kept as the session's history prefix. Nothing is
+ * sent until the user writes.
+ * The source session is not touched.
+ */
+export async function forkSession(sourceKey: string, messageId: string, opts: ForkOptions): Promise<string> {
+  const chat = useChatStore.getState();
+  const source = chat.getSessionMessages(sourceKey);
+  const cut = source.findIndex((m) => m.id === messageId);
+  const history = cut >= 0 ? source.slice(0, cut + 1) : source;
+  const sourceLabel = chat.sessions.find((s) => s.key === sourceKey)?.label || sourceKey;
+
+  const key = newSessionKey(agentIdOf(sourceKey), 'fork');
+  await createOnGateway(key, opts.label);
+  if (opts.model) await gateway.setSessionModel(opts.model, key);
+  setLocalLabel(key, opts.label);
+
+  // Local copies — new ids so they never pair with the source's archive
+  // records, and no branch marks (the edit branches stay with the source)
+  const copies = history.map((m, i) => ({
+    ...m, id: `fork-${i}-${m.id}`, fromHistory: undefined, isStreaming: false, branchId: undefined,
+  }));
+  const transcript = transcriptOf(copies);
+  if (transcript) {
+    chat.setPendingRewind(key, {
+      prefix: copies,
+      context: `Conversation so far, forked by the client from the session "${sourceLabel}". It has already happened — do not answer or mention it.\n\n${transcript}`,
+      reset: false,
+    });
+  }
+  chat.setHistoryPrefix(key, copies);
+  chat.setSessionMessages(key, copies);
+  chat.openTab(key);
+  refreshSessions();
+  return key;
+}
@@ -0,0 +1,306 @@
+// ═══════════════════════════════════════════════════════════
+// Slash Commands — "/" commands typed into MessageInput
+//
+// Built-ins map onto GatewayService methods. Pages (or any module)
+// can contribute more with registerSlashCommand(), which returns an
+// unregister — call it from a useEffect cleanup. Prompt macros show
+// up as "/<macro-name>". Unknown commands are sent to the gateway
+// as plain text, so its own chat commands keep working.
+// ═══════════════════════════════════════════════════════════
+
+import i18n from '@/i18n';
+import { gateway } from '@/services/gateway';
+import { describeGatewayError } from '@/services/gatewayErrors';
+import { runConversationExport, type ExportFormat } from '@/services/conversationExport';
+import { runMacro } from '@/services/macros';
+import { agentIdOf } from '@/services/sessions';
+import { useChatStore } from '@/stores/chatStore';
+import { useGatewayDataStore } from '@/stores/gatewayDataStore';
+import { useMacroStore, macroName } from '@/stores/macroStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+
+export interface SlashContext {
+  /** Session the command was typed in */
+  sessionKey: string;
+}
+
+export interface SlashArgSuggestion {
+  value: string;
+  label?: string;
+  description?: string;
+}
+
+export interface SlashCommand {
+  /** Without the slash — may contain spaces ("cron run") */
+  name: string;
+  /** i18n key or plain text */
+  description: string;
+  /** Usage hint shown after the name, e.g. "<model>" */
+  args?: string;
+  /** Runnable without an argument */
+  argsOptional?: boolean;
+  icon?: string;
+  /** Talks to the gateway — not run while disconnected */
+  needsGateway?: boolean;
+  suggest?: (arg: string) => SlashArgSuggestion[];
+  /** Returned text is shown as a toast */
+  run: (arg: string, ctx: SlashContext) => Promise<string | void> | string | void;
+}
+
+/** One row of the MessageInput autocomplete popover */
+export interface SlashSuggestion {
+  key: string;
+  /** Input text after accepting */
+  insert: string;
+  label: string;
+  hint?: string;
+  description: string;
+  icon?: string;
+  /** Accepting with Enter runs the command right away */
+  runnable: boolean;
+}
+
+const registry = new Map<string, SlashCommand>();
+
+export function registerSlashCommand(command: SlashCommand): () => void {
+  registry.set(command.name, command);
+  return () => {
+    if (registry.get(command.name) === command) registry.delete(command.name);
+  };
+}
+
+const toast = (title: string, body: string) =>
+  useNotificationStore.getState().addToast('info', title, body);
+
+// ── Macros as commands ───────────────────────────────────
+
+const macroSlug = (name: string) =>
+  name.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+
+function macroCommands(): SlashCommand[] {
+  return useMacroStore.getState().macros
+    .map((m) => ({ m, name: macroSlug(macroName(m)) }))
+    .filter(({ name }) => name && !registry.has(name))
+    .map(({ m, name }) => ({
+      name,
+      icon: m.icon,
+      description: m.template.length > 60 ? m.template.slice(0, 58) + '…' : m.template,
+      run: () => { runMacro(m.id); },
+    }));
+}
+
+function allCommands(): SlashCommand[] {
+  return [...registry.values(), ...macroCommands()];
+}
+
+// ── Parsing ──────────────────────────────────────────────
+
+/** "/cron run nightly" → the longest matching command + its argument */
+export function parseSlashCommand(text: string): { command: SlashCommand; arg: string } | null {
+  if (!text.startsWith('/')) return null;
+  const body = text.slice(1);
+  const lower = body.toLowerCase();
+  let best: SlashCommand | null = null;
+  for (const command of allCommands()) {
+    const name = command.name.toLowerCase();
+    if ((lower === name || lower.startsWith(name + ' ')) && (!best || name.length > best.name.length)) {
+      best = command;
+    }
+  }
+  return best ? { command: best, arg: body.slice(best.name.length).trim() } : null;
+}
+
+/** A known command that can't run while disconnected */
+export function slashNeedsGateway(text: string): boolean {
+  return !!parseSlashCommand(text.trim())?.command.needsGateway;
+}
+
+/** Autocomplete rows for the current input — empty when the popover should stay closed */
+export function slashSuggestions(text: string): SlashSuggestion[] {
+  if (!text.startsWith('/') || text.includes('\n')) return [];
+  const t = i18n.t.bind(i18n);
+
+  const parsed = parseSlashCommand(text);
+  if (parsed && text.length > parsed.command.name.length + 1) {
+    const { command, arg } = parsed;
+    const lowerArg = arg.toLowerCase();
+    const matches = (command.suggest?.(arg) || [])
+      .filter((s) => !lowerArg || s.value.toLowerCase().includes(lowerArg) || s.label?.toLowerCase().includes(lowerArg));
+    // A complete value is typed — Enter runs it as is instead of picking a longer match
+    if (matches.some((s) => s.value.toLowerCase() === lowerArg || s.label?.toLowerCase() === lowerArg)) return [];
+    return matches
+      .slice(0, 8)
+      .map((s) => ({
+        key: `${command.name}:${s.value}`,
+        insert: `/${command.name} ${s.value}`,
+        label: s.label || s.value,
+        description: s.description || '',
+        runnable: true,
+      }));
+  }
+
+  const typed = text.slice(1).toLowerCase();
+  return allCommands()
+    .filter((c) => c.name.toLowerCase().startsWith(typed))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(0, 10)
+    .map((c) => ({
+      key: c.name,
+      insert: c.args ? `/${c.name} ` : `/${c.name}`,
+      label: `/${c.name}`,
+      hint: c.args,
+      description: t(c.description),
+      icon: c.icon,
+      runnable: !c.args || !!c.argsOptional,
+    }));
+}
+
+/** Run a typed command. Returns false when the text is not a known command. */
+export async function executeSlashCommand(text: string, ctx: SlashContext): Promise<boolean> {
+  const parsed = parseSlashCommand(text.trim());
+  if (!parsed) return false;
+  const { command, arg } = parsed;
+  if (command.args && !command.argsOptional && !arg) {
+    toast(`/${command.name}`, i18n.t('slash.usage', { usage: `/${command.name} ${command.args}` }));
+    return true;
+  }
+  try {
+    const result = await command.run(arg, ctx);
+    if (result) toast(`/${command.name}`, result);
+  } catch (err: any) {
+    console.error(`[Slash] /${command.name} failed:`, err);
+    toast(`/${command.name}`, i18n.t('slash.failed', { error: describeGatewayError(err) }));
+  }
+  return true;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Built-in commands
+// ═══════════════════════════════════════════════════════════
+
+const THINKING_LEVELS = ['high', 'medium', 'low', 'minimal', 'off'];
+const EXPORT_FORMATS: Record<string, ExportFormat> = { md: 'markdown', markdown: 'markdown', html: 'html', json: 'json' };
+
+registerSlashCommand({
+  name: 'model',
+  description: 'slash.model',
+  args: '<model>',
+  needsGateway: true,
+  suggest: () => useChatStore.getState().availableModels.map((m) => ({
+    value: m.alias || m.id, label: m.label || m.id, description: m.id,
+  })),
+  run: async (arg, { sessionKey }) => {
+    const lower = arg.toLowerCase();
+    const match = useChatStore.getState().availableModels.find((m) =>
+      [m.id, m.alias, m.label].some((v) => v?.toLowerCase() === lower));
+    const model = match?.id || arg;
+    await gateway.setSessionModel(model, sessionKey);
+    if (sessionKey === useChatStore.getState().activeSessionKey) {
+      useChatStore.getState().setManualModelOverride(model);
+      setTimeout(() => window.dispatchEvent(new Event('aegis:model-changed')), 500);
+    }
+    return i18n.t('slash.modelSet', { model });
+  },
+});
+
+registerSlashCommand({
+  name: 'think',
+  description: 'slash.think',
+  args: '<level>',
+  needsGateway: true,
+  suggest: () => THINKING_LEVELS.map((value) => ({ value })),
+  run: async (arg, { sessionKey }) => {
+    const level = arg.toLowerCase();
+    if (!THINKING_LEVELS.includes(level)) return i18n.t('slash.usage', { usage: `/think ${THINKING_LEVELS.join('|')}` });
+    await gateway.setSessionThinking(level === 'off' ? null : level, sessionKey);
+    if (sessionKey === useChatStore.getState().activeSessionKey) {
+      useChatStore.getState().setCurrentThinking(level === 'off' ? null : level);
+    }
+    return i18n.t('slash.thinkSet', { level });
+  },
+});
+
+registerSlashCommand({
+  name: 'compact',
+  description: 'slash.compact',
+  needsGateway: true,
+  run: async (_arg, { sessionKey }) => {
+    await gateway.call('sessions.compact', { key: sessionKey });
+    return i18n.t('slash.compacted');
+  },
+});
+
+registerSlashCommand({
+  name: 'abort',
+  description: 'slash.abort',
+  needsGateway: true,
+  run: async (_arg, { sessionKey }) => {
+    await gateway.abortChat(sessionKey);
+    useChatStore.getState().setIsTyping(false, sessionKey);
+  },
+});
+
+registerSlashCommand({
+  name: 'new',
+  description: 'slash.new',
+  args: '[message]',
+  argsOptional: true,
+  run: async (arg, { sessionKey }) => {
+    const key = `agent:${agentIdOf(sessionKey)}:desktop-${Date.now().toString(36)}`;
+    const chat = useChatStore.getState();
+    chat.openTab(key);
+    if (!arg) return;
+    const bubbleId = `user-${Date.now()}`;
+    chat.addMessage({ id: bubbleId, role: 'user', content: arg, timestamp: new Date().toISOString() }, key);
+    chat.setIsTyping(true, key);
+    await gateway.sendMessage(arg, undefined, key, { bubbleId });
+  },
+});
+
+registerSlashCommand({
+  name: 'agent',
+  description: 'slash.agent',
+  args: '<id>',
+  needsGateway: true,
+  suggest: () => useGatewayDataStore.getState().agents.map((a) => ({
+    value: a.id, label: a.name ? `${a.name} (${a.id})` : a.id,
+  })),
+  run: (arg) => {
+    const lower = arg.toLowerCase();
+    const agent = useGatewayDataStore.getState().agents.find((a) =>
+      a.id.toLowerCase() === lower || a.name?.toLowerCase() === lower);
+    if (!agent) return i18n.t('slash.agentNotFound', { agent: arg });
+    useChatStore.getState().openTab(`agent:${agent.id}:main`);
+  },
+});
+
+registerSlashCommand({
+  name: 'cron run',
+  description: 'slash.cronRun',
+  args: '<job>',
+  needsGateway: true,
+  suggest: () => useGatewayDataStore.getState().cronJobs.map((j) => ({
+    value: j.id, label: j.name || j.id, description: j.enabled === false ? i18n.t('slash.cronDisabled') : undefined,
+  })),
+  run: async (arg) => {
+    const lower = arg.toLowerCase();
+    const job = useGatewayDataStore.getState().cronJobs.find((j) =>
+      j.id === arg || j.name?.toLowerCase() === lower);
+    if (!job) return i18n.t('slash.cronNotFound', { job: arg });
+    await gateway.call('cron.run', { id: job.id });
+    return i18n.t('slash.cronStarted', { job: job.name || job.id });
+  },
+});
+
+registerSlashCommand({
+  name: 'export',
+  description: 'slash.export',
+  args: '[md|html|json]',
+  argsOptional: true,
+  suggest: () => ['md', 'html', 'json'].map((value) => ({ value })),
+  run: async (arg) => {
+    const format = EXPORT_FORMATS[arg.toLowerCase() || 'md'];
+    if (!format) return i18n.t('slash.usage', { usage: '/export md|html|json' });
+    await runConversationExport(format);
+  },
+});
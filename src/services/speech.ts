@@ -0,0 +1,151 @@
+// ═══════════════════════════════════════════════════════════
+// Speech — transcription for voice input, synthesis for "read aloud"
+//
+// Speech-to-text is pluggable (Settings → Voice): a local
+// whisper-compatible HTTP server (whisper.cpp, faster-whisper,
+// LocalAI… anything serving /v1/audio/transcriptions), or the
+// gateway's audio.transcribe when it advertises one. Text-to-speech
+// posts to an OpenAI-compatible /v1/audio/speech endpoint and hands
+// back a blob URL for AudioPlayer.
+// ═══════════════════════════════════════════════════════════
+
+import i18n from '@/i18n';
+import { gateway } from '@/services/gateway';
+import { describeGatewayError } from '@/services/gatewayErrors';
+import { useSettingsStore } from '@/stores/settingsStore';
+
+/** Gateway RPC for transcription — only used when hello-ok lists it */
+export const GATEWAY_STT_METHOD = 'audio.transcribe';
+
+/** Long replies are cut here — TTS servers reject or stall on huge inputs */
+const TTS_MAX_CHARS = 4_000;
+
+export class SpeechError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpeechError';
+  }
+}
+
+function base64ToBlob(base64: string, mimeType: string): Blob {
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+}
+
+/** "HTTP 500: <body>" from a failed response, with the body trimmed */
+async function httpError(res: Response): Promise<SpeechError> {
+  const body = (await res.text().catch(() => '')).trim().slice(0, 200);
+  return new SpeechError(`HTTP ${res.status}${body ? `: ${body}` : ''}`);
+}
+
+/** Best supported recording format — VoiceRecorder and push-to-talk */
+export function pickRecordingMimeType(): string {
+  return MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+    ? 'audio/webm;codecs=opus'
+    : MediaRecorder.isTypeSupported('audio/ogg;codecs=opus')
+      ? 'audio/ogg;codecs=opus'
+      : 'audio/webm';
+}
+
+export function isTranscriptionEnabled(): boolean {
+  return useSettingsStore.getState().voice.sttProvider !== 'off';
+}
+
+export function isReadAloudEnabled(): boolean {
+  return !!useSettingsStore.getState().voice.ttsUrl.trim();
+}
+
+/** Transcribe one recording with the configured provider */
+export async function transcribe(base64: string, mimeType: string): Promise<string> {
+  const { sttProvider, sttUrl, sttModel, sttLanguage } = useSettingsStore.getState().voice;
+
+  if (sttProvider === 'gateway') {
+    if (!gateway.supportsMethod(GATEWAY_STT_METHOD)) {
+      throw new SpeechError(i18n.t('speech.gatewayUnsupported', { method: GATEWAY_STT_METHOD }));
+    }
+    try {
+      const res: any = await gateway.call(GATEWAY_STT_METHOD, {
+        audio: base64, mimeType, ...(sttLanguage ? { language: sttLanguage } : {}),
+      });
+      return typeof res?.text === 'string' ? res.text.trim() : '';
+    } catch (err) {
+      throw new SpeechError(describeGatewayError(err));
+    }
+  }
+
+  if (sttProvider === 'whisper') {
+    const ext = mimeType.includes('ogg') ? 'ogg' : 'webm';
+    const form = new FormData();
+    form.append('file', base64ToBlob(base64, mimeType), `voice.${ext}`);
+    if (sttModel) form.append('model', sttModel);
+    if (sttLanguage) form.append('language', sttLanguage);
+    form.append('response_format', 'json');
+
+    let res: Response;
+    try {
+      res = await fetch(sttUrl, { method: 'POST', body: form });
+    } catch {
+      throw new SpeechError(i18n.t('speech.unreachable', { url: sttUrl }));
+    }
+    if (!res.ok) throw await httpError(res);
+    const data = await res.json().catch(() => null);
+    return typeof data?.text === 'string' ? data.text.trim() : '';
+  }
+
+  throw new SpeechError(i18n.t('speech.sttOff'));
+}
+
+/**
+ * Send a recording as a file — what happens when transcription is off.
+ * The agent gets its path in the shared folder (or a base64 stub when
+ * the folder isn't available).
+ */
+export async function sendRecording(base64: string, mimeType: string, durationSec: number, sessionKey?: string): Promise<void> {
+  const ext = mimeType.includes('ogg') ? 'ogg' : 'webm';
+  const filename = `voice-${Date.now()}.${ext}`;
+  let savedPath = '';
+  if (window.aegis?.voice?.save) {
+    savedPath = await window.aegis.voice.save(filename, base64) || '';
+  }
+  if (savedPath) {
+    await gateway.sendMessage(`🎤 [voice] ${savedPath} (${durationSec}s)`, undefined, sessionKey);
+  } else {
+    await gateway.sendMessage(`🎤 [voice:${mimeType}:base64] ${base64.substring(0, 50)}... (${durationSec}s)`, undefined, sessionKey);
+  }
+}
+
+/** Markdown → what should be spoken: no code blocks, links as their text, no markup */
+export function speakableText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/<aegis_artifact[\s\S]*?<\/aegis_artifact>/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|~~)(.+?)\1/g, '$2')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, TTS_MAX_CHARS);
+}
+
+/** Synthesize text with the TTS endpoint — returns a blob URL the caller revokes */
+export async function synthesize(text: string): Promise<string> {
+  const { ttsUrl, ttsModel, ttsVoice } = useSettingsStore.getState().voice;
+  if (!ttsUrl.trim()) throw new SpeechError(i18n.t('speech.ttsOff'));
+  const input = speakableText(text);
+  if (!input) throw new SpeechError(i18n.t('speech.nothingToRead'));
+
+  let res: Response;
+  try {
+    res = await fetch(ttsUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: ttsModel, voice: ttsVoice, input, response_format: 'mp3' }),
+    });
+  } catch {
+    throw new SpeechError(i18n.t('speech.unreachable', { url: ttsUrl }));
+  }
+  if (!res.ok) throw await httpError(res);
+  return URL.createObjectURL(await res.blob());
+}
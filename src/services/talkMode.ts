@@ -0,0 +1,273 @@
+// ═══════════════════════════════════════════════════════════
+// Talk Mode — hands-free push-to-talk conversation
+//
+// The global shortcut (Settings → Voice) is watched by the main
+// process, which sends start/stop here: hold it to talk, or tap
+// to start and tap again to send. The recording goes to the active
+// session — transcribed first when speech-to-text is on — and the
+// reply is played back: the gateway's own audio (a MEDIA: line)
+// when it sends one, otherwise the read-aloud TTS endpoint, and
+// the reply text when neither is available. The always-on-top
+// overlay mirrors every step.
+// ═══════════════════════════════════════════════════════════
+
+import i18n, { getDirection } from '@/i18n';
+import { gateway, type MediaInfo } from '@/services/gateway';
+import {
+  transcribe, synthesize, sendRecording, pickRecordingMimeType,
+  isTranscriptionEnabled, isReadAloudEnabled,
+} from '@/services/speech';
+import { useChatStore } from '@/stores/chatStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { resolveAudioSrc } from '@/utils/media';
+
+export type TalkState = 'idle' | 'listening' | 'thinking' | 'speaking' | 'reply' | 'error';
+
+/** Shorter presses are treated as accidental */
+const MIN_RECORDING_MS = 400;
+/** Give up waiting for the reply after this long */
+const REPLY_TIMEOUT_MS = 180_000;
+/** How long a text-only reply or an error stays on the overlay */
+const LINGER_MS = 6_000;
+const OVERLAY_TEXT_MAX = 160;
+
+let state: TalkState = 'idle';
+let stream: MediaStream | null = null;
+let recorder: MediaRecorder | null = null;
+let chunks: Blob[] = [];
+let startedAt = 0;
+/** Stop arrived while the microphone was still opening */
+let starting = false;
+let stopPending = false;
+/** Session whose next reply is played back */
+let awaitingSession: string | null = null;
+let replyTimer: ReturnType<typeof setTimeout> | null = null;
+let lingerTimer: ReturnType<typeof setTimeout> | null = null;
+let player: HTMLAudioElement | null = null;
+let playerUrl: string | null = null;
+
+const snippet = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > OVERLAY_TEXT_MAX ? `${flat.slice(0, OVERLAY_TEXT_MAX)}…` : flat;
+};
+
+function setState(next: TalkState, text = '') {
+  state = next;
+  if (lingerTimer) { clearTimeout(lingerTimer); lingerTimer = null; }
+  window.aegis?.talk?.setState({
+    state: next,
+    label: i18n.t(`talk.state.${next}`),
+    text: snippet(text),
+    rtl: getDirection(i18n.language) === 'rtl',
+  });
+  if (next === 'reply' || next === 'error') {
+    lingerTimer = setTimeout(() => setState('idle'), LINGER_MS);
+  }
+}
+
+function stopPlayback() {
+  if (player) {
+    player.onended = null;
+    player.onerror = null;
+    player.pause();
+    player = null;
+  }
+  if (playerUrl) { URL.revokeObjectURL(playerUrl); playerUrl = null; }
+}
+
+function releaseMic() {
+  stream?.getTracks().forEach((t) => t.stop());
+  stream = null;
+  recorder = null;
+}
+
+function stopWaiting() {
+  awaitingSession = null;
+  if (replyTimer) { clearTimeout(replyTimer); replyTimer = null; }
+}
+
+async function startListening() {
+  if (state === 'listening' || recorder || starting) return;
+  // A new question interrupts the answer being spoken or awaited
+  stopPlayback();
+  stopWaiting();
+
+  if (!useChatStore.getState().connected) {
+    setState('error', i18n.t('talk.notConnected'));
+    return;
+  }
+  starting = true;
+  stopPending = false;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    recorder = new MediaRecorder(stream, { mimeType: pickRecordingMimeType() });
+  } catch (err) {
+    console.error('[Talk] Microphone unavailable:', err);
+    releaseMic();
+    setState('error', i18n.t('voice.micError'));
+    return;
+  } finally {
+    starting = false;
+  }
+  chunks = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.start(100);
+  startedAt = Date.now();
+  setState('listening', i18n.t('talk.releaseToSend'));
+  if (stopPending) stopListening();
+}
+
+function finishRecording(): Promise<Blob> {
+  return new Promise((resolve) => {
+    const active = recorder;
+    if (!active || active.state === 'inactive') {
+      releaseMic();
+      resolve(new Blob());
+      return;
+    }
+    active.onstop = () => {
+      resolve(new Blob(chunks, { type: active.mimeType }));
+      releaseMic();
+    };
+    active.stop();
+  });
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function stopListening() {
+  if (starting) { stopPending = true; return; }
+  if (state !== 'listening') return;
+  const durationMs = Date.now() - startedAt;
+  const blob = await finishRecording();
+  if (durationMs < MIN_RECORDING_MS || blob.size === 0) {
+    setState('idle');
+    return;
+  }
+
+  setState('thinking');
+  const chat = useChatStore.getState();
+  const sessionKey = chat.activeSessionKey;
+  const durationSec = Math.max(1, Math.round(durationMs / 1000));
+  try {
+    const base64 = await blobToBase64(blob);
+    const mimeType = blob.type || 'audio/webm';
+
+    if (isTranscriptionEnabled()) {
+      const text = await transcribe(base64, mimeType);
+      if (!text) {
+        setState('error', i18n.t('talk.nothingHeard'));
+        return;
+      }
+      setState('thinking', text);
+      const bubbleId = `user-${Date.now()}`;
+      chat.addMessage({ id: bubbleId, role: 'user', content: text, timestamp: new Date().toISOString() }, sessionKey);
+      chat.setIsTyping(true, sessionKey);
+      awaitReply(sessionKey);
+      await gateway.sendMessage(text, undefined, sessionKey, { bubbleId });
+    } else {
+      chat.addMessage({
+        id: `user-${Date.now()}`, role: 'user',
+        content: i18n.t('voice.voiceMessage', { seconds: durationSec }),
+        timestamp: new Date().toISOString(),
+        mediaUrl: URL.createObjectURL(blob), mediaType: 'audio',
+      }, sessionKey);
+      chat.setIsTyping(true, sessionKey);
+      awaitReply(sessionKey);
+      await sendRecording(base64, mimeType, durationSec, sessionKey);
+    }
+  } catch (err: any) {
+    console.error('[Talk] Send failed:', err);
+    stopWaiting();
+    setState('error', err?.message || String(err));
+  }
+}
+
+function awaitReply(sessionKey: string) {
+  stopWaiting();
+  awaitingSession = sessionKey;
+  replyTimer = setTimeout(() => {
+    if (state !== 'thinking') return;
+    stopWaiting();
+    setState('error', i18n.t('talk.noReply'));
+  }, REPLY_TIMEOUT_MS);
+}
+
+/**
+ * A reply finished streaming (App.tsx onStreamEnd) — played back when it
+ * answers what was just said.
+ */
+export async function handleTalkReply(sessionKey: string, content: string, media?: MediaInfo): Promise<void> {
+  if (state !== 'thinking' || sessionKey !== awaitingSession) return;
+  stopWaiting();
+
+  let src: string | null = null;
+  try {
+    if (media?.mediaUrl && (!media.mediaType || media.mediaType === 'audio')) {
+      src = await resolveAudioSrc(media.mediaUrl);
+    }
+    if (!src && isReadAloudEnabled() && content.trim()) {
+      src = playerUrl = await synthesize(content);
+    }
+  } catch (err) {
+    console.warn('[Talk] No audio for the reply:', err);
+  }
+  // Pressed again while the audio was being prepared
+  if (state !== 'thinking') {
+    stopPlayback();
+    return;
+  }
+  if (!src) {
+    setState('reply', content);
+    return;
+  }
+
+  player = new Audio(src);
+  player.onended = () => { stopPlayback(); setState('idle'); };
+  player.onerror = () => { stopPlayback(); setState('reply', content); };
+  setState('speaking', content);
+  player.play().catch((err) => {
+    console.warn('[Talk] Playback failed:', err);
+    stopPlayback();
+    setState('reply', content);
+  });
+}
+
+/** Register the shortcut with the main process — false when it can't be used */
+export async function applyTalkHotkey(accelerator: string): Promise<boolean> {
+  if (!window.aegis?.talk) return false;
+  const { success } = await window.aegis.talk.setHotkey(accelerator);
+  return success;
+}
+
+export function startTalkMode(): () => void {
+  const unsubscribe = window.aegis?.talk?.onCommand((command) => {
+    if (command === 'start') startListening();
+    else stopListening();
+  });
+
+  const { talkHotkey } = useSettingsStore.getState().voice;
+  if (talkHotkey) {
+    applyTalkHotkey(talkHotkey).then((ok) => {
+      if (!ok) useNotificationStore.getState().addToast('info', i18n.t('talk.title'), i18n.t('talk.hotkeyFailed', { hotkey: talkHotkey }));
+    });
+  }
+
+  return () => {
+    unsubscribe?.();
+    if (recorder?.state === 'recording') recorder.stop();
+    releaseMic();
+    stopPlayback();
+    stopWaiting();
+    if (state !== 'idle') setState('idle');
+    window.aegis?.talk?.setHotkey('');
+  };
+}
@@ -0,0 +1,223 @@
+import { create } from 'zustand';
+import type { ApprovalRequestEvent, ApprovalResolvedEvent } from '@/services/protocol';
+
+// ═══════════════════════════════════════════════════════════
+// Approval Store — tool calls waiting for an operator decision
+//
+// The gateway asks with `<kind>.approval.requested` (exec today) and
+// every client sees `<kind>.approval.resolved`. Pending requests and
+// "always allow for this session" rules live in memory; the audit
+// log of every decision is persisted in localStorage. Answering the
+// gateway lives in services/approvals.ts.
+// ═══════════════════════════════════════════════════════════
+
+/** What the operator picked — allow-session is sent as allow-once and remembered locally */
+export type ApprovalDecision = 'allow-once' | 'allow-session' | 'deny';
+
+export interface PendingApproval {
+  id: string;
+  /** "exec", or whatever prefix the request event had */
+  kind: string;
+  /** RPC that answers it — `<kind>.approval.resolve` */
+  resolveMethod: string;
+  sessionKey?: string;
+  agentId?: string;
+  /** exec: the command line; other kinds: the tool name */
+  command: string;
+  args?: Record<string, any>;
+  cwd?: string;
+  host?: string;
+  requestedAt: number;
+  expiresAt?: number;
+  /** Set while our decision is on its way to the gateway */
+  deciding?: ApprovalDecision;
+  error?: string;
+}
+
+/** How a request ended — auto-allow = matched a session rule, elsewhere = another client decided */
+export type ApprovalOutcome = ApprovalDecision | 'auto-allow' | 'expired' | 'elsewhere';
+
+export interface ApprovalAuditEntry {
+  requestId: string;
+  kind: string;
+  sessionKey?: string;
+  agentId?: string;
+  command: string;
+  args?: Record<string, any>;
+  cwd?: string;
+  requestedAt: string;
+  decidedAt: string;
+  outcome: ApprovalOutcome;
+  /** The gateway's decision when another client answered */
+  detail?: string;
+}
+
+const STORAGE_KEY = 'aegis-approval-audit';
+const MAX_AUDIT = 500;
+const APPROVAL_EVENT = /^([\w-]+)\.approval\.(requested|resolved)$/;
+
+export const isApprovalEvent = (event: string) => APPROVAL_EVENT.test(event);
+
+function loadAudit(): ApprovalAuditEntry[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch { /* corrupt — start over */ }
+  return [];
+}
+
+const persist = (audit: ApprovalAuditEntry[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(audit));
+
+/**
+ * Command lines a session rule must never cover: anything chaining,
+ * piping, substituting or redirecting, and interpreters whose
+ * arguments are themselves programs.
+ */
+const SHELL_OPERATORS = /[;&|`<>\r\n]|\$\(/;
+const INTERPRETERS = new Set([
+  'sh', 'bash', 'zsh', 'fish', 'dash', 'ksh', 'csh', 'tcsh', 'cmd', 'cmd.exe', 'powershell', 'powershell.exe', 'pwsh',
+  'python', 'python2', 'python3', 'node', 'deno', 'bun', 'ruby', 'perl', 'php', 'lua', 'osascript',
+  'env', 'sudo', 'doas', 'xargs', 'eval', 'exec', 'nohup', 'timeout', 'nice', 'npx', 'bunx',
+]);
+
+/** Program of a command line — "/usr/bin/git status" → "git" */
+function programOf(command: string): string {
+  const first = command.trim().match(/^("[^"]+"|'[^']+'|\S+)/)?.[1] ?? '';
+  return first.replace(/^["']|["']$/g, '').split(/[\\/]/).pop() || first;
+}
+
+/**
+ * What "always allow for this session" covers — the exact command line
+ * for exec, the tool otherwise. Null when no rule may be offered: no
+ * session to scope it to, or a command that could run anything else.
+ */
+export function ruleScopeOf(req: Pick<PendingApproval, 'kind' | 'command' | 'sessionKey'>): string | null {
+  if (!req.sessionKey) return null;
+  if (req.kind !== 'exec') return req.command;
+  const command = req.command.trim();
+  if (!command || SHELL_OPERATORS.test(command)) return null;
+  const program = programOf(command).toLowerCase();
+  if (INTERPRETERS.has(program) || /^python\d/.test(program)) return null;
+  return command;
+}
+
+const ruleKey = (req: PendingApproval) => {
+  const scope = ruleScopeOf(req);
+  return scope === null ? null : `${req.kind}:${scope}`;
+};
+
+interface ApprovalState {
+  pending: PendingApproval[];
+  /** sessionKey → rule keys allowed for the rest of this app run */
+  sessionRules: Record<string, string[]>;
+  audit: ApprovalAuditEntry[];
+
+  addPending: (req: PendingApproval) => void;
+  updatePending: (id: string, patch: Partial<PendingApproval>) => void;
+  /** Drop a request and record how it ended */
+  settle: (id: string, outcome: ApprovalOutcome, detail?: string) => void;
+  allowForSession: (req: PendingApproval) => void;
+  isAllowedForSession: (req: PendingApproval) => boolean;
+  clearAudit: () => void;
+  /** Gateway switched — its requests and rules no longer apply */
+  reset: () => void;
+}
+
+export const useApprovalStore = create<ApprovalState>((set, get) => ({
+  pending: [],
+  sessionRules: {},
+  audit: loadAudit(),
+
+  addPending: (req) => set((state) => (
+    state.pending.some((p) => p.id === req.id) ? state : { pending: [...state.pending, req] }
+  )),
+
+  updatePending: (id, patch) => set((state) => ({
+    pending: state.pending.map((p) => (p.id === id ? { ...p, ...patch } : p)),
+  })),
+
+  settle: (id, outcome, detail) => set((state) => {
+    const req = state.pending.find((p) => p.id === id);
+    if (!req) return state;
+    const entry: ApprovalAuditEntry = {
+      requestId: req.id,
+      kind: req.kind,
+      sessionKey: req.sessionKey,
+      agentId: req.agentId,
+      command: req.command,
+      ...(req.args ? { args: req.args } : {}),
+      ...(req.cwd ? { cwd: req.cwd } : {}),
+      requestedAt: new Date(req.requestedAt).toISOString(),
+      decidedAt: new Date().toISOString(),
+      outcome,
+      ...(detail ? { detail } : {}),
+    };
+    const audit = [entry, ...state.audit].slice(0, MAX_AUDIT);
+    persist(audit);
+    return { pending: state.pending.filter((p) => p.id !== id), audit };
+  }),
+
+  allowForSession: (req) => set((state) => {
+    const rule = ruleKey(req);
+    if (!rule || !req.sessionKey) return state;
+    const rules = state.sessionRules[req.sessionKey] || [];
+    return rules.includes(rule) ? state : { sessionRules: { ...state.sessionRules, [req.sessionKey]: [...rules, rule] } };
+  }),
+
+  isAllowedForSession: (req) => {
+    const rule = ruleKey(req);
+    return !!rule && !!req.sessionKey && (get().sessionRules[req.sessionKey] || []).includes(rule);
+  },
+
+  clearAudit: () => {
+    persist([]);
+    set({ audit: [] });
+  },
+
+  reset: () => set({ pending: [], sessionRules: {} }),
+}));
+
+// ── Gateway events ───────────────────────────────────────
+
+function toPending(kind: string, payload: ApprovalRequestEvent): PendingApproval | null {
+  if (!payload || typeof payload.id !== 'string') return null;
+  const r = payload.request ?? {};
+  const command = typeof r.command === 'string' ? r.command
+    : typeof r.tool === 'string' ? r.tool
+    : kind;
+  return {
+    id: payload.id,
+    kind,
+    resolveMethod: `${kind}.approval.resolve`,
+    sessionKey: typeof r.sessionKey === 'string' ? r.sessionKey : undefined,
+    agentId: typeof r.agentId === 'string' ? r.agentId : undefined,
+    command,
+    args: r.args && typeof r.args === 'object' ? r.args : undefined,
+    cwd: typeof r.cwd === 'string' ? r.cwd : undefined,
+    host: typeof r.host === 'string' ? r.host : undefined,
+    requestedAt: typeof payload.createdAtMs === 'number' ? payload.createdAtMs : Date.now(),
+    expiresAt: typeof payload.expiresAtMs === 'number' ? payload.expiresAtMs : undefined,
+  };
+}
+
+/** Called by handleGatewayEvent for `<kind>.approval.requested|resolved` */
+export function receiveApprovalEvent(event: string, payload: any) {
+  const match = event.match(APPROVAL_EVENT);
+  if (!match) return;
+  const [, kind, phase] = match;
+  const store = useApprovalStore.getState();
+
+  if (phase === 'requested') {
+    const req = toPending(kind, payload as ApprovalRequestEvent);
+    if (req) store.addPending(req);
+    return;
+  }
+
+  // Resolved — our own decision settles when its RPC returns
+  const resolved = payload as ApprovalResolvedEvent;
+  const req = store.pending.find((p) => p.id === resolved?.id);
+  if (req && !req.deciding) store.settle(req.id, 'elsewhere', resolved.decision);
+}
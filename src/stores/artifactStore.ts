@@ -0,0 +1,281 @@
+import { create } from 'zustand';
+import { useChatStore, isTranscriptKey, type ChatMessage } from './chatStore';
+import { extractArtifacts, hashContent } from '@/utils/artifacts';
+
+// ═══════════════════════════════════════════════════════════
+// Artifact Store — Library of every <aegis_artifact> seen in chat
+// Artifacts are grouped by title: a re-emit with the same title becomes
+// a new version, identical content is deduped by hash.
+// Fed by startArtifactIndexing() (live + loaded history, all sessions).
+// Persisted to disk by the main process (electron/artifacts.ts) — full
+// version bodies outgrow localStorage. Deleted versions leave a tombstone
+// so loading history again doesn't bring them back.
+// ═══════════════════════════════════════════════════════════
+
+export interface ArtifactVersion {
+  hash: string;
+  type: string;
+  content: string;
+  sessionKey: string;
+  messageId: string;
+  createdAt: string;
+}
+
+export interface ArtifactEntry {
+  /** Normalized title — the grouping key */
+  id: string;
+  title: string;
+  /** Type of the latest version */
+  type: string;
+  /** Oldest first */
+  versions: ArtifactVersion[];
+  updatedAt: string;
+}
+
+interface ArtifactState {
+  artifacts: Record<string, ArtifactEntry>;
+  /**
+   * Tombstones (`deletedKey`) of removed versions, oldest first. Keyed by
+   * content rather than message id — live and history copies of a message
+   * have different ids.
+   */
+  deleted: string[];
+  /** The stored library has been read — saving before that would overwrite it */
+  loaded: boolean;
+
+  load: () => Promise<void>;
+
+  /** Index all artifacts in one message (no-op when it has none) */
+  indexMessage: (sessionKey: string, messageId: string, text: string, timestamp?: string) => void;
+  removeArtifact: (id: string) => void;
+  removeVersion: (id: string, hash: string) => void;
+  clearAll: () => void;
+}
+
+const MAX_ARTIFACTS = 200;
+const MAX_VERSIONS = 20;
+const MAX_DELETED = 5_000;
+/** Writes are coalesced — a history load indexes many messages at once */
+const SAVE_DELAY_MS = 1_000;
+/** Where the library lived before it moved to disk */
+const LEGACY_STORAGE_KEY = 'aegis-artifacts';
+
+export const artifactId = (title: string) => title.trim().toLowerCase() || 'untitled';
+const deletedKey = (id: string, hash: string) => `${id}|${hash}`;
+
+/** Add tombstones, keeping the newest MAX_DELETED */
+function withDeleted(deleted: string[], keys: string[]): string[] {
+  const added = new Set(keys);
+  const next = [...deleted.filter((k) => !added.has(k)), ...added];
+  return next.slice(-MAX_DELETED);
+}
+
+/** Drop tombstoned versions (and entries left without any) from a library */
+function dropDeleted(artifacts: Record<string, ArtifactEntry>, deleted: Set<string>) {
+  for (const [id, entry] of Object.entries(artifacts)) {
+    const versions = entry.versions.filter((v) => !deleted.has(deletedKey(id, v.hash)));
+    if (versions.length === entry.versions.length) continue;
+    if (versions.length === 0) {
+      delete artifacts[id];
+      continue;
+    }
+    const latest = versions[versions.length - 1];
+    artifacts[id] = { ...entry, versions, type: latest.type, updatedAt: latest.createdAt };
+  }
+}
+
+/** Versions of both entries, deduped by hash, oldest first */
+function mergeEntries(a: ArtifactEntry, b: ArtifactEntry): ArtifactEntry {
+  const byHash = new Map([...a.versions, ...b.versions].map((v) => [v.hash, v]));
+  const versions = [...byHash.values()]
+    .sort((x, y) => x.createdAt.localeCompare(y.createdAt))
+    .slice(-MAX_VERSIONS);
+  const latest = versions[versions.length - 1];
+  return { ...b, versions, type: latest.type, updatedAt: latest.createdAt };
+}
+
+function capLibrary(artifacts: Record<string, ArtifactEntry>) {
+  const ids = Object.keys(artifacts);
+  if (ids.length <= MAX_ARTIFACTS) return;
+  ids
+    .sort((x, y) => artifacts[x].updatedAt.localeCompare(artifacts[y].updatedAt))
+    .slice(0, ids.length - MAX_ARTIFACTS)
+    .forEach((id) => { delete artifacts[id]; });
+}
+
+function readLegacyLibrary(): Record<string, ArtifactEntry> {
+  try {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed?.state?.artifacts && typeof parsed.state.artifacts === 'object' ? parsed.state.artifacts : {};
+  } catch {
+    return {};
+  }
+}
+
+export const useArtifactStore = create<ArtifactState>((set, get) => ({
+  artifacts: {},
+  deleted: [],
+  loaded: false,
+
+  load: async () => {
+    if (get().loaded || !window.aegis?.artifacts) return;
+    let stored: Record<string, ArtifactEntry> = {};
+    let storedDeleted: string[] = [];
+    try {
+      ({ artifacts: stored, deleted: storedDeleted } = await window.aegis.artifacts.load());
+    } catch (err) {
+      console.error('[Artifacts] Load failed:', err);
+    }
+    // One-time move out of localStorage, which also frees its quota
+    const legacy = readLegacyLibrary();
+    const artifacts: Record<string, ArtifactEntry> = { ...legacy, ...stored };
+    // Anything indexed before the file was read is merged in
+    for (const [id, entry] of Object.entries(get().artifacts)) {
+      artifacts[id] = artifacts[id] ? mergeEntries(artifacts[id], entry) : entry;
+    }
+    // ...except what was deleted in an earlier run
+    const deleted = withDeleted(storedDeleted, get().deleted);
+    dropDeleted(artifacts, new Set(deleted));
+    capLibrary(artifacts);
+    set({ artifacts, deleted, loaded: true });
+    if (Object.keys(legacy).length > 0) {
+      try {
+        await window.aegis.artifacts.save(artifacts, deleted);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      } catch (err) {
+        console.error('[Artifacts] Moving the library to disk failed:', err);
+      }
+    }
+  },
+
+  indexMessage: (sessionKey, messageId, text, timestamp) => {
+    const found = extractArtifacts(text);
+    if (found.length === 0) return;
+    const createdAt = timestamp || new Date().toISOString();
+
+    set((state) => {
+      const artifacts = { ...state.artifacts };
+      let changed = false;
+
+      for (const a of found) {
+        const id = artifactId(a.title);
+        const hash = hashContent(a.content);
+        const entry = artifacts[id];
+        if (entry?.versions.some((v) => v.hash === hash)) continue;
+        if (state.deleted.includes(deletedKey(id, hash))) continue;
+
+        const version: ArtifactVersion = { hash, type: a.type, content: a.content, sessionKey, messageId, createdAt };
+        // History can load after live messages — keep versions in time order
+        const versions = [...(entry?.versions || []), version]
+          .sort((x, y) => x.createdAt.localeCompare(y.createdAt))
+          .slice(-MAX_VERSIONS);
+        const latest = versions[versions.length - 1];
+        artifacts[id] = {
+          id,
+          title: a.title || entry?.title || 'Untitled',
+          type: latest.type,
+          versions,
+          updatedAt: latest.createdAt,
+        };
+        changed = true;
+      }
+      if (!changed) return state;
+
+      // Cap the library — drop the least recently updated
+      capLibrary(artifacts);
+      return { artifacts };
+    });
+  },
+
+  removeArtifact: (id) => set((state) => {
+    const { [id]: removed, ...rest } = state.artifacts;
+    if (!removed) return state;
+    return {
+      artifacts: rest,
+      deleted: withDeleted(state.deleted, removed.versions.map((v) => deletedKey(id, v.hash))),
+    };
+  }),
+
+  removeVersion: (id, hash) => set((state) => {
+    const entry = state.artifacts[id];
+    if (!entry) return state;
+    const deleted = withDeleted(state.deleted, [deletedKey(id, hash)]);
+    const versions = entry.versions.filter((v) => v.hash !== hash);
+    if (versions.length === 0) {
+      const { [id]: _removed, ...rest } = state.artifacts;
+      return { artifacts: rest, deleted };
+    }
+    const latest = versions[versions.length - 1];
+    return {
+      artifacts: {
+        ...state.artifacts,
+        [id]: { ...entry, versions, type: latest.type, updatedAt: latest.createdAt },
+      },
+      deleted,
+    };
+  }),
+
+  clearAll: () => set((state) => ({
+    artifacts: {},
+    deleted: withDeleted(
+      state.deleted,
+      Object.values(state.artifacts).flatMap((e) => e.versions.map((v) => deletedKey(e.id, v.hash))),
+    ),
+  })),
+}));
+
+// ── Persistence ──
+
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleSave() {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    const { artifacts, deleted, loaded } = useArtifactStore.getState();
+    if (!loaded) return;
+    window.aegis?.artifacts?.save(artifacts, deleted).catch((err) => console.error('[Artifacts] Save failed:', err));
+  }, SAVE_DELAY_MS);
+}
+
+useArtifactStore.subscribe((state, prev) => {
+  if (state.loaded && (state.artifacts !== prev.artifacts || state.deleted !== prev.deleted)) scheduleSave();
+});
+
+// ── Indexing ──
+// Watches every session's messages in chatStore (live stream end + history
+// loads). Only finished assistant messages are scanned; a message is
+// re-scanned only when its content changes. Deleted versions are skipped
+// by indexMessage via the persisted tombstones.
+
+const scanned = new Set<string>();
+
+function scanMessages(sessionKey: string, msgs: ChatMessage[]) {
+  if (isTranscriptKey(sessionKey)) return; // imported copies, already indexed at the source
+  const { indexMessage } = useArtifactStore.getState();
+  for (const m of msgs) {
+    if (m.role !== 'assistant' || m.isStreaming || !m.content?.includes('<aegis_artifact')) continue;
+    const key = `${sessionKey}|${m.id}|${m.content.length}`;
+    if (scanned.has(key)) continue;
+    scanned.add(key);
+    indexMessage(sessionKey, m.id, m.content, m.timestamp);
+  }
+}
+
+/** Start indexing chat messages into the library. Returns an unsubscribe. */
+export function startArtifactIndexing(): () => void {
+  useArtifactStore.getState().load();
+  const initial = useChatStore.getState();
+  Object.entries(initial.messagesPerSession).forEach(([key, msgs]) => scanMessages(key, msgs));
+  scanMessages(initial.activeSessionKey, initial.messages);
+
+  return useChatStore.subscribe((state, prev) => {
+    if (state.messages !== prev.messages) scanMessages(state.activeSessionKey, state.messages);
+    if (state.messagesPerSession !== prev.messagesPerSession) {
+      for (const [key, msgs] of Object.entries(state.messagesPerSession)) {
+        if (msgs !== prev.messagesPerSession[key]) scanMessages(key, msgs);
+      }
+    }
+  });
+}
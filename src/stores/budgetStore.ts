@@ -0,0 +1,83 @@
+import { create } from 'zustand';
+
+// ═══════════════════════════════════════════════════════════
+// Budget Store — Live spend vs. limits + messages held by hard stop
+// Meters are recomputed by services/budget.ts after every slow poll.
+// ═══════════════════════════════════════════════════════════
+
+export type BudgetScope = 'daily' | 'monthly' | 'agent';
+
+export interface BudgetMeter {
+  scope: BudgetScope;
+  /** Agent id — only set for scope 'agent' */
+  agentId?: string;
+  spent: number;
+  limit: number;
+  /** spent / limit × 100 (not clamped — may exceed 100) */
+  percent: number;
+}
+
+/** A chat.send held back because a budget was exceeded with hard stop on */
+export interface HeldMessage {
+  id: string;
+  message: string;
+  attachments?: any[];
+  sessionKey: string;
+  /** Chat bubble added for this message — removed when the hold is discarded */
+  bubbleId?: string;
+  /** The meter that blocked this message */
+  meter: BudgetMeter;
+  heldAt: number;
+}
+
+/** Per-agent spend for one calendar month (sessions.usage bounded to that month) */
+export interface AgentSpend {
+  /** "YYYY-MM" */
+  month: string;
+  byAgent: Record<string, number>;
+}
+
+interface BudgetState {
+  meters: BudgetMeter[];
+  held: HeldMessage[];
+  /** When meters were last recomputed (ms) */
+  checkedAt: number;
+  agentSpend: AgentSpend | null;
+
+  setMeters: (meters: BudgetMeter[]) => void;
+  setAgentSpend: (spend: AgentSpend | null) => void;
+  holdMessage: (msg: Omit<HeldMessage, 'id' | 'heldAt'>) => void;
+  /** Remove a held message and return it (caller decides whether to send) */
+  takeHeld: (id: string) => HeldMessage | undefined;
+  clearHeld: () => void;
+  /** Forget meters, spend and held messages (gateway switch) */
+  reset: () => void;
+}
+
+export const useBudgetStore = create<BudgetState>((set, get) => ({
+  meters: [],
+  held: [],
+  checkedAt: 0,
+  agentSpend: null,
+
+  setMeters: (meters) => set({ meters, checkedAt: Date.now() }),
+  setAgentSpend: (agentSpend) => set({ agentSpend }),
+
+  holdMessage: (msg) => set((s) => ({
+    held: [...s.held, {
+      ...msg,
+      id: `held-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      heldAt: Date.now(),
+    }],
+  })),
+
+  takeHeld: (id) => {
+    const item = get().held.find((h) => h.id === id);
+    if (item) set((s) => ({ held: s.held.filter((h) => h.id !== id) }));
+    return item;
+  },
+
+  clearHeld: () => set({ held: [] }),
+
+  reset: () => set({ meters: [], held: [], checkedAt: 0, agentSpend: null }),
+}));
@@ -11,6 +11,8 @@ export interface ChatMessage {
   role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   timestamp: string;
+  /** Loaded from chat.history under the gateway's own id (not a live bubble) */
+  fromHistory?: boolean;
   isStreaming?: boolean;
   mediaUrl?: string;
   mediaType?: string;
@@ -21,12 +23,42 @@ export interface ChatMessage {
   }>;
   // Tool call metadata (role === 'tool')
   toolName?: string;
+  /** Links a history result card to its call card (the gateway's tool call id) */
+  toolCallId?: string;
   toolInput?: Record<string, any>;
+  /** Full output — kept untruncated for the Tool Inspector */
   toolOutput?: string;
   toolStatus?: 'running' | 'done' | 'error';
   toolDurationMs?: number;
   // Thinking/reasoning content (saved after streaming completes)
   thinkingContent?: string;
+  /** Set on an edited user message and on every alternative of it (see BranchPoint) */
+  branchId?: string;
+}
+
+/**
+ * Alternatives created by editing a user message. Each branch is the
+ * whole tail of the conversation from that user message on, so nested
+ * edits further down travel with their branch.
+ */
+export interface BranchPoint {
+  branches: ChatMessage[][];
+  /** Branch currently shown — its stored copy is refreshed when switching away */
+  active: number;
+}
+
+/**
+ * A rewind (edit, branch switch) or fork the gateway hasn't seen yet. It is
+ * applied by GatewayService.sendMessage right before the session's next
+ * chat.send, so browsing branches never touches the gateway transcript.
+ */
+export interface PendingRewind {
+  /** Conversation the next turn continues from — becomes the session's history prefix */
+  prefix: ChatMessage[];
+  /** Hidden context sent in front of the next message */
+  context: string;
+  /** Clear the gateway transcript first (edit, branch switch) — a fork starts empty */
+  reset: boolean;
 }
 
 export interface Session {
@@ -45,12 +77,47 @@ export interface TokenUsage {
   compactions: number;
 }
 
+/** A conversation imported from an exported JSON file — shown read-only */
+export interface TranscriptInfo {
+  key: string;
+  label: string;
+  /** Session the transcript was exported from */
+  sourceSessionKey: string;
+  exportedAt: string;
+  fileName?: string;
+}
+
+const TRANSCRIPT_PREFIX = 'transcript:';
+export const isTranscriptKey = (key: string) => key.startsWith(TRANSCRIPT_PREFIX);
+
+export interface JumpTarget {
+  /** Gateway profile the archived message came from */
+  profileId: string;
+  sessionKey: string;
+  messageId: string;
+  role: ChatMessage['role'];
+  content: string;
+  toolName?: string;
+}
+
+/** Tool card shown in the Tool Inspector panel */
+export interface InspectedTool {
+  sessionKey: string;
+  messageId: string;
+}
+
+export interface ThinkingStream {
+  runId: string;
+  text: string;
+}
+
 interface ChatState {
   // Messages (active session)
   messages: ChatMessage[];
-  addMessage: (msg: ChatMessage) => void;
-  updateStreamingMessage: (id: string, content: string, extra?: { mediaUrl?: string; mediaType?: string }) => void;
-  finalizeStreamingMessage: (id: string, content: string, extra?: { mediaUrl?: string; mediaType?: string }) => void;
+  /** Append a message — to the active session unless sessionKey says otherwise */
+  addMessage: (msg: ChatMessage, sessionKey?: string) => void;
+  updateStreamingMessage: (sessionKey: string, id: string, content: string, extra?: { mediaUrl?: string; mediaType?: string }) => void;
+  finalizeStreamingMessage: (sessionKey: string, id: string, content: string, extra?: { mediaUrl?: string; mediaType?: string }) => void;
   setMessages: (msgs: ChatMessage[]) => void;
   clearMessages: () => void;
 
@@ -58,6 +125,31 @@ interface ChatState {
   messagesPerSession: Record<string, ChatMessage[]>;
   cacheMessagesForSession: (key: string, msgs: ChatMessage[]) => void;
   getCachedMessages: (key: string) => ChatMessage[] | undefined;
+  /** Messages of any session — the live list for the active one, the cache for the rest */
+  getSessionMessages: (key: string) => ChatMessage[];
+  /** Replace the messages of any session (active or background) */
+  setSessionMessages: (key: string, msgs: ChatMessage[]) => void;
+
+  // Edit branches (per session, keyed by branchId)
+  branchesPerSession: Record<string, Record<string, BranchPoint>>;
+  /**
+   * Replace `messageId` and everything after it with `edited`, keeping the
+   * old tail as a branch. Returns false when the message is not in the session.
+   */
+  branchFromMessage: (key: string, messageId: string, edited: ChatMessage) => boolean;
+  switchBranch: (key: string, branchId: string, index: number) => void;
+  /** Restore the branches and rewinds saved for a gateway profile (startup, profile switch) */
+  loadBranches: (profileId: string) => void;
+
+  // Rewinds — see PendingRewind
+  pendingRewinds: Record<string, PendingRewind>;
+  /**
+   * Messages from before the session's last rewind or fork. The gateway
+   * transcript starts after them, so history loads show them first.
+   */
+  historyPrefixes: Record<string, ChatMessage[]>;
+  setPendingRewind: (key: string, rewind: PendingRewind | null) => void;
+  setHistoryPrefix: (key: string, msgs: ChatMessage[] | null) => void;
 
   // Sessions
   sessions: Session[];
@@ -65,10 +157,17 @@ interface ChatState {
   setSessions: (sessions: Session[]) => void;
   setActiveSession: (key: string) => void;
 
+  // Read-only transcripts (imported JSON exports), keyed by 'transcript:<id>'
+  transcripts: Record<string, TranscriptInfo>;
+  /** Open an imported transcript in a new read-only tab. Returns its key. */
+  openTranscript: (info: Omit<TranscriptInfo, 'key'>, msgs: ChatMessage[]) => string;
+
   // Tabs
   openTabs: string[];
   openTab: (key: string) => void;
   closeTab: (key: string) => void;
+  /** Close the tab and drop every cache of a session deleted on the gateway */
+  forgetSession: (key: string) => void;
   reorderTabs: (keys: string[]) => void;
 
   // Token Usage
@@ -97,8 +196,10 @@ interface ChatState {
   getDraft: (key: string) => string;
 
   // UI State
+  // isTyping mirrors typingPerSession[activeSessionKey] so background runs don't leak into the active tab
   isTyping: boolean;
-  setIsTyping: (typing: boolean) => void;
+  typingPerSession: Record<string, boolean>;
+  setIsTyping: (typing: boolean, sessionKey?: string) => void;
   isSending: boolean;
   setIsSending: (sending: boolean) => void;
   isLoadingHistory: boolean;
@@ -107,47 +208,170 @@ interface ChatState {
   historyLoader: (() => Promise<void>) | null;
   setHistoryLoader: (fn: (() => Promise<void>) | null) => void;
 
+  // Jump to message (archive search → ChatView scrolls to it once the session is shown)
+  jumpTarget: JumpTarget | null;
+  setJumpTarget: (target: JumpTarget | null) => void;
+
+  // Tool Inspector side panel (only shown while its session is active)
+  inspectedTool: InspectedTool | null;
+  setInspectedTool: (target: InspectedTool | null) => void;
+
   // Quick Replies (from [[button:...]] markers)
   quickReplies: Array<{ text: string; value: string }>;
   setQuickReplies: (buttons: Array<{ text: string; value: string }>) => void;
 
-  // Thinking stream (live reasoning display)
-  thinkingText: string;
-  thinkingRunId: string | null;
-  setThinkingStream: (runId: string, text: string) => void;
-  clearThinking: () => void;
+  // Thinking stream (live reasoning display, per session)
+  thinkingPerSession: Record<string, ThinkingStream>;
+  setThinkingStream: (sessionKey: string, runId: string, text: string) => void;
+  clearThinking: (sessionKey: string) => void;
 
   // Connection
   connected: boolean;
   connecting: boolean;
   connectionError: string | null;
   setConnectionStatus: (status: { connected: boolean; connecting: boolean; error?: string }) => void;
+
+  /**
+   * Forget everything that came from the current gateway — sessions, tabs,
+   * message caches, drafts, model/usage info. Imported transcripts stay.
+   */
+  resetGatewayState: () => void;
+}
+
+// ── Session-scoped helpers ──
+// The active session lives in `messages`; every other session only in the cache.
+
+function messagesOf(state: ChatState, key: string): ChatMessage[] {
+  return key === state.activeSessionKey ? state.messages : (state.messagesPerSession[key] || []);
+}
+
+function withSessionMessages(state: ChatState, key: string, msgs: ChatMessage[]): Partial<ChatState> {
+  return {
+    ...(key === state.activeSessionKey ? { messages: msgs } : {}),
+    messagesPerSession: { ...state.messagesPerSession, [key]: msgs },
+  };
+}
+
+function withTyping(state: ChatState, key: string, typing: boolean): Partial<ChatState> {
+  return {
+    typingPerSession: { ...state.typingPerSession, [key]: typing },
+    ...(key === state.activeSessionKey ? { isTyping: typing } : {}),
+  };
+}
+
+// ── Edit branches and rewinds — saved per gateway profile in localStorage ──
+// Attachment bytes are left out; a write that would exceed MAX_SAVED_BYTES
+// (or the quota) is skipped and the data stays in memory for this run.
+
+const BRANCHES_KEY = 'aegis-chat-branches';
+const REWINDS_KEY = 'aegis-chat-rewinds';
+const MAX_SAVED_BYTES = 2 * 1024 * 1024;
+
+type SessionBranches = Record<string, Record<string, BranchPoint>>;
+
+interface SessionRewinds {
+  pending: Record<string, PendingRewind>;
+  prefixes: Record<string, ChatMessage[]>;
+}
+
+/** Profile whose branches and rewinds are in the store — '' while none is loaded */
+let branchesProfile = '';
+
+function readSaved<T>(storageKey: string): Record<string, T> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(storageKey) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeSaved<T>(storageKey: string, profileId: string, value: T | null) {
+  const all = readSaved<T>(storageKey);
+  if (value) all[profileId] = value;
+  else delete all[profileId];
+  try {
+    const raw = JSON.stringify(all);
+    if (raw.length > MAX_SAVED_BYTES) {
+      console.warn(`[Chat] ${storageKey} too large to save — kept for this run only`);
+      return;
+    }
+    localStorage.setItem(storageKey, raw);
+  } catch (err) {
+    console.warn(`[Chat] Could not save ${storageKey}:`, err);
+  }
+}
+
+const withoutAttachmentBytes = (m: ChatMessage): ChatMessage => m.attachments
+  ? { ...m, attachments: m.attachments.map((a) => ({ ...a, content: '' })) }
+  : m;
+
+function saveBranches(profileId: string, branches: SessionBranches) {
+  const slim: SessionBranches = {};
+  for (const [key, points] of Object.entries(branches)) {
+    slim[key] = {};
+    for (const [branchId, point] of Object.entries(points)) {
+      slim[key][branchId] = { ...point, branches: point.branches.map((b) => b.map(withoutAttachmentBytes)) };
+    }
+  }
+  writeSaved(BRANCHES_KEY, profileId, Object.keys(slim).length ? slim : null);
+}
+
+function saveRewinds(profileId: string, pending: Record<string, PendingRewind>, prefixes: Record<string, ChatMessage[]>) {
+  const slim: SessionRewinds = { pending: {}, prefixes: {} };
+  for (const [key, r] of Object.entries(pending)) slim.pending[key] = { ...r, prefix: r.prefix.map(withoutAttachmentBytes) };
+  for (const [key, msgs] of Object.entries(prefixes)) slim.prefixes[key] = msgs.map(withoutAttachmentBytes);
+  writeSaved(REWINDS_KEY, profileId,
+    Object.keys(slim.pending).length || Object.keys(slim.prefixes).length ? slim : null);
+}
+
+function without<T>(map: Record<string, T>, key: string): Record<string, T> {
+  const { [key]: _drop, ...rest } = map;
+  return rest;
+}
+
+/**
+ * Mark the messages an edit branched from after chat.history reloaded them
+ * (history has no branch ids): the latest unmarked user message with the
+ * active branch's text gets the branch id back.
+ */
+export function markBranchPoints(msgs: ChatMessage[], points: Record<string, BranchPoint> | undefined): ChatMessage[] {
+  if (!points) return msgs;
+  let out = msgs;
+  for (const [branchId, point] of Object.entries(points)) {
+    const head = point.branches[point.active]?.[0];
+    if (!head || out.some((m) => m.branchId === branchId)) continue;
+    for (let i = out.length - 1; i >= 0; i--) {
+      const m = out[i];
+      if (m.role === 'user' && !m.branchId && m.content.trim() === head.content.trim()) {
+        out = [...out.slice(0, i), { ...m, branchId }, ...out.slice(i + 1)];
+        break;
+      }
+    }
+  }
+  return out;
 }
 
 export const useChatStore = create<ChatState>((set, get) => ({
   // ── Messages (active session) ──
   messages: [],
 
-  addMessage: (msg) => {
+  addMessage: (msg, sessionKey) => {
     set((state) => {
-      if (state.messages.some((m) => m.id === msg.id)) return state;
-      const updated = [...state.messages, msg];
-      return {
-        messages: updated,
-        messagesPerSession: {
-          ...state.messagesPerSession,
-          [state.activeSessionKey]: updated,
-        },
-      };
+      const key = sessionKey || state.activeSessionKey;
+      const current = messagesOf(state, key);
+      if (current.some((m) => m.id === msg.id)) return state;
+      return withSessionMessages(state, key, [...current, msg]);
     });
   },
 
-  updateStreamingMessage: (id, content, extra) => {
+  updateStreamingMessage: (sessionKey, id, content, extra) => {
     set((state) => {
-      const existingIdx = state.messages.findIndex((m) => m.id === id);
+      const current = messagesOf(state, sessionKey);
+      const existingIdx = current.findIndex((m) => m.id === id);
       let updated: ChatMessage[];
       if (existingIdx >= 0) {
-        updated = [...state.messages];
+        updated = [...current];
         updated[existingIdx] = {
           ...updated[existingIdx],
           content,
@@ -156,7 +380,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
         };
       } else {
         updated = [
-          ...state.messages,
+          ...current,
           {
             id,
             role: 'assistant' as const,
@@ -167,26 +391,22 @@ export const useChatStore = create<ChatState>((set, get) => ({
           },
         ];
       }
-      return {
-        messages: updated,
-        messagesPerSession: {
-          ...state.messagesPerSession,
-          [state.activeSessionKey]: updated,
-        },
-      };
+      return withSessionMessages(state, sessionKey, updated);
     });
   },
 
-  finalizeStreamingMessage: (id, content, extra) => {
+  finalizeStreamingMessage: (sessionKey, id, content, extra) => {
     set((state) => {
-      const existingIdx = state.messages.findIndex((m) => m.id === id);
-      if (existingIdx >= 0) {
-        const updated = [...state.messages];
+      const current = messagesOf(state, sessionKey);
+      const existingIdx = current.findIndex((m) => m.id === id);
 
-        // Attach thinking content if available (from stream:"thinking" events
-        // OR from separate Reasoning: messages intercepted in gateway.ts)
-        const thinkingContent = state.thinkingText || undefined;
+      // Attach thinking content if available (from stream:"thinking" events
+      // OR from separate Reasoning: messages intercepted in gateway.ts)
+      const thinkingContent = state.thinkingPerSession[sessionKey]?.text || undefined;
+      const { [sessionKey]: _finishedThinking, ...remainingThinking } = state.thinkingPerSession;
 
+      if (existingIdx >= 0) {
+        const updated = [...current];
         updated[existingIdx] = {
           ...updated[existingIdx],
           content: content || updated[existingIdx].content,
@@ -198,15 +418,10 @@ export const useChatStore = create<ChatState>((set, get) => ({
         // OS notification handled in App.tsx onStreamEnd callback (single source)
 
         return {
-          messages: updated,
-          isTyping: false,
+          ...withSessionMessages(state, sessionKey, updated),
+          ...withTyping(state, sessionKey, false),
           // Clear thinking state after attaching to message
-          thinkingText: '',
-          thinkingRunId: null,
-          messagesPerSession: {
-            ...state.messagesPerSession,
-            [state.activeSessionKey]: updated,
-          },
+          thinkingPerSession: remainingThinking,
         };
       }
       // Message not found — this happens when post-tool-call text arrives
@@ -220,17 +435,12 @@ export const useChatStore = create<ChatState>((set, get) => ({
           isStreaming: false,
           ...(extra?.mediaUrl ? { mediaUrl: extra.mediaUrl, mediaType: extra.mediaType } : {}),
         };
-        const updated = [...state.messages, newMsg];
         return {
-          messages: updated,
-          isTyping: false,
-          messagesPerSession: {
-            ...state.messagesPerSession,
-            [state.activeSessionKey]: updated,
-          },
+          ...withSessionMessages(state, sessionKey, [...current, newMsg]),
+          ...withTyping(state, sessionKey, false),
         };
       }
-      return { isTyping: false };
+      return withTyping(state, sessionKey, false);
     });
   },
 
@@ -259,6 +469,76 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
   getCachedMessages: (key) => get().messagesPerSession[key],
 
+  getSessionMessages: (key) => messagesOf(get(), key),
+
+  setSessionMessages: (key, msgs) => set((state) => withSessionMessages(state, key, msgs)),
+
+  // ── Edit branches ──
+  branchesPerSession: {},
+
+  branchFromMessage: (key, messageId, edited) => {
+    const state = get();
+    const current = messagesOf(state, key);
+    const idx = current.findIndex((m) => m.id === messageId);
+    if (idx < 0) return false;
+    const original = current[idx];
+    const branchId = original.branchId || `branch-${original.id}`;
+    const sessionBranches = state.branchesPerSession[key] || {};
+    const point = sessionBranches[branchId];
+    const oldTail = [{ ...original, branchId }, ...current.slice(idx + 1)];
+    const branches = point ? [...point.branches] : [];
+    branches[point ? point.active : 0] = oldTail;
+    const newTail = [{ ...edited, branchId }];
+    branches.push(newTail);
+    set({
+      ...withSessionMessages(state, key, [...current.slice(0, idx), ...newTail]),
+      branchesPerSession: {
+        ...state.branchesPerSession,
+        [key]: { ...sessionBranches, [branchId]: { branches, active: branches.length - 1 } },
+      },
+    });
+    return true;
+  },
+
+  switchBranch: (key, branchId, index) => set((state) => {
+    const point = state.branchesPerSession[key]?.[branchId];
+    if (!point || index === point.active || !point.branches[index]) return state;
+    const current = messagesOf(state, key);
+    const idx = current.findIndex((m) => m.branchId === branchId);
+    if (idx < 0) return state;
+    const branches = [...point.branches];
+    branches[point.active] = current.slice(idx);
+    return {
+      ...withSessionMessages(state, key, [...current.slice(0, idx), ...branches[index]]),
+      branchesPerSession: {
+        ...state.branchesPerSession,
+        [key]: { ...state.branchesPerSession[key], [branchId]: { branches, active: index } },
+      },
+    };
+  }),
+
+  loadBranches: (profileId) => {
+    branchesProfile = profileId;
+    const rewinds = readSaved<SessionRewinds>(REWINDS_KEY)[profileId];
+    set({
+      branchesPerSession: readSaved<SessionBranches>(BRANCHES_KEY)[profileId] || {},
+      pendingRewinds: rewinds?.pending || {},
+      historyPrefixes: rewinds?.prefixes || {},
+    });
+  },
+
+  // ── Rewinds ──
+  pendingRewinds: {},
+  historyPrefixes: {},
+
+  setPendingRewind: (key, rewind) => set((state) => ({
+    pendingRewinds: rewind ? { ...state.pendingRewinds, [key]: rewind } : without(state.pendingRewinds, key),
+  })),
+
+  setHistoryPrefix: (key, msgs) => set((state) => ({
+    historyPrefixes: msgs?.length ? { ...state.historyPrefixes, [key]: msgs } : without(state.historyPrefixes, key),
+  })),
+
   // ── Sessions ──
   sessions: [{ key: MAIN_SESSION, label: 'Main Session' }],
   activeSessionKey: MAIN_SESSION,
@@ -272,10 +552,26 @@ export const useChatStore = create<ChatState>((set, get) => ({
     set({
       activeSessionKey: key,
       messages: cached || [],
-      isTyping: false,
+      isTyping: state.typingPerSession[key] || false,
     });
   },
 
+  // ── Transcripts ──
+  transcripts: {},
+
+  openTranscript: (info, msgs) => {
+    const key = `${TRANSCRIPT_PREFIX}${Date.now().toString(36)}`;
+    set((state) => ({
+      transcripts: { ...state.transcripts, [key]: { ...info, key } },
+      messagesPerSession: { ...state.messagesPerSession, [key]: msgs },
+      openTabs: [...state.openTabs, key],
+      activeSessionKey: key,
+      messages: msgs,
+      isTyping: false,
+    }));
+    return key;
+  },
+
   // ── Tabs ──
   openTabs: [MAIN_SESSION],
 
@@ -283,13 +579,13 @@ export const useChatStore = create<ChatState>((set, get) => ({
     if (state.openTabs.includes(key)) {
       // Already open — just activate
       const cached = state.messagesPerSession[key];
-      return { activeSessionKey: key, messages: cached || [], isTyping: false };
+      return { activeSessionKey: key, messages: cached || [], isTyping: state.typingPerSession[key] || false };
     }
     return {
       openTabs: [...state.openTabs, key],
       activeSessionKey: key,
       messages: state.messagesPerSession[key] || [],
-      isTyping: false,
+      isTyping: state.typingPerSession[key] || false,
     };
   }),
 
@@ -302,14 +598,40 @@ export const useChatStore = create<ChatState>((set, get) => ({
     const newActive = state.activeSessionKey === key
       ? newTabs[newTabs.length - 1]
       : state.activeSessionKey;
+    // Closing a transcript discards it — it only lives in memory
+    const transcriptCleanup: Partial<ChatState> = {};
+    if (isTranscriptKey(key)) {
+      const { [key]: _t, ...transcripts } = state.transcripts;
+      const { [key]: _m, ...messagesPerSession } = state.messagesPerSession;
+      Object.assign(transcriptCleanup, { transcripts, messagesPerSession });
+    }
     return {
+      ...transcriptCleanup,
       openTabs: newTabs,
       activeSessionKey: newActive,
       messages: state.messagesPerSession[newActive] || [],
-      isTyping: false,
+      isTyping: state.typingPerSession[newActive] || false,
     };
   }),
 
+  forgetSession: (key) => {
+    if (key === MAIN_SESSION) return;
+    get().closeTab(key);
+    set((state) => {
+      const { [key]: _m, ...messagesPerSession } = state.messagesPerSession;
+      const { [key]: _t, ...typingPerSession } = state.typingPerSession;
+      const { [key]: _d, ...drafts } = state.drafts;
+      const { [key]: _r, ...thinkingPerSession } = state.thinkingPerSession;
+      const { [key]: _b, ...branchesPerSession } = state.branchesPerSession;
+      return {
+        messagesPerSession, typingPerSession, drafts, thinkingPerSession, branchesPerSession,
+        pendingRewinds: without(state.pendingRewinds, key),
+        historyPrefixes: without(state.historyPrefixes, key),
+        sessions: state.sessions.filter((s) => s.key !== key),
+      };
+    });
+  },
+
   reorderTabs: (keys) => set({ openTabs: keys }),
 
   // ── Token Usage ──
@@ -328,7 +650,8 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
   // ── UI State ──
   isTyping: false,
-  setIsTyping: (typing) => set({ isTyping: typing }),
+  typingPerSession: {},
+  setIsTyping: (typing, sessionKey) => set((state) => withTyping(state, sessionKey || state.activeSessionKey, typing)),
   isSending: false,
   setIsSending: (sending) => set({ isSending: sending }),
   isLoadingHistory: false,
@@ -341,15 +664,28 @@ export const useChatStore = create<ChatState>((set, get) => ({
   setDraft: (key, text) => set((state) => ({ drafts: { ...state.drafts, [key]: text } })),
   getDraft: (key) => get().drafts[key] || '',
 
+  // ── Jump to message ──
+  jumpTarget: null,
+  setJumpTarget: (target) => set({ jumpTarget: target }),
+
+  // ── Tool Inspector ──
+  inspectedTool: null,
+  setInspectedTool: (target) => set({ inspectedTool: target }),
+
   // ── Quick Replies ──
   quickReplies: [],
   setQuickReplies: (buttons) => set({ quickReplies: buttons }),
 
   // ── Thinking Stream ──
-  thinkingText: '',
-  thinkingRunId: null,
-  setThinkingStream: (runId, text) => set({ thinkingRunId: runId, thinkingText: text }),
-  clearThinking: () => set({ thinkingText: '', thinkingRunId: null }),
+  thinkingPerSession: {},
+  setThinkingStream: (sessionKey, runId, text) => set((state) => ({
+    thinkingPerSession: { ...state.thinkingPerSession, [sessionKey]: { runId, text } },
+  })),
+  clearThinking: (sessionKey) => set((state) => {
+    if (!state.thinkingPerSession[sessionKey]) return state;
+    const { [sessionKey]: _cleared, ...rest } = state.thinkingPerSession;
+    return { thinkingPerSession: rest };
+  }),
 
   // ── Connection ──
   connected: false,
@@ -362,4 +698,45 @@ export const useChatStore = create<ChatState>((set, get) => ({
       connecting: status.connecting,
       connectionError: status.error || null,
     }),
+
+  resetGatewayState: () => set((state) => {
+    branchesProfile = ''; // the cleared branches and rewinds must not overwrite the saved ones
+    const transcriptKeys = state.openTabs.filter(isTranscriptKey);
+    const messagesPerSession: Record<string, ChatMessage[]> = {};
+    for (const key of transcriptKeys) messagesPerSession[key] = state.messagesPerSession[key] || [];
+    return {
+      messages: [],
+      messagesPerSession,
+      branchesPerSession: {},
+      pendingRewinds: {},
+      historyPrefixes: {},
+      sessions: [{ key: MAIN_SESSION, label: 'Main Session' }],
+      activeSessionKey: MAIN_SESSION,
+      openTabs: [MAIN_SESSION, ...transcriptKeys],
+      tokenUsage: null,
+      currentModel: null,
+      manualModelOverride: null,
+      currentThinking: null,
+      availableModels: [],
+      drafts: {},
+      isTyping: false,
+      typingPerSession: {},
+      isSending: false,
+      isLoadingHistory: false,
+      jumpTarget: null,
+      inspectedTool: null,
+      quickReplies: [],
+      thinkingPerSession: {},
+    };
+  }),
 }));
+
+useChatStore.subscribe((state, prev) => {
+  if (!branchesProfile) return;
+  if (state.branchesPerSession !== prev.branchesPerSession) {
+    saveBranches(branchesProfile, state.branchesPerSession);
+  }
+  if (state.pendingRewinds !== prev.pendingRewinds || state.historyPrefixes !== prev.historyPrefixes) {
+    saveRewinds(branchesProfile, state.pendingRewinds, state.historyPrefixes);
+  }
+});
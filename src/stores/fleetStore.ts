@@ -0,0 +1,68 @@
+import { create } from 'zustand';
+import type { SessionInfo, CostSummary, CronJob, RunningSubAgent } from './gatewayDataStore';
+
+// ═══════════════════════════════════════════════════════════
+// Fleet Store — Dashboard data for the *other* gateway profiles
+// The active profile keeps living in gatewayDataStore; this store
+// holds one source per additional gateway polled by services/fleet.ts.
+// Only the "All gateways" toggle is persisted.
+// ═══════════════════════════════════════════════════════════
+
+export interface FleetSource {
+  profileId: string;
+  connected: boolean;
+  error: string | null;
+  sessions: SessionInfo[];
+  costSummary: CostSummary | null;
+  cronJobs: CronJob[];
+  runningSubAgents: RunningSubAgent[];
+  /** ms — last successful fetch of any group */
+  lastFetch: number;
+}
+
+const ENABLED_KEY = 'aegis-fleet-enabled';
+
+export const emptySource = (profileId: string): FleetSource => ({
+  profileId,
+  connected: false,
+  error: null,
+  sessions: [],
+  costSummary: null,
+  cronJobs: [],
+  runningSubAgents: [],
+  lastFetch: 0,
+});
+
+interface FleetState {
+  /** Aggregate every gateway profile on the Dashboard */
+  enabled: boolean;
+  sources: Record<string, FleetSource>;
+
+  setEnabled: (enabled: boolean) => void;
+  updateSource: (profileId: string, patch: Partial<FleetSource>) => void;
+  removeSource: (profileId: string) => void;
+}
+
+export const useFleetStore = create<FleetState>((set) => ({
+  enabled: localStorage.getItem(ENABLED_KEY) === 'true',
+  sources: {},
+
+  setEnabled: (enabled) => {
+    localStorage.setItem(ENABLED_KEY, String(enabled));
+    set({ enabled });
+  },
+
+  updateSource: (profileId, patch) =>
+    set((state) => ({
+      sources: {
+        ...state.sources,
+        [profileId]: { ...(state.sources[profileId] || emptySource(profileId)), ...patch },
+      },
+    })),
+
+  removeSource: (profileId) =>
+    set((state) => {
+      const { [profileId]: _removed, ...rest } = state.sources;
+      return { sources: rest };
+    }),
+}));
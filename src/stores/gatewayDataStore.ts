@@ -1,4 +1,10 @@
 import { create } from 'zustand';
+import { checkBudgets, refreshAgentSpend } from '@/services/budget';
+import type { GatewayService } from '@/services/gateway';
+import { describeGatewayError } from '@/services/gatewayErrors';
+import { isApprovalEvent, receiveApprovalEvent } from '@/stores/approvalStore';
+import { useRunTimelineStore } from '@/stores/runTimelineStore';
+import type { SessionInfo, AgentInfo, CostSummary, SessionsUsage, CronJob, PresenceEntry } from '@/services/protocol';
 
 // ═══════════════════════════════════════════════════════════
 // Gateway Data Store — Central data layer for all pages
@@ -10,87 +16,18 @@ import { create } from 'zustand';
 //     Mid   (30s)  → agents.list + cron    (rarely change)
 //     Slow  (120s) → usage.cost + sessions.usage (heavy, slow-changing)
 //
-//   Gateway events (session.started, etc.) update the store
-//   in real-time without polling.
+//   Gateway events (session / agent / cron / presence) update the
+//   store in real-time; polling is the adaptive fallback — it backs
+//   off while nothing changes and pauses when the window is hidden.
+//
+//   The raw fetchers + intervals are shared with services/fleet.ts,
+//   which polls the other gateway profiles the same way.
 // ═══════════════════════════════════════════════════════════
 
 // ── Types ────────────────────────────────────────────────
+// Protocol shapes live in services/protocol.ts (validated there)
 
-export interface SessionInfo {
-  key: string;
-  label?: string;
-  model?: string;
-  running?: boolean;
-  totalTokens?: number;
-  contextTokens?: number;
-  maxTokens?: number;
-  compactions?: number;
-  lastActive?: string;
-  kind?: string;
-  [k: string]: any;
-}
-
-export interface AgentInfo {
-  id: string;
-  name?: string;
-  model?: string;
-  workspace?: string;
-  [k: string]: any;
-}
-
-export interface DailyEntry {
-  date: string;
-  totalCost: number;
-  inputCost: number;
-  outputCost: number;
-  input: number;
-  output: number;
-  cacheRead?: number;
-  cacheWrite?: number;
-  requests: number;
-  [k: string]: any;
-}
-
-export interface CostSummary {
-  days: number;
-  daily: DailyEntry[];
-  totals: {
-    totalCost: number;
-    inputCost: number;
-    outputCost: number;
-    input: number;
-    output: number;
-    cacheRead: number;
-    cacheWrite: number;
-    requests: number;
-    [k: string]: any;
-  };
-  updatedAt?: number;
-}
-
-export interface SessionsUsage {
-  sessions?: any[];
-  totals?: any;
-  aggregates?: {
-    byAgent?: any[];
-    byModel?: any[];
-    [k: string]: any;
-  };
-  [k: string]: any;
-}
-
-export interface CronJob {
-  id: string;
-  name?: string;
-  schedule?: any;
-  enabled?: boolean;
-  lastRun?: string;
-  state?: any;
-  // Gateway 2026.2.22+: split run vs delivery status
-  lastRunStatus?: string;
-  lastDeliveryStatus?: string;
-  [k: string]: any;
-}
+export type { SessionInfo, AgentInfo, DailyEntry, CostSummary, SessionsUsage, CronJob, PresenceEntry } from '@/services/protocol';
 
 // ── Running Sub-Agent Tracking ───────────────────────────
 // Detected from sessions polling (every 10s).
@@ -114,6 +51,7 @@ interface GatewayDataState {
   sessionsUsage: SessionsUsage | null;
   cronJobs: CronJob[];
   runningSubAgents: RunningSubAgent[];
+  presence: PresenceEntry[];
 
   // Timestamps (ms) — when each group was last fetched
   lastFetch: {
@@ -154,6 +92,11 @@ interface GatewayDataState {
   setSessionsUsage: (data: SessionsUsage) => void;
   setCronJobs: (jobs: CronJob[]) => void;
 
+  setPresence: (entries: PresenceEntry[]) => void;
+
+  /** Poll returned the same data — refresh the timestamp without replacing it */
+  markFetched: (group: keyof GatewayDataState['lastFetch']) => void;
+
   setLoading: (group: keyof GatewayDataState['loading'], val: boolean) => void;
   setError: (group: keyof GatewayDataState['errors'], err: string | null) => void;
 
@@ -163,13 +106,16 @@ interface GatewayDataState {
   // Mark polling active/inactive
   setPolling: (active: boolean) => void;
 
+  /** Drop everything fetched so far (gateway profile switch) */
+  reset: () => void;
+
   // ── Derived helpers (convenience) ──
   getMainSession: () => SessionInfo | undefined;
 }
 
 // ── Store ────────────────────────────────────────────────
 
-export const useGatewayDataStore = create<GatewayDataState>((set, get) => ({
+const initialData = () => ({
   // Data
   sessions: [],
   agents: [],
@@ -177,6 +123,7 @@ export const useGatewayDataStore = create<GatewayDataState>((set, get) => ({
   sessionsUsage: null,
   cronJobs: [],
   runningSubAgents: [],
+  presence: [],
 
   // Timestamps
   lastFetch: { sessions: 0, agents: 0, cost: 0, usage: 0, cron: 0 },
@@ -186,6 +133,10 @@ export const useGatewayDataStore = create<GatewayDataState>((set, get) => ({
 
   // Errors
   errors: { sessions: null, agents: null, cost: null, usage: null, cron: null },
+});
+
+export const useGatewayDataStore = create<GatewayDataState>((set, get) => ({
+  ...initialData(),
 
   polling: false,
 
@@ -231,6 +182,15 @@ export const useGatewayDataStore = create<GatewayDataState>((set, get) => ({
       errors: { ...get().errors, cron: null },
     }),
 
+  setPresence: (entries) => set({ presence: entries }),
+
+  markFetched: (group) =>
+    set({
+      lastFetch: { ...get().lastFetch, [group]: Date.now() },
+      loading: { ...get().loading, [group]: false },
+      errors: { ...get().errors, [group]: null },
+    }),
+
   setLoading: (group, val) =>
     set({ loading: { ...get().loading, [group]: val } }),
 
@@ -243,6 +203,8 @@ export const useGatewayDataStore = create<GatewayDataState>((set, get) => ({
 
   setPolling: (active) => set({ polling: active }),
 
+  reset: () => set(initialData()),
+
   // ── Derived ──
 
   getMainSession: () =>
@@ -252,101 +214,204 @@ export const useGatewayDataStore = create<GatewayDataState>((set, get) => ({
 
 // ═══════════════════════════════════════════════════════════
 // Polling Engine — starts/stops with gateway connection
+//
+// Adaptive: each tier runs on its own timer. A poll that returns
+// the same data as last time doubles that tier's delay (up to
+// MAX_BACKOFF × base); a change, a manual refresh or a related
+// gateway event resets it. While the window is hidden the fast and
+// mid tiers pause — slow keeps running so budget alerts still fire.
 // ═══════════════════════════════════════════════════════════
 
 // Polling intervals (ms)
-const FAST_INTERVAL  = 10_000;   // 10s — sessions
-const MID_INTERVAL   = 30_000;   // 30s — agents + cron
-const SLOW_INTERVAL  = 120_000;  // 120s — cost + usage
+export const FAST_INTERVAL  = 10_000;   // 10s — sessions
+export const MID_INTERVAL   = 30_000;   // 30s — agents + cron
+export const SLOW_INTERVAL  = 120_000;  // 120s — cost + usage
+
+const MAX_BACKOFF  = 8;       // unchanged data → up to 8× the base interval
+const NUDGE_DELAY  = 1_500;   // event-triggered refetch (debounced)
+
+type PollTier = 'fast' | 'mid' | 'slow';
+type DataGroup = keyof GatewayDataState['lastFetch'];
+
+const TIER_NAMES: PollTier[] = ['fast', 'mid', 'slow'];
 
-let fastTimer:  ReturnType<typeof setInterval> | null = null;
-let midTimer:   ReturnType<typeof setInterval> | null = null;
-let slowTimer:  ReturnType<typeof setInterval> | null = null;
+const timers:  Partial<Record<PollTier, ReturnType<typeof setTimeout>>> = {};
+const backoff: Record<PollTier, number> = { fast: 1, mid: 1, slow: 1 };
+const lastRun: Record<PollTier, number> = { fast: 0, mid: 0, slow: 0 };
+
+// Last fetched payload per group — an identical poll result is "unchanged"
+let signatures: Partial<Record<DataGroup, string>> = {};
 
 // Reference to gateway (set by initPolling)
-let gw: any = null;
+let gw: GatewayService | null = null;
+
+// ── Raw fetchers — results arrive normalized (services/protocol.ts), no store writes ──
+
+export const fetchRaw = {
+  sessions: async (g: GatewayService): Promise<SessionInfo[]> => (await g.getSessions()).sessions,
+  agents: async (g: GatewayService): Promise<AgentInfo[]> => (await g.getAgents()).agents,
+  cost: async (g: GatewayService, days = 30): Promise<CostSummary | null> =>
+    (await g.getCostSummary(days)) || null,
+  usage: async (g: GatewayService, limit = 100): Promise<SessionsUsage | null> =>
+    (await g.getSessionsUsage({ limit })) || null,
+  cron: async (g: GatewayService): Promise<CronJob[]> =>
+    (await g.call('cron.list', { includeDisabled: true })).jobs,
+};
+
+/** Same payload as the previous poll? (`updatedAt` is regenerated per response, so ignored) */
+function isUnchanged(group: DataGroup, data: unknown): boolean {
+  const sig = JSON.stringify(data, (k, v) => (k === 'updatedAt' ? undefined : v));
+  if (signatures[group] === sig) return true;
+  signatures[group] = sig;
+  return false;
+}
 
-// ── Fetch functions ──────────────────────────────────────
+// ── Fetch functions — resolve true when the data changed ──
 
-async function fetchSessions() {
+async function fetchSessions(): Promise<boolean> {
   const store = useGatewayDataStore.getState();
   store.setLoading('sessions', true);
   try {
-    const res = await gw.getSessions();
-    const list = Array.isArray(res?.sessions) ? res.sessions : [];
+    const list = await fetchRaw.sessions(gw!);
+    if (isUnchanged('sessions', list)) { store.markFetched('sessions'); return false; }
     store.setSessions(list);
+    return true;
   } catch (e: any) {
-    store.setError('sessions', e?.message || String(e));
+    store.setError('sessions', describeGatewayError(e));
     store.setLoading('sessions', false);
+    return false;
   }
 }
 
-async function fetchAgents() {
+async function fetchAgents(): Promise<boolean> {
   const store = useGatewayDataStore.getState();
   store.setLoading('agents', true);
   try {
-    const res = await gw.getAgents();
-    const list = Array.isArray(res?.agents) ? res.agents
-               : Array.isArray(res) ? res : [];
+    const list = await fetchRaw.agents(gw!);
+    if (isUnchanged('agents', list)) { store.markFetched('agents'); return false; }
     store.setAgents(list);
+    return true;
   } catch (e: any) {
-    store.setError('agents', e?.message || String(e));
+    store.setError('agents', describeGatewayError(e));
     store.setLoading('agents', false);
+    return false;
   }
 }
 
-async function fetchCost() {
+async function fetchCost(): Promise<boolean> {
   const store = useGatewayDataStore.getState();
   store.setLoading('cost', true);
   try {
-    const res = await gw.getCostSummary(30);
-    if (res) store.setCostSummary(res);
+    const res = await fetchRaw.cost(gw!);
+    if (!res || isUnchanged('cost', res)) { store.markFetched('cost'); return false; }
+    store.setCostSummary(res);
+    return true;
   } catch (e: any) {
-    store.setError('cost', e?.message || String(e));
+    store.setError('cost', describeGatewayError(e));
     store.setLoading('cost', false);
+    return false;
   }
 }
 
-async function fetchUsage() {
+async function fetchUsage(): Promise<boolean> {
   const store = useGatewayDataStore.getState();
   store.setLoading('usage', true);
   try {
-    const res = await gw.getSessionsUsage({ limit: 100 });
-    if (res) store.setSessionsUsage(res);
+    const res = await fetchRaw.usage(gw!);
+    if (!res || isUnchanged('usage', res)) { store.markFetched('usage'); return false; }
+    store.setSessionsUsage(res);
+    return true;
   } catch (e: any) {
-    store.setError('usage', e?.message || String(e));
+    store.setError('usage', describeGatewayError(e));
     store.setLoading('usage', false);
+    return false;
   }
 }
 
-async function fetchCron() {
+async function fetchCron(): Promise<boolean> {
   const store = useGatewayDataStore.getState();
   store.setLoading('cron', true);
   try {
-    const res = await gw.call('cron.list', { includeDisabled: true });
-    const list = Array.isArray(res?.jobs) ? res.jobs
-               : Array.isArray(res) ? res : [];
+    const list = await fetchRaw.cron(gw!);
+    if (isUnchanged('cron', list)) { store.markFetched('cron'); return false; }
     store.setCronJobs(list);
+    return true;
   } catch (e: any) {
-    store.setError('cron', e?.message || String(e));
+    store.setError('cron', describeGatewayError(e));
     store.setLoading('cron', false);
+    return false;
   }
 }
 
 // ── Grouped fetchers (called by timers) ─────────────────
 
-async function tickFast() {
-  await fetchSessions();
+async function tickFast(): Promise<boolean> {
+  const changed = await fetchSessions();
   // Detect running sub-agents from sessions data
   syncRunningSubAgents();
+  return changed;
+}
+
+async function tickMid(): Promise<boolean> {
+  const results = await Promise.all([fetchAgents(), fetchCron()]);
+  return results.some(Boolean);
+}
+
+async function tickSlow(): Promise<boolean> {
+  const [costChanged, usageChanged] = await Promise.all([fetchCost(), fetchUsage(), refreshAgentSpend(gw!)]);
+  // Fresh spend numbers → re-evaluate budget limits + alerts
+  checkBudgets(useGatewayDataStore.getState().costSummary);
+  return costChanged || usageChanged;
+}
+
+const TIERS: Record<PollTier, { base: number; tick: () => Promise<boolean> }> = {
+  fast: { base: FAST_INTERVAL, tick: tickFast },
+  mid:  { base: MID_INTERVAL,  tick: tickMid },
+  slow: { base: SLOW_INTERVAL, tick: tickSlow },
+};
+
+// ── Scheduler ───────────────────────────────────────────
+
+const pausedWhenHidden = (tier: PollTier) => tier !== 'slow';
+
+function clearTier(tier: PollTier) {
+  if (timers[tier]) { clearTimeout(timers[tier]); timers[tier] = undefined; }
 }
 
-async function tickMid() {
-  await Promise.allSettled([fetchAgents(), fetchCron()]);
+function schedule(tier: PollTier, delay = TIERS[tier].base * backoff[tier]) {
+  clearTier(tier);
+  if (!gw) return;
+  if (document.hidden && pausedWhenHidden(tier)) return;
+  timers[tier] = setTimeout(() => runTier(tier), delay);
 }
 
-async function tickSlow() {
-  await Promise.allSettled([fetchCost(), fetchUsage()]);
+async function runTier(tier: PollTier) {
+  clearTier(tier);
+  lastRun[tier] = Date.now();
+  const changed = await TIERS[tier].tick();
+  backoff[tier] = changed ? 1 : Math.min(backoff[tier] * 2, MAX_BACKOFF);
+  schedule(tier);
+}
+
+/** Activity seen through an event — refetch this tier shortly, back at its base rate */
+function nudge(tier: PollTier) {
+  backoff[tier] = 1;
+  schedule(tier, NUDGE_DELAY);
+}
+
+function onVisibilityChange() {
+  if (!gw) return;
+  if (document.hidden) {
+    TIER_NAMES.filter(pausedWhenHidden).forEach(clearTier);
+    console.log('[DataStore] ⏸ Window hidden — fast/mid polling paused');
+    return;
+  }
+  // Back in view: catch up on anything overdue, then resume the normal rhythm
+  for (const tier of TIER_NAMES) {
+    backoff[tier] = 1;
+    const elapsed = Date.now() - lastRun[tier];
+    schedule(tier, Math.max(0, TIERS[tier].base - elapsed));
+  }
 }
 
 // ── Public API ──────────────────────────────────────────
@@ -355,33 +420,29 @@ async function tickSlow() {
  * Start smart polling. Call once when gateway connects.
  * @param gateway  The GatewayService instance
  */
-export function startPolling(gateway: any) {
+export function startPolling(gateway: GatewayService) {
   // Prevent double-start
   if (gw && useGatewayDataStore.getState().polling) return;
 
   gw = gateway;
+  signatures = {};
+  TIER_NAMES.forEach((tier) => { backoff[tier] = 1; });
   useGatewayDataStore.getState().setPolling(true);
-  console.log('[DataStore] ▶ Polling started (fast=10s, mid=30s, slow=120s)');
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  console.log('[DataStore] ▶ Polling started (fast=10s, mid=30s, slow=120s, adaptive)');
 
-  // Immediate initial fetch — all groups
-  tickFast();
-  tickMid();
-  tickSlow();
-
-  // Set up intervals
-  fastTimer = setInterval(tickFast, FAST_INTERVAL);
-  midTimer  = setInterval(tickMid,  MID_INTERVAL);
-  slowTimer = setInterval(tickSlow, SLOW_INTERVAL);
+  // Immediate initial fetch — all tiers, even when hidden (the store starts empty)
+  TIER_NAMES.forEach((tier) => runTier(tier));
 }
 
 /**
  * Stop polling. Call when gateway disconnects.
  */
 export function stopPolling() {
-  if (fastTimer)  { clearInterval(fastTimer);  fastTimer  = null; }
-  if (midTimer)   { clearInterval(midTimer);   midTimer   = null; }
-  if (slowTimer)  { clearInterval(slowTimer);  slowTimer  = null; }
+  TIER_NAMES.forEach(clearTier);
+  document.removeEventListener('visibilitychange', onVisibilityChange);
   gw = null;
+  signatures = {};
   useGatewayDataStore.getState().setPolling(false);
   console.log('[DataStore] ⏹ Polling stopped');
 }
@@ -392,20 +453,21 @@ export function stopPolling() {
 export async function refreshAll() {
   if (!gw) return;
   console.log('[DataStore] 🔄 Manual refresh — all groups');
-  await Promise.allSettled([tickFast(), tickMid(), tickSlow()]);
+  TIER_NAMES.forEach((tier) => { backoff[tier] = 1; });
+  await Promise.allSettled(TIER_NAMES.map(runTier));
 }
 
 /**
  * Force refresh a specific group.
  */
-export async function refreshGroup(group: 'sessions' | 'agents' | 'cost' | 'usage' | 'cron') {
+export async function refreshGroup(group: DataGroup): Promise<void> {
   if (!gw) return;
   switch (group) {
-    case 'sessions': return fetchSessions();
-    case 'agents':   return fetchAgents();
-    case 'cost':     return fetchCost();
-    case 'usage':    return fetchUsage();
-    case 'cron':     return fetchCron();
+    case 'sessions': await fetchSessions(); syncRunningSubAgents(); return;
+    case 'agents':   await fetchAgents();   return;
+    case 'cost':     await fetchCost();     return;
+    case 'usage':    await fetchUsage();    return;
+    case 'cron':     await fetchCron();     return;
   }
 }
 
@@ -443,17 +505,13 @@ export async function fetchFullUsage(limit = 2000): Promise<SessionsUsage | null
 const SUB_AGENT_RE = /^agent:([^:]+):subagent:/;
 
 /**
- * Sync runningSubAgents from sessions data.
- * Called every 10s in tickFast() after fetchSessions().
+ * Sub-agent sessions in a sessions.list result.
  * Sessions with key "agent:<id>:subagent:<uuid>" that appear in sessions.list
  * are running — completed sub-agent sessions are removed from the list automatically.
  * Note: sessions.list does NOT return a "running" field, so presence = active.
+ * @param prev  Previous result — keeps startTime stable across polls
  */
-function syncRunningSubAgents() {
-  const store = useGatewayDataStore.getState();
-  const sessions = store.sessions;
-  const prev = store.runningSubAgents;
-
+export function detectSubAgents(sessions: SessionInfo[], prev: RunningSubAgent[]): RunningSubAgent[] {
   // Any sub-agent session in sessions.list is active (completed ones get removed)
   const running: RunningSubAgent[] = [];
   for (const s of sessions) {
@@ -470,6 +528,17 @@ function syncRunningSubAgents() {
       sessionKey: s.key,
     });
   }
+  return running;
+}
+
+/**
+ * Sync runningSubAgents from sessions data.
+ * Called every 10s in tickFast() after fetchSessions().
+ */
+function syncRunningSubAgents() {
+  const store = useGatewayDataStore.getState();
+  const prev = store.runningSubAgents;
+  const running = detectSubAgents(store.sessions, prev);
 
   // Only update store if list actually changed
   const prevKeys = new Set(prev.map((r) => r.sessionKey));
@@ -490,6 +559,7 @@ function syncRunningSubAgents() {
   for (const old of prev) {
     if (!newKeys.has(old.sessionKey)) {
       console.log('[DataStore] ✅ Sub-agent done:', old.agentId);
+      if (old.sessionKey) useRunTimelineStore.getState().endSubAgent(old.sessionKey);
     }
   }
 
@@ -500,28 +570,48 @@ function syncRunningSubAgents() {
 // Event Handler — real-time updates from Gateway events
 // ═══════════════════════════════════════════════════════════
 
+/** Upsert / patch one session in the store, keeping sub-agent tracking in sync */
+function patchSession(key: string, patch: Partial<SessionInfo>): boolean {
+  const store = useGatewayDataStore.getState();
+  const known = store.sessions.some((s) => s.key === key);
+  store.setSessions(known
+    ? store.sessions.map((s) => (s.key === key ? { ...s, ...patch } : s))
+    : [...store.sessions, { key, ...patch }]);
+  if (SUB_AGENT_RE.test(key)) syncRunningSubAgents();
+  return known;
+}
+
+function removeSession(key: string) {
+  const store = useGatewayDataStore.getState();
+  store.setSessions(store.sessions.filter((s) => s.key !== key));
+  if (SUB_AGENT_RE.test(key)) syncRunningSubAgents();
+}
+
+function patchCronJob(jobId: string, patch: Partial<CronJob>) {
+  const store = useGatewayDataStore.getState();
+  store.setCronJobs(store.cronJobs.map((j) => (j.id === jobId ? { ...j, ...patch } : j)));
+}
+
 /**
  * Handle a non-chat gateway event and update the store.
  * Call this from gateway.ts handleEvent for non-chat events.
+ * Events patch the store directly; anything that can't be applied
+ * incrementally nudges the matching polling tier instead.
  */
 export function handleGatewayEvent(event: string, payload: any) {
-  const store = useGatewayDataStore.getState();
-
   switch (event) {
+    // ── Keepalive — nothing to update ──
+    case 'tick':
+    case 'health':
+    case 'heartbeat':
+      break;
+
     // ── Session events ──
     case 'session.started':
     case 'session.running': {
       const key = payload?.sessionKey || payload?.key;
       if (!key) break;
-      const existing = store.sessions.find((s) => s.key === key);
-      if (existing) {
-        store.setSessions(
-          store.sessions.map((s) => s.key === key ? { ...s, running: true } : s)
-        );
-      } else {
-        // New session — add it
-        store.setSessions([...store.sessions, { key, running: true, ...payload }]);
-      }
+      if (!patchSession(key, { ...payload, key, running: true })) nudge('fast');
       console.log('[DataStore] 📡 Session started:', key);
       break;
     }
@@ -531,20 +621,51 @@ export function handleGatewayEvent(event: string, payload: any) {
     case 'session.idle': {
       const key = payload?.sessionKey || payload?.key;
       if (!key) break;
-      store.setSessions(
-        store.sessions.map((s) => s.key === key ? { ...s, running: false } : s)
-      );
+      patchSession(key, { running: false });
+      // Token counts + spend moved — pick them up soon
+      nudge('fast');
       console.log('[DataStore] 📡 Session ended:', key);
       break;
     }
 
+    case 'session.updated':
+    case 'session.patched': {
+      const key = payload?.sessionKey || payload?.key;
+      if (!key) break;
+      const { sessionKey: _sk, ...fields } = payload;
+      patchSession(key, { ...fields, key });
+      break;
+    }
+
+    case 'session.deleted':
+    case 'session.removed': {
+      const key = payload?.sessionKey || payload?.key;
+      if (key) removeSession(key);
+      break;
+    }
+
+    // ── Agent run lifecycle (stream: "lifecycle", phase start | end | error) ──
+    // Other agent streams (assistant, tool, compaction…) are handled by gateway.ts.
+    case 'agent': {
+      if (payload?.stream !== 'lifecycle') break;
+      const key = payload?.sessionKey;
+      const phase = payload?.data?.phase;
+      if (!key || !phase) break;
+      if (phase === 'start') {
+        if (!patchSession(key, { running: true })) nudge('fast');
+      } else {
+        patchSession(key, { running: false });
+        nudge('fast');
+        nudge('slow');
+      }
+      break;
+    }
+
     // ── Cron events ──
     case 'cron.run.started': {
       const jobId = payload?.jobId || payload?.id;
       if (!jobId) break;
-      store.setCronJobs(
-        store.cronJobs.map((j) => j.id === jobId ? { ...j, state: 'running' } : j)
-      );
+      patchCronJob(jobId, { state: 'running' });
       console.log('[DataStore] 📡 Cron started:', jobId);
       break;
     }
@@ -553,26 +674,53 @@ export function handleGatewayEvent(event: string, payload: any) {
     case 'cron.run.finished': {
       const jobId = payload?.jobId || payload?.id;
       if (!jobId) break;
-      store.setCronJobs(
-        store.cronJobs.map((j) => j.id === jobId
-          ? { ...j, state: 'idle', lastRun: new Date().toISOString() }
-          : j)
-      );
+      patchCronJob(jobId, { state: 'idle', lastRun: new Date().toISOString() });
       console.log('[DataStore] 📡 Cron completed:', jobId);
       break;
     }
 
+    // Unified cron event (newer gateways): { jobId, action, status?, ... }
+    case 'cron': {
+      const jobId = payload?.jobId;
+      const action = payload?.action;
+      if (!jobId || !action) break;
+      if (action === 'started') {
+        patchCronJob(jobId, { state: 'running' });
+      } else if (action === 'finished') {
+        patchCronJob(jobId, { state: 'idle', lastRun: new Date().toISOString(), lastRunStatus: payload.status });
+        nudge('mid'); // full run state (nextRunAtMs, delivery status) comes with cron.list
+      } else {
+        nudge('mid'); // added / updated / removed
+      }
+      console.log('[DataStore] 📡 Cron', action + ':', jobId);
+      break;
+    }
+
     // ── Agent events ──
     case 'agent.spawned':
-    case 'agent.created': {
+    case 'agent.created':
+    case 'agent.updated':
+    case 'agent.deleted': {
       // Trigger a full agents refresh to get accurate data
-      fetchAgents();
+      nudge('mid');
       console.log('[DataStore] 📡 Agent event — refreshing agents');
       break;
     }
 
-    // ── Catch-all logging ──
+    // ── Presence — full snapshot of connected clients ──
+    case 'presence': {
+      const entries = Array.isArray(payload?.presence) ? payload.presence
+                    : Array.isArray(payload) ? payload : null;
+      if (entries) useGatewayDataStore.getState().setPresence(entries);
+      break;
+    }
+
+    // ── Catch-all — tool approvals (<kind>.approval.*), then logging ──
     default:
+      if (isApprovalEvent(event)) {
+        receiveApprovalEvent(event, payload);
+        break;
+      }
       console.log('[DataStore] 📡 Unhandled event:', event, JSON.stringify(payload).substring(0, 200));
       break;
   }
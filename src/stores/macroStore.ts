@@ -0,0 +1,138 @@
+import { create } from 'zustand';
+import i18n from '@/i18n';
+
+// ═══════════════════════════════════════════════════════════
+// Macro Store — User-defined prompt macros
+// Persisted in localStorage. Running a macro (variables, prompt
+// fields, delivery) lives in services/macros.ts.
+// ═══════════════════════════════════════════════════════════
+
+export interface PromptMacro {
+  id: string;
+  name: string;
+  /**
+   * i18n key of a built-in macro's name — shown in the current language
+   * (see macroName) until the user renames it
+   */
+  nameKey?: string;
+  /** Emoji shown in the palette, the Dashboard grid and the tray */
+  icon: string;
+  /** Extra palette search terms */
+  keywords: string[];
+  /**
+   * Prompt text. Variables: {{clipboard}} {{selection}} {{date}} {{time}}
+   * and prompt-on-run fields {{ask:Label}} / {{ask:Label|default}}
+   */
+  template: string;
+  /** Session key to send to — empty = the active chat tab */
+  target: string;
+  /** In-app shortcut, e.g. "Ctrl+Alt+H" */
+  hotkey?: string;
+  /** false = put the text in the input for review instead of sending */
+  autoSend: boolean;
+}
+
+export type MacroDraft = Omit<PromptMacro, 'id'> & { id?: string };
+
+/** A run waiting for its {{ask:…}} fields (MacroPromptDialog) */
+export interface PendingMacroRun {
+  macro: PromptMacro;
+  fields: { label: string; defaultValue: string }[];
+  /** Variables already resolved when the run started */
+  resolved: Record<string, string>;
+}
+
+const STORAGE_KEY = 'aegis-macros';
+
+/** Built-in macro id → i18n key of its name */
+const DEFAULT_NAME_KEYS: Record<string, string> = {
+  heartbeat: 'dashboard.runHeartbeat',
+  emails: 'dashboard.checkEmails',
+  calendar: 'dashboard.checkCalendar',
+  compact: 'dashboard.compact',
+  status: 'dashboard.systemStatus',
+  summary: 'dashboard.sessionSummary',
+};
+
+/** The former hard-coded quick actions — seeded on first run */
+function defaultMacros(): PromptMacro[] {
+  const seed = (id: string, icon: string, template: string, keywords: string[]): PromptMacro =>
+    ({ id, icon, name: i18n.t(DEFAULT_NAME_KEYS[id]), nameKey: DEFAULT_NAME_KEYS[id], template, keywords, target: '', autoSend: true });
+  return [
+    seed('heartbeat', '❤️', 'Run a quick heartbeat check — emails, calendar, anything urgent?', ['heartbeat', 'check', 'فحص']),
+    seed('emails', '📧', 'Check my unread emails and summarize anything important.', ['email', 'mail', 'بريد']),
+    seed('calendar', '📅', "What's on my calendar today and tomorrow?", ['calendar', 'تقويم', 'مواعيد']),
+    seed('compact', '🔄', 'Compact the main session context', ['compact', 'context', 'ضغط']),
+    seed('status', '📊', 'Give me a full system status report', ['status', 'system', 'حالة']),
+    seed('summary', '📝', 'Summarize what we discussed in this session', ['summary', 'summarize', 'ملخص']),
+  ];
+}
+
+/**
+ * Built-ins saved before names followed the language stored the name
+ * itself — give them their key back unless the user renamed them
+ */
+function withNameKey(m: PromptMacro): PromptMacro {
+  const key = DEFAULT_NAME_KEYS[m.id];
+  if (m.nameKey || !key) return m;
+  const seeded = Object.keys(i18n.options.resources || {}).map((lng) => i18n.t(key, { lng }));
+  return seeded.includes(m.name) ? { ...m, nameKey: key } : m;
+}
+
+function loadMacros(): PromptMacro[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return (JSON.parse(raw) as PromptMacro[]).map(withNameKey);
+  } catch { /* corrupt — reseed */ }
+  return defaultMacros();
+}
+
+/** Name to show — a built-in's name in the current language */
+export const macroName = (m: Pick<PromptMacro, 'name' | 'nameKey'>) =>
+  m.nameKey ? i18n.t(m.nameKey) : m.name;
+
+const persist = (macros: PromptMacro[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(macros));
+
+interface MacroState {
+  macros: PromptMacro[];
+  pending: PendingMacroRun | null;
+
+  saveMacro: (draft: MacroDraft) => PromptMacro;
+  deleteMacro: (id: string) => void;
+  /** Merge imported macros — same id replaces, new ids are appended */
+  importMacros: (macros: PromptMacro[]) => number;
+  setPending: (run: PendingMacroRun | null) => void;
+}
+
+export const useMacroStore = create<MacroState>((set, get) => ({
+  macros: loadMacros(),
+  pending: null,
+
+  saveMacro: (draft) => {
+    const macro: PromptMacro = { ...draft, id: draft.id || `macro-${Date.now().toString(36)}` };
+    const current = get().macros;
+    const macros = current.some((m) => m.id === macro.id)
+      ? current.map((m) => (m.id === macro.id ? macro : m))
+      : [...current, macro];
+    persist(macros);
+    set({ macros });
+    return macro;
+  },
+
+  deleteMacro: (id) => {
+    const macros = get().macros.filter((m) => m.id !== id);
+    persist(macros);
+    set({ macros });
+  },
+
+  importMacros: (incoming) => {
+    const byId = new Map(get().macros.map((m) => [m.id, m]));
+    incoming.forEach((m) => byId.set(m.id, m));
+    const macros = [...byId.values()];
+    persist(macros);
+    set({ macros });
+    return incoming.length;
+  },
+
+  setPending: (run) => set({ pending: run }),
+}));
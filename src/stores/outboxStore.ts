@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+
+// ═══════════════════════════════════════════════════════════
+// Outbox Store — Messages written while the gateway is unreachable
+// Persisted to disk by the main process (electron/outbox.ts) after
+// every change, so the queue survives a restart. Flushing lives in
+// GatewayService; the panel is Chat/OutboxPanel.
+// ═══════════════════════════════════════════════════════════
+
+export type OutboxStatus = 'queued' | 'sending' | 'failed';
+
+export interface OutboxItem {
+  id: string;
+  /** Sent as chat.send's idempotencyKey — stable across retries and restarts */
+  idempotencyKey: string;
+  /** Gateway profile the message was written for — other profiles never flush it */
+  profileId: string;
+  sessionKey: string;
+  message: string;
+  attachments?: any[];
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+}
+
+export type OutboxDraft = Pick<OutboxItem, 'profileId' | 'sessionKey' | 'message' | 'attachments'> & {
+  idempotencyKey?: string;
+};
+
+interface OutboxState {
+  items: OutboxItem[];
+  loaded: boolean;
+
+  /** Read the queue from disk once at startup */
+  load: () => Promise<void>;
+  enqueue: (draft: OutboxDraft) => OutboxItem;
+  update: (id: string, patch: Partial<Pick<OutboxItem, 'message' | 'status' | 'attempts' | 'error'>>) => void;
+  remove: (id: string) => void;
+  /** Swap two items — the panel moves an item past its visible neighbour */
+  swap: (a: string, b: string) => void;
+}
+
+export const newIdempotencyKey = () => `aegis-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+function persist(items: OutboxItem[]) {
+  window.aegis?.outbox?.save(items).catch((err) => console.error('[Outbox] Save failed:', err));
+}
+
+// Writing before the stored queue was read would overwrite it
+function commit(items: OutboxItem[]) {
+  useOutboxStore.setState({ items });
+  if (useOutboxStore.getState().loaded) persist(items);
+}
+
+export const useOutboxStore = create<OutboxState>((set, get) => ({
+  items: [],
+  loaded: false,
+
+  load: async () => {
+    if (get().loaded || !window.aegis?.outbox) return;
+    try {
+      const stored = await window.aegis.outbox.load();
+      // A send cut off by the app closing is retried — the idempotencyKey lets the gateway drop a duplicate
+      const restored = stored.map((i) => (i.status === 'sending' ? { ...i, status: 'queued' as const } : i));
+      // Anything enqueued before the file was read goes after the stored items
+      const known = new Set(restored.map((i) => i.id));
+      const items = [...restored, ...get().items.filter((i) => !known.has(i.id))];
+      set({ items, loaded: true });
+      if (items.length > restored.length) persist(items);
+      if (restored.length > 0) console.log('[Outbox] Restored', restored.length, 'queued message(s)');
+    } catch (err) {
+      console.error('[Outbox] Load failed:', err);
+      set({ loaded: true });
+    }
+  },
+
+  enqueue: (draft) => {
+    const item: OutboxItem = {
+      ...draft,
+      id: `outbox-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      idempotencyKey: draft.idempotencyKey || newIdempotencyKey(),
+      createdAt: new Date().toISOString(),
+      status: 'queued',
+      attempts: 0,
+    };
+    commit([...get().items, item]);
+    return item;
+  },
+
+  update: (id, patch) => commit(get().items.map((i) => (i.id === id ? { ...i, ...patch } : i))),
+
+  remove: (id) => commit(get().items.filter((i) => i.id !== id)),
+
+  swap: (a, b) => {
+    const items = [...get().items];
+    const ia = items.findIndex((i) => i.id === a);
+    const ib = items.findIndex((i) => i.id === b);
+    if (ia < 0 || ib < 0) return;
+    [items[ia], items[ib]] = [items[ib], items[ia]];
+    commit(items);
+  },
+}));
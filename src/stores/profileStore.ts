@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { useSettingsStore } from './settingsStore';
+
+// ═══════════════════════════════════════════════════════════
+// Profile Store — Named gateway profiles (dev / staging / home…)
+// Source of truth is the main-process config (tokens stay out of
+// localStorage); this store mirrors it for the UI.
+// Switching lives in services/profiles.ts (it touches the gateway).
+// ═══════════════════════════════════════════════════════════
+
+export interface GatewayProfile {
+  id: string;
+  name: string;
+  url: string;
+  token: string;
+  /** Issued by the gateway after pairing — used instead of `token` when set */
+  deviceToken?: string;
+  /** Badge color (hex) */
+  color: string;
+}
+
+export type ProfileDraft = Partial<GatewayProfile> & { name: string; url: string };
+
+/** activeId while demo mode is on — no stored profile has it (see services/demoMode.ts) */
+export const DEMO_PROFILE_ID = 'demo';
+
+export const PROFILE_COLORS = ['#4EC9B0', '#6C9FFF', '#E8B84E', '#F47067', '#B392F0', '#56D364', '#FF8FB1', '#8B949E'];
+
+interface ProfileState {
+  profiles: GatewayProfile[];
+  activeId: string;
+  loaded: boolean;
+
+  load: () => Promise<void>;
+  saveProfile: (draft: ProfileDraft) => Promise<GatewayProfile | null>;
+  deleteProfile: (id: string) => Promise<boolean>;
+  /** Mirror a switch done by services/profiles.ts */
+  setActiveId: (id: string) => void;
+  getActive: () => GatewayProfile | undefined;
+}
+
+export const useProfileStore = create<ProfileState>((set, get) => ({
+  profiles: [],
+  activeId: '',
+  loaded: false,
+
+  load: async () => {
+    if (!window.aegis?.profiles) return;
+    try {
+      const { profiles, activeId } = await window.aegis.profiles.list();
+      set({ profiles, activeId, loaded: true });
+
+      // Before profiles, Settings held a URL/token override in localStorage.
+      // Fold it into the active profile once so there's a single source of truth.
+      const settings = useSettingsStore.getState();
+      const active = profiles.find((p) => p.id === activeId);
+      if (active && (settings.gatewayUrl.trim() || settings.gatewayToken.trim())) {
+        await get().saveProfile({
+          ...active,
+          url: settings.gatewayUrl.trim() || active.url,
+          token: settings.gatewayToken.trim() || active.token,
+        });
+        settings.setGatewayUrl('');
+        settings.setGatewayToken('');
+      }
+    } catch (err) {
+      console.error('[Profiles] Load failed:', err);
+    }
+  },
+
+  saveProfile: async (draft) => {
+    if (!window.aegis?.profiles) return null;
+    const saved = await window.aegis.profiles.save(draft);
+    set((state) => ({
+      profiles: state.profiles.some((p) => p.id === saved.id)
+        ? state.profiles.map((p) => (p.id === saved.id ? saved : p))
+        : [...state.profiles, saved],
+    }));
+    return saved;
+  },
+
+  deleteProfile: async (id) => {
+    if (!window.aegis?.profiles || id === get().activeId) return false;
+    const result = await window.aegis.profiles.delete(id);
+    if (result.success) set((state) => ({ profiles: state.profiles.filter((p) => p.id !== id) }));
+    return result.success;
+  },
+
+  setActiveId: (id) => set({ activeId: id }),
+
+  getActive: () => get().profiles.find((p) => p.id === get().activeId),
+}));
@@ -0,0 +1,215 @@
+import { create } from 'zustand';
+
+// ═══════════════════════════════════════════════════════════
+// Run Timeline Store — what happened during each assistant run
+//
+// gateway.ts reports the chat stream per runId as it arrives:
+// thinking, tool start/result, text, compaction and the final
+// state with token usage. sessions_spawn results link the child
+// sub-agent session, whose own final ends its bar. Times are
+// client receive times (the tool start uses the gateway's ts when
+// it sends one). Memory only — the last MAX_RUNS runs.
+// ═══════════════════════════════════════════════════════════
+
+export type RunPhase = 'running' | 'done' | 'error' | 'aborted';
+
+export interface TimelineSpan {
+  start: number;
+  /** Unset while still open */
+  end?: number;
+}
+
+export interface RunToolSpan extends TimelineSpan {
+  toolCallId: string;
+  name: string;
+  args?: Record<string, any>;
+  status: 'running' | 'done';
+}
+
+export interface RunSubAgentSpan extends TimelineSpan {
+  /** The sessions_spawn call that started it */
+  toolCallId: string;
+  /** Child session — from the spawn result, when it has one */
+  sessionKey?: string;
+  label?: string;
+}
+
+export interface RunUsage {
+  input?: number;
+  output?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+  total?: number;
+  cost?: number;
+}
+
+export interface RunTimeline {
+  runId: string;
+  sessionKey: string;
+  startedAt: number;
+  endedAt?: number;
+  phase: RunPhase;
+  thinking?: TimelineSpan;
+  /** First text delta — when the answer started to stream */
+  firstTextAt?: number;
+  tools: RunToolSpan[];
+  subAgents: RunSubAgentSpan[];
+  compactions: number[];
+  /** From the final event, when the gateway includes it */
+  usage?: RunUsage;
+  /** Session totalTokens at the start — the panel falls back to the difference */
+  tokensBefore?: number;
+}
+
+const MAX_RUNS = 200;
+const SPAWN_TOOL = 'sessions_spawn';
+
+const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : undefined);
+
+/** Usage in any of the shapes providers report it — undefined when there is none */
+export function parseRunUsage(raw: any): RunUsage | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const usage: RunUsage = {
+    input: num(raw.input) ?? num(raw.inputTokens) ?? num(raw.input_tokens) ?? num(raw.prompt_tokens),
+    output: num(raw.output) ?? num(raw.outputTokens) ?? num(raw.output_tokens) ?? num(raw.completion_tokens),
+    cacheRead: num(raw.cacheRead) ?? num(raw.cache_read_input_tokens),
+    cacheWrite: num(raw.cacheWrite) ?? num(raw.cache_creation_input_tokens),
+    total: num(raw.totalTokens) ?? num(raw.total) ?? num(raw.total_tokens),
+    cost: num(raw.cost) ?? num(raw.cost?.total),
+  };
+  if (usage.total === undefined && (usage.input !== undefined || usage.output !== undefined)) {
+    usage.total = (usage.input ?? 0) + (usage.output ?? 0) + (usage.cacheRead ?? 0) + (usage.cacheWrite ?? 0);
+  }
+  return Object.values(usage).some((v) => v !== undefined) ? usage : undefined;
+}
+
+/** Child session key from a sessions_spawn result (object or JSON text) */
+function spawnedSessionOf(result: unknown): string | undefined {
+  let value: any = result;
+  if (typeof value === 'string') {
+    try { value = JSON.parse(value); } catch { return value.match(/agent:[^\s"']+:subagent:[\w-]+/)?.[0]; }
+  }
+  const key = value?.childSessionKey ?? value?.sessionKey;
+  return typeof key === 'string' ? key : undefined;
+}
+
+interface RunTimelineState {
+  runs: Record<string, RunTimeline>;
+  /** runIds, oldest first */
+  order: string[];
+  /** Run shown in the timeline panel */
+  openRunId: string | null;
+  setOpenRun: (runId: string | null) => void;
+
+  /** First event of a run — idempotent */
+  beginRun: (sessionKey: string, runId: string, tokensBefore?: number) => void;
+  noteThinking: (runId: string) => void;
+  noteText: (runId: string) => void;
+  noteToolStart: (runId: string, toolCallId: string, name: string, args?: Record<string, any>, at?: number) => void;
+  noteToolResult: (runId: string, toolCallId: string, result: unknown) => void;
+  /** Compaction lands on the session's running run */
+  noteCompaction: (sessionKey: string) => void;
+  endRun: (runId: string, phase: Exclude<RunPhase, 'running'>, usage?: RunUsage) => void;
+  /** A sub-agent session finished (its final event, or it left sessions.list) */
+  endSubAgent: (sessionKey: string) => void;
+  reset: () => void;
+}
+
+export const useRunTimelineStore = create<RunTimelineState>((set) => {
+  /** Apply fn to one run — no-op for runs we never saw begin */
+  const patch = (runId: string, fn: (run: RunTimeline) => RunTimeline) => set((state) => {
+    const run = state.runs[runId];
+    return run ? { runs: { ...state.runs, [runId]: fn(run) } } : state;
+  });
+
+  return {
+    runs: {},
+    order: [],
+    openRunId: null,
+    setOpenRun: (runId) => set({ openRunId: runId }),
+
+    beginRun: (sessionKey, runId, tokensBefore) => set((state) => {
+      if (state.runs[runId]) return state;
+      const run: RunTimeline = {
+        runId, sessionKey, startedAt: Date.now(), phase: 'running',
+        tools: [], subAgents: [], compactions: [], tokensBefore,
+      };
+      const order = [...state.order, runId];
+      const runs = { ...state.runs, [runId]: run };
+      while (order.length > MAX_RUNS) delete runs[order.shift()!];
+      return { runs, order };
+    }),
+
+    noteThinking: (runId) => patch(runId, (run) => {
+      const now = Date.now();
+      return { ...run, thinking: { start: run.thinking?.start ?? now, end: now } };
+    }),
+
+    noteText: (runId) => patch(runId, (run) => (run.firstTextAt ? run : { ...run, firstTextAt: Date.now() })),
+
+    noteToolStart: (runId, toolCallId, name, args, at) => patch(runId, (run) => {
+      if (run.tools.some((t) => t.toolCallId === toolCallId)) return run;
+      // A gateway ts from another clock must not land before the run began
+      const start = Math.max(at ?? Date.now(), run.startedAt);
+      return { ...run, tools: [...run.tools, { toolCallId, name, args, start, status: 'running' }] };
+    }),
+
+    noteToolResult: (runId, toolCallId, result) => patch(runId, (run) => {
+      const now = Date.now();
+      let tool = run.tools.find((t) => t.toolCallId === toolCallId);
+      // No start seen — a zero-length bar still shows the call happened
+      const tools = tool
+        ? run.tools.map((t) => (t.toolCallId === toolCallId ? { ...t, end: now, status: 'done' as const } : t))
+        : [...run.tools, (tool = { toolCallId, name: 'tool', start: now, end: now, status: 'done' })];
+      if (tool.name !== SPAWN_TOOL || run.subAgents.some((s) => s.toolCallId === toolCallId)) return { ...run, tools };
+      const label = typeof tool.args?.label === 'string' ? tool.args.label
+        : typeof tool.args?.agentId === 'string' ? tool.args.agentId
+        : undefined;
+      return {
+        ...run,
+        tools,
+        subAgents: [...run.subAgents, { toolCallId, sessionKey: spawnedSessionOf(result), label, start: tool.start }],
+      };
+    }),
+
+    noteCompaction: (sessionKey) => set((state) => {
+      const runId = [...state.order].reverse().find((id) => {
+        const run = state.runs[id];
+        return run.sessionKey === sessionKey && run.phase === 'running';
+      });
+      if (!runId) return state;
+      const run = state.runs[runId];
+      return { runs: { ...state.runs, [runId]: { ...run, compactions: [...run.compactions, Date.now()] } } };
+    }),
+
+    endRun: (runId, phase, usage) => patch(runId, (run) => {
+      const now = Date.now();
+      return {
+        ...run,
+        phase,
+        endedAt: now,
+        usage: usage ?? run.usage,
+        // Still open at the end means the result never arrived
+        tools: run.tools.map((t) => (t.end === undefined ? { ...t, end: now } : t)),
+      };
+    }),
+
+    endSubAgent: (sessionKey) => set((state) => {
+      const now = Date.now();
+      let changed = false;
+      const runs = { ...state.runs };
+      for (const id of state.order) {
+        const run = runs[id];
+        if (!run.subAgents.some((s) => s.sessionKey === sessionKey && s.end === undefined)) continue;
+        changed = true;
+        runs[id] = {
+          ...run,
+          subAgents: run.subAgents.map((s) => (s.sessionKey === sessionKey && s.end === undefined ? { ...s, end: now } : s)),
+        };
+      }
+      return changed ? { runs } : state;
+    }),
+
+    reset: () => set({ runs: {}, order: [], openRunId: null }),
+  };
+});
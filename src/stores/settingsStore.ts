@@ -4,6 +4,34 @@ import { create } from 'zustand';
 // Settings Store
 // ═══════════════════════════════════════════════════════════
 
+/** Speech-to-text for voice input and text-to-speech for "read aloud" (services/speech.ts) */
+export interface VoiceSettings {
+  /** off = send the recording's file path, as before */
+  sttProvider: 'off' | 'whisper' | 'gateway';
+  /** Whisper-compatible /v1/audio/transcriptions endpoint */
+  sttUrl: string;
+  sttModel: string;
+  /** ISO-639-1 hint — empty lets the model detect it */
+  sttLanguage: string;
+  /** OpenAI-compatible /v1/audio/speech endpoint — empty hides "read aloud" */
+  ttsUrl: string;
+  ttsModel: string;
+  ttsVoice: string;
+  /** Global push-to-talk shortcut (Electron accelerator) — empty turns it off */
+  talkHotkey: string;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  sttProvider: 'off',
+  sttUrl: 'http://localhost:8080/v1/audio/transcriptions',
+  sttModel: 'whisper-1',
+  sttLanguage: '',
+  ttsUrl: '',
+  ttsModel: 'tts-1',
+  ttsVoice: 'alloy',
+  talkHotkey: '',
+};
+
 interface SettingsState {
   theme: 'dark' | 'light' | 'system';
   fontSize: number;
@@ -15,6 +43,9 @@ interface SettingsState {
   soundEnabled: boolean;
   dndMode: boolean;
   budgetLimit: number;
+  budgetDailyLimit: number;
+  budgetHardStop: boolean;
+  agentBudgets: Record<string, number>;
   commandPaletteOpen: boolean;
   memoryExplorerEnabled: boolean;
   memoryMode: 'api' | 'local';
@@ -22,6 +53,7 @@ interface SettingsState {
   memoryLocalPath: string;
   context1mEnabled: boolean;
   toolIntentEnabled: boolean;
+  voice: VoiceSettings;
   gatewayUrl: string;
   gatewayToken: string;
 
@@ -36,6 +68,9 @@ interface SettingsState {
   setSoundEnabled: (enabled: boolean) => void;
   setDndMode: (dnd: boolean) => void;
   setBudgetLimit: (n: number) => void;
+  setBudgetDailyLimit: (n: number) => void;
+  setBudgetHardStop: (enabled: boolean) => void;
+  setAgentBudget: (agentId: string, n: number) => void;
   setCommandPaletteOpen: (open: boolean) => void;
   setMemoryExplorerEnabled: (enabled: boolean) => void;
   setMemoryMode: (mode: 'api' | 'local') => void;
@@ -43,6 +78,7 @@ interface SettingsState {
   setMemoryLocalPath: (path: string) => void;
   setContext1mEnabled: (enabled: boolean) => void;
   setToolIntentEnabled: (enabled: boolean) => void;
+  setVoice: (patch: Partial<VoiceSettings>) => void;
   setGatewayUrl: (url: string) => void;
   setGatewayToken: (token: string) => void;
 }
@@ -57,6 +93,25 @@ const detectLang = (): 'ar' | 'en' => {
 };
 const savedLang = detectLang();
 
+// Per-agent monthly limits, stored as { [agentId]: usd }
+const loadAgentBudgets = (): Record<string, number> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem('aegis-agent-budgets') || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const loadVoiceSettings = (): VoiceSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem('aegis-voice') || '{}');
+    return { ...DEFAULT_VOICE_SETTINGS, ...(parsed && typeof parsed === 'object' ? parsed : {}) };
+  } catch {
+    return { ...DEFAULT_VOICE_SETTINGS };
+  }
+};
+
 export const useSettingsStore = create<SettingsState>((set) => ({
   theme: (localStorage.getItem('aegis-theme') || 'dark') as 'dark' | 'light' | 'system',
   fontSize: 14,
@@ -68,6 +123,9 @@ export const useSettingsStore = create<SettingsState>((set) => ({
   soundEnabled: localStorage.getItem('aegis-sound') !== 'false',
   dndMode: false,
   budgetLimit: parseFloat(localStorage.getItem('aegis-budget-limit') || '0') || 0,
+  budgetDailyLimit: parseFloat(localStorage.getItem('aegis-budget-daily-limit') || '0') || 0,
+  budgetHardStop: localStorage.getItem('aegis-budget-hard-stop') === 'true',
+  agentBudgets: loadAgentBudgets(),
   commandPaletteOpen: false,
   memoryExplorerEnabled: localStorage.getItem('aegis-memory-explorer') === 'true',
   memoryMode: (localStorage.getItem('aegis-memory-mode') || 'local') as 'api' | 'local',
@@ -75,6 +133,7 @@ export const useSettingsStore = create<SettingsState>((set) => ({
   memoryLocalPath: localStorage.getItem('aegis-memory-local-path') || '',
   context1mEnabled: localStorage.getItem('aegis-context1m') === 'true',
   toolIntentEnabled: localStorage.getItem('aegis-tool-intent') === 'true',
+  voice: loadVoiceSettings(),
   gatewayUrl: localStorage.getItem('aegis-gateway-url') || '',
   gatewayToken: localStorage.getItem('aegis-gateway-token') || '',
 
@@ -89,6 +148,14 @@ export const useSettingsStore = create<SettingsState>((set) => ({
   setSoundEnabled: (enabled) => { localStorage.setItem('aegis-sound', String(enabled)); set({ soundEnabled: enabled }); },
   setDndMode: (dnd) => set({ dndMode: dnd }),
   setBudgetLimit: (n) => { localStorage.setItem('aegis-budget-limit', String(n)); set({ budgetLimit: n }); },
+  setBudgetDailyLimit: (n) => { localStorage.setItem('aegis-budget-daily-limit', String(n)); set({ budgetDailyLimit: n }); },
+  setBudgetHardStop: (enabled) => { localStorage.setItem('aegis-budget-hard-stop', String(enabled)); set({ budgetHardStop: enabled }); },
+  setAgentBudget: (agentId, n) => set((s) => {
+    const agentBudgets = { ...s.agentBudgets };
+    if (n > 0) agentBudgets[agentId] = n; else delete agentBudgets[agentId];
+    localStorage.setItem('aegis-agent-budgets', JSON.stringify(agentBudgets));
+    return { agentBudgets };
+  }),
   setCommandPaletteOpen: (open) => set({ commandPaletteOpen: open }),
   setMemoryExplorerEnabled: (enabled) => { localStorage.setItem('aegis-memory-explorer', String(enabled)); set({ memoryExplorerEnabled: enabled }); },
   setMemoryMode: (mode) => { localStorage.setItem('aegis-memory-mode', mode); set({ memoryMode: mode }); },
@@ -96,6 +163,11 @@ export const useSettingsStore = create<SettingsState>((set) => ({
   setMemoryLocalPath: (path) => { localStorage.setItem('aegis-memory-local-path', path); set({ memoryLocalPath: path }); },
   setContext1mEnabled: (enabled) => { localStorage.setItem('aegis-context1m', String(enabled)); set({ context1mEnabled: enabled }); },
   setToolIntentEnabled: (enabled) => { localStorage.setItem('aegis-tool-intent', String(enabled)); set({ toolIntentEnabled: enabled }); },
+  setVoice: (patch) => set((s) => {
+    const voice = { ...s.voice, ...patch };
+    localStorage.setItem('aegis-voice', JSON.stringify(voice));
+    return { voice };
+  }),
   setGatewayUrl: (url) => { localStorage.setItem('aegis-gateway-url', url); set({ gatewayUrl: url }); },
   setGatewayToken: (token) => { localStorage.setItem('aegis-gateway-token', token); set({ gatewayToken: token }); },
 }));
@@ -11,9 +11,16 @@ interface AegisAPI {
     get: () => Promise<any>;
     save: (config: any) => Promise<{ success: boolean }>;
   };
+  profiles: {
+    list: () => Promise<{ profiles: import('@/stores/profileStore').GatewayProfile[]; activeId: string }>;
+    save: (profile: import('@/stores/profileStore').ProfileDraft) => Promise<import('@/stores/profileStore').GatewayProfile>;
+    delete: (id: string) => Promise<{ success: boolean; error?: string }>;
+    activate: (id: string) => Promise<{ profile: import('@/stores/profileStore').GatewayProfile; gatewayUrl: string; gatewayToken: string }>;
+  };
   // Gateway IPC removed — all WS handled by src/services/gateway.ts
   artifact: {
-    open: (data: { type: string; title: string; content: string }) => Promise<{ success: boolean; error?: string }>;
+    open: (data: { type: string; title: string; content: string; newWindow?: boolean }) => Promise<{ success: boolean; error?: string }>;
+    export: (content: string, suggestedName: string) => Promise<{ success: boolean; path?: string; canceled?: boolean; error?: string }>;
   };
   device: {
     getIdentity: () => Promise<{ deviceId: string; publicKey: string }>;
@@ -32,6 +39,47 @@ interface AegisAPI {
       nonce?: string;
     }>;
   };
+  archive: {
+    append: (records: import('@/services/archive').ArchiveRecord[]) => Promise<number>;
+    search: (query: import('@/services/archive').ArchiveQuery) => Promise<{ hits: import('@/services/archive').ArchiveHit[]; total: number }>;
+    session: (profileId: string, sessionKey: string) => Promise<import('@/services/archive').ArchiveRecord[]>;
+    sessions: (profileId?: string) => Promise<import('@/services/archive').ArchivedSession[]>;
+    clear: (profileId?: string, sessionKey?: string) => Promise<void>;
+  };
+  artifacts: {
+    load: () => Promise<{ artifacts: Record<string, import('@/stores/artifactStore').ArtifactEntry>; deleted: string[] }>;
+    save: (artifacts: Record<string, import('@/stores/artifactStore').ArtifactEntry>, deleted: string[]) => Promise<void>;
+  };
+  outbox: {
+    load: () => Promise<import('@/stores/outboxStore').OutboxItem[]>;
+    save: (items: import('@/stores/outboxStore').OutboxItem[]) => Promise<void>;
+  };
+  mockGateway: {
+    start: (opts?: { recording?: { name: string; content: string } }) => Promise<
+      | { success: true; url: string; token: string; recording?: import('@/services/demoMode').DemoRecordingInfo }
+      | { success: false; error: string }
+    >;
+    stop: () => Promise<void>;
+    status: () => Promise<{ running: boolean; url?: string; recording?: import('@/services/demoMode').DemoRecordingInfo }>;
+  };
+  configHistory: {
+    list: (profileId: string) => Promise<import('@/services/gatewayConfig').ConfigHistoryEntry[]>;
+    add: (entry: import('@/services/gatewayConfig').ConfigHistoryEntry) => Promise<import('@/services/gatewayConfig').ConfigHistoryEntry[]>;
+    clear: (profileId: string) => Promise<void>;
+  };
+  clipboard: {
+    read: () => Promise<string>;
+    write: (text: string) => Promise<void>;
+  };
+  macros: {
+    setTray: (macros: { label: string; items: { id: string; label: string }[] }) => Promise<void>;
+    onRun: (callback: (id: string) => void) => () => void;
+  };
+  talk: {
+    setHotkey: (accelerator: string) => Promise<{ success: boolean }>;
+    setState: (state: { state: import('@/services/talkMode').TalkState; label: string; text?: string; rtl?: boolean }) => Promise<void>;
+    onCommand: (callback: (command: 'start' | 'stop') => void) => () => void;
+  };
   image: {
     save: (src: string, suggestedName: string) => Promise<{ success: boolean; path?: string; canceled?: boolean; error?: string }>;
   };
@@ -56,6 +104,8 @@ interface AegisAPI {
       size: number;
     } | null>;
     openSharedFolder: () => Promise<void>;
+    saveText: (content: string, suggestedName: string, title?: string) => Promise<{ success: boolean; path?: string; canceled?: boolean; error?: string }>;
+    openText: (extensions?: string[]) => Promise<{ canceled: boolean; name?: string; content?: string; error?: string }>;
   };
   voice: {
     save: (filename: string, base64: string) => Promise<string | null>;
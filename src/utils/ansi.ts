@@ -0,0 +1,123 @@
+// ═══════════════════════════════════════════════════════════
+// ANSI — SGR escape parsing for read-only terminal output
+//
+// Splits text into styled runs (colors, bold, dim, italic,
+// underline, inverse). Other escape sequences — cursor moves,
+// OSC titles, erase line — are dropped, and a bare \r rewinds
+// the current line the way a progress bar expects.
+// ═══════════════════════════════════════════════════════════
+
+/** Palette index 0–15 (see ANSI_COLOR_NAMES) or a CSS color for 256-color / truecolor */
+export type AnsiColor = number | string;
+
+export interface AnsiStyle {
+  fg?: AnsiColor;
+  bg?: AnsiColor;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+}
+
+export interface AnsiRun {
+  text: string;
+  style: AnsiStyle;
+}
+
+// eslint-disable-next-line no-control-regex
+const ESCAPE = /\x1b(?:\[([0-9;:?]*)([A-Za-z])|\][^\x07\x1b]*(?:\x07|\x1b\\)|[()][A-Z0-9]|[=>78])/g;
+// eslint-disable-next-line no-control-regex
+const HAS_ESCAPE = /\x1b[[\]()=>78]/;
+
+export const hasAnsi = (text: string) => HAS_ESCAPE.test(text);
+
+/** Text without any escape sequences — for copy, save and search */
+export function stripAnsi(text: string): string {
+  return text.replace(ESCAPE, '');
+}
+
+/** xterm's 256-color cube and grayscale ramp (16–255) */
+function color256(n: number): AnsiColor {
+  if (n < 16) return n;
+  if (n >= 232) {
+    const v = 8 + (n - 232) * 10;
+    return `rgb(${v},${v},${v})`;
+  }
+  const i = n - 16;
+  const level = (c: number) => (c === 0 ? 0 : 55 + c * 40);
+  return `rgb(${level(Math.floor(i / 36))},${level(Math.floor(i / 6) % 6)},${level(i % 6)})`;
+}
+
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+  const codes = (params || '0').split(/[;:]/).map((p) => (p === '' ? 0 : Number(p)));
+  let next = { ...style };
+  for (let i = 0; i < codes.length; i++) {
+    const c = codes[i];
+    if (c === 0) next = {};
+    else if (c === 1) next.bold = true;
+    else if (c === 2) next.dim = true;
+    else if (c === 3) next.italic = true;
+    else if (c === 4) next.underline = true;
+    else if (c === 7) next.inverse = true;
+    else if (c === 22) { next.bold = false; next.dim = false; }
+    else if (c === 23) next.italic = false;
+    else if (c === 24) next.underline = false;
+    else if (c === 27) next.inverse = false;
+    else if (c >= 30 && c <= 37) next.fg = c - 30;
+    else if (c >= 90 && c <= 97) next.fg = c - 90 + 8;
+    else if (c === 39) next.fg = undefined;
+    else if (c >= 40 && c <= 47) next.bg = c - 40;
+    else if (c >= 100 && c <= 107) next.bg = c - 100 + 8;
+    else if (c === 49) next.bg = undefined;
+    else if (c === 38 || c === 48) {
+      let color: AnsiColor | undefined;
+      if (codes[i + 1] === 5) {
+        color = color256(codes[i + 2] ?? 0);
+        i += 2;
+      } else if (codes[i + 1] === 2) {
+        color = `rgb(${codes[i + 2] ?? 0},${codes[i + 3] ?? 0},${codes[i + 4] ?? 0})`;
+        i += 4;
+      }
+      if (c === 38) next.fg = color;
+      else next.bg = color;
+    }
+  }
+  return next;
+}
+
+/** One entry per output line; runs never contain a newline */
+export function parseAnsiLines(text: string): AnsiRun[][] {
+  const lines: AnsiRun[][] = [];
+  let line: AnsiRun[] = [];
+  let style: AnsiStyle = {};
+
+  const pushText = (chunk: string) => {
+    const parts = chunk.replace(/\r\n/g, '\n').split('\n');
+    parts.forEach((part, idx) => {
+      if (idx > 0) {
+        lines.push(line);
+        line = [];
+      }
+      // Carriage return: what follows overwrites the line (progress output)
+      const cr = part.lastIndexOf('\r');
+      if (cr >= 0) {
+        line = [];
+        part = part.slice(cr + 1);
+      }
+      if (part) line.push({ text: part, style });
+    });
+  };
+
+  let last = 0;
+  ESCAPE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = ESCAPE.exec(text))) {
+    if (m.index > last) pushText(text.slice(last, m.index));
+    if (m[2] === 'm') style = applySgr(style, m[1] ?? '');
+    last = ESCAPE.lastIndex;
+  }
+  if (last < text.length) pushText(text.slice(last));
+  lines.push(line);
+  return lines;
+}
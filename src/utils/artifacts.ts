@@ -0,0 +1,150 @@
+// ═══════════════════════════════════════════════════════════
+// Artifacts — <aegis_artifact> parsing and export (version diffs use utils/diff)
+// Shared by MessageBubble (inline cards) and the Artifacts page.
+// ═══════════════════════════════════════════════════════════
+
+export interface ParsedArtifact {
+  type: string;
+  title: string;
+  content: string;
+}
+
+export type ArtifactPart = { kind: 'text' | 'artifact'; text?: string; artifact?: ParsedArtifact };
+
+const ARTIFACT_RE = /<aegis_artifact\s+type="([^"]+)"\s+title="([^"]*)">([\s\S]*?)<\/aegis_artifact>/g;
+
+/** Split message text into plain-text and artifact parts (in order) */
+export function parseArtifacts(text: string): { parts: ArtifactPart[] } {
+  const regex = new RegExp(ARTIFACT_RE.source, 'g');
+  const parts: ArtifactPart[] = [];
+  let lastIndex = 0;
+  let match;
+
+  while ((match = regex.exec(text)) !== null) {
+    // Text before artifact
+    if (match.index > lastIndex) {
+      const before = text.slice(lastIndex, match.index).trim();
+      if (before) parts.push({ kind: 'text', text: before });
+    }
+    // Artifact
+    parts.push({
+      kind: 'artifact',
+      artifact: {
+        type: match[1],
+        title: match[2],
+        content: match[3].trim(),
+      },
+    });
+    lastIndex = match.index + match[0].length;
+  }
+
+  // Remaining text after last artifact
+  if (lastIndex < text.length) {
+    const remaining = text.slice(lastIndex).trim();
+    if (remaining) parts.push({ kind: 'text', text: remaining });
+  }
+
+  // No artifacts found — return full text
+  if (parts.length === 0) {
+    parts.push({ kind: 'text', text });
+  }
+
+  return { parts };
+}
+
+/** Only the artifacts in a message (cheap pre-check before running the regex) */
+export function extractArtifacts(text: string): ParsedArtifact[] {
+  if (!text || !text.includes('<aegis_artifact')) return [];
+  return parseArtifacts(text).parts
+    .filter((p) => p.kind === 'artifact' && p.artifact)
+    .map((p) => p.artifact!);
+}
+
+export const ARTIFACT_ICONS: Record<string, string> = {
+  html: '🌐', react: '⚛️', svg: '🎨', mermaid: '📊', code: '📝',
+};
+
+/** Short stable hash (FNV-1a) — dedupes identical re-emits of a version */
+export function hashContent(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+// ── Standalone export ────────────────────────────────────
+// Each type becomes a file that opens on its own, outside AEGIS:
+//   html → .html   svg → .svg   mermaid → .mmd
+//   react → .html (React + Babel from CDN)   code → .txt
+
+const EXPORT_EXT: Record<string, string> = {
+  html: 'html', react: 'html', svg: 'svg', mermaid: 'mmd', code: 'txt',
+};
+
+export function artifactExtension(type: string): string {
+  return EXPORT_EXT[type] || 'txt';
+}
+
+/** File-system friendly name, e.g. "Sales Chart" → "sales-chart.svg" */
+export function artifactFileName(artifact: ParsedArtifact): string {
+  const base = artifact.title
+    .trim()
+    .toLowerCase()
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .replace(/\s+/g, '-')
+    .slice(0, 80) || 'artifact';
+  return `${base}.${artifactExtension(artifact.type)}`;
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** File contents for export — wraps fragments so the file is self-contained */
+export function buildArtifactExport(artifact: ParsedArtifact): string {
+  const { type, title, content } = artifact;
+
+  switch (type) {
+    case 'html':
+      if (/<html[\s>]/i.test(content)) return content;
+      return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+</head>
+<body>
+${content}
+</body>
+</html>
+`;
+
+    case 'svg':
+      if (/<svg[^>]*\sxmlns=/i.test(content)) return content;
+      return content.replace(/<svg\b/i, '<svg xmlns="http://www.w3.org/2000/svg"');
+
+    case 'react':
+      return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<script src="https://cdn.jsdelivr.net/npm/react@18/umd/react.development.js"></script>
+<script src="https://cdn.jsdelivr.net/npm/react-dom@18/umd/react-dom.development.js"></script>
+<script src="https://cdn.jsdelivr.net/npm/@babel/standalone/babel.min.js"></script>
+</head>
+<body>
+<div id="root"></div>
+<script type="text/babel">
+${content.replace(/<\/script/gi, '<\\/script')}
+</script>
+</body>
+</html>
+`;
+
+    case 'mermaid':
+    default:
+      return content.endsWith('\n') ? content : content + '\n';
+  }
+}
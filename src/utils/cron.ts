@@ -0,0 +1,439 @@
+// ═══════════════════════════════════════════════════════════
+// Cron Utilities — Parse, validate, preview and describe schedules
+//
+// Mirrors the Gateway scheduler's syntax:
+//   • 5 fields  → min hour dom mon dow
+//   • 6 fields  → sec min hour dom mon dow
+//   • Names (JAN–DEC, SUN–SAT), ranges, lists, steps, `?`, 7 = Sunday
+//   • Macros: @yearly @annually @monthly @weekly @daily @midnight @hourly
+// When both day-of-month and day-of-week are restricted, a day matches
+// if EITHER does (classic Vixie cron semantics).
+// ═══════════════════════════════════════════════════════════
+
+import i18n from '@/i18n';
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+export interface ParsedCron {
+  seconds: number[];
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[];
+  /** Field was `*` / `?` (unrestricted) — needed for dom/dow OR rule */
+  domAny: boolean;
+  dowAny: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly':   '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly':  '0 0 1 * *',
+  '@weekly':   '0 0 * * 0',
+  '@daily':    '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly':   '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DOW_NAMES   = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec { name: string; min: number; max: number; names?: string[]; namesBase?: number }
+
+const FIELD_SPECS: Record<'sec' | 'min' | 'hour' | 'dom' | 'mon' | 'dow', FieldSpec> = {
+  sec:  { name: 'second',       min: 0, max: 59 },
+  min:  { name: 'minute',       min: 0, max: 59 },
+  hour: { name: 'hour',         min: 0, max: 23 },
+  dom:  { name: 'day-of-month', min: 1, max: 31 },
+  mon:  { name: 'month',        min: 1, max: 12, names: MONTH_NAMES, namesBase: 1 },
+  dow:  { name: 'day-of-week',  min: 0, max: 7,  names: DOW_NAMES,   namesBase: 0 },
+};
+
+// ── Parsing ──────────────────────────────────────────────
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase();
+  if (spec.names) {
+    const idx = spec.names.indexOf(upper);
+    if (idx >= 0) return idx + (spec.namesBase ?? 0);
+  }
+  if (!/^\d+$/.test(raw)) throw new CronParseError(`Invalid ${spec.name} value "${raw}"`);
+  const n = parseInt(raw, 10);
+  if (n < spec.min || n > spec.max) {
+    throw new CronParseError(`${spec.name} ${n} out of range (${spec.min}–${spec.max})`);
+  }
+  return n;
+}
+
+function parseField(field: string, spec: FieldSpec): { values: number[]; any: boolean } {
+  const any = field === '*' || field === '?';
+  const set = new Set<number>();
+
+  for (const part of field.split(',')) {
+    if (!part) throw new CronParseError(`Empty list item in ${spec.name} field`);
+    const [rangePart, stepPart, extra] = part.split('/');
+    if (extra !== undefined) throw new CronParseError(`Invalid step in ${spec.name} field "${part}"`);
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || +stepPart === 0) {
+        throw new CronParseError(`Invalid step "${stepPart}" in ${spec.name} field`);
+      }
+      step = +stepPart;
+    }
+
+    let lo: number, hi: number;
+    if (rangePart === '*' || rangePart === '?') {
+      lo = spec.min; hi = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      lo = parseValue(a, spec); hi = parseValue(b, spec);
+      if (lo > hi) throw new CronParseError(`Reversed range "${rangePart}" in ${spec.name} field`);
+    } else {
+      lo = parseValue(rangePart, spec);
+      // "5/15" means "from 5, every 15" up to the max
+      hi = stepPart !== undefined ? spec.max : lo;
+    }
+
+    for (let v = lo; v <= hi; v += step) set.add(v);
+  }
+
+  return { values: [...set].sort((a, b) => a - b), any };
+}
+
+/** Parse a cron expression — throws CronParseError with a readable message. */
+export function parseCron(expr: string): ParsedCron {
+  const trimmed = (expr || '').trim();
+  if (!trimmed) throw new CronParseError('Expression is empty');
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new CronParseError(`Expected 5 or 6 fields, got ${fields.length}`);
+  }
+  const [sec, min, hour, dom, mon, dow] = fields.length === 6 ? fields : ['0', ...fields];
+
+  const d = parseField(dow, FIELD_SPECS.dow);
+  // 7 is an alias for Sunday
+  const daysOfWeek = [...new Set(d.values.map((v) => (v === 7 ? 0 : v)))].sort((a, b) => a - b);
+  const domField = parseField(dom, FIELD_SPECS.dom);
+
+  return {
+    seconds: parseField(sec, FIELD_SPECS.sec).values,
+    minutes: parseField(min, FIELD_SPECS.min).values,
+    hours: parseField(hour, FIELD_SPECS.hour).values,
+    daysOfMonth: domField.values,
+    months: parseField(mon, FIELD_SPECS.mon).values,
+    daysOfWeek,
+    domAny: domField.any,
+    dowAny: d.any,
+  };
+}
+
+/** Returns an error message, or null if the expression is valid. */
+export function validateCron(expr: string): string | null {
+  try {
+    parseCron(expr);
+    return null;
+  } catch (e: any) {
+    return e instanceof CronParseError ? e.message : String(e);
+  }
+}
+
+// ── Timezones ────────────────────────────────────────────
+
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Offset (ms) of `tz` from UTC at the given instant. */
+function tzOffset(instant: number, tz: string): number {
+  let fmt = offsetFormatters.get(tz);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    offsetFormatters.set(tz, fmt);
+  }
+  const p: Record<string, number> = {};
+  for (const part of fmt.formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') p[part.type] = parseInt(part.value, 10);
+  }
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour % 24, p.minute, p.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/** Convert a wall-clock time in `tz` to a UTC instant (null if it falls in a DST gap). */
+function zonedToUtc(y: number, mo: number, d: number, h: number, mi: number, s: number, tz: string): number | null {
+  const wall = Date.UTC(y, mo - 1, d, h, mi, s);
+  let instant = wall - tzOffset(wall, tz);
+  // Second pass settles instants near a DST transition
+  instant = wall - tzOffset(instant, tz);
+  return instant + tzOffset(instant, tz) === wall ? instant : null;
+}
+
+/**
+ * Like zonedToUtc, but a wall-clock time skipped by a DST jump moves forward
+ * by the length of the jump (02:30 → 03:30), as cron daemons and Temporal's
+ * "compatible" disambiguation do.
+ */
+function zonedToUtcForward(y: number, mo: number, d: number, h: number, mi: number, s: number, tz: string): number {
+  const wall = Date.UTC(y, mo - 1, d, h, mi, s);
+  // Twelve hours earlier is safely before the jump — its offset is the old one
+  return zonedToUtc(y, mo, d, h, mi, s, tz) ?? wall - tzOffset(wall - 12 * 3_600_000, tz);
+}
+
+/**
+ * Interpret a `datetime-local` value ("YYYY-MM-DDTHH:mm") as wall-clock time in `tz`.
+ * Returns UTC ms, or null for malformed input / a DST gap.
+ */
+export function wallClockToUtc(value: string, tz: string): number | null {
+  const m = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/);
+  if (!m) return null;
+  const zone = isValidTimeZone(tz) ? tz : 'UTC';
+  return zonedToUtc(+m[1], +m[2], +m[3], +m[4], +m[5], 0, zone);
+}
+
+/** Inverse of wallClockToUtc — UTC ms → "YYYY-MM-DDTHH:mm" in `tz`. */
+export function utcToWallClock(ms: number, tz: string): string {
+  const zone = isValidTimeZone(tz) ? tz : 'UTC';
+  return new Date(ms + tzOffset(ms, zone)).toISOString().slice(0, 16);
+}
+
+// ── Next fire times ──────────────────────────────────────
+
+/**
+ * Next `count` fire times (UTC ms) for a cron expression, evaluated in `tz`.
+ * Searches up to 5 years ahead so impossible dates (e.g. Feb 30) terminate.
+ */
+export function nextCronRuns(expr: string, tz = 'UTC', count = 5, from = Date.now()): number[] {
+  const cron = parseCron(expr);
+  const zone = isValidTimeZone(tz) ? tz : 'UTC';
+  const results: number[] = [];
+
+  // Walk calendar days in the target zone's wall-clock
+  const start = new Date(from + tzOffset(from, zone));
+  let day = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+
+  for (let i = 0; i < 366 * 5 && results.length < count; i++, day += 86_400_000) {
+    const date = new Date(day);
+    const y = date.getUTCFullYear(), mo = date.getUTCMonth() + 1, d = date.getUTCDate(), dow = date.getUTCDay();
+    if (!cron.months.includes(mo)) continue;
+
+    const domOk = cron.daysOfMonth.includes(d);
+    const dowOk = cron.daysOfWeek.includes(dow);
+    const dayOk = cron.domAny || cron.dowAny ? domOk && dowOk : domOk || dowOk;
+    if (!dayOk) continue;
+
+    // Same offset at both ends of the day → no DST switch, convert arithmetically
+    const offStart = tzOffset(day, zone);
+    const stable = offStart === tzOffset(day + 86_399_000 - offStart, zone);
+
+    if (stable) {
+      for (const h of cron.hours) {
+        for (const mi of cron.minutes) {
+          for (const s of cron.seconds) {
+            const at = Date.UTC(y, mo - 1, d, h, mi, s) - offStart;
+            if (at <= from) continue;
+            results.push(at);
+            if (results.length >= count) return results;
+          }
+        }
+      }
+      continue;
+    }
+
+    // DST switch today — times in a gap move forward, so they can land on
+    // (or past) a later time of the same day: sort and drop repeats
+    const dayRuns = new Set<number>();
+    for (const h of cron.hours) {
+      for (const mi of cron.minutes) {
+        for (const s of cron.seconds) dayRuns.add(zonedToUtcForward(y, mo, d, h, mi, s, zone));
+      }
+    }
+    for (const at of [...dayRuns].sort((a, b) => a - b)) {
+      if (at <= from || at <= (results[results.length - 1] ?? -Infinity)) continue;
+      results.push(at);
+      if (results.length >= count) return results;
+    }
+  }
+  return results;
+}
+
+/**
+ * Next fire times for any Gateway schedule shape.
+ * `every` anchors on the job's known next run (if any), else `anchorMs`, else now.
+ */
+export function nextScheduleRuns(schedule: any, count = 5, knownNextMs?: number, from = Date.now()): number[] {
+  if (!schedule) return [];
+  if (schedule.kind === 'cron') return nextCronRuns(schedule.expr, schedule.tz || 'UTC', count, from);
+  if (schedule.kind === 'at') {
+    const at = typeof schedule.atMs === 'number' ? schedule.atMs : new Date(schedule.at).getTime();
+    return !isNaN(at) && at > from ? [at] : [];
+  }
+  if (schedule.kind === 'every') {
+    const every = schedule.everyMs || 0;
+    if (every <= 0) return [];
+    let first = knownNextMs || (schedule.anchorMs ? schedule.anchorMs : from + every);
+    // Step to the first run strictly after `from` — a run landing on `from` is already due
+    if (first <= from) first += (Math.floor((from - first) / every) + 1) * every;
+    return Array.from({ length: count }, (_, i) => first + i * every);
+  }
+  return [];
+}
+
+// ── Human-readable descriptions ──────────────────────────
+
+const tr = (key: string, opts?: Record<string, unknown>) => i18n.t(`cronSchedule.${key}`, opts);
+
+/** Localized names and times — fixed UTC dates, so only the field matters */
+const fmtName = (ms: number, opts: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat(i18n.language, { ...opts, timeZone: 'UTC' }).format(ms);
+const weekdayName = (d: number) => fmtName(Date.UTC(2000, 0, 2 + d), { weekday: 'long' }); // 2000-01-02 was a Sunday
+const monthName = (m: number, month: 'long' | 'short' = 'long') => fmtName(Date.UTC(2000, m - 1, 1), { month });
+const fmtTime = (h: number, m: number) => fmtName(Date.UTC(2000, 0, 1, h, m), { hour: 'numeric', minute: '2-digit' });
+const ordinal = (n: number) => tr('dayOrdinal', { count: n, ordinal: true });
+
+/** Collapse sorted values into "1–5, 7" style runs */
+function joinRuns(values: number[], label: (v: number) => string): string {
+  const out: string[] = [];
+  for (let i = 0; i < values.length; i++) {
+    let j = i;
+    while (j + 1 < values.length && values[j + 1] === values[j] + 1) j++;
+    out.push(j - i >= 2 ? tr('through', { from: label(values[i]), to: label(values[j]) })
+      : values.slice(i, j + 1).map(label).join(tr('separator')));
+    i = j;
+  }
+  return out.join(tr('separator'));
+}
+
+/** Detect a uniform step ("every N") across the whole field range */
+function stepOf(values: number[], min: number, max: number): number | null {
+  if (values.length < 2 || values[0] !== min) return null;
+  const step = values[1] - values[0];
+  for (let i = 1; i < values.length; i++) if (values[i] - values[i - 1] !== step) return null;
+  return values[values.length - 1] + step > max ? step : null;
+}
+
+/**
+ * Full sentence for a cron expression in the UI language, e.g.
+ *   "0 9 * * 1-5"   → "At 9:00 AM, Monday through Friday"
+ *   "*\/15 * * * *"  → "Every 15 minutes"
+ * Returns null if the expression doesn't parse.
+ */
+export function describeCron(expr: string): string | null {
+  let c: ParsedCron;
+  try { c = parseCron(expr); } catch { return null; }
+
+  const allMinutes = c.minutes.length === 60;
+  const allHours = c.hours.length === 24;
+  const minStep = stepOf(c.minutes, 0, 59);
+  const hourStep = stepOf(c.hours, 0, 23);
+
+  const zeroSeconds = c.seconds.length === 1 && c.seconds[0] === 0;
+  // A handful of fixed times reads better as a list ("At 9:00 AM, 5:30 PM")
+  const fixedTimes = zeroSeconds && !allHours && !allMinutes && !minStep
+    && c.hours.length * c.minutes.length <= 4;
+
+  let time: string;
+  if (!zeroSeconds) {
+    const secStep = stepOf(c.seconds, 0, 59);
+    time = c.seconds.length === 60 ? tr('everySecond')
+      : secStep ? tr('everyNSeconds', { n: secStep }) : tr('atSecond', { list: joinRuns(c.seconds, String) });
+    if (!allMinutes) time += tr('separator') + tr('atMinuteSuffix', { list: joinRuns(c.minutes, String) });
+  } else if (fixedTimes) {
+    time = tr('atTimes', { list: c.hours.flatMap((h) => c.minutes.map((m) => fmtTime(h, m))).join(tr('separator')) });
+  } else if (allMinutes) {
+    time = tr('everyMinute');
+  } else if (minStep) {
+    time = tr('everyNMinutes', { n: minStep });
+  } else {
+    time = c.minutes.length === 1 && c.minutes[0] === 0 ? tr('topOfHour')
+      : tr('atMinute', { list: joinRuns(c.minutes, String) });
+  }
+
+  const parts = [time];
+  if (!allHours && !fixedTimes) {
+    parts.push(hourStep ? tr('everyNHours', { n: hourStep }) : tr('duringHour', { list: joinRuns(c.hours, String) }));
+  }
+
+  if (!c.domAny) parts.push(tr('onDays', { list: joinRuns(c.daysOfMonth, ordinal) }));
+  if (!c.dowAny) {
+    const days = joinRuns(c.daysOfWeek, weekdayName);
+    parts.push(c.domAny ? days : tr('orWeekdays', { list: days }));
+  }
+  if (c.months.length < 12) parts.push(tr('inMonths', { list: joinRuns(c.months, (m) => monthName(m)) }));
+
+  return parts.join(tr('separator'));
+}
+
+const NUM = /^\d+$/;
+
+/** Short schedule label (job lists, detail header). */
+export function formatSchedule(schedule: any): string {
+  if (!schedule) return '—';
+  if (schedule.kind === 'every') {
+    const mins = Math.round((schedule.everyMs || 0) / 60000);
+    if (mins < 60) return tr('everyMinutesShort', { m: mins });
+    const h = Math.floor(mins / 60), m = mins % 60;
+    return m > 0 ? tr('everyHoursMinutesShort', { h, m }) : tr('everyHoursShort', { h });
+  }
+  if (schedule.kind === 'at') return new Date(schedule.atMs ?? schedule.at).toLocaleString();
+  if (schedule.kind === 'cron') {
+    const expr: string = schedule.expr || '';
+    const parts = expr.trim().split(/\s+/);
+    // Short forms only for the plain shapes — anything with lists, ranges,
+    // steps or a weekday gets the full sentence
+    if (parts.length === 5 && parts[4] === '*') {
+      const [min, hour, dom, mon] = parts;
+      const step = /^\*\/(\d+)$/.exec(hour);
+      if (min === '0' && step && dom === '*' && mon === '*') return tr('everyHoursShort', { h: +step[1] });
+      if (NUM.test(min) && NUM.test(hour) && +min < 60 && +hour < 24) {
+        const time = fmtTime(+hour, +min);
+        if (dom === '*' && mon === '*') return tr('daily', { time });
+        if (NUM.test(dom) && mon === '*') return tr('monthly', { day: ordinal(+dom), time });
+        if (NUM.test(dom) && NUM.test(mon) && +mon >= 1 && +mon <= 12) {
+          return tr('yearly', { month: monthName(+mon, 'short'), day: +dom, time });
+        }
+      }
+    }
+    return describeCron(expr) ?? expr;
+  }
+  return '—';
+}
+
+/** Long description — formatSchedule plus timezone / anchor details (editor preview). */
+export function describeSchedule(schedule: any): string {
+  if (!schedule) return '—';
+  if (schedule.kind === 'cron') {
+    const desc = describeCron(schedule.expr);
+    if (!desc) return schedule.expr || '—';
+    return schedule.tz ? `${desc} (${schedule.tz})` : desc;
+  }
+  if (schedule.kind === 'every') {
+    const base = formatSchedule(schedule);
+    return schedule.anchorMs
+      ? tr('startingAt', { schedule: base, time: new Date(schedule.anchorMs).toLocaleString() })
+      : base;
+  }
+  if (schedule.kind === 'at') return tr('onceAt', { time: formatSchedule(schedule) });
+  return formatSchedule(schedule);
+}
@@ -0,0 +1,115 @@
+// ═══════════════════════════════════════════════════════════
+// Diff — line diff for text views (Gateway Config, tool edits, artifacts)
+//
+// Longest-common-subsequence over lines, after trimming the common
+// head and tail. Good enough for configs of a few thousand lines;
+// past MAX_CELLS the middle is shown as one removed + added block.
+// ═══════════════════════════════════════════════════════════
+
+export type DiffOp = 'same' | 'add' | 'del';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  /** 1-based line in the old text (same / del) */
+  oldNo?: number;
+  /** 1-based line in the new text (same / add) */
+  newNo?: number;
+}
+
+export interface DiffHunk {
+  lines: DiffLine[];
+  /** Unchanged lines folded away before this hunk */
+  skippedBefore: number;
+}
+
+const MAX_CELLS = 4_000_000;
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const out: DiffLine[] = [];
+  for (let i = 0; i < head; i++) out.push({ op: 'same', text: a[i], oldNo: i + 1, newNo: i + 1 });
+
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_CELLS) {
+    midA.forEach((text, i) => out.push({ op: 'del', text, oldNo: head + i + 1 }));
+    midB.forEach((text, j) => out.push({ op: 'add', text, newNo: head + j + 1 }));
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        out.push({ op: 'same', text: midA[i], oldNo: head + i + 1, newNo: head + j + 1 });
+        i++; j++;
+      } else if (j < m && (i >= n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+        out.push({ op: 'add', text: midB[j], newNo: head + j + 1 });
+        j++;
+      } else {
+        out.push({ op: 'del', text: midA[i], oldNo: head + i + 1 });
+        i++;
+      }
+    }
+  }
+
+  for (let k = tail; k > 0; k--) {
+    out.push({ op: 'same', text: a[a.length - k], oldNo: a.length - k + 1, newNo: b.length - k + 1 });
+  }
+  return out;
+}
+
+/** Changed lines with `context` unchanged lines around them */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const keep = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, i) => {
+    if (line.op === 'same') return;
+    for (let k = Math.max(0, i - context); k <= Math.min(lines.length - 1, i + context); k++) keep[k] = true;
+  });
+
+  const hunks: DiffHunk[] = [];
+  let skipped = 0;
+  let current: DiffHunk | null = null;
+  lines.forEach((line, i) => {
+    if (!keep[i]) {
+      current = null;
+      skipped++;
+      return;
+    }
+    if (!current) {
+      current = { lines: [], skippedBefore: skipped };
+      hunks.push(current);
+      skipped = 0;
+    }
+    current.lines.push(line);
+  });
+  return hunks;
+}
+
+export function diffStats(lines: DiffLine[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of lines) {
+    if (line.op === 'add') added++;
+    else if (line.op === 'del') removed++;
+  }
+  return { added, removed };
+}
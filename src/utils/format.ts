@@ -53,3 +53,10 @@ export function formatUptime(ms: number): string {
   const m = Math.floor((ms % 3600000) / 60000);
   return m > 0 ? i18n.t('format.uptimeHoursMinutes', { h, m }) : i18n.t('format.uptimeHoursOnly', { h });
 }
+
+/** Byte sizes: 512 → "512 B", 2048 → "2.0 KB", 3145728 → "3.0 MB" */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1048576) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1048576).toFixed(1)} MB`;
+}
@@ -0,0 +1,70 @@
+// ═══════════════════════════════════════════════════════════
+// Media — resolve chat media sources to something <audio> can play
+// Used by AudioPlayer and push-to-talk reply playback.
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * A playable URL for a message's media source. aegis-media: paths (the
+ * gateway's MEDIA: lines) are read over IPC, or fetched from the TTS
+ * HTTP server for sandbox /tmp paths; other sources pass through.
+ * Null when the audio can't be loaded.
+ */
+export async function resolveAudioSrc(src: string): Promise<string | null> {
+  if (!src.startsWith('aegis-media:')) {
+    return src.startsWith('data:') || src.startsWith('http') || src.startsWith('blob:') ? src : null;
+  }
+  let filePath = src.replace('aegis-media:', '');
+
+  // Sandbox /tmp/ paths → serve via TTS HTTP server (port configurable via IPC)
+  if (filePath.startsWith('/tmp/tts-') || filePath.startsWith('/tmp/')) {
+    const fileName = filePath.split('/').pop();
+    const ttsPort = localStorage.getItem('aegis-tts-port') || '5050';
+    const httpUrl = `http://localhost:${ttsPort}/audio/${fileName}`;
+    console.log('[Media] 🔊 Resolving sandbox path via HTTP:', httpUrl);
+
+    // Try HTTP fetch from Edge TTS server
+    try {
+      const r = await fetch(httpUrl, { method: 'HEAD' });
+      if (r.ok) {
+        console.log('[Media] ✅ HTTP audio available:', httpUrl);
+        return httpUrl;
+      }
+      console.warn('[Media] ⚠️ HTTP 404 — file not yet copied to shared folder');
+    } catch {
+      console.warn('[Media] ⚠️ Edge TTS server unreachable');
+    }
+    return null;
+  }
+
+  // Convert Docker/Linux mount paths to native paths via IPC (platform-agnostic)
+  // These paths come from Docker container mounts and need native resolution
+  if (filePath.startsWith('/host-')) {
+    // Extract drive letter from mount prefix: /host-d/ → D:\, /host-c/ → C:\
+    const match = filePath.match(/^\/host-([a-z])\/(.*)/i);
+    if (match) {
+      const driveLetter = match[1].toUpperCase();
+      filePath = `${driveLetter}:\\${match[2].replace(/\//g, '\\')}`;
+    }
+  }
+
+  console.log('[Media] Loading media via IPC:', filePath);
+
+  if (!window.aegis?.voice?.read) {
+    console.error('[Media] No voice.read IPC available');
+    return null;
+  }
+  try {
+    const base64 = await window.aegis.voice.read(filePath);
+    if (!base64) {
+      console.error('[Media] ❌ No data returned for:', filePath);
+      return null;
+    }
+    const ext = filePath.split('.').pop()?.toLowerCase() || 'mp3';
+    const mime = ext === 'mp3' ? 'audio/mpeg' : ext === 'ogg' ? 'audio/ogg' : ext === 'wav' ? 'audio/wav' : 'audio/webm';
+    console.log('[Media] ✅ Loaded via IPC, size:', Math.round(base64.length / 1024), 'KB');
+    return `data:${mime};base64,${base64}`;
+  } catch (err: any) {
+    console.error('[Media] ❌ Read failed:', err);
+    return null;
+  }
+}
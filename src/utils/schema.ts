@@ -0,0 +1,156 @@
+// ═══════════════════════════════════════════════════════════
+// Schema — tiny runtime validators for JSON we don't control
+//
+// A schema checks and normalizes in one pass. parse() never throws:
+// it returns the most useful value it can and records each mismatch
+// as an issue { path, expected, received }. Objects keep fields the
+// schema doesn't mention, so a server adding fields is not drift.
+//   • required field with the wrong type → kept as-is, issue recorded
+//   • optional field with the wrong type → dropped, issue recorded
+//   • array that isn't an array           → [], issue recorded
+// ═══════════════════════════════════════════════════════════
+
+export interface SchemaIssue {
+  /** e.g. "sessions[].model" — array indexes collapse to [] */
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export interface Schema<T> {
+  readonly expected: string;
+  parse(value: unknown, path: string, issues: SchemaIssue[]): T;
+}
+
+export function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  v !== null && typeof v === 'object' && !Array.isArray(v);
+
+const join = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+function primitive<T>(expected: string, test: (v: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    parse(value, path, issues) {
+      if (!test(value)) issues.push({ path, expected, received: describeValue(value) });
+      return value as T;
+    },
+  };
+}
+
+// ── Primitives ───────────────────────────────────────────
+
+export const str = primitive<string>('string', (v) => typeof v === 'string');
+export const num = primitive<number>('number', (v) => typeof v === 'number' && Number.isFinite(v));
+export const bool = primitive<boolean>('boolean', (v) => typeof v === 'boolean');
+/** Anything — documents a field without checking it */
+export const unknownValue: Schema<any> = { expected: 'any', parse: (v) => v };
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return primitive<T>(values.map((v) => `"${v}"`).join(' | '), (v) => values.includes(v as T));
+}
+
+// ── Combinators ──────────────────────────────────────────
+
+/** null counts as absent — gateways send both */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected}?`,
+    parse(value, path, issues) {
+      if (value === undefined || value === null) return undefined;
+      const own: SchemaIssue[] = [];
+      const parsed = schema.parse(value, path, own);
+      if (own.length === 0) return parsed;
+      issues.push(...own);
+      // Only this field was wrong — drop it rather than hand out a bad value
+      return own.some((i) => i.path === path) ? undefined : parsed;
+    },
+  };
+}
+
+/** A missing value is a valid answer (null), not drift */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} | null`,
+    parse: (value, path, issues) => (value === undefined || value === null ? null : schema.parse(value, path, issues)),
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    parse(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: `${item.expected}[]`, received: describeValue(value) });
+        return [];
+      }
+      return value.map((v) => item.parse(v, `${path}[]`, issues));
+    },
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return {
+    expected: `Record<string, ${item.expected}>`,
+    parse(value, path, issues) {
+      if (!isObject(value)) {
+        issues.push({ path, expected: 'object', received: describeValue(value) });
+        return {};
+      }
+      const out: Record<string, T> = {};
+      for (const [k, v] of Object.entries(value)) out[k] = item.parse(v, join(path, '*'), issues);
+      return out;
+    },
+  };
+}
+
+/**
+ * Object with known fields; unknown fields pass through untouched.
+ * T is declared by the caller — the interface stays the source of truth
+ * for compile-time types, the field map for what is checked at runtime.
+ */
+export function object<T>(fields: Record<string, Schema<unknown>>, expected = 'object'): Schema<T> {
+  return {
+    expected,
+    parse(value, path, issues) {
+      if (!isObject(value)) {
+        issues.push({ path, expected, received: describeValue(value) });
+        return {} as T;
+      }
+      const out: Record<string, unknown> = { ...value };
+      for (const [key, schema] of Object.entries(fields)) {
+        const parsed = schema.parse(value[key], join(path, key), issues);
+        if (parsed !== undefined || key in value) out[key] = parsed;
+      }
+      return out as T;
+    },
+  };
+}
+
+/** First schema that matches without issues wins */
+export function union<T>(...schemas: Schema<any>[]): Schema<T> {
+  const expected = schemas.map((s) => s.expected).join(' | ');
+  return {
+    expected,
+    parse(value, path, issues) {
+      for (const schema of schemas) {
+        const own: SchemaIssue[] = [];
+        const parsed = schema.parse(value, path, own);
+        if (own.length === 0) return parsed;
+      }
+      issues.push({ path, expected, received: describeValue(value) });
+      return value as T;
+    },
+  };
+}
+
+/** Run a schema and collect its issues */
+export function check<T>(schema: Schema<T>, value: unknown): { value: T; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  return { value: schema.parse(value, '', issues), issues };
+}
@@ -0,0 +1,41 @@
+// ═══════════════════════════════════════════════════════════
+// AEGIS Terminal Theme (matches dark/light palette)
+// Shared by the integrated terminal (xterm.js) and the tool
+// inspector's read-only exec output view.
+// ═══════════════════════════════════════════════════════════
+
+import type { ITheme } from '@xterm/xterm';
+
+export function getTerminalTheme(): ITheme {
+  const isLight = document.documentElement.classList.contains('light');
+
+  return {
+    background: isLight ? '#edeef2' : '#0a0a14',
+    foreground: isLight ? '#1e2030' : '#d4d4d8',
+    cursor: isLight ? '#1e2030' : '#4EC9B0',
+    cursorAccent: isLight ? '#edeef2' : '#0a0a14',
+    selectionBackground: isLight ? 'rgba(40,82,185,0.2)' : 'rgba(78,201,176,0.2)',
+    black: isLight ? '#1e2030' : '#1a1a2e',
+    red: isLight ? '#c81e1e' : '#f87171',
+    green: isLight ? '#108c3c' : '#4ade80',
+    yellow: isLight ? '#aa7300' : '#fbbf24',
+    blue: isLight ? '#2852b9' : '#60a5fa',
+    magenta: isLight ? '#9333ea' : '#c084fc',
+    cyan: isLight ? '#058064' : '#4EC9B0',
+    white: isLight ? '#6b7280' : '#d4d4d8',
+    brightBlack: isLight ? '#9ca3af' : '#52525b',
+    brightRed: isLight ? '#ef4444' : '#fca5a5',
+    brightGreen: isLight ? '#22c55e' : '#86efac',
+    brightYellow: isLight ? '#eab308' : '#fde68a',
+    brightBlue: isLight ? '#3b82f6' : '#93bbfd',
+    brightMagenta: isLight ? '#a855f7' : '#d8b4fe',
+    brightCyan: isLight ? '#06b6d4' : '#67e8f9',
+    brightWhite: isLight ? '#1e2030' : '#fafafa',
+  };
+}
+
+/** ANSI palette order — SGR 30–37 / 90–97 index into this */
+export const ANSI_COLOR_NAMES = [
+  'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white',
+  'brightBlack', 'brightRed', 'brightGreen', 'brightYellow', 'brightBlue', 'brightMagenta', 'brightCyan', 'brightWhite',
+] as const;